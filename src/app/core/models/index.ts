@@ -1 +1,6 @@
-export * from './loop.model';
\ No newline at end of file
+export * from './loop.model';
+export * from './loop.migrations';
+export * from './marker.model';
+export * from './loop-group.model';
+export * from './loop-nesting.model';
+export * from './review-schedule.model';
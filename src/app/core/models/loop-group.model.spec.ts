@@ -0,0 +1,52 @@
+import { assignLoopToGroup, createLoopGroup, DEFAULT_GROUP_COLOR, normalizeLoopGroups, removeLoopFromGroups } from './loop-group.model';
+import { LoopGroup } from './loop.model';
+
+describe('Loop group model', () => {
+  const createdAt = new Date('2024-03-01T10:00:00.000Z');
+  const groups: LoopGroup[] = [
+    { id: 'g-verse', name: 'Couplets', color: '#10B981', loops: ['l1', 'l2'], createdAt, updatedAt: createdAt },
+    { id: 'g-chorus', name: 'Refrains', color: '#EF4444', loops: ['l3'], createdAt, updatedAt: createdAt }
+  ];
+
+  it('should create an empty group with a default name and color', () => {
+    const group = createLoopGroup('   ');
+
+    expect(group.id).toMatch(/^group-/);
+    expect(group.name).toBe('Groupe');
+    expect(group.color).toBe(DEFAULT_GROUP_COLOR);
+    expect(group.loops).toEqual([]);
+  });
+
+  it('should move a loop to another group at the requested position', () => {
+    const moved = assignLoopToGroup(groups, 'l2', 'g-chorus', 0);
+
+    expect(moved[0]!.loops).toEqual(['l1']);
+    expect(moved[1]!.loops).toEqual(['l2', 'l3']);
+
+    const reordered = assignLoopToGroup(groups, 'l1', 'g-verse');
+    expect(reordered[0]!.loops).toEqual(['l2', 'l1']);
+  });
+
+  it('should take a loop out of every group', () => {
+    const ungrouped = removeLoopFromGroups(groups, 'l3');
+
+    expect(ungrouped[1]!.loops).toEqual([]);
+    expect(ungrouped[0]).toBe(groups[0]!);
+  });
+
+  it('should drop unknown loops and keep a loop in a single group when loading', () => {
+    const stored = JSON.parse(JSON.stringify([
+      { ...groups[0], loops: ['l1', 'deleted', 'l2'] },
+      { ...groups[1], loops: ['l2', 'l3'], description: '  ' },
+      { name: 'Sans identifiant', loops: ['l1'] },
+      null
+    ]));
+
+    const normalized = normalizeLoopGroups(stored, ['l1', 'l2', 'l3']);
+
+    expect(normalized.map(group => group.loops)).toEqual([['l1', 'l2'], ['l3']]);
+    expect(normalized[0]!.createdAt).toEqual(createdAt);
+    expect(normalized[1]!.description).toBeUndefined();
+    expect(normalizeLoopGroups(undefined, [])).toEqual([]);
+  });
+});
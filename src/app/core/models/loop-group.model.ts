@@ -0,0 +1,149 @@
+import { LoopGroup } from './loop.model';
+
+// Longueur maximale du nom d'un groupe
+export const MAX_GROUP_NAME_LENGTH = 50;
+
+// Couleur d'un groupe créé sans couleur
+export const DEFAULT_GROUP_COLOR = '#8B5CF6';
+
+/**
+ * Crée un groupe vide
+ * @param name - Nom du groupe, « Groupe » s'il est vide
+ * @param color - Couleur du groupe (optionnelle)
+ * @returns Nouveau groupe avec un identifiant unique
+ */
+export function createLoopGroup(name: string, color?: string): LoopGroup {
+  const now = new Date();
+  return {
+    id: `group-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    name: normalizeGroupName(name),
+    color: color || DEFAULT_GROUP_COLOR,
+    loops: [],
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+/**
+ * Applique un nouveau nom, une couleur ou une description à un groupe
+ * @returns Groupe modifié
+ */
+export function updateLoopGroup(
+  group: LoopGroup,
+  changes: { name?: string; color?: string; description?: string }
+): LoopGroup {
+  const updated: LoopGroup = {
+    ...group,
+    ...(changes.name !== undefined && { name: normalizeGroupName(changes.name) }),
+    ...(changes.color && { color: changes.color }),
+    updatedAt: new Date()
+  };
+
+  if (changes.description !== undefined) {
+    const description = changes.description.trim();
+    if (description) {
+      updated.description = description;
+    } else {
+      delete updated.description;
+    }
+  }
+  return updated;
+}
+
+/**
+ * Range une boucle dans un groupe : une boucle n'appartient qu'à un seul groupe
+ * @param groups - Groupes existants
+ * @param loopId - Boucle à déplacer
+ * @param groupId - Groupe cible, null pour sortir la boucle de tout groupe
+ * @param index - Position dans le groupe cible, à la fin par défaut
+ * @returns Nouvelle liste de groupes
+ */
+export function assignLoopToGroup(
+  groups: readonly LoopGroup[],
+  loopId: string,
+  groupId: string | null,
+  index?: number
+): LoopGroup[] {
+  const now = new Date();
+
+  return groups.map(group => {
+    const wasMember = group.loops.includes(loopId);
+    if (group.id !== groupId) {
+      return wasMember ? { ...group, loops: group.loops.filter(id => id !== loopId), updatedAt: now } : group;
+    }
+
+    const loops = group.loops.filter(id => id !== loopId);
+    const position = index === undefined ? loops.length : Math.max(0, Math.min(index, loops.length));
+    loops.splice(position, 0, loopId);
+    return { ...group, loops, updatedAt: now };
+  });
+}
+
+/**
+ * Retire une boucle supprimée de tous les groupes
+ */
+export function removeLoopFromGroups(groups: readonly LoopGroup[], loopId: string): LoopGroup[] {
+  return assignLoopToGroup(groups, loopId, null);
+}
+
+/**
+ * Groupe contenant une boucle
+ * @returns Le groupe, null si la boucle n'est dans aucun groupe
+ */
+export function findLoopGroup(groups: readonly LoopGroup[], loopId: string): LoopGroup | null {
+  return groups.find(group => group.loops.includes(loopId)) ?? null;
+}
+
+/**
+ * Nettoie les groupes lus depuis le stockage ou un import : entrées sans
+ * identifiant ignorées, boucles inconnues retirées, une boucle gardée
+ * dans le premier groupe qui la cite
+ * @param groups - Données stockées
+ * @param loopIds - Identifiants des boucles existantes
+ * @returns Groupes valides
+ */
+export function normalizeLoopGroups(groups: unknown, loopIds: readonly string[]): LoopGroup[] {
+  if (!Array.isArray(groups)) {
+    return [];
+  }
+
+  const known = new Set(loopIds);
+  const assigned = new Set<string>();
+
+  return groups
+    .filter((group): group is Partial<LoopGroup> => typeof group === 'object' && group !== null)
+    .filter(group => typeof group.id === 'string' && group.id !== '')
+    .map(group => {
+      const loops = (Array.isArray(group.loops) ? group.loops : [])
+        .filter((id): id is string => typeof id === 'string' && known.has(id) && !assigned.has(id));
+      loops.forEach(id => assigned.add(id));
+
+      const normalized: LoopGroup = {
+        id: group.id!,
+        name: normalizeGroupName(String(group.name ?? '')),
+        color: typeof group.color === 'string' && group.color ? group.color : DEFAULT_GROUP_COLOR,
+        loops,
+        createdAt: toDate(group.createdAt),
+        updatedAt: toDate(group.updatedAt)
+      };
+      if (typeof group.description === 'string' && group.description.trim()) {
+        normalized.description = group.description.trim();
+      }
+      return normalized;
+    });
+}
+
+/**
+ * Nom nettoyé et tronqué, « Groupe » s'il est vide
+ */
+function normalizeGroupName(name: string): string {
+  return (name || '').trim().slice(0, MAX_GROUP_NAME_LENGTH) || 'Groupe';
+}
+
+/**
+ * Date relue depuis du JSON, maintenant si elle est absente ou invalide
+ */
+function toDate(value: unknown): Date {
+  const date = value instanceof Date ? value : new Date(String(value ?? ''));
+  return Number.isNaN(date.getTime()) ? new Date() : date;
+}
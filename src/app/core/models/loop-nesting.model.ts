@@ -0,0 +1,112 @@
+import { LoopSegment } from '@shared/interfaces/loop.types';
+
+type LoopRange = Pick<LoopSegment, 'startTime' | 'endTime'>;
+type NestedLoop = Pick<LoopSegment, 'id' | 'parentLoopId'>;
+
+/**
+ * Boucle parente d'une sous-boucle
+ * @returns La boucle parente, null pour une boucle de premier niveau ou un parent introuvable
+ */
+export function getParentLoop<T extends NestedLoop>(loop: Pick<LoopSegment, 'parentLoopId'>, loops: readonly T[]): T | null {
+  if (!loop.parentLoopId) {
+    return null;
+  }
+  return loops.find(candidate => candidate.id === loop.parentLoopId) ?? null;
+}
+
+/**
+ * Ancêtres d'une boucle, du parent direct à la boucle de premier niveau
+ * (la remontée s'arrête si les données stockées forment un cycle)
+ */
+export function getLoopAncestors<T extends NestedLoop>(loop: NestedLoop, loops: readonly T[]): T[] {
+  const ancestors: T[] = [];
+  const visited = new Set<string>([loop.id]);
+  let parent = getParentLoop(loop, loops);
+
+  while (parent && !visited.has(parent.id)) {
+    ancestors.push(parent);
+    visited.add(parent.id);
+    parent = getParentLoop(parent, loops);
+  }
+  return ancestors;
+}
+
+/**
+ * Sous-boucles d'une boucle, à tous les niveaux
+ */
+export function getLoopDescendants<T extends NestedLoop>(loopId: string, loops: readonly T[]): T[] {
+  const descendants: T[] = [];
+  const visited = new Set<string>([loopId]);
+  const pending = [loopId];
+
+  while (pending.length > 0) {
+    const parentId = pending.shift()!;
+    for (const loop of loops) {
+      if (loop.parentLoopId === parentId && !visited.has(loop.id)) {
+        visited.add(loop.id);
+        descendants.push(loop);
+        pending.push(loop.id);
+      }
+    }
+  }
+  return descendants;
+}
+
+/**
+ * Niveau d'imbrication : 0 pour une boucle de premier niveau
+ */
+export function getLoopDepth(loop: NestedLoop, loops: readonly NestedLoop[]): number {
+  return getLoopAncestors(loop, loops).length;
+}
+
+/**
+ * Vérifie qu'un intervalle tient dans les bornes d'une boucle
+ */
+export function isWithinLoop(range: LoopRange, parent: LoopRange): boolean {
+  return range.startTime >= parent.startTime && range.endTime <= parent.endTime;
+}
+
+/**
+ * Vérifie si l'une des deux boucles contient l'autre par filiation
+ * (une sous-boucle chevauche normalement ses ancêtres)
+ */
+export function areNestedLoops(a: NestedLoop, b: NestedLoop, loops: readonly NestedLoop[]): boolean {
+  return getLoopAncestors(a, loops).some(loop => loop.id === b.id) ||
+         getLoopAncestors(b, loops).some(loop => loop.id === a.id);
+}
+
+/**
+ * Rattache les sous-boucles directes d'une boucle supprimée à son propre parent,
+ * ou au premier niveau si elle n'en avait pas
+ * @param loops - Boucles restantes
+ * @param removed - Boucle supprimée
+ * @returns Boucles mises à jour
+ */
+export function reparentSubLoops(loops: readonly LoopSegment[], removed: LoopSegment): LoopSegment[] {
+  return loops.map(loop => {
+    if (loop.parentLoopId !== removed.id) {
+      return loop;
+    }
+
+    const { parentLoopId, ...rest } = loop;
+    return removed.parentLoopId ? { ...rest, parentLoopId: removed.parentLoopId } : rest;
+  });
+}
+
+/**
+ * Décale les sous-boucles d'une boucle déplacée pour qu'elles la suivent
+ * @param loops - Boucles de la session
+ * @param loopId - Boucle déplacée
+ * @param offset - Décalage en secondes
+ * @returns Boucles mises à jour
+ */
+export function shiftSubLoops(loops: readonly LoopSegment[], loopId: string, offset: number): LoopSegment[] {
+  const descendantIds = new Set(getLoopDescendants(loopId, loops).map(loop => loop.id));
+  if (descendantIds.size === 0 || offset === 0) {
+    return [...loops];
+  }
+
+  return loops.map(loop => descendantIds.has(loop.id)
+    ? { ...loop, startTime: loop.startTime + offset, endTime: loop.endTime + offset }
+    : loop);
+}
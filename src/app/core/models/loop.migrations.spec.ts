@@ -0,0 +1,217 @@
+import {
+  LOOP_MIGRATIONS,
+  LOOP_SCHEMA_VERSION,
+  LegacyLoopSegment,
+  fromSessionLoop,
+  migrateLoop,
+  migrateLoopStoragePayload,
+  migrateLoops,
+  toSessionLoop
+} from './loop.migrations';
+import { LoopSegment } from '@shared/interfaces';
+import { SessionLoop } from '../services/storage.types';
+
+describe('Loop migrations', () => {
+  const canonicalLoop: LoopSegment = {
+    id: 'loop-1',
+    name: 'Solo',
+    startTime: 30,
+    endTime: 45,
+    playbackSpeed: 0.75,
+    repeatCount: 4,
+    color: '#FF6B6B',
+    playCount: 12,
+    isActive: true,
+    createdAt: new Date('2024-01-01T10:00:00.000Z'),
+    updatedAt: new Date('2024-01-02T10:00:00.000Z')
+  };
+
+  it('should declare migrations in ascending order up to the current version', () => {
+    const versions = LOOP_MIGRATIONS.map(migration => migration.version);
+
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(versions[versions.length - 1]).toBe(LOOP_SCHEMA_VERSION);
+  });
+
+  describe('migrateLoop', () => {
+    it('should upgrade the legacy core model (repetitions, string dates)', () => {
+      const legacy: LegacyLoopSegment = {
+        id: 'legacy-1',
+        name: 'Intro',
+        startTime: 0,
+        endTime: 12,
+        color: '#4ECDC4',
+        repetitions: 3,
+        createdAt: '2023-05-01T08:00:00.000Z',
+        updatedAt: '2023-05-02T08:00:00.000Z'
+      };
+
+      const loop = migrateLoop(legacy)!;
+
+      expect(loop.repeatCount).toBe(3);
+      expect('repetitions' in loop).toBe(false);
+      expect(loop.playbackSpeed).toBe(1);
+      expect(loop.playCount).toBe(0);
+      expect(loop.isActive).toBe(false);
+      expect(loop.color).toBe('#4ECDC4');
+      expect(loop.createdAt).toEqual(new Date('2023-05-01T08:00:00.000Z'));
+      expect(loop.updatedAt).toEqual(new Date('2023-05-02T08:00:00.000Z'));
+    });
+
+    it('should upgrade a serialized SessionLoop with null optional fields', () => {
+      const loop = migrateLoop({
+        id: 'session-loop',
+        name: null,
+        startTime: 10,
+        endTime: 20,
+        color: null,
+        playCount: 2,
+        isActive: false
+      })!;
+
+      expect(loop.name).toBe('Boucle sans nom');
+      expect(loop.playbackSpeed).toBe(1);
+      expect(loop.playCount).toBe(2);
+      expect('color' in loop).toBe(false);
+    });
+
+    it('should leave a canonical loop unchanged', () => {
+      expect(migrateLoop(canonicalLoop)).toEqual(canonicalLoop);
+    });
+
+    it('should be idempotent', () => {
+      const once = migrateLoop({ id: 'a', name: 'A', startTime: 1, endTime: 5, repetitions: 2 });
+      const twice = migrateLoop(once);
+
+      expect(twice).toEqual(once);
+    });
+
+    it('should keep attributes it does not know about', () => {
+      const loop = migrateLoop({ ...canonicalLoop, customField: 'kept' }) as LoopSegment & { customField?: string };
+
+      expect(loop.customField).toBe('kept');
+    });
+
+    it('should reject unusable records', () => {
+      expect(migrateLoop(null)).toBeNull();
+      expect(migrateLoop('loop')).toBeNull();
+      expect(migrateLoop({ id: '', startTime: 0, endTime: 10 })).toBeNull();
+      expect(migrateLoop({ id: 'x', startTime: 20, endTime: 10 })).toBeNull();
+      expect(migrateLoop({ id: 'x', startTime: -1, endTime: 10 })).toBeNull();
+    });
+
+    it('should drop malformed completion settings stored at v2', () => {
+      const loop = migrateLoop({ ...canonicalLoop, completionAction: 'loop', completionTargetId: '' }, 2)!;
+
+      expect('completionAction' in loop).toBe(false);
+      expect('completionTargetId' in loop).toBe(false);
+      expect(migrateLoop({ ...canonicalLoop, completionAction: 'jump', completionTargetId: 'l2' }, 2)!.completionAction).toBe('jump');
+    });
+
+    it('should drop a malformed speed ramp stored at v3', () => {
+      expect('speedRamp' in migrateLoop({ ...canonicalLoop, speedRamp: 'on' }, 3)!).toBe(false);
+      expect(migrateLoop({ ...canonicalLoop, speedRamp: { startSpeed: 0.5, targetSpeed: 1, increment: 0.05, repetitionsPerStep: 2 } }, 3)!.speedRamp).toBeDefined();
+    });
+
+    it('should drop a malformed pre-roll and count-in stored at v4', () => {
+      const loop = migrateLoop({ ...canonicalLoop, preRoll: -2, countIn: 4 }, 4)!;
+
+      expect('preRoll' in loop).toBe(false);
+      expect('countIn' in loop).toBe(false);
+      expect(migrateLoop({ ...canonicalLoop, preRoll: 1.5, countIn: { beats: 4, bpm: 90 } }, 4)!.preRoll).toBe(1.5);
+    });
+
+    it('should drop a malformed rest gap stored at v5', () => {
+      expect('restGap' in migrateLoop({ ...canonicalLoop, restGap: { mode: 'pause', seconds: 2 } }, 5)!).toBe(false);
+      expect(migrateLoop({ ...canonicalLoop, restGap: { mode: 'gap', seconds: 2 } }, 5)!.restGap).toEqual({ mode: 'gap', seconds: 2 });
+    });
+
+    it('should drop a malformed fade stored at v6', () => {
+      expect('fadeInOut' in migrateLoop({ ...canonicalLoop, fadeInOut: true }, 6)!).toBe(false);
+      expect(migrateLoop({ ...canonicalLoop, fadeInOut: { fadeIn: 0.5, fadeOut: 0.5 } }, 6)!.fadeInOut).toEqual({ fadeIn: 0.5, fadeOut: 0.5 });
+    });
+
+    it('should drop a malformed parent loop stored at v7', () => {
+      expect('parentLoopId' in migrateLoop({ ...canonicalLoop, parentLoopId: 'loop-1' }, 7)!).toBe(false);
+      expect(migrateLoop({ ...canonicalLoop, parentLoopId: 'verse' }, 7)!.parentLoopId).toBe('verse');
+    });
+
+    it('should drop a malformed review schedule stored at v8', () => {
+      const review = { ease: 2.5, interval: 1, repetitions: 1, dueDate: '2024-03-11', lastReviewed: '2024-03-10' };
+
+      expect('review' in migrateLoop({ ...canonicalLoop, review: { ease: 2.5 } }, 8)!).toBe(false);
+      expect(migrateLoop({ ...canonicalLoop, review }, 8)!.review).toEqual(review);
+    });
+
+    it('should skip steps already applied', () => {
+      const loop = migrateLoop({ id: 'a', name: 'A', startTime: 1, endTime: 5, repetitions: 2 }, 1)!;
+
+      expect(loop.repeatCount).toBeUndefined();
+    });
+  });
+
+  describe('migrateLoops', () => {
+    it('should filter invalid entries', () => {
+      const loops = migrateLoops([canonicalLoop, null, { id: 'bad' }]);
+
+      expect(loops.length).toBe(1);
+      expect(loops[0].id).toBe('loop-1');
+    });
+
+    it('should return an empty array for non-array input', () => {
+      expect(migrateLoops(undefined)).toEqual([]);
+    });
+  });
+
+  describe('migrateLoopStoragePayload', () => {
+    it('should upgrade an unversioned LoopService payload', () => {
+      const payload = migrateLoopStoragePayload({
+        videoId: 'dQw4w9WgXcQ',
+        loops: [{ id: 'l1', name: 'Verse', startTime: 5, endTime: 15 }],
+        activeLoopId: 'l1',
+        updatedAt: '2024-01-01T00:00:00.000Z'
+      })!;
+
+      expect(payload.schemaVersion).toBe(LOOP_SCHEMA_VERSION);
+      expect(payload.videoId).toBe('dQw4w9WgXcQ');
+      expect(payload.loops[0].playbackSpeed).toBe(1);
+      expect(payload.activeLoopId).toBe('l1');
+    });
+
+    it('should return null for missing data', () => {
+      expect(migrateLoopStoragePayload(null)).toBeNull();
+    });
+  });
+
+  describe('session loop round-trip', () => {
+    it('should not lose any attribute through SessionLoop', () => {
+      const sessionLoop: SessionLoop = toSessionLoop(canonicalLoop);
+
+      expect(fromSessionLoop(sessionLoop)).toEqual(canonicalLoop);
+    });
+
+    it('should survive JSON serialization', () => {
+      const stored = JSON.parse(JSON.stringify(toSessionLoop(canonicalLoop)));
+
+      expect(migrateLoop(stored, LOOP_SCHEMA_VERSION)).toEqual(canonicalLoop);
+    });
+
+    it('should revive dates and normalize fields of a payload saved at the current version', () => {
+      const saved = JSON.parse(JSON.stringify({
+        schemaVersion: LOOP_SCHEMA_VERSION,
+        videoId: 'dQw4w9WgXcQ',
+        loops: [canonicalLoop, { id: 'l2', name: 'Bridge', startTime: 50, endTime: 60, color: null, playbackSpeed: 0 }],
+        activeLoopId: null,
+        updatedAt: '2024-01-03T00:00:00.000Z'
+      }));
+
+      const payload = migrateLoopStoragePayload(saved)!;
+
+      expect(payload.loops[0]).toEqual(canonicalLoop);
+      expect(payload.loops[0]!.createdAt instanceof Date).toBe(true);
+      expect('color' in payload.loops[1]!).toBe(false);
+      expect(payload.loops[1]!.playbackSpeed).toBe(1);
+      expect(payload.loops[1]!.playCount).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,291 @@
+import { LoopSegment } from '@shared/interfaces/loop.types';
+import { SessionLoop } from '../services/storage.types';
+
+/**
+ * Migrations versionnées du modèle de boucle
+ *
+ * Le modèle canonique est `LoopSegment` (shared/interfaces/loop.types.ts).
+ * Toutes les formes persistées (`yl_sessions`, clés par vidéo de LoopService,
+ * `VideoSession.loops`) passent par `migrateLoop` au chargement : chaque étape
+ * est pure et idempotente, ce qui permet de rejouer la chaîne sans risque sur
+ * des données dont la version est inconnue. Les étapes déjà appliquées sont
+ * sautées, mais `normalizeLoopRecord` est rejouée à chaque chargement.
+ */
+
+/**
+ * Version courante du schéma de boucle persisté
+ */
+export const LOOP_SCHEMA_VERSION = 9;
+
+/**
+ * Forme historique (v0) du modèle core : `repetitions` au lieu de `repeatCount`,
+ * pas de vitesse ni de compteur de lecture
+ */
+export interface LegacyLoopSegment {
+  id: string;
+  name: string;
+  startTime: number;
+  endTime: number;
+  color?: string;
+  isActive?: boolean;
+  repetitions?: number;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+/**
+ * Enregistrement brut tel que lu depuis le stockage
+ */
+export type PersistedLoopRecord = Record<string, unknown>;
+
+/**
+ * Étape de migration : transforme un enregistrement vers `version`
+ */
+export interface LoopMigration {
+  readonly version: number;
+  readonly description: string;
+  migrate(record: PersistedLoopRecord): PersistedLoopRecord;
+}
+
+/**
+ * Contenu des clés `ng-youtube-looper-loops-<videoId>` écrites par LoopService
+ */
+export interface LoopStoragePayload {
+  schemaVersion: number;
+  videoId: string;
+  loops: LoopSegment[];
+  activeLoopId: string | null;
+  updatedAt: string;
+}
+
+const DEFAULT_LOOP_NAME = 'Boucle sans nom';
+const DEFAULT_PLAYBACK_SPEED = 1;
+const COMPLETION_ACTIONS: readonly unknown[] = ['stop', 'continue', 'next', 'jump'];
+
+/**
+ * Chaîne ordonnée des migrations
+ */
+export const LOOP_MIGRATIONS: readonly LoopMigration[] = [
+  {
+    version: 1,
+    description: 'Renomme repetitions (modèle core) en repeatCount',
+    migrate: record => {
+      if (!('repetitions' in record)) {
+        return record;
+      }
+
+      const { repetitions, ...rest } = record;
+      if (rest['repeatCount'] === undefined && repetitions !== undefined && repetitions !== null) {
+        rest['repeatCount'] = repetitions;
+      }
+      return rest;
+    }
+  },
+  {
+    version: 2,
+    description: 'Fusionne SessionLoop et le modèle core (champs requis complétés par normalizeLoopRecord)',
+    migrate: record => record
+  },
+  {
+    version: 3,
+    description: 'Ajoute completionAction et completionTargetId, retire les valeurs mal formées',
+    migrate: record => dropMalformed(
+      dropMalformed(record, 'completionAction', value => COMPLETION_ACTIONS.includes(value)),
+      'completionTargetId', isNonEmptyString
+    )
+  },
+  {
+    version: 4,
+    description: 'Ajoute speedRamp, retiré quand il est mal formé',
+    migrate: record => dropMalformed(record, 'speedRamp', isPlainObject)
+  },
+  {
+    version: 5,
+    description: 'Ajoute preRoll et countIn, retirés quand ils sont mal formés',
+    migrate: record => dropMalformed(
+      dropMalformed(record, 'preRoll', value => typeof value === 'number' && isFinite(value) && value >= 0),
+      'countIn', isPlainObject
+    )
+  },
+  {
+    version: 6,
+    description: 'Ajoute restGap, retiré quand il est mal formé',
+    migrate: record => dropMalformed(record, 'restGap', value => isPlainObject(value) && (value['mode'] === 'gap' || value['mode'] === 'call-and-response'))
+  },
+  {
+    version: 7,
+    description: 'Ajoute fadeInOut, retiré quand il est mal formé',
+    migrate: record => dropMalformed(record, 'fadeInOut', isPlainObject)
+  },
+  {
+    version: 8,
+    description: 'Ajoute parentLoopId, retiré quand il est vide ou désigne la boucle elle-même',
+    migrate: record => dropMalformed(record, 'parentLoopId', value => isNonEmptyString(value) && value !== record['id'])
+  },
+  {
+    version: 9,
+    description: 'Ajoute le planning de révision review, retiré quand il est mal formé',
+    migrate: record => dropMalformed(record, 'review', value => isPlainObject(value) && isNonEmptyString(value['dueDate']))
+  }
+];
+
+/**
+ * Migre un enregistrement brut vers le modèle canonique
+ * @param raw - Boucle persistée, quelle que soit sa forme
+ * @param fromVersion - Version déjà appliquée (0 si inconnue)
+ * @returns La boucle canonique, ou null si l'enregistrement est inexploitable
+ */
+export function migrateLoop(raw: unknown, fromVersion = 0): LoopSegment | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return null;
+  }
+
+  const record = normalizeLoopRecord(LOOP_MIGRATIONS
+    .filter(migration => migration.version > fromVersion)
+    .reduce((current, migration) => migration.migrate(current), { ...(raw as PersistedLoopRecord) }));
+
+  return isCanonicalLoop(record) ? record : null;
+}
+
+/**
+ * Normalisation appliquée à chaque chargement, quelle que soit la version :
+ * champs requis complétés, champs optionnels à null retirés (import JSON,
+ * anciennes sauvegardes) et dates relues depuis leur forme sérialisée
+ */
+export function normalizeLoopRecord(record: PersistedLoopRecord): PersistedLoopRecord {
+  const normalized: PersistedLoopRecord = {
+    ...record,
+    name: typeof record['name'] === 'string' ? record['name'] : DEFAULT_LOOP_NAME,
+    playbackSpeed: isPositiveNumber(record['playbackSpeed']) ? record['playbackSpeed'] : DEFAULT_PLAYBACK_SPEED,
+    playCount: isPositiveNumber(record['playCount']) || record['playCount'] === 0 ? record['playCount'] : 0,
+    isActive: typeof record['isActive'] === 'boolean' ? record['isActive'] : false
+  };
+
+  for (const key of Object.keys(normalized)) {
+    if (normalized[key] === null || normalized[key] === undefined) {
+      delete normalized[key];
+    }
+  }
+
+  if (normalized['repeatCount'] !== undefined && !isPositiveNumber(normalized['repeatCount'])) {
+    delete normalized['repeatCount'];
+  }
+
+  for (const key of ['createdAt', 'updatedAt']) {
+    if (normalized[key] !== undefined) {
+      const date = reviveDate(normalized[key]);
+      if (date) {
+        normalized[key] = date;
+      } else {
+        delete normalized[key];
+      }
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * Migre une collection de boucles en écartant les entrées invalides
+ */
+export function migrateLoops(raw: unknown, fromVersion = 0): LoopSegment[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  return raw
+    .map(loop => migrateLoop(loop, fromVersion))
+    .filter((loop): loop is LoopSegment => loop !== null);
+}
+
+/**
+ * Migre le contenu d'une clé de boucles par vidéo (LoopService)
+ */
+export function migrateLoopStoragePayload(raw: unknown): LoopStoragePayload | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return null;
+  }
+
+  const data = raw as PersistedLoopRecord;
+  const fromVersion = typeof data['schemaVersion'] === 'number' ? data['schemaVersion'] : 0;
+
+  return {
+    schemaVersion: LOOP_SCHEMA_VERSION,
+    videoId: typeof data['videoId'] === 'string' ? data['videoId'] : '',
+    loops: migrateLoops(data['loops'], fromVersion),
+    activeLoopId: typeof data['activeLoopId'] === 'string' ? data['activeLoopId'] : null,
+    updatedAt: typeof data['updatedAt'] === 'string' ? data['updatedAt'] : new Date().toISOString()
+  };
+}
+
+/**
+ * Convertit une boucle canonique en boucle de session sans perte de champ
+ */
+export function toSessionLoop(loop: LoopSegment): SessionLoop {
+  return {
+    ...loop,
+    name: loop.name,
+    color: loop.color
+  };
+}
+
+/**
+ * Convertit une boucle de session vers le modèle canonique
+ */
+export function fromSessionLoop(sessionLoop: SessionLoop): LoopSegment | null {
+  return migrateLoop(sessionLoop);
+}
+
+/**
+ * Retire un champ optionnel dont la valeur stockée ne correspond pas au modèle
+ */
+function dropMalformed(
+  record: PersistedLoopRecord,
+  key: string,
+  isValid: (value: unknown) => boolean
+): PersistedLoopRecord {
+  if (record[key] === undefined || isValid(record[key])) {
+    return record;
+  }
+
+  const { [key]: _dropped, ...rest } = record;
+  return rest;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value) && value > 0;
+}
+
+function reviveDate(value: unknown): Date | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  return null;
+}
+
+function isCanonicalLoop(record: PersistedLoopRecord): record is PersistedLoopRecord & LoopSegment {
+  const { id, startTime, endTime } = record;
+
+  return typeof id === 'string' &&
+         id.length > 0 &&
+         typeof startTime === 'number' &&
+         isFinite(startTime) &&
+         startTime >= 0 &&
+         typeof endTime === 'number' &&
+         isFinite(endTime) &&
+         endTime > startTime;
+}
@@ -1,17 +1,11 @@
+import { FadeInOutConfig, LoopSegment, RestGapConfig, UpdateLoopRequest } from '@shared/interfaces/loop.types';
+
 /**
- * Interface définissant un segment de boucle pour une vidéo YouTube
+ * Segment de boucle : le modèle canonique est défini dans shared/interfaces.
+ * L'ancienne forme (repetitions, dates obligatoires) est décrite par
+ * `LegacyLoopSegment` et migrée via `loop.migrations.ts`.
  */
-export interface LoopSegment {
-  id: string;
-  name: string;
-  startTime: number; // en secondes
-  endTime: number;   // en secondes
-  color?: string;    // couleur hexadecimale pour l'affichage
-  isActive?: boolean;
-  repetitions?: number; // nombre de répétitions
-  createdAt: Date;
-  updatedAt: Date;
-}
+export type { LoopSegment };
 
 /**
  * Interface pour la création d'une nouvelle boucle
@@ -51,8 +45,9 @@ export interface LoopPlaybackConfig {
   loopId: string;
   autoRepeat: boolean;
   maxRepetitions?: number;
-  fadeInOut?: boolean;
+  fadeInOut?: FadeInOutConfig; // fondus de volume aux bornes, enregistrés avec la boucle (LoopSegment.fadeInOut)
   playbackSpeed?: number;
+  restGap?: RestGapConfig; // pause après chaque répétition, enregistrée avec la boucle (LoopSegment.restGap)
 }
 
 /**
@@ -91,6 +86,15 @@ export interface LoopExportData {
   groups?: LoopGroup[];
 }
 
+/**
+ * Résultat d'un import : copies à ajouter et nombre de boucles écartées
+ */
+export interface LoopImportResult {
+  loops: LoopSegment[];
+  groups: LoopGroup[];
+  skipped: number;
+}
+
 /**
  * Utilitaires pour les boucles
  */
@@ -162,7 +166,7 @@ export class LoopUtils {
       }
     }
 
-    if (loop.repetitions !== undefined && loop.repetitions < 0) {
+    if (loop.repeatCount !== undefined && loop.repeatCount < 0) {
       errors.push('Le nombre de répétitions doit être positif');
     }
 
@@ -172,6 +176,50 @@ export class LoopUtils {
     };
   }
 
+  /**
+   * Applique une demande de modification à une boucle : les champs absents sont conservés,
+   * null retire le réglage (entraîneur de vitesse, décompte, pause, fondus, boucle parente)
+   */
+  static applyUpdate(loop: LoopSegment, request: UpdateLoopRequest): LoopSegment {
+    const updatedLoop: LoopSegment = {
+      ...loop,
+      ...(request.name !== undefined && { name: request.name }),
+      ...(request.startTime !== undefined && { startTime: request.startTime }),
+      ...(request.endTime !== undefined && { endTime: request.endTime }),
+      ...(request.playbackSpeed !== undefined && { playbackSpeed: request.playbackSpeed }),
+      ...(request.repeatCount !== undefined && { repeatCount: request.repeatCount }),
+      ...(request.completionAction !== undefined && { completionAction: request.completionAction }),
+      ...(request.completionTargetId !== undefined && { completionTargetId: request.completionTargetId }),
+      ...(request.speedRamp && { speedRamp: request.speedRamp }),
+      ...(request.preRoll !== undefined && { preRoll: request.preRoll }),
+      ...(request.countIn && { countIn: request.countIn }),
+      ...(request.restGap && { restGap: request.restGap }),
+      ...(request.fadeInOut && { fadeInOut: request.fadeInOut }),
+      ...(request.parentLoopId && { parentLoopId: request.parentLoopId }),
+      ...(request.color !== undefined && { color: request.color }),
+      ...(request.isActive !== undefined && { isActive: request.isActive }),
+      updatedAt: new Date()
+    };
+
+    if (request.speedRamp === null) {
+      delete updatedLoop.speedRamp;
+    }
+    if (request.countIn === null) {
+      delete updatedLoop.countIn;
+    }
+    if (request.restGap === null) {
+      delete updatedLoop.restGap;
+    }
+    if (request.fadeInOut === null) {
+      delete updatedLoop.fadeInOut;
+    }
+    if (request.parentLoopId === null) {
+      delete updatedLoop.parentLoopId;
+    }
+
+    return updatedLoop;
+  }
+
   /**
    * Crée une boucle avec des valeurs par défaut
    */
@@ -182,7 +230,9 @@ export class LoopUtils {
       endTime: 30,
       color: this.generateRandomColor(),
       isActive: false,
-      repetitions: 1,
+      playbackSpeed: 1,
+      playCount: 0,
+      repeatCount: 1,
       ...overrides
     };
   }
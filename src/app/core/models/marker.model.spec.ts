@@ -0,0 +1,51 @@
+import { adjacentMarker, createMarker, normalizeMarkers, updateMarker } from './marker.model';
+import { DEFAULT_MARKER_COLOR, Marker } from '@shared/interfaces';
+
+describe('Marker model', () => {
+  const markers: Marker[] = [
+    { id: 'm-solo', time: 90, label: 'Solo', color: '#EF4444' },
+    { id: 'm-intro', time: 0, label: 'Intro', color: '#F59E0B' },
+    { id: 'm-verse', time: 30, label: 'Couplet', color: '#F59E0B' }
+  ];
+
+  it('should create a marker inside the video with a default label and color', () => {
+    const marker = createMarker({ time: 250, label: '  ', note: ' ' }, 200);
+
+    expect(marker.id).toMatch(/^marker-/);
+    expect(marker.time).toBe(200);
+    expect(marker.label).toBe('Repère');
+    expect(marker.color).toBe(DEFAULT_MARKER_COLOR);
+    expect(marker.note).toBeUndefined();
+  });
+
+  it('should update a marker and remove its note with null', () => {
+    const marker = createMarker({ time: 10, label: 'Pont', note: 'Attention au changement' });
+
+    const moved = updateMarker(marker, { time: 12.5, label: 'Pont 2' });
+    expect(moved).toEqual({ ...marker, time: 12.5, label: 'Pont 2' });
+
+    expect(updateMarker(moved, { note: null }).note).toBeUndefined();
+  });
+
+  it('should find the next and previous markers from the playback position', () => {
+    expect(adjacentMarker(markers, 30, 'next')?.id).toBe('m-solo');
+    expect(adjacentMarker(markers, 30.1, 'previous')?.id).toBe('m-intro');
+    expect(adjacentMarker(markers, 45, 'previous')?.id).toBe('m-verse');
+    expect(adjacentMarker(markers, 95, 'next')).toBeNull();
+  });
+
+  it('should drop stored markers without a valid time and sort the others', () => {
+    const stored = [
+      { id: 'm-2', time: 40, label: 'Refrain' },
+      { id: 'broken', label: 'Sans position', time: 'abc' },
+      null,
+      { id: 'm-1', time: 5, label: 'Intro', color: '#10B981', note: 'Compter 4 temps' }
+    ];
+
+    expect(normalizeMarkers(stored)).toEqual([
+      { id: 'm-1', time: 5, label: 'Intro', color: '#10B981', note: 'Compter 4 temps' },
+      { id: 'm-2', time: 40, label: 'Refrain', color: DEFAULT_MARKER_COLOR }
+    ]);
+    expect(normalizeMarkers(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,118 @@
+import { CreateMarkerRequest, DEFAULT_MARKER_COLOR, Marker, UpdateMarkerRequest } from '@shared/interfaces/marker.types';
+
+export type { Marker };
+
+// Longueur maximale du libellé affiché sur la timeline
+export const MAX_MARKER_LABEL_LENGTH = 50;
+
+// Écart en secondes sous lequel la lecture est considérée sur un repère :
+// « repère précédent » depuis un repère passe au repère d'avant
+const MARKER_NAVIGATION_TOLERANCE = 0.25;
+
+/**
+ * Crée un repère à partir d'une requête
+ * @param request - Position, libellé, couleur et note du repère
+ * @param duration - Durée de la vidéo, pour borner la position (optionnelle)
+ * @returns Nouveau repère avec un identifiant unique
+ */
+export function createMarker(request: CreateMarkerRequest, duration?: number): Marker {
+  const marker: Marker = {
+    id: `marker-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    time: clampMarkerTime(request.time, duration),
+    label: normalizeMarkerLabel(request.label),
+    color: request.color || DEFAULT_MARKER_COLOR
+  };
+
+  const note = request.note?.trim();
+  if (note) {
+    marker.note = note;
+  }
+  return marker;
+}
+
+/**
+ * Applique une modification à un repère existant
+ * @param marker - Repère à modifier
+ * @param request - Champs modifiés, `note: null` retire la note
+ * @param duration - Durée de la vidéo, pour borner la position (optionnelle)
+ * @returns Repère modifié
+ */
+export function updateMarker(marker: Marker, request: Omit<UpdateMarkerRequest, 'id'>, duration?: number): Marker {
+  const updated: Marker = {
+    ...marker,
+    ...(request.time !== undefined && { time: clampMarkerTime(request.time, duration) }),
+    ...(request.label !== undefined && { label: normalizeMarkerLabel(request.label) }),
+    ...(request.color && { color: request.color })
+  };
+
+  if (request.note === null || request.note?.trim() === '') {
+    delete updated.note;
+  } else if (request.note !== undefined) {
+    updated.note = request.note.trim();
+  }
+  return updated;
+}
+
+/**
+ * Trie les repères par position
+ */
+export function sortMarkers(markers: readonly Marker[]): Marker[] {
+  return [...markers].sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Repère suivant ou précédent une position de lecture
+ * @param markers - Repères de la session
+ * @param time - Position de lecture en secondes
+ * @param direction - 'next' ou 'previous'
+ * @returns Repère le plus proche dans la direction, null s'il n'y en a pas
+ */
+export function adjacentMarker(markers: readonly Marker[], time: number, direction: 'next' | 'previous'): Marker | null {
+  const sorted = sortMarkers(markers);
+
+  if (direction === 'next') {
+    return sorted.find(marker => marker.time > time + MARKER_NAVIGATION_TOLERANCE) ?? null;
+  }
+  return sorted.reverse().find(marker => marker.time < time - MARKER_NAVIGATION_TOLERANCE) ?? null;
+}
+
+/**
+ * Nettoie les repères lus depuis le stockage : les entrées sans position valide sont ignorées
+ * @param markers - Données stockées
+ * @returns Repères valides, triés par position
+ */
+export function normalizeMarkers(markers: unknown): Marker[] {
+  if (!Array.isArray(markers)) {
+    return [];
+  }
+
+  const normalized = markers
+    .filter((marker): marker is Partial<Marker> => typeof marker === 'object' && marker !== null)
+    .filter(marker => Number.isFinite(Number(marker.time)))
+    .map(marker => {
+      const base = createMarker({
+        time: Number(marker.time),
+        label: String(marker.label ?? ''),
+        ...(typeof marker.color === 'string' && { color: marker.color }),
+        ...(typeof marker.note === 'string' && { note: marker.note })
+      });
+      return marker.id ? { ...base, id: String(marker.id) } : base;
+    });
+
+  return sortMarkers(normalized);
+}
+
+/**
+ * Borne une position entre 0 et la durée de la vidéo
+ */
+function clampMarkerTime(time: number, duration?: number): number {
+  const clamped = Math.max(0, Number(time) || 0);
+  return duration && duration > 0 ? Math.min(duration, clamped) : clamped;
+}
+
+/**
+ * Libellé nettoyé et tronqué, « Repère » s'il est vide
+ */
+function normalizeMarkerLabel(label: string): string {
+  return (label || '').trim().slice(0, MAX_MARKER_LABEL_LENGTH) || 'Repère';
+}
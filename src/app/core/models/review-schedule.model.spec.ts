@@ -0,0 +1,50 @@
+import { DEFAULT_REVIEW_EASE, getOverdueDays, isReviewDue, MIN_REVIEW_EASE, scheduleReview, toDayKey } from './review-schedule.model';
+
+describe('Review schedule model', () => {
+  const today = new Date(2024, 2, 10, 18, 30);
+
+  it('should schedule a new loop for tomorrow, then six days, then by the ease factor', () => {
+    const first = scheduleReview(undefined, 'good', today);
+    expect(first).toEqual({
+      ease: DEFAULT_REVIEW_EASE,
+      interval: 1,
+      repetitions: 1,
+      dueDate: '2024-03-11',
+      lastReviewed: '2024-03-10'
+    });
+
+    const second = scheduleReview(first, 'good', new Date(2024, 2, 11));
+    expect(second.interval).toBe(6);
+    expect(second.dueDate).toBe('2024-03-17');
+
+    const third = scheduleReview(second, 'easy', new Date(2024, 2, 17));
+    expect(third.ease).toBe(2.6);
+    expect(third.interval).toBe(16);
+  });
+
+  it('should reset the interval on again and never drop the ease below the minimum', () => {
+    let schedule = scheduleReview(undefined, 'good', today);
+    schedule = scheduleReview(schedule, 'good', today);
+
+    const lapsed = scheduleReview(schedule, 'again', today);
+    expect(lapsed.repetitions).toBe(0);
+    expect(lapsed.interval).toBe(1);
+    expect(lapsed.ease).toBeLessThan(schedule.ease);
+
+    for (let i = 0; i < 10; i++) {
+      schedule = scheduleReview(schedule, 'again', today);
+    }
+    expect(schedule.ease).toBe(MIN_REVIEW_EASE);
+  });
+
+  it('should treat unrated loops as due and count overdue days', () => {
+    const schedule = scheduleReview(undefined, 'hard', today);
+
+    expect(isReviewDue(undefined, today)).toBeTrue();
+    expect(isReviewDue(schedule, today)).toBeFalse();
+    expect(isReviewDue(schedule, new Date(2024, 2, 11))).toBeTrue();
+    expect(getOverdueDays(schedule, new Date(2024, 2, 14))).toBe(3);
+    expect(getOverdueDays(schedule, today)).toBe(0);
+    expect(toDayKey(new Date(2024, 0, 5))).toBe('2024-01-05');
+  });
+});
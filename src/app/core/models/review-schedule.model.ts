@@ -0,0 +1,89 @@
+import { LoopReviewSchedule, ReviewRating } from '@shared/interfaces/loop.types';
+
+// Facilité d'une boucle notée pour la première fois
+export const DEFAULT_REVIEW_EASE = 2.5;
+
+// Facilité minimale : une boucle difficile revient souvent sans bloquer l'intervalle
+export const MIN_REVIEW_EASE = 1.3;
+
+// Qualité SM-2 (0 à 5) associée à chaque auto-évaluation
+const RATING_QUALITY: Record<ReviewRating, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Jour d'une date au format YYYY-MM-DD, en heure locale
+ */
+export function toDayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Calcule le prochain passage d'une boucle après une auto-évaluation (algorithme SM-2)
+ * @param current - Planning actuel, absent pour une boucle jamais notée
+ * @param rating - Auto-évaluation de l'utilisateur
+ * @param today - Jour de la révision
+ * @returns Nouveau planning
+ */
+export function scheduleReview(
+  current: LoopReviewSchedule | undefined,
+  rating: ReviewRating,
+  today: Date = new Date()
+): LoopReviewSchedule {
+  const quality = RATING_QUALITY[rating];
+  const previousEase = current?.ease ?? DEFAULT_REVIEW_EASE;
+  const ease = Math.max(
+    MIN_REVIEW_EASE,
+    Math.round((previousEase + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)) * 100) / 100
+  );
+
+  let repetitions = 0;
+  let interval = 1;
+  if (rating !== 'again') {
+    repetitions = (current?.repetitions ?? 0) + 1;
+    if (repetitions === 1) {
+      interval = 1;
+    } else if (repetitions === 2) {
+      interval = 6;
+    } else {
+      interval = Math.max(1, Math.round((current?.interval ?? 1) * ease));
+    }
+  }
+
+  const dueDate = new Date(today.getFullYear(), today.getMonth(), today.getDate() + interval);
+  return {
+    ease,
+    interval,
+    repetitions,
+    dueDate: toDayKey(dueDate),
+    lastReviewed: toDayKey(today)
+  };
+}
+
+/**
+ * Vérifie si une boucle est à réviser : une boucle jamais notée l'est toujours
+ */
+export function isReviewDue(schedule: LoopReviewSchedule | undefined, today: Date = new Date()): boolean {
+  return !schedule || schedule.dueDate <= toDayKey(today);
+}
+
+/**
+ * Nombre de jours de retard d'une révision, 0 si elle est prévue aujourd'hui ou plus tard
+ */
+export function getOverdueDays(schedule: LoopReviewSchedule | undefined, today: Date = new Date()): number {
+  if (!schedule) {
+    return 0;
+  }
+
+  const [year, month, day] = schedule.dueDate.split('-').map(Number);
+  const due = new Date(year ?? 0, (month ?? 1) - 1, day ?? 1);
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.max(0, Math.round((start.getTime() - due.getTime()) / DAY_MS));
+}
@@ -0,0 +1,108 @@
+import { TestBed } from '@angular/core/testing';
+import { CLICK_SYNTH, ClickSynth, CountInService } from './count-in.service';
+import { LOOP_FRAME_SCHEDULER, LoopFrameScheduler } from './loop-playback-engine.service';
+
+/**
+ * Manual clock for the beat timers
+ */
+class FakeTimers implements Pick<LoopFrameScheduler, 'setTimer' | 'clearTimer'> {
+  private time = 0;
+  private nextHandle = 1;
+  private timers = new Map<number, { at: number; callback: () => void }>();
+
+  setTimer(callback: () => void, delayMs: number): number {
+    const handle = this.nextHandle++;
+    this.timers.set(handle, { at: this.time + delayMs, callback });
+    return handle;
+  }
+
+  clearTimer(handle: number): void {
+    this.timers.delete(handle);
+  }
+
+  advance(ms: number): void {
+    const end = this.time + ms;
+    let next = this.nextDue(end);
+
+    while (next) {
+      this.time = next[1].at;
+      this.timers.delete(next[0]);
+      next[1].callback();
+      next = this.nextDue(end);
+    }
+    this.time = end;
+  }
+
+  private nextDue(end: number): [number, { at: number; callback: () => void }] | undefined {
+    return Array.from(this.timers.entries())
+      .filter(([, timer]) => timer.at <= end)
+      .sort((a, b) => a[1].at - b[1].at)[0];
+  }
+}
+
+describe('CountInService', () => {
+  let service: CountInService;
+  let timers: FakeTimers;
+  let synth: jasmine.SpyObj<ClickSynth>;
+
+  beforeEach(() => {
+    timers = new FakeTimers();
+    synth = jasmine.createSpyObj<ClickSynth>('ClickSynth', ['currentTime', 'click', 'silence']);
+    synth.currentTime.and.returnValue(10);
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: CLICK_SYNTH, useValue: synth },
+        { provide: LOOP_FRAME_SCHEDULER, useValue: timers }
+      ]
+    });
+
+    service = TestBed.inject(CountInService);
+  });
+
+  it('should schedule the clicks on the audio clock with an accented first beat', () => {
+    service.run({ beats: 4, bpm: 120 });
+
+    expect(synth.click.calls.allArgs()).toEqual([
+      [10.05, true],
+      [10.55, false],
+      [11.05, false],
+      [11.55, false]
+    ]);
+  });
+
+  it('should follow the beats and complete one beat after the last click', async () => {
+    const done = service.run({ beats: 4, bpm: 120 });
+    expect(service.beat()).toEqual({ current: 1, total: 4 });
+
+    timers.advance(1050);
+    expect(service.beat()).toEqual({ current: 3, total: 4 });
+
+    timers.advance(999);
+    expect(service.isRunning()).toBe(true);
+
+    timers.advance(1);
+    expect(service.isRunning()).toBe(false);
+    expect(await done).toBe(true);
+  });
+
+  it('should silence the clicks left when cancelled', async () => {
+    const done = service.run({ beats: 2, bpm: 60 });
+
+    service.cancel();
+
+    expect(await done).toBe(false);
+    expect(synth.silence).toHaveBeenCalled();
+    expect(service.beat()).toBeNull();
+  });
+
+  it('should cancel the running count-in when a new one starts', async () => {
+    const first = service.run({ beats: 4, bpm: 120 });
+    const second = service.run({ beats: 2, bpm: 120 });
+
+    expect(await first).toBe(false);
+
+    timers.advance(1050);
+    expect(await second).toBe(true);
+  });
+});
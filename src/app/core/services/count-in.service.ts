@@ -0,0 +1,160 @@
+import { Injectable, InjectionToken, computed, inject, signal } from '@angular/core';
+import { CountInConfig } from '@shared/interfaces';
+import { LOOP_FRAME_SCHEDULER } from './loop-playback-engine.service';
+
+// Sound output of the clicks, replaced by a silent fake in tests
+export interface ClickSynth {
+  currentTime(): number; // audio clock, in seconds
+  click(atTime: number, accent: boolean): void;
+  silence(): void; // drop the clicks scheduled and not played yet
+}
+
+// Beat being clicked, e.g. 2 / 4
+export interface CountInBeat {
+  current: number;
+  total: number;
+}
+
+// One bar of 4/4 at a moderate practice tempo
+export const DEFAULT_COUNT_IN_CONFIG: CountInConfig = {
+  beats: 4,
+  bpm: 100
+};
+
+const CLICK_DURATION_SECONDS = 0.05;
+const ACCENT_FREQUENCY_HZ = 1600;
+const BEAT_FREQUENCY_HZ = 1000;
+
+// Delay before the first click so that it is never scheduled in the past
+const CLICK_LEAD_SECONDS = 0.05;
+
+/**
+ * Short sine blips synthesized with Web Audio, the audio context is created on the first click
+ */
+export class WebAudioClickSynth implements ClickSynth {
+  private context: AudioContext | null = null;
+  private scheduled = new Set<OscillatorNode>();
+
+  currentTime(): number {
+    return this.audioContext()?.currentTime ?? 0;
+  }
+
+  click(atTime: number, accent: boolean): void {
+    const context = this.audioContext();
+    if (!context) {
+      return;
+    }
+
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+
+    oscillator.frequency.value = accent ? ACCENT_FREQUENCY_HZ : BEAT_FREQUENCY_HZ;
+    gain.gain.setValueAtTime(accent ? 0.9 : 0.6, atTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, atTime + CLICK_DURATION_SECONDS);
+
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.onended = () => this.scheduled.delete(oscillator);
+    oscillator.start(atTime);
+    oscillator.stop(atTime + CLICK_DURATION_SECONDS);
+    this.scheduled.add(oscillator);
+  }
+
+  silence(): void {
+    this.scheduled.forEach(oscillator => oscillator.stop());
+    this.scheduled.clear();
+  }
+
+  private audioContext(): AudioContext | null {
+    if (!this.context) {
+      if (typeof AudioContext === 'undefined') {
+        return null;
+      }
+      this.context = new AudioContext();
+    }
+
+    // Browsers suspend contexts created before a user gesture
+    if (this.context.state === 'suspended') {
+      this.context.resume().catch(() => {
+        // Stays silent, the count-in timing does not depend on it
+      });
+    }
+    return this.context;
+  }
+}
+
+export const CLICK_SYNTH = new InjectionToken<ClickSynth>('CLICK_SYNTH', {
+  providedIn: 'root',
+  factory: () => new WebAudioClickSynth()
+});
+
+/**
+ * Metronome count-in played before a loop repetition.
+ *
+ * The clicks are scheduled on the audio clock so they stay steady, the beat shown
+ * and the end of the count-in follow the timers of the loop engine scheduler.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CountInService {
+  private readonly synth = inject(CLICK_SYNTH);
+  private readonly scheduler = inject(LOOP_FRAME_SCHEDULER);
+
+  private timers: number[] = [];
+  private pending: ((completed: boolean) => void) | null = null;
+
+  private readonly _beat = signal<CountInBeat | null>(null);
+
+  readonly beat = this._beat.asReadonly();
+  readonly isRunning = computed(() => this._beat() !== null);
+
+  /**
+   * Click the count-in, a running one is cancelled first
+   * @returns true once the last beat has elapsed, false when cancelled
+   */
+  run(config: CountInConfig): Promise<boolean> {
+    this.cancel();
+
+    const total = Math.max(1, Math.floor(config.beats));
+    const beatMs = 60_000 / Math.max(1, config.bpm);
+    const leadMs = CLICK_LEAD_SECONDS * 1000;
+    const firstClickAt = this.synth.currentTime() + CLICK_LEAD_SECONDS;
+
+    for (let beat = 0; beat < total; beat++) {
+      this.synth.click(firstClickAt + (beat * beatMs) / 1000, beat === 0);
+    }
+
+    this._beat.set({ current: 1, total });
+
+    return new Promise(resolve => {
+      this.pending = resolve;
+
+      for (let beat = 1; beat < total; beat++) {
+        this.timers.push(this.scheduler.setTimer(
+          () => this._beat.set({ current: beat + 1, total }),
+          leadMs + beat * beatMs
+        ));
+      }
+
+      // Playback starts on the beat following the last click
+      this.timers.push(this.scheduler.setTimer(() => this.finish(true), leadMs + total * beatMs));
+    });
+  }
+
+  cancel(): void {
+    if (this.pending) {
+      this.synth.silence();
+      this.finish(false);
+    }
+  }
+
+  private finish(completed: boolean): void {
+    this.timers.forEach(timer => this.scheduler.clearTimer(timer));
+    this.timers = [];
+    this._beat.set(null);
+
+    const resolve = this.pending;
+    this.pending = null;
+    resolve?.(completed);
+  }
+}
@@ -0,0 +1,116 @@
+import { TestBed } from '@angular/core/testing';
+import { PLATFORM_ID } from '@angular/core';
+import { FakePlayer, FakePlayerFactory } from './fake-player';
+import { PLAYER_PORT_FACTORY } from './player-port';
+import { YouTubeService } from './youtube.service';
+import { PlayerState } from '../types/youtube-api.types';
+
+describe('FakePlayer', () => {
+  let factory: FakePlayerFactory;
+  let player: FakePlayer;
+  let states: PlayerState[];
+
+  beforeEach(async () => {
+    factory = new FakePlayerFactory([
+      { videoId: 'practice123', title: 'Practice', author: 'Teacher', duration: 60 }
+    ]);
+    states = [];
+    player = factory.create('player', 'practice123', {
+      onStateChange: state => states.push(state)
+    });
+    await Promise.resolve();
+  });
+
+  it('should become ready with the requested video', () => {
+    expect(player.getPlayerState()).toBe(PlayerState.CUED);
+    expect(player.getDuration()).toBe(60);
+    expect(player.getVideoData()).toEqual({ video_id: 'practice123', title: 'Practice', author: 'Teacher' });
+  });
+
+  it('should only move the playhead when the clock advances while playing', () => {
+    factory.advance(5);
+    expect(player.getCurrentTime()).toBe(0);
+
+    player.playVideo();
+    factory.advance(5);
+    expect(player.getCurrentTime()).toBe(5);
+
+    player.pauseVideo();
+    factory.advance(5);
+    expect(player.getCurrentTime()).toBe(5);
+    expect(states).toEqual([PlayerState.CUED, PlayerState.PLAYING, PlayerState.PAUSED]);
+  });
+
+  it('should scale the clock by the playback rate', () => {
+    player.setPlaybackRate(0.5);
+    player.seekTo(10);
+    player.playVideo();
+
+    factory.advance(4);
+
+    expect(player.getCurrentTime()).toBe(12);
+  });
+
+  it('should end at the duration and restart when played again', () => {
+    player.playVideo();
+    factory.advance(90);
+
+    expect(player.getCurrentTime()).toBe(60);
+    expect(player.getPlayerState()).toBe(PlayerState.ENDED);
+
+    player.playVideo();
+    expect(player.getCurrentTime()).toBe(0);
+  });
+
+  it('should play a generic video for unknown IDs', () => {
+    player.loadVideoById('unknownVid1', 15);
+
+    expect(player.getVideoData().video_id).toBe('unknownVid1');
+    expect(player.getCurrentTime()).toBe(15);
+    expect(player.getPlayerState()).toBe(PlayerState.PLAYING);
+  });
+
+  it('should stop following the clock once destroyed', () => {
+    player.playVideo();
+    player.destroy();
+    factory.advance(5);
+
+    expect(player.getCurrentTime()).toBe(0);
+    expect(factory.lastPlayer).toBeNull();
+  });
+});
+
+describe('YouTubeService on the fake player', () => {
+  let factory: FakePlayerFactory;
+  let service: YouTubeService;
+
+  beforeEach(() => {
+    factory = new FakePlayerFactory();
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: PLATFORM_ID, useValue: 'browser' },
+        { provide: PLAYER_PORT_FACTORY, useValue: factory }
+      ]
+    });
+
+    service = TestBed.inject(YouTubeService);
+  });
+
+  afterEach(() => {
+    service.destroy();
+  });
+
+  it('should initialize and load videos without the IFrame API', async () => {
+    await service.initializePlayer('youtube-player', 'dQw4w9WgXcQ');
+
+    expect(service.isDemo).toBe(true);
+    expect(service.playerState().isReady).toBe(true);
+    expect(service.getDuration()).toBe(213);
+
+    await service.loadVideo('oHg5SJYRHA0');
+
+    expect(service.currentVideo()?.title).toBe('Exercice de démonstration');
+    expect(service.playerState().isPlaying).toBe(true);
+  });
+});
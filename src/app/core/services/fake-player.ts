@@ -0,0 +1,235 @@
+import {
+  PlayerPort,
+  PlayerPortEvents,
+  PlayerPortFactory,
+  PlayerState
+} from '../types/youtube-api.types';
+
+/**
+ * Video known by the fake player
+ */
+export interface FakeVideo {
+  videoId: string;
+  title: string;
+  author: string;
+  duration: number; // seconds
+}
+
+// Videos offered in demo mode, any other ID plays a generic video
+export const DEMO_VIDEOS: readonly FakeVideo[] = [
+  { videoId: 'dQw4w9WgXcQ', title: 'Never Gonna Give You Up', author: 'Rick Astley', duration: 213 },
+  { videoId: 'oHg5SJYRHA0', title: 'Exercice de démonstration', author: 'Mode démo', duration: 180 }
+];
+
+const DEFAULT_FAKE_DURATION = 180;
+
+/**
+ * Deterministic in-memory player.
+ *
+ * Time only moves when `advance()` is called, so tests control exactly where the
+ * playhead is; FakePlayerFactory can also drive the clock in real time for the demo
+ * mode. Events are emitted synchronously like the IFrame API once ready.
+ */
+export class FakePlayer implements PlayerPort {
+  private state = PlayerState.UNSTARTED;
+  private currentTime = 0;
+  private playbackRate = 1;
+  private volume = 100;
+  private destroyed = false;
+
+  constructor(
+    private video: FakeVideo,
+    private readonly events: PlayerPortEvents,
+    private readonly resolveVideo: (videoId: string) => FakeVideo
+  ) {}
+
+  get isDestroyed(): boolean {
+    return this.destroyed;
+  }
+
+  /**
+   * Signals that the player is ready, done by the factory once created
+   */
+  ready(): void {
+    if (this.destroyed) return;
+    this.setState(PlayerState.CUED);
+    this.events.onReady?.();
+  }
+
+  /**
+   * Moves the clock forward, the playhead follows while playing
+   * @param seconds - Wall-clock time elapsed, scaled by the playback rate
+   */
+  advance(seconds: number): void {
+    if (this.destroyed || this.state !== PlayerState.PLAYING || seconds <= 0) return;
+
+    this.currentTime = Math.min(this.video.duration, this.currentTime + seconds * this.playbackRate);
+    if (this.currentTime >= this.video.duration) {
+      this.setState(PlayerState.ENDED);
+    }
+  }
+
+  playVideo(): void {
+    if (this.destroyed || this.state === PlayerState.PLAYING) return;
+
+    if (this.state === PlayerState.ENDED) {
+      this.currentTime = 0;
+    }
+    this.setState(PlayerState.PLAYING);
+  }
+
+  pauseVideo(): void {
+    if (this.state === PlayerState.PLAYING || this.state === PlayerState.BUFFERING) {
+      this.setState(PlayerState.PAUSED);
+    }
+  }
+
+  stopVideo(): void {
+    if (this.destroyed) return;
+    this.currentTime = 0;
+    this.setState(PlayerState.CUED);
+  }
+
+  seekTo(seconds: number, _allowSeekAhead?: boolean): void {
+    if (this.destroyed) return;
+
+    this.currentTime = Math.max(0, Math.min(seconds, this.video.duration));
+    if (this.state === PlayerState.ENDED && this.currentTime < this.video.duration) {
+      this.setState(PlayerState.PAUSED);
+    }
+  }
+
+  loadVideoById(videoId: string, startSeconds = 0): void {
+    if (this.destroyed) return;
+
+    // Like the IFrame API, loading starts the playback
+    this.video = this.resolveVideo(videoId);
+    this.currentTime = Math.max(0, Math.min(startSeconds, this.video.duration));
+    this.setState(PlayerState.PLAYING);
+  }
+
+  setPlaybackRate(suggestedRate: number): void {
+    if (this.destroyed) return;
+    this.playbackRate = suggestedRate;
+    this.events.onPlaybackRateChange?.(suggestedRate);
+  }
+
+  getPlaybackRate(): number {
+    return this.playbackRate;
+  }
+
+  setVolume(volume: number): void {
+    this.volume = Math.max(0, Math.min(100, volume));
+  }
+
+  getVolume(): number {
+    return this.volume;
+  }
+
+  getDuration(): number {
+    return this.video.duration;
+  }
+
+  getCurrentTime(): number {
+    return this.currentTime;
+  }
+
+  getPlayerState(): PlayerState {
+    return this.state;
+  }
+
+  getVideoData(): { video_id: string; title: string; author: string } {
+    return {
+      video_id: this.video.videoId,
+      title: this.video.title,
+      author: this.video.author
+    };
+  }
+
+  destroy(): void {
+    this.destroyed = true;
+    this.state = PlayerState.UNSTARTED;
+  }
+
+  private setState(state: PlayerState): void {
+    this.state = state;
+    this.events.onStateChange?.(state);
+  }
+}
+
+/**
+ * Creates fake players and owns their shared clock.
+ * Provide it through PLAYER_PORT_FACTORY in tests; the demo mode starts its clock.
+ */
+export class FakePlayerFactory implements PlayerPortFactory {
+  readonly isFake = true;
+
+  private players: FakePlayer[] = [];
+  private clockHandle: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * @param videos - Known videos, any other ID plays a generic video
+   */
+  constructor(private readonly videos: readonly FakeVideo[] = DEMO_VIDEOS) {}
+
+  /**
+   * Last created player still alive, for assertions
+   */
+  get lastPlayer(): FakePlayer | null {
+    const alive = this.players.filter(player => !player.isDestroyed);
+    return alive[alive.length - 1] ?? null;
+  }
+
+  async load(): Promise<void> {
+    // Nothing to download
+  }
+
+  create(_elementId: string, videoId: string, events: PlayerPortEvents): FakePlayer {
+    const resolveVideo = (id: string) => this.resolveVideo(id);
+    const player = new FakePlayer(resolveVideo(videoId), events, resolveVideo);
+
+    this.players = [...this.players.filter(existing => !existing.isDestroyed), player];
+    // The IFrame API reports readiness asynchronously
+    queueMicrotask(() => player.ready());
+
+    return player;
+  }
+
+  /**
+   * Moves the clock of every live player forward
+   */
+  advance(seconds: number): void {
+    this.players = this.players.filter(player => !player.isDestroyed);
+    this.players.forEach(player => player.advance(seconds));
+  }
+
+  /**
+   * Drives the clock from wall-clock time, used by the demo mode
+   */
+  startClock(intervalMs = 50): void {
+    if (this.clockHandle !== null) return;
+
+    let last = performance.now();
+    this.clockHandle = setInterval(() => {
+      const now = performance.now();
+      this.advance((now - last) / 1000);
+      last = now;
+    }, intervalMs);
+  }
+
+  stopClock(): void {
+    if (this.clockHandle !== null) {
+      clearInterval(this.clockHandle);
+      this.clockHandle = null;
+    }
+  }
+
+  private resolveVideo(videoId: string): FakeVideo {
+    return this.videos.find(video => video.videoId === videoId) ?? {
+      videoId,
+      title: `Vidéo de démonstration (${videoId})`,
+      author: 'Mode démo',
+      duration: DEFAULT_FAKE_DURATION
+    };
+  }
+}
@@ -0,0 +1,108 @@
+import { TestBed } from '@angular/core/testing';
+import { Html5PlayerService } from './html5-player.service';
+
+describe('Html5PlayerService', () => {
+  let service: Html5PlayerService;
+  let element: HTMLVideoElement;
+
+  const createFile = (content: string, name = 'take.mp3', type = 'audio/mpeg') =>
+    new File([content], name, { type });
+
+  // The test files hold no real media: report their metadata as soon as they load
+  const stubMetadata = (duration: number) => {
+    Object.defineProperty(element, 'duration', { value: duration, configurable: true });
+    spyOn(element, 'load').and.callFake(() => {
+      element.dispatchEvent(new Event('loadedmetadata'));
+    });
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(Html5PlayerService);
+    element = document.createElement('video');
+    spyOn(URL, 'createObjectURL').and.returnValue('blob:local-media');
+    spyOn(URL, 'revokeObjectURL');
+  });
+
+  afterEach(() => {
+    service.destroy();
+  });
+
+  it('should load a file and identify it by its content hash', async () => {
+    stubMetadata(95);
+
+    const video = await service.loadFile(element, createFile('riff', 'Solo final.mp3'));
+
+    expect(video.videoId).toMatch(/^local-[0-9a-f]{64}$/);
+    expect(video.id).toBe(video.videoId);
+    expect(video.title).toBe('Solo final');
+    expect(video.duration).toBe(95);
+    expect(video.url).toBe('local-file:Solo%20final.mp3');
+    expect(service.currentVideo()).toEqual(video);
+    expect(service.playerState().isReady).toBe(true);
+    expect(service.playerState().duration).toBe(95);
+  });
+
+  it('should give the same id to the same recording under another name', async () => {
+    stubMetadata(95);
+
+    const first = await service.loadFile(element, createFile('riff', 'take.mp3'));
+    const renamed = await service.loadFile(element, createFile('riff', 'renamed.mp3'));
+    const other = await service.loadFile(element, createFile('other riff', 'take.mp3'));
+
+    expect(renamed.videoId).toBe(first.videoId);
+    expect(other.videoId).not.toBe(first.videoId);
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:local-media');
+  });
+
+  it('should reject files that are not audio or video', async () => {
+    await expectAsync(
+      service.loadFile(element, createFile('notes', 'notes.txt', 'text/plain'))
+    ).toBeRejectedWithError('Format de fichier non pris en charge');
+
+    expect(service.currentVideo()).toBeNull();
+    expect(service.playerState().error).toBe('Format de fichier non pris en charge');
+  });
+
+  it('should apply speed and volume to the media element', async () => {
+    stubMetadata(95);
+    await service.loadFile(element, createFile('riff'));
+
+    service.setPlaybackRate(0.5);
+    service.setVolume(150);
+
+    expect(element.playbackRate).toBe(0.5);
+    expect(element.volume).toBe(1);
+    expect(service.playerState().volume).toBe(100);
+
+    service.setVolume(40);
+
+    expect(element.volume).toBeCloseTo(0.4);
+    expect(service.getVolume()).toBe(40);
+  });
+
+  it('should reflect the media element events in the player state', async () => {
+    stubMetadata(95);
+    await service.loadFile(element, createFile('riff'));
+
+    element.dispatchEvent(new Event('play'));
+    expect(service.playerState().isPlaying).toBe(true);
+
+    element.dispatchEvent(new Event('pause'));
+    expect(service.playerState().isPlaying).toBe(false);
+  });
+
+  it('should release the file on destroy', async () => {
+    stubMetadata(95);
+    await service.loadFile(element, createFile('riff'));
+
+    service.destroy();
+
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:local-media');
+    expect(service.currentVideo()).toBeNull();
+    expect(service.playerState().isReady).toBe(false);
+
+    element.dispatchEvent(new Event('play'));
+    expect(service.playerState().isPlaying).toBe(false);
+  });
+});
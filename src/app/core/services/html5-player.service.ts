@@ -0,0 +1,269 @@
+import { Injectable, signal } from '@angular/core';
+import { PlayerBackend, VideoInfo } from './player-backend';
+import { PlayerStateMachine } from './player-state-machine';
+import {
+  computeMediaContentHash,
+  createLocalMediaUrl,
+  getMediaTitle,
+  isSupportedMediaFile
+} from '../utils/media.utils';
+
+// Messages des codes MediaError
+const MEDIA_ERROR_MESSAGES: Record<number, string> = {
+  1: 'Lecture du fichier interrompue',
+  2: 'Erreur réseau lors de la lecture du fichier',
+  3: 'Fichier corrompu ou illisible',
+  4: 'Format de fichier non pris en charge par le navigateur'
+};
+
+// Événements de l'élément média qui mettent à jour l'état du player
+const MEDIA_EVENTS = [
+  'loadedmetadata',
+  'durationchange',
+  'play',
+  'playing',
+  'waiting',
+  'pause',
+  'ended',
+  'timeupdate',
+  'ratechange',
+  'volumechange',
+  'error'
+] as const;
+
+/**
+ * Lecture de fichiers audio/vidéo locaux dans un élément <audio> ou <video>.
+ *
+ * Même contrat que YouTubeService (PlayerBackend) : l'état de l'élément est
+ * reflété dans `playerState` et la vidéo courante est identifiée par le hash de
+ * son contenu, qui sert de clé aux sessions.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class Html5PlayerService implements PlayerBackend {
+  readonly kind = 'html5' as const;
+
+  private element: HTMLMediaElement | null = null;
+  private objectUrl: string | null = null;
+  private readonly listener = (event: Event) => this.onMediaEvent(event);
+
+  // État du player, ne change que par des transitions valides
+  private readonly machine = new PlayerStateMachine();
+  readonly playerState = this.machine.state;
+  readonly currentVideo = signal<VideoInfo | null>(null);
+
+  /**
+   * Charge un fichier choisi ou déposé par l'utilisateur dans l'élément média
+   * @returns Les informations du média, identifié par le hash de son contenu
+   */
+  async loadFile(element: HTMLMediaElement, file: File): Promise<VideoInfo> {
+    if (!isSupportedMediaFile(file)) {
+      const message = 'Format de fichier non pris en charge';
+      this.machine.fail(message);
+      throw new Error(message);
+    }
+
+    const videoId = await computeMediaContentHash(file);
+
+    this.attach(element);
+    this.releaseObjectUrl();
+    this.currentVideo.set(null);
+    this.machine.reset();
+
+    this.objectUrl = URL.createObjectURL(file);
+    await this.loadSource(element, this.objectUrl);
+
+    const videoInfo: VideoInfo = {
+      id: videoId,
+      videoId,
+      title: getMediaTitle(file.name),
+      duration: this.getDuration(),
+      author: '',
+      thumbnail: '',
+      url: createLocalMediaUrl(file.name)
+    };
+    this.currentVideo.set(videoInfo);
+
+    return videoInfo;
+  }
+
+  /**
+   * Contrôles de lecture
+   */
+  play(): void {
+    this.element?.play().catch(error => {
+      this.machine.fail('Lecture impossible');
+      console.error('Erreur lors de la lecture du fichier:', error);
+    });
+  }
+
+  pause(): void {
+    this.element?.pause();
+  }
+
+  stop(): void {
+    if (this.element) {
+      this.element.pause();
+      this.element.currentTime = 0;
+    }
+  }
+
+  seekTo(seconds: number): void {
+    if (this.element) {
+      this.element.currentTime = seconds;
+      this.machine.update({ currentTime: seconds });
+    }
+  }
+
+  setPlaybackRate(rate: number): void {
+    if (this.element) {
+      this.element.playbackRate = rate;
+      this.machine.update({ playbackRate: rate });
+    }
+  }
+
+  setVolume(volume: number): void {
+    if (this.element) {
+      const clampedVolume = Math.max(0, Math.min(100, volume));
+      this.element.volume = clampedVolume / 100;
+      this.machine.update({ volume: clampedVolume });
+    }
+  }
+
+  /**
+   * Getters pour l'état actuel
+   */
+  getCurrentTime(): number {
+    return this.element ? this.element.currentTime : 0;
+  }
+
+  getDuration(): number {
+    const duration = this.element?.duration ?? 0;
+    return Number.isFinite(duration) ? duration : 0;
+  }
+
+  getPlaybackRate(): number {
+    return this.element ? this.element.playbackRate : 1;
+  }
+
+  getVolume(): number {
+    return this.element ? Math.round(this.element.volume * 100) : 100;
+  }
+
+  /**
+   * Nettoyage des ressources
+   */
+  destroy(): void {
+    if (this.element) {
+      this.element.pause();
+      this.element.removeAttribute('src');
+      this.element.load();
+    }
+    this.detach();
+    this.releaseObjectUrl();
+
+    this.machine.reset();
+    this.currentVideo.set(null);
+  }
+
+  private attach(element: HTMLMediaElement): void {
+    if (this.element === element) return;
+
+    this.detach();
+    this.element = element;
+    MEDIA_EVENTS.forEach(type => element.addEventListener(type, this.listener));
+  }
+
+  private detach(): void {
+    const element = this.element;
+    if (element) {
+      MEDIA_EVENTS.forEach(type => element.removeEventListener(type, this.listener));
+    }
+    this.element = null;
+  }
+
+  /**
+   * Attend que les métadonnées (durée) soient disponibles
+   */
+  private loadSource(element: HTMLMediaElement, src: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onLoaded = () => {
+        cleanup();
+        resolve();
+      };
+      const onError = () => {
+        cleanup();
+        reject(new Error(this.getErrorMessage(element)));
+      };
+      const cleanup = () => {
+        element.removeEventListener('loadedmetadata', onLoaded);
+        element.removeEventListener('error', onError);
+      };
+
+      element.addEventListener('loadedmetadata', onLoaded);
+      element.addEventListener('error', onError);
+      element.src = src;
+      element.load();
+    });
+  }
+
+  /**
+   * Callbacks des événements de l'élément média
+   */
+  private onMediaEvent(event: Event): void {
+    const element = this.element;
+    if (!element) return;
+
+    switch (event.type) {
+      case 'loadedmetadata':
+        this.machine.transition('cued', {
+          duration: this.getDuration(),
+          volume: this.getVolume(),
+          playbackRate: element.playbackRate
+        });
+        break;
+      case 'durationchange':
+        this.machine.update({ duration: this.getDuration() });
+        break;
+      case 'play':
+      case 'playing':
+        this.machine.transition('playing');
+        break;
+      case 'waiting':
+        this.machine.transition('buffering');
+        break;
+      case 'pause':
+        // 'pause' précède 'ended' en fin de fichier
+        this.machine.transition(element.ended ? 'ended' : 'paused', { currentTime: element.currentTime });
+        break;
+      case 'ended':
+        this.machine.transition('ended', { currentTime: element.currentTime });
+        break;
+      case 'timeupdate':
+        this.machine.update({ currentTime: element.currentTime });
+        break;
+      case 'ratechange':
+        this.machine.update({ playbackRate: element.playbackRate });
+        break;
+      case 'volumechange':
+        this.machine.update({ volume: this.getVolume() });
+        break;
+      case 'error':
+        this.machine.fail(this.getErrorMessage(element));
+        break;
+    }
+  }
+
+  private getErrorMessage(element: HTMLMediaElement): string {
+    const code = element.error?.code;
+    return (code && MEDIA_ERROR_MESSAGES[code]) || 'Erreur lors de la lecture du fichier';
+  }
+
+  private releaseObjectUrl(): void {
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = null;
+    }
+  }
+}
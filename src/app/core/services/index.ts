@@ -8,6 +8,22 @@ export type {
 } from './loop.service';
 export { DEFAULT_LOOP_CONFIG } from './loop.service';
 
+export { LoopPlaybackEngineService, LOOP_FRAME_SCHEDULER, restartTime } from './loop-playback-engine.service';
+export type {
+  LoopEnginePlayer,
+  LoopEngineSegment,
+  LoopEngineListener,
+  LoopEngineRepetition,
+  LoopEngineStats,
+  LoopFrameScheduler
+} from './loop-playback-engine.service';
+
+export { SpeedRampService, DEFAULT_SPEED_RAMP_CONFIG } from './speed-ramp.service';
+export type { SpeedRampState, SpeedRampStepResult } from './speed-ramp.service';
+
+export { LoopHistoryService, MAX_LOOP_HISTORY_DEPTH } from './loop-history.service';
+export type { LoopHistoryAction, LoopHistoryCommand, LoopHistoryStacks } from './loop-history.service';
+
 export { ValidationService } from './validation.service';
 
 export { SecureStorageService } from './storage.service';
@@ -20,15 +36,29 @@ export type {
 } from './storage.types';
 export { StorageError } from './storage.types';
 
+export { StorageBackendService, STORAGE_BACKEND_KEY_PREFIX } from './storage-backend.service';
+export {
+  STORAGE_ADAPTER,
+  LocalStorageAdapter,
+  InMemoryStorageAdapter,
+  createDefaultStorageAdapter
+} from './storage-adapter';
+export type { StorageAdapter, StorageAdapterKind } from './storage-adapter';
+export { IndexedDbStorageAdapter } from './indexed-db-storage.adapter';
+
 export { LooperStorageService } from './looper-storage.service';
 export type {
   LooperSession,
   SessionSettings,
+  SessionMetronome,
   CurrentState,
   SessionHistoryEntry,
   SessionMetadata,
+  PracticeRoutine,
+  RoutineItem,
   CompressedSessionData,
   StorageOperationResult,
+  StorageMigrationState,
   LooperStorageConfig
 } from './looper-storage.types';
 export { 
@@ -37,4 +67,57 @@ export {
   LOOPER_STORAGE_KEYS
 } from './looper-storage.types';
 
-export { SessionManagerService } from './session-manager.service';
\ No newline at end of file
+export { SessionRepositoryService, mergeLegacySessions, videoSessionToLooperSession } from './session-repository.service';
+export type { VideoSessionSnapshot } from './session-repository.service';
+
+export { SessionManagerService } from './session-manager.service';
+
+export { PracticeRoutineService, DEFAULT_ROUTINE_REPETITIONS } from './practice-routine.service';
+export type { RoutineItemRequest, ResolvedRoutineItem } from './practice-routine.service';
+
+export { LoopReviewService } from './loop-review.service';
+export type { DueLoop } from './loop-review.service';
+
+export { INITIAL_PLAYER_STATE } from './player-backend';
+export type { PlayerBackend, PlayerBackendKind, PlaybackStatus, PlayerState, VideoInfo } from './player-backend';
+export {
+  PlayerStateMachine,
+  PLAYER_TRANSITIONS,
+  READY_STATUSES,
+  PLAYABLE_STATUSES,
+  ACTIVE_STATUSES,
+  canTransition,
+  statusFromYouTubeState
+} from './player-state-machine';
+export type { PlayerStateUpdate } from './player-state-machine';
+export { Html5PlayerService } from './html5-player.service';
+export { MediaPlayerService } from './media-player.service';
+
+export {
+  PLAYER_PORT_FACTORY,
+  DEMO_MODE_QUERY_PARAM,
+  YouTubeIframePlayerFactory,
+  createDefaultPlayerPortFactory,
+  isDemoModeRequested
+} from './player-port';
+export { FakePlayer, FakePlayerFactory, DEMO_VIDEOS } from './fake-player';
+export type { FakeVideo } from './fake-player';
+
+export { CountInService, CLICK_SYNTH, WebAudioClickSynth, DEFAULT_COUNT_IN_CONFIG } from './count-in.service';
+export type { ClickSynth, CountInBeat } from './count-in.service';
+
+export { RestGapService, DEFAULT_REST_GAP_CONFIG, restDuration } from './rest-gap.service';
+export type { RestCountdown } from './rest-gap.service';
+
+export { LoopFadeService, DEFAULT_FADE_IN_OUT_CONFIG, fadeGain } from './loop-fade.service';
+export type { LoopFadePlayer, LoopFadeSegment } from './loop-fade.service';
+
+export {
+  MetronomeService,
+  DEFAULT_METRONOME_SETTINGS,
+  METRONOME_BPM_RANGE,
+  METRONOME_BEAT_UNITS,
+  METRONOME_MAX_BEATS_PER_BAR,
+  normalizeMetronome
+} from './metronome.service';
+export type { MetronomePlayer, MetronomeBeat } from './metronome.service';
@@ -0,0 +1,84 @@
+import type { StorageAdapter } from './storage-adapter';
+
+/**
+ * IndexedDB implementation: a single object store of serialized values,
+ * bounded only by the browser quota
+ */
+export class IndexedDbStorageAdapter implements StorageAdapter {
+  readonly kind = 'indexedDB' as const;
+  readonly maxSize = null;
+
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private readonly dbName = 'ng-youtube-looper',
+    private readonly storeName = 'keyval'
+  ) {}
+
+  async isAvailable(): Promise<boolean> {
+    if (typeof indexedDB === 'undefined') {
+      return false;
+    }
+
+    try {
+      await this.open();
+      return true;
+    } catch {
+      this.dbPromise = null;
+      return false;
+    }
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.request<unknown>('readonly', store => store.get(key));
+    return typeof value === 'string' ? value : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.request('readwrite', store => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.request<IDBValidKey[]>('readonly', store => store.getAllKeys());
+    return keys.map(key => String(key));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('IndexedDB open blocked'));
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = operation(transaction.objectStore(this.storeName));
+
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
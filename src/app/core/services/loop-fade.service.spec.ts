@@ -0,0 +1,88 @@
+import { TestBed } from '@angular/core/testing';
+import { LoopFadePlayer, LoopFadeService, fadeGain } from './loop-fade.service';
+import { LOOP_FRAME_SCHEDULER, LoopFrameScheduler } from './loop-playback-engine.service';
+
+/**
+ * Frames run one at a time by the test
+ */
+class ManualFrames implements Pick<LoopFrameScheduler, 'requestFrame' | 'cancelFrame'> {
+  private callback: ((timestamp: number) => void) | null = null;
+
+  requestFrame(callback: (timestamp: number) => void): number {
+    this.callback = callback;
+    return 1;
+  }
+
+  cancelFrame(): void {
+    this.callback = null;
+  }
+
+  get pending(): boolean {
+    return this.callback !== null;
+  }
+
+  runFrame(): void {
+    const callback = this.callback;
+    this.callback = null;
+    callback?.(0);
+  }
+}
+
+describe('LoopFadeService', () => {
+  const loop = { id: 'riff', startTime: 10, endTime: 20, fadeInOut: { fadeIn: 1, fadeOut: 2 } };
+
+  let service: LoopFadeService;
+  let frames: ManualFrames;
+  let player: jasmine.SpyObj<LoopFadePlayer>;
+
+  beforeEach(() => {
+    frames = new ManualFrames();
+    player = jasmine.createSpyObj<LoopFadePlayer>('LoopFadePlayer', ['getCurrentTime', 'getVolume', 'setVolume']);
+    player.getVolume.and.returnValue(80);
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: LOOP_FRAME_SCHEDULER, useValue: frames }]
+    });
+
+    service = TestBed.inject(LoopFadeService);
+    service.attach(player);
+  });
+
+  it('should ramp up from the restart point and down to the end boundary', () => {
+    expect(fadeGain(loop, 10)).toBe(0);
+    expect(fadeGain(loop, 10.5)).toBe(0.5);
+    expect(fadeGain(loop, 15)).toBe(1);
+    expect(fadeGain(loop, 19)).toBe(0.5);
+    expect(fadeGain({ ...loop, preRoll: 2 }, 8.5)).toBe(0.5);
+    expect(fadeGain(loop, 25)).toBe(1);
+  });
+
+  it('should scale the base volume on each frame', () => {
+    service.start(loop);
+
+    player.getCurrentTime.and.returnValue(10.5);
+    frames.runFrame();
+    expect(player.setVolume).toHaveBeenCalledWith(40);
+
+    player.getCurrentTime.and.returnValue(19.5);
+    frames.runFrame();
+    expect(player.setVolume).toHaveBeenCalledWith(20);
+    expect(service.baseVolume()).toBe(80);
+  });
+
+  it('should stay silent while muted and restore the base volume when stopped', () => {
+    service.setBaseVolume(60);
+    service.setMuted(true);
+    service.start(loop);
+
+    player.getCurrentTime.and.returnValue(15);
+    frames.runFrame();
+    expect(player.setVolume).toHaveBeenCalledWith(0);
+
+    service.setMuted(false);
+    service.stop();
+
+    expect(player.setVolume).toHaveBeenCalledWith(60);
+    expect(frames.pending).toBe(false);
+  });
+});
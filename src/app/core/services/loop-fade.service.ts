@@ -0,0 +1,176 @@
+import { Injectable, NgZone, inject, signal } from '@angular/core';
+import { FadeInOutConfig } from '@shared/interfaces';
+import { LOOP_FRAME_SCHEDULER, restartTime } from './loop-playback-engine.service';
+
+// Player surface the fades read time from and drive the volume of
+export interface LoopFadePlayer {
+  getCurrentTime(): number;
+  getVolume(): number;
+  setVolume(volume: number): void; // 0-100
+}
+
+// Loop whose boundaries get a volume ramp
+export interface LoopFadeSegment {
+  id: string;
+  startTime: number;
+  endTime: number;
+  preRoll?: number;
+  fadeInOut: FadeInOutConfig;
+}
+
+// Short enough to keep the attack of the first note
+export const DEFAULT_FADE_IN_OUT_CONFIG: FadeInOutConfig = {
+  fadeIn: 0.3,
+  fadeOut: 0.3
+};
+
+/**
+ * Volume factor (0-1) at a media time: rises over `fadeIn` seconds from the restart
+ * point and falls over `fadeOut` seconds to the end boundary. The ramps follow the
+ * media time, so they get shorter when the loop is played faster. Outside the loop
+ * (before the pre-roll, or past the end once completed) the volume is left untouched.
+ */
+export function fadeGain(loop: Omit<LoopFadeSegment, 'id'>, time: number): number {
+  const from = restartTime(loop);
+  if (time < from || time >= loop.endTime) {
+    return 1;
+  }
+
+  const { fadeIn, fadeOut } = loop.fadeInOut;
+  const fadeInGain = fadeIn > 0 ? (time - from) / fadeIn : 1;
+  const fadeOutGain = fadeOut > 0 ? (loop.endTime - time) / fadeOut : 1;
+
+  return Math.max(0, Math.min(1, fadeInGain, fadeOutGain));
+}
+
+/**
+ * Volume of the player: the user's base volume and mute state, ramped at the
+ * boundaries of the active loop.
+ *
+ * The base volume is kept apart from the volume sent to the player so that a fade
+ * never overwrites it. While a loop with fades is active the volume is sampled on
+ * every animation frame and only sent when it changes.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class LoopFadeService {
+  private readonly scheduler = inject(LOOP_FRAME_SCHEDULER);
+  private readonly zone = inject(NgZone);
+
+  private player: LoopFadePlayer | null = null;
+  private segment: LoopFadeSegment | null = null;
+  private frameHandle: number | null = null;
+  private appliedVolume: number | null = null;
+
+  // null until known, see captureBaseVolume
+  private readonly _baseVolume = signal<number | null>(null);
+  private readonly _isMuted = signal(false);
+
+  readonly baseVolume = this._baseVolume.asReadonly();
+  readonly isMuted = this._isMuted.asReadonly();
+
+  attach(player: LoopFadePlayer): void {
+    this.player = player;
+  }
+
+  detach(): void {
+    this.stop();
+    this.player = null;
+  }
+
+  setBaseVolume(volume: number): void {
+    this._baseVolume.set(Math.max(0, Math.min(100, volume)));
+    this.applyVolume();
+  }
+
+  setMuted(muted: boolean): void {
+    this.captureBaseVolume();
+    this._isMuted.set(muted);
+    this.applyVolume();
+  }
+
+  /**
+   * Ramp the volume at the boundaries of a loop. Calling it again with the same
+   * segment is a no-op, so it can be driven by an effect.
+   */
+  start(segment: LoopFadeSegment): void {
+    const current = this.segment;
+    if (current &&
+        current.id === segment.id &&
+        current.startTime === segment.startTime &&
+        current.endTime === segment.endTime &&
+        current.preRoll === segment.preRoll &&
+        current.fadeInOut.fadeIn === segment.fadeInOut.fadeIn &&
+        current.fadeInOut.fadeOut === segment.fadeInOut.fadeOut) {
+      return;
+    }
+
+    this.captureBaseVolume();
+    this.segment = segment;
+    this.requestFrame();
+  }
+
+  /**
+   * Stop ramping and restore the base volume
+   */
+  stop(): void {
+    if (this.frameHandle !== null) {
+      this.scheduler.cancelFrame(this.frameHandle);
+      this.frameHandle = null;
+    }
+
+    if (this.segment) {
+      this.segment = null;
+      this.applyVolume();
+    }
+  }
+
+  // The volume the player had before the first fade or mute becomes the base volume
+  private captureBaseVolume(): void {
+    if (this.player && this._baseVolume() === null) {
+      this._baseVolume.set(this.player.getVolume());
+    }
+  }
+
+  private requestFrame(): void {
+    if (this.frameHandle !== null) {
+      return;
+    }
+
+    // Frames only read the player: keep them out of change detection
+    this.zone.runOutsideAngular(() => {
+      this.frameHandle = this.scheduler.requestFrame(() => this.onFrame());
+    });
+  }
+
+  private onFrame(): void {
+    this.frameHandle = null;
+    if (!this.segment || !this.player) {
+      return;
+    }
+
+    this.applyVolume();
+    this.requestFrame();
+  }
+
+  private applyVolume(): void {
+    if (!this.player) {
+      return;
+    }
+
+    const base = this._baseVolume();
+    if (base === null) {
+      // Nothing chosen yet: the player keeps its own volume
+      return;
+    }
+
+    const gain = this.segment ? fadeGain(this.segment, this.player.getCurrentTime()) : 1;
+    const volume = this._isMuted() ? 0 : Math.round(base * gain);
+
+    if (volume !== this.appliedVolume || !this.segment) {
+      this.appliedVolume = volume;
+      this.player.setVolume(volume);
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { TestBed } from '@angular/core/testing';
+import { LoopHistoryService, MAX_LOOP_HISTORY_DEPTH } from './loop-history.service';
+import { LoopSegment } from '@shared/interfaces/loop.types';
+
+describe('LoopHistoryService', () => {
+  let service: LoopHistoryService;
+
+  const loop = (id: string, startTime = 0, endTime = 10): LoopSegment => ({
+    id,
+    name: `Loop ${id}`,
+    startTime,
+    endTime,
+    playbackSpeed: 1,
+    playCount: 0,
+    isActive: false
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(LoopHistoryService);
+    service.setScope('video-1');
+  });
+
+  it('should undo and redo a recorded command', () => {
+    service.record('create', 'Créer « Loop a »', [], [loop('a')]);
+
+    expect(service.canUndo()).toBe(true);
+    expect(service.undoLabel()).toBe('Créer « Loop a »');
+
+    const undone = service.undo();
+    expect(undone?.before).toEqual([]);
+    expect(service.canUndo()).toBe(false);
+    expect(service.canRedo()).toBe(true);
+
+    const redone = service.redo();
+    expect(redone?.after).toEqual([loop('a')]);
+    expect(service.canRedo()).toBe(false);
+  });
+
+  it('should return null when there is nothing to undo or redo', () => {
+    expect(service.undo()).toBeNull();
+    expect(service.redo()).toBeNull();
+  });
+
+  it('should ignore edits that leave the loops unchanged', () => {
+    service.record('update', 'Modifier « Loop a »', [loop('a')], [{ ...loop('a'), updatedAt: new Date() }]);
+
+    expect(service.canUndo()).toBe(false);
+  });
+
+  it('should clear the redo stack on a new edit', () => {
+    service.record('create', 'Créer', [], [loop('a')]);
+    service.undo();
+
+    service.record('create', 'Créer', [], [loop('b')]);
+
+    expect(service.canRedo()).toBe(false);
+  });
+
+  it('should not be affected by later changes to the recorded loops', () => {
+    const after = [loop('a')];
+    service.record('create', 'Créer', [], after);
+
+    after[0]!.startTime = 42;
+
+    expect(service.undo()?.after[0]!.startTime).toBe(0);
+  });
+
+  it('should group the edits of a transaction into one command', () => {
+    service.beginTransaction('move', 'Déplacer « Loop a »', [loop('a', 0, 10)]);
+    service.record('update', 'Modifier', [loop('a', 0, 10)], [loop('a', 1, 11)]);
+    service.record('update', 'Modifier', [loop('a', 1, 11)], [loop('a', 2, 12)]);
+    service.commitTransaction([loop('a', 2, 12)]);
+
+    expect(service.undoDepth()).toBe(1);
+    const command = service.undo();
+    expect(command?.action).toBe('move');
+    expect(command?.before).toEqual([loop('a', 0, 10)]);
+    expect(command?.after).toEqual([loop('a', 2, 12)]);
+  });
+
+  it('should not record a transaction without changes', () => {
+    service.beginTransaction('resize', 'Redimensionner', [loop('a')]);
+    service.commitTransaction([loop('a')]);
+
+    expect(service.canUndo()).toBe(false);
+  });
+
+  it('should keep one history per video', () => {
+    service.record('create', 'Créer', [], [loop('a')]);
+
+    service.setScope('video-2');
+    expect(service.canUndo()).toBe(false);
+    service.record('delete', 'Supprimer', [loop('b')], []);
+
+    service.setScope('video-1');
+    expect(service.undo()?.action).toBe('create');
+    expect(service.canUndo()).toBe(false);
+
+    service.setScope('video-2');
+    expect(service.undoLabel()).toBe('Supprimer');
+  });
+
+  it('should drop the oldest commands beyond the maximum depth', () => {
+    for (let i = 0; i <= MAX_LOOP_HISTORY_DEPTH; i++) {
+      service.record('create', `Créer ${i}`, [], [loop(`${i}`)]);
+    }
+
+    expect(service.undoDepth()).toBe(MAX_LOOP_HISTORY_DEPTH);
+  });
+
+  it('should clear the history of the current video', () => {
+    service.record('create', 'Créer', [], [loop('a')]);
+
+    service.clear();
+
+    expect(service.canUndo()).toBe(false);
+  });
+});
@@ -0,0 +1,194 @@
+import { Injectable, signal, computed } from '@angular/core';
+import { LoopSegment } from '@shared/interfaces/loop.types';
+
+// Kind of edit recorded in the history
+export type LoopHistoryAction =
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'duplicate'
+  | 'move'
+  | 'resize'
+  | 'resolve-conflicts'
+  | 'clear';
+
+// One undoable edit: the loop collection before and after it was applied
+export interface LoopHistoryCommand {
+  action: LoopHistoryAction;
+  label: string;
+  before: LoopSegment[];
+  after: LoopSegment[];
+  timestamp: number;
+}
+
+// Undo and redo stacks of a single video, most recent command last
+export interface LoopHistoryStacks {
+  undo: LoopHistoryCommand[];
+  redo: LoopHistoryCommand[];
+}
+
+// Edit in progress, e.g. a drag on the timeline, recorded as one command once committed
+interface PendingLoopHistoryCommand {
+  action: LoopHistoryAction;
+  label: string;
+  before: LoopSegment[];
+}
+
+// Commands kept per video before the oldest ones are dropped
+export const MAX_LOOP_HISTORY_DEPTH = 50;
+
+// Scope used while no video is loaded
+const NO_VIDEO_SCOPE = '';
+
+const EMPTY_STACKS: LoopHistoryStacks = { undo: [], redo: [] };
+
+/**
+ * Undo/redo history for loop edits.
+ *
+ * Each command stores snapshots of the loop collection, so undoing any edit is a
+ * matter of restoring its "before" state and redoing it restores "after". The
+ * service only keeps the stacks: callers apply the returned snapshot to their own
+ * state. Stacks are scoped per video, switching video keeps the history of the
+ * previous one for when it is reopened.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class LoopHistoryService {
+  private readonly _scope = signal<string>(NO_VIDEO_SCOPE);
+  private readonly _stacks = signal<ReadonlyMap<string, LoopHistoryStacks>>(new Map());
+  private pending: PendingLoopHistoryCommand | null = null;
+
+  readonly scope = this._scope.asReadonly();
+
+  private readonly currentStacks = computed(() => this._stacks().get(this._scope()) ?? EMPTY_STACKS);
+
+  readonly canUndo = computed(() => this.currentStacks().undo.length > 0);
+  readonly canRedo = computed(() => this.currentStacks().redo.length > 0);
+  readonly undoLabel = computed(() => this.currentStacks().undo.at(-1)?.label ?? null);
+  readonly redoLabel = computed(() => this.currentStacks().redo.at(-1)?.label ?? null);
+  readonly undoDepth = computed(() => this.currentStacks().undo.length);
+
+  /**
+   * Switch the history to another video. An unfinished transaction belongs to the
+   * previous video and is dropped.
+   */
+  setScope(videoId: string | null): void {
+    this.pending = null;
+    this._scope.set(videoId ?? NO_VIDEO_SCOPE);
+  }
+
+  /**
+   * Record an applied edit. Edits that leave the loops unchanged are ignored, as are
+   * edits made while a transaction is open: the transaction records them as a whole.
+   */
+  record(action: LoopHistoryAction, label: string, before: LoopSegment[], after: LoopSegment[]): void {
+    if (this.pending || this.isSameSnapshot(before, after)) return;
+
+    this.push({
+      action,
+      label,
+      before: this.snapshot(before),
+      after: this.snapshot(after),
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Open a transaction grouping several edits into one command,
+   * e.g. the continuous updates of a drag gesture.
+   */
+  beginTransaction(action: LoopHistoryAction, label: string, before: LoopSegment[]): void {
+    this.pending = { action, label, before: this.snapshot(before) };
+  }
+
+  /**
+   * Close the open transaction and record it if the loops changed meanwhile
+   */
+  commitTransaction(after: LoopSegment[]): void {
+    const pending = this.pending;
+    if (!pending) return;
+
+    this.pending = null;
+    this.record(pending.action, pending.label, pending.before, after);
+  }
+
+  cancelTransaction(): void {
+    this.pending = null;
+  }
+
+  get isInTransaction(): boolean {
+    return this.pending !== null;
+  }
+
+  /**
+   * Move the last command to the redo stack and return it, its "before" snapshot is
+   * the state to restore. Returns null when there is nothing to undo.
+   */
+  undo(): LoopHistoryCommand | null {
+    const { undo, redo } = this.currentStacks();
+    const command = undo.at(-1);
+    if (!command) return null;
+
+    this.pending = null;
+    this.setStacks({ undo: undo.slice(0, -1), redo: [...redo, command] });
+    return command;
+  }
+
+  /**
+   * Move the last undone command back to the undo stack and return it, its "after"
+   * snapshot is the state to restore. Returns null when there is nothing to redo.
+   */
+  redo(): LoopHistoryCommand | null {
+    const { undo, redo } = this.currentStacks();
+    const command = redo.at(-1);
+    if (!command) return null;
+
+    this.pending = null;
+    this.setStacks({ undo: [...undo, command], redo: redo.slice(0, -1) });
+    return command;
+  }
+
+  /**
+   * Forget the history of a video, the current one by default
+   */
+  clear(videoId?: string | null): void {
+    const scope = videoId === undefined ? this._scope() : videoId ?? NO_VIDEO_SCOPE;
+    if (scope === this._scope()) {
+      this.pending = null;
+    }
+
+    this._stacks.update(stacks => {
+      const next = new Map(stacks);
+      next.delete(scope);
+      return next;
+    });
+  }
+
+  private push(command: LoopHistoryCommand): void {
+    const undo = [...this.currentStacks().undo, command].slice(-MAX_LOOP_HISTORY_DEPTH);
+    // A new edit invalidates the commands that were undone before it
+    this.setStacks({ undo, redo: [] });
+  }
+
+  private setStacks(stacks: LoopHistoryStacks): void {
+    const scope = this._scope();
+    this._stacks.update(current => new Map(current).set(scope, stacks));
+  }
+
+  private snapshot(loops: LoopSegment[]): LoopSegment[] {
+    return loops.map(loop => ({ ...loop }));
+  }
+
+  private isSameSnapshot(before: LoopSegment[], after: LoopSegment[]): boolean {
+    return before.length === after.length &&
+      before.every((loop, index) => this.isSameLoop(loop, after[index]!));
+  }
+
+  private isSameLoop(a: LoopSegment, b: LoopSegment): boolean {
+    if (a === b) return true;
+
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof LoopSegment>;
+    return [...keys].every(key => key === 'updatedAt' || JSON.stringify(a[key]) === JSON.stringify(b[key]));
+  }
+}
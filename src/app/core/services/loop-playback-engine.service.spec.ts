@@ -0,0 +1,304 @@
+import { TestBed } from '@angular/core/testing';
+import {
+  LoopPlaybackEngineService,
+  LoopEnginePlayer,
+  LoopFrameScheduler,
+  LOOP_FRAME_SCHEDULER
+} from './loop-playback-engine.service';
+
+/**
+ * Manual clock running animation frames and timers in time order
+ */
+class FakeScheduler implements LoopFrameScheduler {
+  private time = 0;
+  private nextHandle = 1;
+  private frames = new Map<number, (timestamp: number) => void>();
+  private timers = new Map<number, { at: number; callback: () => void }>();
+
+  constructor(private readonly frameIntervalMs: number) {}
+
+  now(): number {
+    return this.time;
+  }
+
+  requestFrame(callback: (timestamp: number) => void): number {
+    const handle = this.nextHandle++;
+    this.frames.set(handle, callback);
+    return handle;
+  }
+
+  cancelFrame(handle: number): void {
+    this.frames.delete(handle);
+  }
+
+  setTimer(callback: () => void, delayMs: number): number {
+    const handle = this.nextHandle++;
+    this.timers.set(handle, { at: this.time + delayMs, callback });
+    return handle;
+  }
+
+  clearTimer(handle: number): void {
+    this.timers.delete(handle);
+  }
+
+  advance(ms: number): void {
+    const end = this.time + ms;
+    let nextFrameAt = this.time + this.frameIntervalMs;
+
+    while (this.time < end) {
+      const nextTimer = Array.from(this.timers.entries()).sort((a, b) => a[1].at - b[1].at)[0];
+
+      if (nextTimer && nextTimer[1].at <= Math.min(nextFrameAt, end)) {
+        this.time = nextTimer[1].at;
+        this.timers.delete(nextTimer[0]);
+        nextTimer[1].callback();
+      } else if (nextFrameAt <= end) {
+        this.time = nextFrameAt;
+        nextFrameAt += this.frameIntervalMs;
+        const frames = Array.from(this.frames.values());
+        this.frames.clear();
+        frames.forEach(frame => frame(this.time));
+      } else {
+        this.time = end;
+      }
+    }
+  }
+}
+
+/**
+ * Player whose position follows the fake clock
+ */
+class FakePlayer implements LoopEnginePlayer {
+  playing = true;
+  seeks: number[] = [];
+  private position = 0;
+  private positionAt = 0;
+
+  constructor(private readonly clock: FakeScheduler, public rate = 1) {}
+
+  getCurrentTime(): number {
+    const elapsed = this.playing ? (this.clock.now() - this.positionAt) / 1000 : 0;
+    return this.position + elapsed * this.rate;
+  }
+
+  getPlaybackRate(): number {
+    return this.rate;
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  seekTo(seconds: number): void {
+    this.seeks.push(seconds);
+    this.position = seconds;
+    this.positionAt = this.clock.now();
+  }
+}
+
+describe('LoopPlaybackEngineService', () => {
+  let engine: LoopPlaybackEngineService;
+  let scheduler: FakeScheduler;
+  let player: FakePlayer;
+
+  const loop = { id: 'loop-1', startTime: 10, endTime: 12 };
+
+  const setup = (frameIntervalMs: number, rate = 1) => {
+    scheduler = new FakeScheduler(frameIntervalMs);
+    TestBed.configureTestingModule({
+      providers: [
+        LoopPlaybackEngineService,
+        { provide: LOOP_FRAME_SCHEDULER, useValue: scheduler }
+      ]
+    });
+    engine = TestBed.inject(LoopPlaybackEngineService);
+    player = new FakePlayer(scheduler, rate);
+    player.seekTo(loop.startTime);
+    player.seeks = [];
+    engine.attach(player);
+  };
+
+  it('should restart the loop within 50ms of the end boundary', () => {
+    setup(16);
+    engine.start(loop);
+
+    scheduler.advance(10_000);
+
+    const stats = engine.stats();
+    expect(stats.restarts).toBe(5);
+    expect(player.seeks.every(time => time === loop.startTime)).toBe(true);
+    expect(Math.abs(stats.maxOvershootMs!)).toBeLessThan(50);
+  });
+
+  it('should stay tight with slow frames by predicting the boundary', () => {
+    setup(250);
+    engine.start(loop);
+
+    scheduler.advance(10_000);
+
+    expect(engine.stats().restarts).toBe(5);
+    expect(Math.abs(engine.stats().maxOvershootMs!)).toBeLessThan(50);
+  });
+
+  it('should take the playback rate into account', () => {
+    setup(16, 0.5);
+    engine.start(loop);
+
+    scheduler.advance(8_000);
+
+    expect(engine.stats().restarts).toBe(2);
+    expect(Math.abs(engine.stats().maxOvershootMs!)).toBeLessThan(50);
+  });
+
+  it('should not seek while paused', () => {
+    setup(16);
+    player.playing = false;
+    engine.start(loop);
+
+    scheduler.advance(5_000);
+
+    expect(player.seeks).toEqual([]);
+  });
+
+  it('should stop when seeking out of the loop', () => {
+    setup(16);
+    engine.start(loop);
+
+    engine.notifySeek(30);
+
+    expect(engine.isRunning()).toBe(false);
+  });
+
+  it('should keep running for seeks inside the loop', () => {
+    setup(16);
+    engine.start(loop);
+
+    engine.notifySeek(11);
+
+    expect(engine.activeLoop()).toEqual(loop);
+  });
+
+  it('should stop scheduling frames once stopped', () => {
+    setup(16);
+    engine.start(loop);
+    scheduler.advance(100);
+
+    engine.stop();
+    scheduler.advance(5_000);
+
+    expect(player.seeks).toEqual([]);
+    expect(engine.stats().restarts).toBe(0);
+  });
+
+  describe('finite repetitions', () => {
+    const finiteLoop = { ...loop, repeatCount: 3 };
+    let completed: string[];
+
+    beforeEach(() => {
+      setup(16);
+      completed = [];
+      engine.attach(player, { onLoopCompleted: segment => completed.push(segment.id) });
+    });
+
+    it('should play the loop exactly repeatCount times', () => {
+      engine.start(finiteLoop);
+
+      scheduler.advance(10_000);
+
+      expect(player.seeks).toEqual([10, 10]);
+      expect(completed).toEqual(['loop-1']);
+      expect(engine.repetition()).toEqual({ current: 3, total: 3 });
+    });
+
+    it('should count the current pass', () => {
+      engine.start(finiteLoop);
+      expect(engine.repetition()).toEqual({ current: 1, total: 3 });
+
+      scheduler.advance(2_500);
+
+      expect(engine.repetition()).toEqual({ current: 2, total: 3 });
+    });
+
+    it('should not count infinite loops', () => {
+      engine.start(loop);
+
+      expect(engine.repetition()).toBeNull();
+    });
+
+    it('should play the repetitions again when seeking back into a completed loop', () => {
+      engine.start(finiteLoop);
+      scheduler.advance(7_000);
+
+      player.seekTo(10);
+      engine.notifySeek(10);
+      scheduler.advance(1_000);
+
+      expect(engine.repetition()).toEqual({ current: 1, total: 3 });
+    });
+
+    it('should keep the passes played when repeatCount is edited', () => {
+      engine.start(finiteLoop);
+      scheduler.advance(2_500);
+
+      engine.start({ ...finiteLoop, repeatCount: 5 });
+
+      expect(engine.repetition()).toEqual({ current: 2, total: 5 });
+    });
+  });
+
+  it('should notify each restart with the pass number', () => {
+    setup(16);
+    const passes: number[] = [];
+    engine.attach(player, {
+      onLoopCompleted: () => undefined,
+      onLoopRestarted: (_segment, pass) => passes.push(pass)
+    });
+    engine.start(loop);
+
+    scheduler.advance(5_000);
+
+    expect(passes).toEqual([2, 3]);
+  });
+
+  it('should restart from the pre-roll and count passes from the loop start', () => {
+    setup(16);
+    engine.start({ ...loop, preRoll: 1, repeatCount: 3 });
+
+    scheduler.advance(2_000);
+
+    expect(player.seeks).toEqual([9]);
+    expect(engine.repetition()).toEqual({ current: 2, total: 3 });
+
+    // The pre-roll is part of the loop: seeking into it keeps the engine running
+    engine.notifySeek(9.5);
+    expect(engine.isRunning()).toBe(true);
+
+    scheduler.advance(1_000);
+
+    expect(player.seeks).toEqual([9]);
+    expect(engine.repetition()).toEqual({ current: 2, total: 3 });
+  });
+
+  it('should ignore invalid segments', () => {
+    setup(16);
+
+    engine.start({ id: 'bad', startTime: 12, endTime: 10 });
+
+    expect(engine.isRunning()).toBe(false);
+  });
+
+  it('should reset statistics', () => {
+    setup(16);
+    engine.start(loop);
+    scheduler.advance(3_000);
+
+    engine.resetStats();
+
+    expect(engine.stats()).toEqual({
+      restarts: 0,
+      lastOvershootMs: null,
+      maxOvershootMs: null,
+      averageOvershootMs: null
+    });
+  });
+});
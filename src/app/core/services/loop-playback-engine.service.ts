@@ -0,0 +1,323 @@
+import { Injectable, InjectionToken, NgZone, inject, signal, computed } from '@angular/core';
+
+// Minimal player surface driven by the engine
+export interface LoopEnginePlayer {
+  getCurrentTime(): number;
+  getPlaybackRate(): number;
+  isPlaying(): boolean;
+  seekTo(seconds: number): void;
+}
+
+// Loop boundaries handled by the engine
+export interface LoopEngineSegment {
+  id: string;
+  startTime: number;
+  endTime: number;
+  repeatCount?: number; // number of passes before completion, infinite when undefined
+  preRoll?: number; // seconds played before startTime on each restart, not counted as a pass
+}
+
+// Notified of the loop passes: each restart, and the end of a finite loop
+export interface LoopEngineListener {
+  onLoopCompleted(loop: LoopEngineSegment): void;
+  onLoopRestarted?(loop: LoopEngineSegment, pass: number): void;
+}
+
+// Repetition counter of the active loop, e.g. 3 / 5
+export interface LoopEngineRepetition {
+  current: number;
+  total: number;
+}
+
+// Measured precision of the loop restarts
+export interface LoopEngineStats {
+  restarts: number;
+  lastOvershootMs: number | null; // media time played past endTime, negative when cut early
+  maxOvershootMs: number | null;
+  averageOvershootMs: number | null;
+}
+
+// Frame and timer primitives, replaced by a manual clock in tests
+export interface LoopFrameScheduler {
+  now(): number;
+  requestFrame(callback: (timestamp: number) => void): number;
+  cancelFrame(handle: number): void;
+  setTimer(callback: () => void, delayMs: number): number;
+  clearTimer(handle: number): void;
+}
+
+export const LOOP_FRAME_SCHEDULER = new InjectionToken<LoopFrameScheduler>('LOOP_FRAME_SCHEDULER', {
+  providedIn: 'root',
+  factory: () => ({
+    now: () => performance.now(),
+    requestFrame: callback => requestAnimationFrame(callback),
+    cancelFrame: handle => cancelAnimationFrame(handle),
+    setTimer: (callback, delayMs) => window.setTimeout(callback, delayMs),
+    clearTimer: handle => clearTimeout(handle)
+  })
+});
+
+const DEFAULT_FRAME_INTERVAL_MS = 1000 / 60;
+
+// Number of frame intervals ahead of the boundary at which the seek gets scheduled
+const BOUNDARY_LOOKAHEAD_FRAMES = 2;
+
+const EMPTY_STATS: LoopEngineStats = {
+  restarts: 0,
+  lastOvershootMs: null,
+  maxOvershootMs: null,
+  averageOvershootMs: null
+};
+
+/**
+ * A-B loop playback engine.
+ *
+ * Samples the player on every animation frame, predicts when the end boundary will be
+ * reached from the current time and playback rate, and schedules the seek back to the
+ * loop start with a timer for that exact moment instead of waiting for the next sample
+ * to land past the boundary.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class LoopPlaybackEngineService {
+  private readonly scheduler = inject(LOOP_FRAME_SCHEDULER);
+  private readonly zone = inject(NgZone);
+
+  private player: LoopEnginePlayer | null = null;
+  private listener: LoopEngineListener | null = null;
+  private completed = false;
+  private frameHandle: number | null = null;
+  private boundaryTimer: number | null = null;
+  private lastFrameAt: number | null = null;
+  private frameInterval = DEFAULT_FRAME_INTERVAL_MS;
+  private lastSampleTime: number | null = null;
+  private overshootTotal = 0;
+
+  private readonly _activeLoop = signal<LoopEngineSegment | null>(null);
+  private readonly _stats = signal<LoopEngineStats>(EMPTY_STATS);
+  private readonly _pass = signal(1);
+
+  readonly activeLoop = this._activeLoop.asReadonly();
+  readonly stats = this._stats.asReadonly();
+  readonly isRunning = computed(() => this._activeLoop() !== null);
+
+  readonly repetition = computed<LoopEngineRepetition | null>(() => {
+    const loop = this._activeLoop();
+    if (!loop || loop.repeatCount === undefined) {
+      return null;
+    }
+    return { current: this._pass(), total: loop.repeatCount };
+  });
+
+  /**
+   * Set the player the engine reads time from and seeks
+   */
+  attach(player: LoopEnginePlayer, listener?: LoopEngineListener): void {
+    this.player = player;
+    this.listener = listener ?? null;
+  }
+
+  detach(): void {
+    this.stop();
+    this.player = null;
+    this.listener = null;
+  }
+
+  /**
+   * Start looping a segment. Calling it again with the same boundaries is a no-op,
+   * so it can be driven by an effect.
+   */
+  start(loop: LoopEngineSegment): void {
+    if (loop.endTime <= loop.startTime) {
+      return;
+    }
+
+    const segment = toSegment(loop);
+    const current = this._activeLoop();
+    if (current &&
+        current.id === segment.id &&
+        current.startTime === segment.startTime &&
+        current.endTime === segment.endTime) {
+      if (current.repeatCount !== segment.repeatCount || current.preRoll !== segment.preRoll) {
+        // Edited while playing: keep the passes already played
+        this._activeLoop.set(segment);
+      }
+      return;
+    }
+
+    this.clearBoundaryTimer();
+    this.lastSampleTime = null;
+    this.completed = false;
+    this._pass.set(1);
+    this._activeLoop.set(segment);
+    this.requestFrame();
+  }
+
+  stop(): void {
+    this.clearBoundaryTimer();
+    if (this.frameHandle !== null) {
+      this.scheduler.cancelFrame(this.frameHandle);
+      this.frameHandle = null;
+    }
+    this.lastFrameAt = null;
+    this.lastSampleTime = null;
+    this.completed = false;
+    this._activeLoop.set(null);
+  }
+
+  /**
+   * Tell the engine about a seek made outside of it: seeking out of the
+   * active loop (pre-roll included) ends it, as the user left the loop, while
+   * seeking back into a completed loop plays its repetitions again
+   */
+  notifySeek(seconds: number): void {
+    const loop = this._activeLoop();
+    if (!loop) {
+      return;
+    }
+
+    if (seconds < restartTime(loop) || seconds >= loop.endTime) {
+      this.stop();
+      return;
+    }
+
+    this.clearBoundaryTimer();
+    this.lastSampleTime = seconds;
+
+    if (this.completed) {
+      this.completed = false;
+      this._pass.set(1);
+    }
+  }
+
+  resetStats(): void {
+    this.overshootTotal = 0;
+    this._stats.set(EMPTY_STATS);
+  }
+
+  private requestFrame(): void {
+    if (this.frameHandle !== null) {
+      return;
+    }
+
+    // Frames only read the player: keep them out of change detection
+    this.zone.runOutsideAngular(() => {
+      this.frameHandle = this.scheduler.requestFrame(timestamp => this.onFrame(timestamp));
+    });
+  }
+
+  private onFrame(timestamp: number): void {
+    this.frameHandle = null;
+    const loop = this._activeLoop();
+    if (!loop || !this.player) {
+      return;
+    }
+
+    if (this.lastFrameAt !== null) {
+      // Smoothed frame interval, used to decide how far ahead to schedule the seek
+      const delta = timestamp - this.lastFrameAt;
+      this.frameInterval = this.frameInterval * 0.8 + delta * 0.2;
+    }
+    this.lastFrameAt = timestamp;
+
+    if (this.completed) {
+      this.clearBoundaryTimer();
+    } else if (this.player.isPlaying()) {
+      this.checkBoundary(loop);
+    } else {
+      this.clearBoundaryTimer();
+    }
+
+    this.requestFrame();
+  }
+
+  private checkBoundary(loop: LoopEngineSegment): void {
+    const player = this.player!;
+    const time = player.getCurrentTime();
+    const crossedDuringPlayback = this.lastSampleTime === null || this.lastSampleTime < loop.endTime;
+
+    if (time >= loop.endTime) {
+      if (crossedDuringPlayback) {
+        this.restart(loop);
+      }
+      return;
+    }
+
+    this.lastSampleTime = time;
+
+    if (this.boundaryTimer !== null || time < loop.startTime) {
+      return;
+    }
+
+    const rate = player.getPlaybackRate() || 1;
+    const msToBoundary = ((loop.endTime - time) / rate) * 1000;
+
+    if (msToBoundary <= this.frameInterval * BOUNDARY_LOOKAHEAD_FRAMES) {
+      this.boundaryTimer = this.scheduler.setTimer(() => {
+        this.boundaryTimer = null;
+        if (this._activeLoop() === loop && this.player?.isPlaying()) {
+          this.restart(loop);
+        }
+      }, Math.max(0, msToBoundary));
+    }
+  }
+
+  private restart(loop: LoopEngineSegment): void {
+    const player = this.player!;
+    const overshootMs = (player.getCurrentTime() - loop.endTime) * 1000;
+
+    this.clearBoundaryTimer();
+
+    if (loop.repeatCount !== undefined && this._pass() >= loop.repeatCount) {
+      // Last pass played: the listener decides what comes next
+      this.completed = true;
+      this.lastSampleTime = null;
+      this.listener?.onLoopCompleted(loop);
+      return;
+    }
+
+    // The pass starts now, the pre-roll only leads into it
+    const restartAt = restartTime(loop);
+    player.seekTo(restartAt);
+    this._pass.update(pass => pass + 1);
+    this.lastSampleTime = restartAt;
+
+    this.overshootTotal += overshootMs;
+    this._stats.update(stats => {
+      const restarts = stats.restarts + 1;
+      return {
+        restarts,
+        lastOvershootMs: overshootMs,
+        maxOvershootMs: Math.max(stats.maxOvershootMs ?? overshootMs, overshootMs),
+        averageOvershootMs: this.overshootTotal / restarts
+      };
+    });
+
+    this.listener?.onLoopRestarted?.(loop, this._pass());
+  }
+
+  private clearBoundaryTimer(): void {
+    if (this.boundaryTimer !== null) {
+      this.scheduler.clearTimer(this.boundaryTimer);
+      this.boundaryTimer = null;
+    }
+  }
+}
+
+function toSegment(loop: LoopEngineSegment): LoopEngineSegment {
+  return {
+    id: loop.id,
+    startTime: loop.startTime,
+    endTime: loop.endTime,
+    ...(loop.repeatCount !== undefined && loop.repeatCount > 0 && { repeatCount: Math.floor(loop.repeatCount) }),
+    ...(loop.preRoll !== undefined && loop.preRoll > 0 && { preRoll: loop.preRoll })
+  };
+}
+
+/**
+ * Where each pass restarts: the loop start minus its pre-roll, never before the media start
+ */
+export function restartTime(loop: Pick<LoopEngineSegment, 'startTime' | 'preRoll'>): number {
+  return Math.max(0, loop.startTime - (loop.preRoll ?? 0));
+}
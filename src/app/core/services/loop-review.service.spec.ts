@@ -0,0 +1,104 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { LoopReviewService } from './loop-review.service';
+import { SessionRepositoryService } from './session-repository.service';
+import { LooperSession } from './looper-storage.types';
+import { LoopReviewSchedule, LoopSegment } from '@shared/interfaces';
+
+describe('LoopReviewService', () => {
+  let service: LoopReviewService;
+  let mockRepository: jasmine.SpyObj<SessionRepositoryService>;
+  let sessions: ReturnType<typeof signal<LooperSession[]>>;
+
+  const today = new Date(2024, 2, 10);
+
+  const createLoop = (id: string, startTime: number, review?: LoopSegment['review']): LoopSegment => ({
+    id,
+    name: `Loop ${id}`,
+    startTime,
+    endTime: startTime + 10,
+    playbackSpeed: 1,
+    playCount: 0,
+    isActive: false,
+    ...(review && { review })
+  });
+
+  const createSession = (id: string, videoId: string, loops: LoopSegment[]): LooperSession => ({
+    id,
+    name: `Session ${id}`,
+    videoId,
+    videoTitle: `Video ${videoId}`,
+    videoUrl: `https://www.youtube.com/watch?v=${videoId}`,
+    videoDuration: 300,
+    loops,
+    globalPlaybackSpeed: 1,
+    currentTime: 0,
+    isActive: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    totalPlayTime: 0,
+    playCount: 0
+  });
+
+  beforeEach(() => {
+    sessions = signal<LooperSession[]>([
+      createSession('s1', 'videoA', [
+        createLoop('new', 0),
+        createLoop('later', 20, { ease: 2.5, interval: 6, repetitions: 2, dueDate: '2024-03-15', lastReviewed: '2024-03-09' })
+      ]),
+      createSession('s2', 'videoB', [
+        createLoop('today', 0, { ease: 2.5, interval: 1, repetitions: 1, dueDate: '2024-03-10', lastReviewed: '2024-03-09' }),
+        createLoop('late', 30, { ease: 2.2, interval: 1, repetitions: 1, dueDate: '2024-03-07', lastReviewed: '2024-03-06' })
+      ])
+    ]);
+
+    mockRepository = jasmine.createSpyObj('SessionRepositoryService', ['getById', 'updateLoopReview'], { sessions });
+    mockRepository.getById.and.callFake((id: string) => sessions().find(session => session.id === id) || null);
+    mockRepository.updateLoopReview.and.callFake((sessionId: string, loopId: string, review: LoopReviewSchedule) => {
+      sessions.update(list => list.map(s => s.id === sessionId
+        ? { ...s, loops: s.loops.map(loop => loop.id === loopId ? { ...loop, review } : loop) }
+        : s));
+      return { success: true };
+    });
+
+    TestBed.configureTestingModule({
+      providers: [
+        LoopReviewService,
+        { provide: SessionRepositoryService, useValue: mockRepository }
+      ]
+    });
+    service = TestBed.inject(LoopReviewService);
+  });
+
+  it('should list due loops across sessions, most overdue first and new loops last', () => {
+    const due = service.getDueLoops(today);
+
+    expect(due.map(entry => entry.loop.id)).toEqual(['late', 'today', 'new']);
+    expect(due[0]!.overdueDays).toBe(3);
+    expect(due[0]!.session.videoId).toBe('videoB');
+    expect(due[2]!.isNew).toBeTrue();
+  });
+
+  it('should leave out the loops of local media sessions', () => {
+    sessions.update(list => [...list, createSession('s3', 'local-take', [createLoop('local', 0)])]);
+
+    expect(service.getDueLoops(today).map(entry => entry.loop.id)).not.toContain('local');
+  });
+
+  it('should save the next review date of a rated loop', () => {
+    const result = service.rate('s1', 'new', 'good', today);
+
+    expect(result.success).toBeTrue();
+    const [sessionId, loopId, review] = mockRepository.updateLoopReview.calls.mostRecent().args;
+    expect([sessionId, loopId]).toEqual(['s1', 'new']);
+    expect(review).toEqual(jasmine.objectContaining({ interval: 1, dueDate: '2024-03-11' }));
+    expect(service.getDueLoops(today).map(entry => entry.loop.id)).toEqual(['late', 'today']);
+  });
+
+  it('should fail when the loop no longer exists', () => {
+    const result = service.rate('s1', 'deleted', 'easy', today);
+
+    expect(result.success).toBeFalse();
+    expect(mockRepository.updateLoopReview).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,76 @@
+import { Injectable, inject, computed } from '@angular/core';
+import { SessionRepositoryService } from './session-repository.service';
+import { LooperSession, StorageOperationResult } from './looper-storage.types';
+import { LoopSegment, ReviewRating } from '@shared/interfaces';
+import { getOverdueDays, isReviewDue, scheduleReview } from '../models/review-schedule.model';
+import { isLocalMediaId } from '../utils/media.utils';
+
+// Loop due for review, joined with the session it belongs to
+export interface DueLoop {
+  session: LooperSession;
+  loop: LoopSegment;
+  overdueDays: number;
+  isNew: boolean; // never rated yet
+}
+
+/**
+ * Spaced-repetition reviews of loops across all sessions.
+ *
+ * The SM-2 schedule is stored on each loop, so it follows the loop through
+ * saves, exports and imports of its session.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class LoopReviewService {
+  private readonly sessionRepository = inject(SessionRepositoryService);
+
+  readonly dueToday = computed(() => this.getDueLoops());
+  readonly dueCount = computed(() => this.dueToday().length);
+
+  /**
+   * Loops to practice on a given day: most overdue first, never rated loops last.
+   * Sessions of local files are left out, the review player only opens YouTube videos.
+   */
+  getDueLoops(today: Date = new Date()): DueLoop[] {
+    const due: DueLoop[] = [];
+
+    for (const session of this.sessionRepository.sessions()) {
+      if (isLocalMediaId(session.videoId)) {
+        continue;
+      }
+      for (const loop of session.loops) {
+        if (isReviewDue(loop.review, today)) {
+          due.push({
+            session,
+            loop,
+            overdueDays: getOverdueDays(loop.review, today),
+            isNew: !loop.review
+          });
+        }
+      }
+    }
+
+    return due.sort((a, b) =>
+      Number(a.isNew) - Number(b.isNew) ||
+      b.overdueDays - a.overdueDays ||
+      a.session.name.localeCompare(b.session.name) ||
+      a.loop.startTime - b.loop.startTime
+    );
+  }
+
+  /**
+   * Record a self-rating and schedule the next review of the loop
+   */
+  rate(sessionId: string, loopId: string, rating: ReviewRating, today: Date = new Date()): StorageOperationResult {
+    const session = this.sessionRepository.getById(sessionId);
+    const loop = session?.loops.find(l => l.id === loopId);
+    if (!session || !loop) {
+      return { success: false, error: 'Boucle introuvable' };
+    }
+
+    const review = scheduleReview(loop.review, rating, today);
+    const result = this.sessionRepository.updateLoopReview(sessionId, loopId, review);
+    return result.success ? { success: true, data: review } : result;
+  }
+}
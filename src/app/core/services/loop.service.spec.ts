@@ -1503,6 +1503,103 @@ describe('LoopService', () => {
       });
     });
 
+    describe('Export / Import', () => {
+      const loop = (id: string, name: string, startTime: number, endTime: number, extra: Partial<Loop> = {}): Loop => ({
+        id, name, startTime, endTime, playbackSpeed: 1, playCount: 0, isActive: false, ...extra
+      });
+
+      it('should export the given loops and groups for a video', () => {
+        const loops = [loop('l1', 'Intro', 0, 10)];
+        const groups = [{ id: 'g1', name: 'Solo', loops: ['l1'], createdAt: new Date(), updatedAt: new Date() }];
+
+        expect(service.exportLoops(loops, groups, 'group-video')).toEqual(jasmine.objectContaining({
+          version: '1.0',
+          videoId: 'group-video',
+          loops,
+          groups
+        }));
+      });
+
+      it('should import copies with new IDs and skip loops that do not fit the video', () => {
+        const exported = JSON.parse(JSON.stringify({
+          version: '1.0',
+          loops: [
+            loop('l1', 'Intro', 0, 10),
+            loop('l2', 'Couplet', 10, 30),
+            loop('l3', 'Riff', 12, 20, { parentLoopId: 'l2' }),
+            loop('l4', 'Refrain', 30, 50)
+          ],
+          groups: [{ id: 'g1', name: 'Solo', loops: ['l2', 'l4'], createdAt: new Date(), updatedAt: new Date() }]
+        }));
+
+        const result = service.importLoops(exported, [loop('l1', 'Intro', 0, 10)], 40);
+
+        expect(result.loops.map(imported => imported.name)).toEqual(['Intro', 'Couplet', 'Riff']);
+        expect(result.skipped).toBe(1);
+        expect(result.loops.some(imported => ['l1', 'l2', 'l3'].includes(imported.id))).toBe(false);
+        expect(result.loops[2]!.parentLoopId).toBe(result.loops[1]!.id);
+        expect(result.groups.length).toBe(1);
+        expect(result.groups[0]!.id).not.toBe('g1');
+        expect(result.groups[0]!.loops).toEqual([result.loops[1]!.id]);
+      });
+
+      it('should import nothing from a file that is not a loop export', () => {
+        expect(service.importLoops({ version: '1.0' }, [])).toEqual({ loops: [], groups: [], skipped: 0 });
+        expect(service.importLoops(null, [])).toEqual({ loops: [], groups: [], skipped: 0 });
+      });
+    });
+
+    describe('Nested sub-loops', () => {
+      let verseId: string;
+
+      beforeEach(() => {
+        mockStorageService.getItem.and.returnValue(null);
+        service.setCurrentVideoId('nested-video');
+        verseId = service.createLoopFromRequest({ name: 'Couplet', startTime: 20, endTime: 60 }).loop!.id;
+      });
+
+      it('should accept sub-loops inside their parent and reject them outside of it', () => {
+        const riff = service.createLoopFromRequest({ name: 'Riff', startTime: 25, endTime: 35, parentLoopId: verseId });
+        expect(riff.success).toBe(true);
+        expect(riff.loop!.parentLoopId).toBe(verseId);
+
+        const outside = service.createLoopFromRequest({ name: 'Pont', startTime: 50, endTime: 70, parentLoopId: verseId });
+        expect(outside.success).toBe(false);
+        expect(outside.validation!.errors).toContain(LoopValidationError.OUTSIDE_PARENT_LOOP);
+
+        const unknown = service.createLoopFromRequest({ name: 'Fill', startTime: 40, endTime: 45, parentLoopId: 'missing' });
+        expect(unknown.validation!.errors).toContain(LoopValidationError.INVALID_PARENT_LOOP);
+
+        const sibling = service.createLoopFromRequest({ name: 'Riff 2', startTime: 30, endTime: 40, parentLoopId: verseId });
+        expect(sibling.validation!.errors).toContain(LoopValidationError.OVERLAPPING_LOOPS);
+      });
+
+      it('should keep sub-loops within the parent when it is resized and reject nesting cycles', () => {
+        const riffId = service.createLoopFromRequest({ name: 'Riff', startTime: 25, endTime: 35, parentLoopId: verseId }).loop!.id;
+
+        const shrunk = service.updateLoop({ id: verseId, startTime: 30 });
+        expect(shrunk.success).toBe(false);
+        expect(shrunk.validation!.errors).toContain(LoopValidationError.OUTSIDE_PARENT_LOOP);
+
+        const cycle = service.updateLoop({ id: verseId, parentLoopId: riffId });
+        expect(cycle.validation!.errors).toContain(LoopValidationError.INVALID_PARENT_LOOP);
+
+        expect(service.updateLoop({ id: riffId, parentLoopId: null }).success).toBe(false);
+      });
+
+      it('should play the innermost loop and reattach sub-loops when their parent is deleted', () => {
+        const riffId = service.createLoopFromRequest({ name: 'Riff', startTime: 25, endTime: 35, parentLoopId: verseId }).loop!.id;
+        const loops = service.loops().map(loop => ({ ...loop, isActive: true }));
+
+        expect(service.getCurrentLoop(30, loops)?.id).toBe(riffId);
+        expect(service.getCurrentLoop(50, loops)?.id).toBe(verseId);
+        expect(service.detectLoopConflicts(loops).overlapping).toEqual([]);
+
+        service.deleteLoop(verseId);
+        expect(service.loops()[0]!.parentLoopId).toBeUndefined();
+      });
+    });
+
     describe('Bulk Operations', () => {
       it('should clear all loops', () => {
         // Create multiple loops
@@ -9,6 +9,18 @@ import {
   UpdateLoopRequest,
   LoopOperationResult
 } from '@shared/interfaces';
+import { LOOP_SCHEMA_VERSION, LoopStoragePayload, migrateLoopStoragePayload, migrateLoops } from '../models/loop.migrations';
+import { LoopExportData, LoopGroup, LoopImportResult, LoopUtils } from '../models/loop.model';
+import { createLoopGroup, normalizeLoopGroups } from '../models/loop-group.model';
+import {
+  areNestedLoops,
+  getLoopAncestors,
+  getLoopDepth,
+  getLoopDescendants,
+  getParentLoop,
+  isWithinLoop,
+  reparentSubLoops
+} from '../models/loop-nesting.model';
 
 // Re-export for backward compatibility
 export type { Loop, LoopValidationResult };
@@ -97,6 +109,14 @@ export class LoopService {
         {
           ...(request.playbackSpeed !== undefined && { playbackSpeed: request.playbackSpeed }),
           ...(request.repeatCount !== undefined && { repeatCount: request.repeatCount }),
+          ...(request.completionAction !== undefined && { completionAction: request.completionAction }),
+          ...(request.completionTargetId !== undefined && { completionTargetId: request.completionTargetId }),
+          ...(request.speedRamp !== undefined && { speedRamp: request.speedRamp }),
+          ...(request.preRoll !== undefined && { preRoll: request.preRoll }),
+          ...(request.countIn !== undefined && { countIn: request.countIn }),
+          ...(request.restGap !== undefined && { restGap: request.restGap }),
+          ...(request.fadeInOut !== undefined && { fadeInOut: request.fadeInOut }),
+          ...(request.parentLoopId !== undefined && { parentLoopId: request.parentLoopId }),
           ...(request.color !== undefined && { color: request.color })
         }
       );
@@ -150,18 +170,8 @@ export class LoopService {
         };
       }
 
-      // Create updated loop
-      const updatedLoop: Loop = {
-        ...existingLoop,
-        ...(request.name !== undefined && { name: request.name }),
-        ...(request.startTime !== undefined && { startTime: request.startTime }),
-        ...(request.endTime !== undefined && { endTime: request.endTime }),
-        ...(request.playbackSpeed !== undefined && { playbackSpeed: request.playbackSpeed }),
-        ...(request.repeatCount !== undefined && { repeatCount: request.repeatCount }),
-        ...(request.color !== undefined && { color: request.color }),
-        ...(request.isActive !== undefined && { isActive: request.isActive }),
-        updatedAt: new Date()
-      };
+      // Create updated loop, null fields disable the matching setting
+      const updatedLoop: Loop = LoopUtils.applyUpdate(existingLoop, request);
 
       // Validate updated loop
       const otherLoops = currentLoops.filter(loop => loop.id !== request.id);
@@ -216,8 +226,8 @@ export class LoopService {
         };
       }
 
-      // Remove from loops collection
-      const updatedLoops = currentLoops.filter(loop => loop.id !== id);
+      // Remove from loops collection, its sub-loops move up one level
+      const updatedLoops = reparentSubLoops(currentLoops.filter(loop => loop.id !== id), loopToDelete);
       this._loops.set(updatedLoops);
       
       // Clear active loop if it was the deleted one
@@ -261,6 +271,58 @@ export class LoopService {
     }
   }
 
+  // === Export / Import ===
+
+  /**
+   * Export file content for the given loops and groups
+   */
+  exportLoops(loops: Loop[], groups: LoopGroup[], videoId?: string): LoopExportData {
+    return {
+      version: '1.0',
+      exportedAt: new Date(),
+      ...(videoId && { videoId }),
+      loops,
+      groups
+    };
+  }
+
+  /**
+   * Copies of exported loops and groups to add next to existingLoops.
+   * They get new IDs so they never replace existing data, loops that would be invalid are skipped.
+   */
+  importLoops(data: unknown, existingLoops: Loop[], videoDuration?: number): LoopImportResult {
+    const exportData = (data && typeof data === 'object' ? data : {}) as Partial<Record<keyof LoopExportData, unknown>>;
+    const loops = migrateLoops(exportData.loops);
+
+    // Keep the loops that are valid next to the current ones, mapped to new IDs.
+    // Parents are imported before their sub-loops; a sub-loop whose parent was skipped becomes top-level.
+    const importedIds = new Map<string, string>();
+    const imported: Loop[] = [];
+    const byDepth = [...loops].sort((a, b) => getLoopDepth(a, loops) - getLoopDepth(b, loops));
+    for (const loop of byDepth) {
+      const { parentLoopId, ...rest } = loop;
+      const importedParentId = parentLoopId ? importedIds.get(parentLoopId) : undefined;
+      const copy: Loop = {
+        ...rest,
+        id: this.generateLoopId(),
+        isActive: false,
+        ...(importedParentId && { parentLoopId: importedParentId })
+      };
+      if (this.validateLoop(copy, videoDuration, [...existingLoops, ...imported]).isValid) {
+        importedIds.set(loop.id, copy.id);
+        imported.push(copy);
+      }
+    }
+
+    const groups = normalizeLoopGroups(exportData.groups, [...importedIds.keys()]).map(group => ({
+      ...createLoopGroup(group.name, group.color),
+      ...(group.description && { description: group.description }),
+      loops: group.loops.map(id => importedIds.get(id)!)
+    }));
+
+    return { loops: imported, groups, skipped: loops.length - imported.length };
+  }
+
   /**
    * Set current video ID for context
    */
@@ -282,7 +344,8 @@ export class LoopService {
       if (!currentVideoId) return;
       
       const storageKey = `${this.LOOPS_STORAGE_KEY}-${currentVideoId}`;
-      const loopsData = {
+      const loopsData: LoopStoragePayload = {
+        schemaVersion: LOOP_SCHEMA_VERSION,
         videoId: currentVideoId,
         loops: this._loops(),
         activeLoopId: this._activeLoopId(),
@@ -308,20 +371,12 @@ export class LoopService {
       }
       
       const storageKey = `${this.LOOPS_STORAGE_KEY}-${currentVideoId}`;
-      const data = this.storageService.getItem(storageKey);
+      // Upgrade any older payload shape to the canonical loop model
+      const data = migrateLoopStoragePayload(this.storageService.getItem(storageKey));
       
-      if (data && data.loops && Array.isArray(data.loops)) {
-        // Validate and filter stored loops
-        const validLoops = data.loops.filter((loop: any) => 
-          loop && 
-          typeof loop.id === 'string' &&
-          typeof loop.name === 'string' &&
-          typeof loop.startTime === 'number' &&
-          typeof loop.endTime === 'number'
-        );
-        
-        this._loops.set(validLoops);
-        this._activeLoopId.set(data.activeLoopId || null);
+      if (data) {
+        this._loops.set(data.loops);
+        this._activeLoopId.set(data.activeLoopId);
       } else {
         this._loops.set([]);
         this._activeLoopId.set(null);
@@ -409,8 +464,32 @@ export class LoopService {
       errors.push(LoopValidationError.EXCEEDS_VIDEO_DURATION);
     }
 
-    // Check for overlapping loops
-    const overlapping = this.findOverlappingLoops(loop, existingLoops);
+    // Check nesting: the parent must exist, must not be one of the loop's own sub-loops and must contain it
+    if (loop.parentLoopId !== undefined) {
+      const parent = getParentLoop(loop, existingLoops);
+      const isOwnSubLoop = getLoopDescendants(loop.id, existingLoops).some(descendant => descendant.id === loop.parentLoopId);
+
+      if (!parent || parent.id === loop.id || isOwnSubLoop) {
+        errors.push(LoopValidationError.INVALID_PARENT_LOOP);
+      } else if (!isWithinLoop(loop, parent)) {
+        errors.push(LoopValidationError.OUTSIDE_PARENT_LOOP);
+        warnings.push(`Must stay within parent loop: ${parent.name}`);
+      }
+    }
+
+    // Sub-loops must stay inside the loop when it is moved or resized
+    const subLoopsOutside = existingLoops.filter(existing => existing.parentLoopId === loop.id && !isWithinLoop(existing, loop));
+    if (subLoopsOutside.length > 0) {
+      errors.push(LoopValidationError.OUTSIDE_PARENT_LOOP);
+      warnings.push(`Sub-loops outside the loop: ${subLoopsOutside.map(l => l.name).join(', ')}`);
+    }
+
+    // Check for overlapping loops, a loop overlaps its ancestors and sub-loops by design
+    const nestedIds = new Set([
+      ...getLoopAncestors(loop, existingLoops),
+      ...getLoopDescendants(loop.id, existingLoops)
+    ].map(nested => nested.id));
+    const overlapping = this.findOverlappingLoops(loop, existingLoops).filter(existing => !nestedIds.has(existing.id));
     if (overlapping.length > 0) {
       errors.push(LoopValidationError.OVERLAPPING_LOOPS);
       warnings.push(`Overlaps with loops: ${overlapping.map(l => l.name).join(', ')}`);
@@ -630,11 +709,16 @@ export class LoopService {
    * Find the currently playing loop based on current time
    */
   getCurrentLoop(currentTime: number, loops: Loop[]): Loop | null {
-    return loops.find(loop => 
+    const playing = loops.filter(loop => 
       loop.isActive && 
       currentTime >= loop.startTime && 
       currentTime <= loop.endTime
-    ) || null;
+    );
+
+    // An active sub-loop takes over its parent (drilling inside a larger section)
+    return playing.reduce<Loop | null>((innermost, loop) =>
+      !innermost || getLoopDepth(loop, loops) > getLoopDepth(innermost, loops) ? loop : innermost
+    , null);
   }
 
   /**
@@ -847,7 +931,7 @@ export class LoopService {
         const loop1 = loops[i];
         const loop2 = loops[j];
         
-        if (this.doLoopsOverlap(loop1, loop2)) {
+        if (this.doLoopsOverlap(loop1, loop2) && !areNestedLoops(loop1, loop2, loops)) {
           const overlapStart = Math.max(loop1.startTime, loop2.startTime);
           const overlapEnd = Math.min(loop1.endTime, loop2.endTime);
           const overlapDuration = overlapEnd - overlapStart;
@@ -1007,7 +1091,7 @@ export class LoopService {
           attempts++;
           
           for (const existingLoop of adjustedLoops) {
-            if (this.doLoopsOverlap(adjustedLoop, existingLoop)) {
+            if (this.doLoopsOverlap(adjustedLoop, existingLoop) && !areNestedLoops(adjustedLoop, existingLoop, workingLoops)) {
               hasOverlap = true;
               
               // Try to place after the existing loop
@@ -112,6 +112,16 @@ describe('LooperStorageService', () => {
       );
     });
 
+    it('should drop unknown loops from the stored groups', () => {
+      const group = { id: 'group-1', name: 'Set', color: '#8B5CF6', loops: ['loop-1', 'loop-gone'], createdAt: '2023-01-01', updatedAt: '2023-01-02' };
+      mockSecureStorage.loadData.and.returnValue([{ ...mockSession, groups: [group] }]);
+
+      const result = service.loadSessions();
+
+      expect(result.data[0]!.groups![0]!.loops).toEqual(['loop-1']);
+      expect(result.data[0]!.groups![0]!.createdAt).toEqual(new Date('2023-01-01'));
+    });
+
     it('should save a single session', () => {
       mockSecureStorage.loadData.and.returnValue([]);
       mockSecureStorage.saveData.and.returnValue(true);
@@ -342,7 +352,9 @@ describe('LooperStorageService', () => {
         currentSize: 1000,
         maxSize: 5000000,
         utilizationPercentage: 0.02,
-        remainingSize: 4999000
+        remainingSize: 4999000,
+        backend: 'indexedDB' as const,
+        backendSize: 2000
       };
       
       mockSecureStorage.getStorageInfo.and.returnValue(mockInfo);
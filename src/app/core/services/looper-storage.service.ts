@@ -7,12 +7,17 @@ import {
   CurrentState,
   SessionHistoryEntry,
   SessionMetadata,
+  PracticeRoutine,
+  RoutineItem,
   StorageOperationResult,
   CompressedSessionData,
   DEFAULT_SESSION_SETTINGS,
   LOOPER_STORAGE_KEYS
 } from './looper-storage.types';
-import { LoopSegment } from '@shared/interfaces';
+import { LOOP_SCHEMA_VERSION, migrateLoops } from '../models/loop.migrations';
+import { normalizeMetronome } from './metronome.service';
+import { normalizeMarkers } from '../models/marker.model';
+import { normalizeLoopGroups } from '../models/loop-group.model';
 
 @Injectable({
   providedIn: 'root'
@@ -134,7 +139,18 @@ export class LooperStorageService {
         sourceKey = LOOPER_STORAGE_KEYS.SESSIONS;
       }
 
-      const validSessions = sessions.filter(session => this.validateSession(session));
+      // Les boucles sont migrées vers le modèle canonique à la lecture
+      const validSessions = sessions
+        .filter(session => this.validateSession(session))
+        .map(session => {
+          const loops = migrateLoops(session.loops, session.schemaVersion);
+          return {
+            ...session,
+            loops,
+            // Dates relues et boucles disparues retirées des groupes
+            ...(session.groups && { groups: normalizeLoopGroups(session.groups, loops.map(loop => loop.id)) })
+          };
+        });
       
       // Construire l'index de recherche et mettre en cache
       this.optimizationService.buildSearchIndex(validSessions);
@@ -531,6 +547,62 @@ export class LooperStorageService {
     }
   }
 
+  // === ROUTINES ===
+
+  /**
+   * Sauvegarde les routines de pratique
+   */
+  saveRoutines(routines: PracticeRoutine[]): StorageOperationResult {
+    try {
+      if (!Array.isArray(routines) || !routines.every(routine => this.validateRoutine(routine))) {
+        return {
+          success: false,
+          error: 'Données de routine invalides'
+        };
+      }
+
+      const sanitizedRoutines = routines.map(routine => this.sanitizeRoutine(routine));
+      const success = this.secureStorage.saveData(LOOPER_STORAGE_KEYS.ROUTINES, sanitizedRoutines);
+
+      const result: StorageOperationResult = {
+        success,
+        data: sanitizedRoutines
+      };
+      if (!success) {
+        result.error = 'Échec de la sauvegarde des routines';
+      }
+      return result;
+    } catch (error) {
+      return {
+        success: false,
+        error: `Erreur lors de la sauvegarde des routines: ${(error as Error).message}`
+      };
+    }
+  }
+
+  /**
+   * Charge les routines de pratique
+   */
+  loadRoutines(): StorageOperationResult {
+    try {
+      const routines = this.secureStorage.loadData<PracticeRoutine[]>(LOOPER_STORAGE_KEYS.ROUTINES, []);
+      const validRoutines = routines
+        .filter(routine => this.validateRoutine(routine))
+        .map(routine => this.sanitizeRoutine(routine));
+
+      return {
+        success: true,
+        data: validRoutines
+      };
+    } catch (error) {
+      return {
+        success: false,
+        data: [],
+        error: `Erreur lors du chargement des routines: ${(error as Error).message}`
+      };
+    }
+  }
+
   // === OPTIMIZED OPERATIONS ===
 
   /**
@@ -1001,6 +1073,21 @@ export class LooperStorageService {
            typeof entry.loopsCount === 'number';
   }
 
+  private validateRoutine(routine: any): routine is PracticeRoutine {
+    return routine &&
+           typeof routine === 'object' &&
+           typeof routine.id === 'string' &&
+           typeof routine.name === 'string' &&
+           Array.isArray(routine.items) &&
+           routine.items.every((item: any) =>
+             item &&
+             typeof item.id === 'string' &&
+             typeof item.sessionId === 'string' &&
+             typeof item.loopId === 'string' &&
+             typeof item.videoId === 'string'
+           );
+  }
+
   // === SANITIZATION METHODS ===
 
   private sanitizeSession(session: LooperSession): LooperSession {
@@ -1011,14 +1098,15 @@ export class LooperStorageService {
       videoTitle: String(session.videoTitle).trim(),
       videoUrl: String(session.videoUrl).trim(),
       videoDuration: Math.max(0, Number(session.videoDuration) || 0),
-      loops: session.loops.filter(loop => this.validateLoopSegment(loop)),
+      loops: migrateLoops(session.loops, session.schemaVersion),
       globalPlaybackSpeed: Math.max(0.25, Math.min(3.0, Number(session.globalPlaybackSpeed) || 1.0)),
       currentTime: Math.max(0, Number(session.currentTime) || 0),
       isActive: Boolean(session.isActive),
       createdAt: new Date(session.createdAt),
       updatedAt: new Date(),
       totalPlayTime: Math.max(0, Number(session.totalPlayTime) || 0),
-      playCount: Math.max(0, Number(session.playCount) || 0)
+      playCount: Math.max(0, Number(session.playCount) || 0),
+      schemaVersion: LOOP_SCHEMA_VERSION
     };
     
     if (session.lastPlayed) {
@@ -1030,6 +1118,15 @@ export class LooperStorageService {
     if (session.description) {
       sanitized.description = String(session.description).trim();
     }
+    if (session.metronome) {
+      sanitized.metronome = normalizeMetronome(session.metronome);
+    }
+    if (Array.isArray(session.markers) && session.markers.length > 0) {
+      sanitized.markers = normalizeMarkers(session.markers);
+    }
+    if (Array.isArray(session.groups) && session.groups.length > 0) {
+      sanitized.groups = normalizeLoopGroups(session.groups, sanitized.loops.map(loop => loop.id));
+    }
     
     return sanitized;
   }
@@ -1074,20 +1171,34 @@ export class LooperStorageService {
     };
   }
 
-  private validateLoopSegment(loop: any): loop is LoopSegment {
-    return loop &&
-           typeof loop === 'object' &&
-           typeof loop.id === 'string' &&
-           typeof loop.name === 'string' &&
-           typeof loop.startTime === 'number' &&
-           typeof loop.endTime === 'number' &&
-           typeof loop.playbackSpeed === 'number' &&
-           typeof loop.playCount === 'number' &&
-           typeof loop.isActive === 'boolean' &&
-           loop.startTime >= 0 &&
-           loop.endTime > loop.startTime &&
-           loop.playbackSpeed > 0 &&
-           loop.playCount >= 0;
+  private sanitizeRoutine(routine: PracticeRoutine): PracticeRoutine {
+    const sanitized: PracticeRoutine = {
+      id: String(routine.id).trim(),
+      name: String(routine.name).trim().substring(0, 100),
+      items: routine.items.map(item => this.sanitizeRoutineItem(item)),
+      createdAt: new Date(routine.createdAt),
+      updatedAt: new Date(routine.updatedAt)
+    };
+
+    if (routine.description) {
+      sanitized.description = String(routine.description).trim().substring(0, 500);
+    }
+    if (routine.lastPlayed) {
+      sanitized.lastPlayed = new Date(routine.lastPlayed);
+    }
+
+    return sanitized;
+  }
+
+  private sanitizeRoutineItem(item: RoutineItem): RoutineItem {
+    return {
+      id: String(item.id).trim(),
+      sessionId: String(item.sessionId).trim(),
+      loopId: String(item.loopId).trim(),
+      videoId: String(item.videoId).trim(),
+      repetitions: Math.max(1, Math.floor(Number(item.repetitions)) || 1),
+      playbackSpeed: Math.max(0.25, Math.min(2, Number(item.playbackSpeed) || 1))
+    };
   }
 
   // === UTILITY METHODS ===
@@ -1140,6 +1251,7 @@ export class LooperStorageService {
       const settings = this.loadSessionSettings();
       const currentState = this.loadCurrentState();
       const history = this.loadSessionHistory();
+      const routines = this.loadRoutines();
 
       const exportData = {
         version: '1.0',
@@ -1147,7 +1259,8 @@ export class LooperStorageService {
         sessions: sessions.data,
         settings: settings.data,
         currentState: currentState.data,
-        history: history.data
+        history: history.data,
+        routines: routines.data
       };
 
       return {
@@ -1182,6 +1295,11 @@ export class LooperStorageService {
         this.saveSessionSettings(importData.settings);
       }
 
+      // Importer les routines si présentes
+      if (Array.isArray(importData.routines)) {
+        this.saveRoutines(importData.routines);
+      }
+
       return sessionsResult;
     } catch (error) {
       return {
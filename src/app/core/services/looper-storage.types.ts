@@ -1,4 +1,5 @@
-import { LoopSegment } from '@shared/interfaces';
+import { LoopSegment, Marker } from '@shared/interfaces';
+import { LoopGroup } from '../models/loop.model';
 
 // Interface principale pour une session de boucles YouTube
 export interface LooperSession {
@@ -19,6 +20,39 @@ export interface LooperSession {
   playCount: number;
   tags?: string[];
   description?: string;
+  metronome?: SessionMetronome;
+  markers?: Marker[]; // repères nommés, indépendants des boucles
+  groups?: LoopGroup[]; // groupes de boucles, dans l'ordre de lecture
+  schemaVersion?: number; // version du schéma des boucles (LOOP_SCHEMA_VERSION)
+}
+
+// Métronome de la session : tempo de la chanson à vitesse normale, suivi à la vitesse de lecture
+export interface SessionMetronome {
+  bpm: number;
+  beatsPerBar: number;
+  beatUnit: number; // 4 pour x/4, 8 pour x/8
+  offset: number; // position du premier temps de la chanson, en secondes
+}
+
+// Élément d'une routine : une boucle d'une session, jouée N fois à une vitesse donnée
+export interface RoutineItem {
+  id: string;
+  sessionId: string;
+  loopId: string;
+  videoId: string; // vidéo de la session, pour enchaîner sans relire les sessions
+  repetitions: number;
+  playbackSpeed: number;
+}
+
+// Routine de pratique : boucles de plusieurs vidéos enchaînées dans l'ordre
+export interface PracticeRoutine {
+  id: string;
+  name: string;
+  description?: string;
+  items: RoutineItem[];
+  createdAt: Date;
+  updatedAt: Date;
+  lastPlayed?: Date;
 }
 
 // Configuration spécifique pour les sessions
@@ -120,6 +154,11 @@ export interface StorageOperationResult {
   };
 }
 
+// Migrations de données déjà appliquées (clé yl_migrations)
+export interface StorageMigrationState {
+  sessionsMergedAt?: string; // fusion des sessions du lecteur dans yl_sessions
+}
+
 // Valeurs par défaut
 export const DEFAULT_SESSION_SETTINGS: SessionSettings = {
   defaultSessionName: 'Session pratique',
@@ -152,7 +191,9 @@ export const LOOPER_STORAGE_KEYS = {
   SETTINGS: 'yl_settings',
   HISTORY: 'yl_history',
   METADATA: 'yl_metadata',
-  BACKUP: 'yl_backup'
+  BACKUP: 'yl_backup',
+  MIGRATIONS: 'yl_migrations',
+  ROUTINES: 'yl_routines'
 } as const;
 
 // Type pour les clés de stockage
@@ -0,0 +1,100 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { PlayerBackend, PlayerBackendKind } from './player-backend';
+import { YouTubeService } from './youtube.service';
+import { Html5PlayerService } from './html5-player.service';
+
+/**
+ * Player of the current media, whatever its backend.
+ *
+ * Delegates the PlayerBackend contract to the YouTube player or to the HTML5 player
+ * of local files, so consumers (video player facade, loop engine, speed control)
+ * stay unaware of where the media comes from. Loading is done on the backend
+ * itself after selecting it with `use()`.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class MediaPlayerService implements PlayerBackend {
+  private readonly youtube = inject(YouTubeService);
+  private readonly html5 = inject(Html5PlayerService);
+
+  private readonly _backend = signal<PlayerBackend>(this.youtube);
+
+  readonly backend = this._backend.asReadonly();
+  readonly backendKind = computed(() => this._backend().kind);
+  readonly playerState = computed(() => this._backend().playerState());
+  readonly currentVideo = computed(() => this._backend().currentVideo());
+
+  get kind(): PlayerBackendKind {
+    return this._backend().kind;
+  }
+
+  /**
+   * Make a backend the active one. A local file is released when switching back to
+   * YouTube; the YouTube player is only paused so that it can be reused.
+   */
+  use(kind: PlayerBackendKind): PlayerBackend {
+    const next = kind === 'html5' ? this.html5 : this.youtube;
+    const previous = this._backend();
+
+    if (previous !== next) {
+      if (previous.kind === 'html5') {
+        previous.destroy();
+      } else {
+        previous.pause();
+      }
+      this._backend.set(next);
+    }
+
+    return next;
+  }
+
+  play(): void {
+    this._backend().play();
+  }
+
+  pause(): void {
+    this._backend().pause();
+  }
+
+  stop(): void {
+    this._backend().stop();
+  }
+
+  seekTo(seconds: number): void {
+    this._backend().seekTo(seconds);
+  }
+
+  setPlaybackRate(rate: number): void {
+    this._backend().setPlaybackRate(rate);
+  }
+
+  setVolume(volume: number): void {
+    this._backend().setVolume(volume);
+  }
+
+  getCurrentTime(): number {
+    return this._backend().getCurrentTime();
+  }
+
+  getDuration(): number {
+    return this._backend().getDuration();
+  }
+
+  getPlaybackRate(): number {
+    return this._backend().getPlaybackRate();
+  }
+
+  getVolume(): number {
+    return this._backend().getVolume();
+  }
+
+  /**
+   * Release both players and fall back to YouTube
+   */
+  destroy(): void {
+    this.youtube.destroy();
+    this.html5.destroy();
+    this._backend.set(this.youtube);
+  }
+}
@@ -0,0 +1,162 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { CLICK_SYNTH, ClickSynth } from './count-in.service';
+import { LOOP_FRAME_SCHEDULER, LoopFrameScheduler } from './loop-playback-engine.service';
+import { LoopSpeedManagerService } from './loop-speed-manager.service';
+import { MetronomeService, normalizeMetronome } from './metronome.service';
+
+/**
+ * Manual clock for the look-ahead and beat timers
+ */
+class FakeTimers implements Pick<LoopFrameScheduler, 'now' | 'setTimer' | 'clearTimer'> {
+  time = 0;
+  private nextHandle = 1;
+  private timers = new Map<number, { at: number; callback: () => void }>();
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimer(callback: () => void, delayMs: number): number {
+    const handle = this.nextHandle++;
+    this.timers.set(handle, { at: this.time + delayMs, callback });
+    return handle;
+  }
+
+  clearTimer(handle: number): void {
+    this.timers.delete(handle);
+  }
+
+  advance(ms: number, onStep?: () => void): void {
+    const end = this.time + ms;
+    const due = () => Array.from(this.timers.entries())
+      .filter(([, timer]) => timer.at <= end)
+      .sort((a, b) => a[1].at - b[1].at)[0];
+
+    for (let next = due(); next; next = due()) {
+      this.time = next[1].at;
+      this.timers.delete(next[0]);
+      onStep?.();
+      next[1].callback();
+    }
+    this.time = end;
+  }
+}
+
+describe('MetronomeService', () => {
+  let service: MetronomeService;
+  let timers: FakeTimers;
+  let synth: jasmine.SpyObj<ClickSynth>;
+  let speed: ReturnType<typeof signal<number>>;
+  let mediaTime: number;
+
+  beforeEach(() => {
+    timers = new FakeTimers();
+    synth = jasmine.createSpyObj<ClickSynth>('ClickSynth', ['currentTime', 'click', 'silence']);
+    synth.currentTime.and.callFake(() => timers.time / 1000);
+    speed = signal(1);
+    mediaTime = 0;
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: CLICK_SYNTH, useValue: synth },
+        { provide: LOOP_FRAME_SCHEDULER, useValue: timers },
+        { provide: LoopSpeedManagerService, useValue: { activeLoopSpeed: speed } }
+      ]
+    });
+
+    service = TestBed.inject(MetronomeService);
+    service.attach({ getCurrentTime: () => mediaTime, isPlaying: () => true });
+  });
+
+  // Media time follows the wall clock at the given rate from its value at the start
+  function play(ms: number, rate = 1): void {
+    const startMedia = mediaTime;
+    const startTime = timers.time;
+    timers.advance(ms, () => mediaTime = startMedia + ((timers.time - startTime) / 1000) * rate);
+  }
+
+  it('should click on the beats of the media timeline with an accent on beat one', () => {
+    service.load({ bpm: 120, beatsPerBar: 3, beatUnit: 4, offset: 0.25 });
+    service.start();
+    play(1800);
+
+    expect(synth.click.calls.allArgs()).toEqual([
+      [jasmine.any(Number), true],
+      [jasmine.any(Number), false],
+      [jasmine.any(Number), false],
+      [jasmine.any(Number), true]
+    ]);
+    expect(synth.click.calls.argsFor(0)[0]).toBeCloseTo(0.25, 2);
+    expect(synth.click.calls.argsFor(3)[0]).toBeCloseTo(1.75, 2);
+  });
+
+  it('should follow the playback speed of the loop', () => {
+    speed.set(0.5);
+    service.load({ bpm: 120, beatsPerBar: 4, beatUnit: 4, offset: 0 });
+    service.start();
+    play(2000, 0.5);
+
+    const clickTimes = synth.click.calls.allArgs().map(([time]) => time);
+    expect(service.tempo()).toBe(60);
+    expect(clickTimes.length).toBe(3);
+    expect(clickTimes[1] - clickTimes[0]).toBeCloseTo(1, 2);
+  });
+
+  it('should restart from the next beat after a seek back', () => {
+    service.load({ bpm: 60, beatsPerBar: 4, beatUnit: 4, offset: 0 });
+    service.start();
+    play(2100);
+    synth.click.calls.reset();
+
+    mediaTime = 0.5;
+    play(600);
+
+    expect(synth.click.calls.count()).toBe(1);
+    expect(synth.click.calls.argsFor(0)[1]).toBe(false);
+  });
+
+  it('should not click while the video is paused', () => {
+    service.attach({ getCurrentTime: () => mediaTime, isPlaying: () => false });
+    service.start();
+    timers.advance(1000);
+
+    expect(synth.click).not.toHaveBeenCalled();
+    expect(service.beat()).toBeNull();
+  });
+
+  it('should detect the song tempo from taps made at the playback speed', () => {
+    speed.set(0.5);
+
+    expect(service.tap()).toBeNull();
+    timers.time += 1000;
+    service.tap();
+    timers.time += 1000;
+
+    expect(service.tap()).toBe(120);
+    expect(service.settings().bpm).toBe(120);
+
+    timers.time += 5000;
+    expect(service.tap()).toBeNull();
+  });
+
+  it('should clamp stored settings', () => {
+    expect(normalizeMetronome({ bpm: 1000, beatsPerBar: 0, beatUnit: 3, offset: -2 })).toEqual({
+      bpm: 300,
+      beatsPerBar: 4,
+      beatUnit: 4,
+      offset: 0
+    });
+  });
+
+  it('should only report a configured tempo once the session has one', () => {
+    service.load(undefined);
+    expect(service.isConfigured()).toBe(false);
+
+    service.updateSettings({ bpm: 90 });
+    expect(service.isConfigured()).toBe(true);
+
+    service.load({ bpm: 100, beatsPerBar: 3, beatUnit: 4, offset: 1 });
+    expect(service.isConfigured()).toBe(true);
+  });
+});
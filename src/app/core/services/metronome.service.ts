@@ -0,0 +1,242 @@
+import { Injectable, NgZone, computed, inject, signal } from '@angular/core';
+import { CLICK_SYNTH } from './count-in.service';
+import { LOOP_FRAME_SCHEDULER } from './loop-playback-engine.service';
+import { LoopSpeedManagerService } from './loop-speed-manager.service';
+import { SessionMetronome } from './looper-storage.types';
+
+// Media the clicks are aligned to
+export interface MetronomePlayer {
+  getCurrentTime(): number;
+  isPlaying(): boolean;
+}
+
+// Beat being clicked in the bar, e.g. 3 / 4
+export interface MetronomeBeat {
+  current: number;
+  total: number;
+}
+
+export const DEFAULT_METRONOME_SETTINGS: SessionMetronome = {
+  bpm: 120,
+  beatsPerBar: 4,
+  beatUnit: 4,
+  offset: 0
+};
+
+export const METRONOME_BPM_RANGE = { min: 20, max: 300 } as const;
+export const METRONOME_BEAT_UNITS: readonly number[] = [2, 4, 8, 16];
+export const METRONOME_MAX_BEATS_PER_BAR = 16;
+
+// How often the scheduler wakes up, and how far ahead of the audio clock it schedules clicks
+const SCHEDULER_INTERVAL_MS = 25;
+const SCHEDULE_AHEAD_SECONDS = 0.1;
+
+// Media time going back more than this is a seek or a loop restart, not jitter of the player clock
+const SEEK_BACK_TOLERANCE_SECONDS = 0.05;
+
+// Taps further apart than this start a new tempo, the last ones are averaged
+const TAP_RESET_MS = 2000;
+const MAX_TAPS = 8;
+
+/**
+ * Clamp stored or typed settings to a tempo and time signature the metronome can play
+ */
+export function normalizeMetronome(settings: Partial<SessionMetronome>): SessionMetronome {
+  const bpm = Number(settings.bpm) || DEFAULT_METRONOME_SETTINGS.bpm;
+  const beatsPerBar = Math.floor(Number(settings.beatsPerBar)) || DEFAULT_METRONOME_SETTINGS.beatsPerBar;
+  const beatUnit = Number(settings.beatUnit);
+
+  return {
+    bpm: Math.max(METRONOME_BPM_RANGE.min, Math.min(METRONOME_BPM_RANGE.max, bpm)),
+    beatsPerBar: Math.max(1, Math.min(METRONOME_MAX_BEATS_PER_BAR, beatsPerBar)),
+    beatUnit: METRONOME_BEAT_UNITS.includes(beatUnit) ? beatUnit : DEFAULT_METRONOME_SETTINGS.beatUnit,
+    offset: Math.max(0, Number(settings.offset) || 0)
+  };
+}
+
+/**
+ * Click track following the video.
+ *
+ * Beats are laid on the media timeline from the offset (the first beat of the song) at
+ * the session BPM, so the heard tempo is the BPM times the playback speed of the loop
+ * and the clicks stay on the beat across seeks and loop restarts. A short timer looks
+ * ahead and schedules the clicks on the audio clock, as with the count-in.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class MetronomeService {
+  private readonly synth = inject(CLICK_SYNTH);
+  private readonly scheduler = inject(LOOP_FRAME_SCHEDULER);
+  private readonly speedManager = inject(LoopSpeedManagerService);
+  private readonly zone = inject(NgZone);
+
+  private player: MetronomePlayer | null = null;
+  private tickTimer: number | null = null;
+  private beatTimers = new Set<number>();
+  private nextBeat: number | null = null;
+  private lastMediaTime: number | null = null;
+  private taps: number[] = [];
+
+  private readonly _settings = signal<SessionMetronome>(DEFAULT_METRONOME_SETTINGS);
+  private readonly _isEnabled = signal(false);
+  private readonly _beat = signal<MetronomeBeat | null>(null);
+  private readonly _isConfigured = signal(false);
+
+  readonly settings = this._settings.asReadonly();
+  readonly isEnabled = this._isEnabled.asReadonly();
+  readonly beat = this._beat.asReadonly();
+
+  // The session has its own tempo, as opposed to the defaults: the timeline can show its grid
+  readonly isConfigured = this._isConfigured.asReadonly();
+
+  readonly playbackRate = computed(() => this.speedManager.activeLoopSpeed() || 1);
+
+  // Tempo heard, in clicks per minute
+  readonly tempo = computed(() => this._settings().bpm * this.playbackRate());
+
+  attach(player: MetronomePlayer): void {
+    this.player = player;
+  }
+
+  detach(): void {
+    this.stop();
+    this.player = null;
+  }
+
+  /**
+   * Settings of a session, the defaults when it has none
+   */
+  load(settings: SessionMetronome | undefined): void {
+    this._settings.set(normalizeMetronome(settings ?? DEFAULT_METRONOME_SETTINGS));
+    this._isConfigured.set(settings !== undefined);
+    this.taps = [];
+    this.realign();
+  }
+
+  updateSettings(changes: Partial<SessionMetronome>): void {
+    this._settings.update(current => normalizeMetronome({ ...current, ...changes }));
+    this._isConfigured.set(true);
+    this.realign();
+  }
+
+  /**
+   * Put the first beat of the song at a media time, usually the current one
+   */
+  alignTo(seconds: number): void {
+    this.updateSettings({ offset: seconds });
+  }
+
+  /**
+   * Tap along with the video
+   * @returns the detected song tempo, null until two taps are close enough
+   */
+  tap(): number | null {
+    const now = this.scheduler.now();
+    const last = this.taps[this.taps.length - 1];
+    if (last !== undefined && now - last > TAP_RESET_MS) {
+      this.taps = [];
+    }
+
+    this.taps = [...this.taps, now].slice(-MAX_TAPS);
+    if (this.taps.length < 2) {
+      return null;
+    }
+
+    const intervalMs = (this.taps[this.taps.length - 1] - this.taps[0]) / (this.taps.length - 1);
+
+    // Taps follow the video as heard: bring them back to the tempo at normal speed
+    this.updateSettings({ bpm: Math.round(60_000 / intervalMs / this.playbackRate()) });
+    return this._settings().bpm;
+  }
+
+  start(): void {
+    if (this._isEnabled()) {
+      return;
+    }
+
+    this._isEnabled.set(true);
+    this.realign();
+    this.tick();
+  }
+
+  stop(): void {
+    if (this.tickTimer !== null) {
+      this.scheduler.clearTimer(this.tickTimer);
+      this.tickTimer = null;
+    }
+    this.clearBeatTimers();
+    this.realign();
+    this._isEnabled.set(false);
+    this._beat.set(null);
+  }
+
+  toggle(): void {
+    if (this._isEnabled()) {
+      this.stop();
+    } else {
+      this.start();
+    }
+  }
+
+  private tick(): void {
+    // The look-ahead only reads the player: keep it out of change detection
+    this.zone.runOutsideAngular(() => {
+      this.tickTimer = this.scheduler.setTimer(() => this.tick(), SCHEDULER_INTERVAL_MS);
+    });
+
+    if (!this.player?.isPlaying()) {
+      this.realign();
+      this._beat.set(null);
+      return;
+    }
+
+    this.scheduleClicks(this.player.getCurrentTime());
+  }
+
+  private scheduleClicks(mediaTime: number): void {
+    const settings = this._settings();
+    const rate = this.playbackRate();
+    const beatSeconds = 60 / settings.bpm;
+    const audioTime = this.synth.currentTime();
+
+    // After a seek or a loop restart, start again from the next beat
+    const firstDue = Math.ceil((mediaTime - settings.offset) / beatSeconds);
+    const movedBack = this.lastMediaTime !== null && mediaTime < this.lastMediaTime - SEEK_BACK_TOLERANCE_SECONDS;
+    if (this.nextBeat === null || movedBack || this.nextBeat < firstDue) {
+      this.nextBeat = firstDue;
+    }
+    this.lastMediaTime = mediaTime;
+
+    for (;;) {
+      const delaySeconds = (settings.offset + this.nextBeat * beatSeconds - mediaTime) / rate;
+      if (delaySeconds > SCHEDULE_AHEAD_SECONDS) {
+        break;
+      }
+
+      const beatInBar = ((this.nextBeat % settings.beatsPerBar) + settings.beatsPerBar) % settings.beatsPerBar;
+      this.synth.click(audioTime + Math.max(0, delaySeconds), beatInBar === 0);
+      this.showBeat({ current: beatInBar + 1, total: settings.beatsPerBar }, delaySeconds);
+      this.nextBeat++;
+    }
+  }
+
+  // The next tick restarts from the beat following the media time
+  private realign(): void {
+    this.nextBeat = null;
+    this.lastMediaTime = null;
+  }
+
+  private showBeat(beat: MetronomeBeat, delaySeconds: number): void {
+    const timer = this.scheduler.setTimer(() => {
+      this.beatTimers.delete(timer);
+      this._beat.set(beat);
+    }, Math.max(0, delaySeconds * 1000));
+    this.beatTimers.add(timer);
+  }
+
+  private clearBeatTimers(): void {
+    this.beatTimers.forEach(timer => this.scheduler.clearTimer(timer));
+    this.beatTimers.clear();
+  }
+}
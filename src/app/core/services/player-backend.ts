@@ -0,0 +1,66 @@
+import { Signal } from '@angular/core';
+
+// Media behind a player: a YouTube video or a local audio/video file
+export type PlayerBackendKind = 'youtube' | 'html5';
+
+export interface VideoInfo {
+  id: string;
+  videoId: string; // YouTube ID, or content hash ("local-…") of a local file
+  title: string;
+  duration: number;
+  author: string;
+  thumbnail: string;
+  url?: string;
+}
+
+/**
+ * Playback status driven by PlayerStateMachine, the YouTube player states plus 'error'
+ */
+export type PlaybackStatus = 'unstarted' | 'cued' | 'buffering' | 'playing' | 'paused' | 'ended' | 'error';
+
+export interface PlayerState {
+  status: PlaybackStatus;
+  // Derived from status, kept for the existing consumers
+  isReady: boolean;
+  isPlaying: boolean;
+  currentTime: number;
+  duration: number;
+  playbackRate: number;
+  volume: number;
+  error: string | null;
+}
+
+export const INITIAL_PLAYER_STATE: PlayerState = {
+  status: 'unstarted',
+  isReady: false,
+  isPlaying: false,
+  currentTime: 0,
+  duration: 0,
+  playbackRate: 1,
+  volume: 100,
+  error: null
+};
+
+/**
+ * Playback controls shared by the YouTube and HTML5 players.
+ *
+ * VideoPlayerFacade drives whichever backend holds the current media through this
+ * interface, so loops, sessions, speed control and the timeline behave the same on
+ * both. Loading media stays backend specific (video ID vs. file).
+ */
+export interface PlayerBackend {
+  readonly kind: PlayerBackendKind;
+  readonly playerState: Signal<PlayerState>;
+  readonly currentVideo: Signal<VideoInfo | null>;
+  play(): void;
+  pause(): void;
+  stop(): void;
+  seekTo(seconds: number): void;
+  setPlaybackRate(rate: number): void;
+  setVolume(volume: number): void; // 0-100
+  getCurrentTime(): number;
+  getDuration(): number;
+  getPlaybackRate(): number;
+  getVolume(): number;
+  destroy(): void;
+}
@@ -0,0 +1,117 @@
+import { InjectionToken } from '@angular/core';
+import { PlayerPort, PlayerPortEvents, PlayerPortFactory, YouTubeWindow } from '../types/youtube-api.types';
+import { FakePlayerFactory } from './fake-player';
+
+declare let window: YouTubeWindow;
+
+// Query parameter that starts the app on the fake player, without network
+export const DEMO_MODE_QUERY_PARAM = 'demo';
+
+/**
+ * Players of the YouTube IFrame API, the script is loaded once on demand
+ */
+export class YouTubeIframePlayerFactory implements PlayerPortFactory {
+  readonly isFake = false;
+
+  private apiLoading: Promise<void> | null = null;
+
+  load(): Promise<void> {
+    if (!this.apiLoading) {
+      this.apiLoading = this.loadApi();
+      // A failed download can be retried on the next call
+      this.apiLoading.catch(() => {
+        this.apiLoading = null;
+      });
+    }
+    return this.apiLoading;
+  }
+
+  create(elementId: string, videoId: string, events: PlayerPortEvents): PlayerPort {
+    if (!window.YT) {
+      throw new Error('YouTube API not loaded');
+    }
+
+    return new window.YT.Player(elementId, {
+      height: '360',
+      width: '640',
+      videoId,
+      playerVars: {
+        autoplay: 0,
+        controls: 1,
+        disablekb: 0,
+        enablejsapi: 1,
+        fs: 1,
+        iv_load_policy: 3,
+        modestbranding: 1,
+        origin: window.location.origin,
+        playsinline: 1,
+        rel: 0
+      },
+      events: {
+        onReady: () => events.onReady?.(),
+        onStateChange: event => events.onStateChange?.(event.data),
+        onPlaybackRateChange: event => events.onPlaybackRateChange?.(event.data),
+        onError: event => events.onError?.(event.data)
+      }
+    });
+  }
+
+  private loadApi(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      // API already loaded
+      if (window.YT && window.YT.Player) {
+        resolve();
+        return;
+      }
+
+      // Script already requested elsewhere: wait for the API
+      if (document.getElementById('youtube-api-script')) {
+        const checkAPI = () => {
+          if (window.YT && window.YT.Player) {
+            resolve();
+          } else {
+            setTimeout(checkAPI, 100);
+          }
+        };
+        checkAPI();
+        return;
+      }
+
+      window.onYouTubeIframeAPIReady = () => resolve();
+
+      const script = document.createElement('script');
+      script.id = 'youtube-api-script';
+      script.src = 'https://www.youtube.com/iframe_api';
+      script.async = true;
+      script.defer = true;
+      script.onerror = () => reject(new Error('Failed to load YouTube API'));
+
+      document.head.appendChild(script);
+    });
+  }
+}
+
+/**
+ * Whether the page was opened with ?demo
+ */
+export function isDemoModeRequested(): boolean {
+  return typeof window !== 'undefined'
+    && new URLSearchParams(window.location.search).has(DEMO_MODE_QUERY_PARAM);
+}
+
+/**
+ * Fake player with a running clock in demo mode, YouTube IFrame API otherwise
+ */
+export function createDefaultPlayerPortFactory(): PlayerPortFactory {
+  if (isDemoModeRequested()) {
+    const factory = new FakePlayerFactory();
+    factory.startClock();
+    return factory;
+  }
+  return new YouTubeIframePlayerFactory();
+}
+
+export const PLAYER_PORT_FACTORY = new InjectionToken<PlayerPortFactory>('PLAYER_PORT_FACTORY', {
+  providedIn: 'root',
+  factory: createDefaultPlayerPortFactory
+});
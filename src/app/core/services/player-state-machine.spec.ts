@@ -0,0 +1,89 @@
+import { PlayerStateMachine, canTransition, statusFromYouTubeState } from './player-state-machine';
+import { PlayerState as YouTubePlayerState } from '../types/youtube-api.types';
+
+describe('PlayerStateMachine', () => {
+  let machine: PlayerStateMachine;
+
+  beforeEach(() => {
+    machine = new PlayerStateMachine();
+    spyOn(console, 'warn');
+  });
+
+  it('should start unstarted and not ready', () => {
+    expect(machine.status()).toBe('unstarted');
+    expect(machine.state().isReady).toBe(false);
+    expect(machine.state().isPlaying).toBe(false);
+  });
+
+  it('should derive the flags from the status', () => {
+    machine.transition('cued', { duration: 120 });
+    expect(machine.state()).toEqual(jasmine.objectContaining({
+      status: 'cued',
+      isReady: true,
+      isPlaying: false,
+      duration: 120
+    }));
+
+    machine.transition('playing');
+    expect(machine.state().isPlaying).toBe(true);
+
+    machine.transition('buffering');
+    expect(machine.state().isPlaying).toBe(false);
+    expect(machine.state().isReady).toBe(true);
+  });
+
+  it('should ignore invalid transitions but keep the measurements', () => {
+    const applied = machine.transition('paused', { currentTime: 12 });
+
+    expect(applied).toBe(false);
+    expect(machine.status()).toBe('unstarted');
+    expect(machine.state().currentTime).toBe(12);
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it('should fail from any status and recover on a new load', () => {
+    machine.transition('cued');
+    machine.transition('playing');
+
+    machine.fail('Vidéo introuvable ou privée');
+
+    expect(machine.state()).toEqual(jasmine.objectContaining({
+      status: 'error',
+      isReady: false,
+      isPlaying: false,
+      error: 'Vidéo introuvable ou privée'
+    }));
+    expect(machine.canTransition('paused')).toBe(false);
+
+    machine.transition('cued');
+
+    expect(machine.state().error).toBeNull();
+    expect(machine.state().isReady).toBe(true);
+  });
+
+  it('should go back to the initial state on reset', () => {
+    machine.transition('playing', { currentTime: 30, playbackRate: 0.75 });
+
+    machine.reset();
+
+    expect(machine.status()).toBe('unstarted');
+    expect(machine.state().currentTime).toBe(0);
+    expect(machine.state().playbackRate).toBe(1);
+  });
+
+  it('should allow ending only once playback started', () => {
+    expect(canTransition('unstarted', 'ended')).toBe(false);
+    expect(canTransition('cued', 'ended')).toBe(false);
+    expect(canTransition('playing', 'ended')).toBe(true);
+    expect(canTransition('paused', 'ended')).toBe(true);
+  });
+
+  it('should map the YouTube player states', () => {
+    expect(statusFromYouTubeState(YouTubePlayerState.UNSTARTED)).toBe('unstarted');
+    expect(statusFromYouTubeState(YouTubePlayerState.CUED)).toBe('cued');
+    expect(statusFromYouTubeState(YouTubePlayerState.BUFFERING)).toBe('buffering');
+    expect(statusFromYouTubeState(YouTubePlayerState.PLAYING)).toBe('playing');
+    expect(statusFromYouTubeState(YouTubePlayerState.PAUSED)).toBe('paused');
+    expect(statusFromYouTubeState(YouTubePlayerState.ENDED)).toBe('ended');
+  });
+});
@@ -0,0 +1,116 @@
+import { computed, signal } from '@angular/core';
+import { INITIAL_PLAYER_STATE, PlaybackStatus, PlayerState } from './player-backend';
+import { PlayerState as YouTubePlayerState } from '../types/youtube-api.types';
+
+// Measurements a backend reports without changing the playback status
+export type PlayerStateUpdate = Partial<Pick<PlayerState, 'currentTime' | 'duration' | 'playbackRate' | 'volume'>>;
+
+/**
+ * Allowed transitions, any status can fail into 'error'.
+ * 'unstarted' is reachable from every loaded status because loading a new video restarts the cycle.
+ */
+export const PLAYER_TRANSITIONS: Readonly<Record<PlaybackStatus, readonly PlaybackStatus[]>> = {
+  unstarted: ['cued', 'buffering', 'playing', 'error'],
+  cued: ['unstarted', 'buffering', 'playing', 'paused', 'error'],
+  buffering: ['unstarted', 'cued', 'playing', 'paused', 'ended', 'error'],
+  playing: ['unstarted', 'cued', 'buffering', 'paused', 'ended', 'error'],
+  paused: ['unstarted', 'cued', 'buffering', 'playing', 'ended', 'error'],
+  ended: ['unstarted', 'cued', 'buffering', 'playing', 'paused', 'error'],
+  error: ['unstarted', 'cued', 'buffering', 'playing']
+};
+
+// Statuses in which a media is loaded and the controls can act on it
+export const READY_STATUSES: readonly PlaybackStatus[] = ['cued', 'buffering', 'playing', 'paused', 'ended'];
+
+// Statuses from which playback can be started
+export const PLAYABLE_STATUSES: readonly PlaybackStatus[] = ['cued', 'paused', 'ended'];
+
+// Statuses in which the playhead is (about to be) moving
+export const ACTIVE_STATUSES: readonly PlaybackStatus[] = ['buffering', 'playing'];
+
+export function canTransition(from: PlaybackStatus, to: PlaybackStatus): boolean {
+  return from === to || PLAYER_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Maps a YouTube IFrame API state code to a playback status
+ */
+export function statusFromYouTubeState(state: YouTubePlayerState): Exclude<PlaybackStatus, 'error'> {
+  switch (state) {
+    case YouTubePlayerState.CUED:
+      return 'cued';
+    case YouTubePlayerState.BUFFERING:
+      return 'buffering';
+    case YouTubePlayerState.PLAYING:
+      return 'playing';
+    case YouTubePlayerState.PAUSED:
+      return 'paused';
+    case YouTubePlayerState.ENDED:
+      return 'ended';
+    default:
+      return 'unstarted';
+  }
+}
+
+/**
+ * Playback state of a player backend.
+ *
+ * The status only changes through guarded transitions, and `isReady`, `isPlaying`
+ * and `error` are derived from it so they can never disagree. Invalid transitions
+ * are ignored (with a warning) instead of corrupting the state.
+ */
+export class PlayerStateMachine {
+  private readonly _state = signal<PlayerState>(INITIAL_PLAYER_STATE);
+
+  readonly state = this._state.asReadonly();
+  readonly status = computed(() => this._state().status);
+
+  canTransition(to: PlaybackStatus): boolean {
+    return canTransition(this._state().status, to);
+  }
+
+  /**
+   * Moves to a new status
+   * @returns false when the transition is not allowed, measurements are applied anyway
+   */
+  transition(to: Exclude<PlaybackStatus, 'error'>, updates: PlayerStateUpdate = {}): boolean {
+    const current = this._state();
+
+    if (!canTransition(current.status, to)) {
+      console.warn(`Invalid player transition: ${current.status} -> ${to}`);
+      this.update(updates);
+      return false;
+    }
+
+    this._state.set({ ...current, ...updates, ...this.flagsFor(to, null) });
+    return true;
+  }
+
+  /**
+   * Enters the error status, allowed from any status
+   */
+  fail(message: string): void {
+    this._state.update(current => ({ ...current, ...this.flagsFor('error', message) }));
+  }
+
+  /**
+   * Records measurements (time, duration, rate, volume) without changing the status
+   */
+  update(updates: PlayerStateUpdate): void {
+    if (Object.keys(updates).length === 0) return;
+    this._state.update(current => ({ ...current, ...updates }));
+  }
+
+  reset(): void {
+    this._state.set(INITIAL_PLAYER_STATE);
+  }
+
+  private flagsFor(status: PlaybackStatus, error: string | null): Pick<PlayerState, 'status' | 'isReady' | 'isPlaying' | 'error'> {
+    return {
+      status,
+      isReady: READY_STATUSES.includes(status),
+      isPlaying: status === 'playing',
+      error
+    };
+  }
+}
@@ -0,0 +1,133 @@
+import { TestBed } from '@angular/core/testing';
+import { PracticeRoutineService } from './practice-routine.service';
+import { LooperStorageService } from './looper-storage.service';
+import { SessionRepositoryService } from './session-repository.service';
+import { LooperSession, PracticeRoutine } from './looper-storage.types';
+
+describe('PracticeRoutineService', () => {
+  let service: PracticeRoutineService;
+  let mockStorage: jasmine.SpyObj<LooperStorageService>;
+  let mockRepository: jasmine.SpyObj<SessionRepositoryService>;
+
+  const createSession = (id: string, videoId: string): LooperSession => ({
+    id,
+    name: `Session ${id}`,
+    videoId,
+    videoTitle: `Video ${videoId}`,
+    videoUrl: `https://www.youtube.com/watch?v=${videoId}`,
+    videoDuration: 300,
+    loops: [
+      { id: `${id}-loop`, name: 'Riff', startTime: 10, endTime: 20, playbackSpeed: 0.75, playCount: 0, isActive: false, repeatCount: 4 }
+    ],
+    globalPlaybackSpeed: 1,
+    currentTime: 0,
+    isActive: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    totalPlayTime: 0,
+    playCount: 0
+  });
+
+  const sessions = [createSession('s1', 'videoA'), createSession('s2', 'videoB')];
+
+  beforeEach(() => {
+    mockStorage = jasmine.createSpyObj('LooperStorageService', ['loadRoutines', 'saveRoutines']);
+    mockStorage.loadRoutines.and.returnValue({ success: true, data: [] });
+    mockStorage.saveRoutines.and.callFake((routines: PracticeRoutine[]) => ({ success: true, data: routines }));
+
+    mockRepository = jasmine.createSpyObj('SessionRepositoryService', ['getById']);
+    mockRepository.getById.and.callFake((id: string) => sessions.find(session => session.id === id) || null);
+
+    TestBed.configureTestingModule({
+      providers: [
+        PracticeRoutineService,
+        { provide: LooperStorageService, useValue: mockStorage },
+        { provide: SessionRepositoryService, useValue: mockRepository }
+      ]
+    });
+    service = TestBed.inject(PracticeRoutineService);
+  });
+
+  const createRoutine = (name = 'Warm-up'): PracticeRoutine =>
+    service.createRoutine(name).data as PracticeRoutine;
+
+  it('should load routines from storage', () => {
+    expect(mockStorage.loadRoutines).toHaveBeenCalled();
+    expect(service.routines()).toEqual([]);
+  });
+
+  it('should create a routine', () => {
+    const routine = createRoutine();
+
+    expect(routine.name).toBe('Warm-up');
+    expect(service.routines().length).toBe(1);
+    expect(mockStorage.saveRoutines).toHaveBeenCalled();
+  });
+
+  it('should require a name', () => {
+    const result = service.createRoutine('   ');
+
+    expect(result.success).toBe(false);
+    expect(service.lastError()).toContain('requis');
+  });
+
+  it('should add loops from sessions of different videos', () => {
+    const routine = createRoutine();
+
+    service.addItem(routine.id, { sessionId: 's1', loopId: 's1-loop' });
+    service.addItem(routine.id, { sessionId: 's2', loopId: 's2-loop', repetitions: 2, playbackSpeed: 1 });
+
+    const items = service.getById(routine.id)!.items;
+    expect(items.map(item => item.videoId)).toEqual(['videoA', 'videoB']);
+    expect(items[0]).toEqual(jasmine.objectContaining({ repetitions: 4, playbackSpeed: 0.75 }));
+    expect(items[1]).toEqual(jasmine.objectContaining({ repetitions: 2, playbackSpeed: 1 }));
+  });
+
+  it('should refuse an unknown loop', () => {
+    const routine = createRoutine();
+
+    const result = service.addItem(routine.id, { sessionId: 's1', loopId: 'missing' });
+
+    expect(result.success).toBe(false);
+    expect(service.getById(routine.id)!.items).toEqual([]);
+  });
+
+  it('should reorder items', () => {
+    const routine = createRoutine();
+    service.addItem(routine.id, { sessionId: 's1', loopId: 's1-loop' });
+    service.addItem(routine.id, { sessionId: 's2', loopId: 's2-loop' });
+
+    service.moveItem(routine.id, 1, 0);
+
+    expect(service.getById(routine.id)!.items.map(item => item.sessionId)).toEqual(['s2', 's1']);
+  });
+
+  it('should skip items whose loop was deleted when resolving', () => {
+    const routine = createRoutine();
+    service.addItem(routine.id, { sessionId: 's1', loopId: 's1-loop' });
+    service.addItem(routine.id, { sessionId: 's2', loopId: 's2-loop' });
+    mockRepository.getById.and.callFake((id: string) => id === 's2' ? sessions[1]! : null);
+
+    const resolved = service.resolveRoutine(routine.id);
+
+    expect(resolved.length).toBe(1);
+    expect(resolved[0]!.loop.id).toBe('s2-loop');
+  });
+
+  it('should delete a routine', () => {
+    const routine = createRoutine();
+
+    service.deleteRoutine(routine.id);
+
+    expect(service.routines()).toEqual([]);
+  });
+
+  it('should report storage failures', () => {
+    mockStorage.saveRoutines.and.returnValue({ success: false, error: 'Quota dépassé' });
+
+    const result = service.createRoutine('Warm-up');
+
+    expect(result.success).toBe(false);
+    expect(service.lastError()).toBe('Quota dépassé');
+  });
+});
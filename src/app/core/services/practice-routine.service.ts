@@ -0,0 +1,237 @@
+import { Injectable, inject, signal, computed } from '@angular/core';
+import { LooperStorageService } from './looper-storage.service';
+import { SessionRepositoryService } from './session-repository.service';
+import {
+  LooperSession,
+  PracticeRoutine,
+  RoutineItem,
+  StorageOperationResult
+} from './looper-storage.types';
+import { LoopSegment } from '@shared/interfaces';
+
+// Settings of a loop added to a routine
+export interface RoutineItemRequest {
+  sessionId: string;
+  loopId: string;
+  repetitions?: number;
+  playbackSpeed?: number;
+}
+
+// Routine item joined with the session and loop it points to
+export interface ResolvedRoutineItem {
+  item: RoutineItem;
+  session: LooperSession;
+  loop: LoopSegment;
+}
+
+export const DEFAULT_ROUTINE_REPETITIONS = 3;
+
+/**
+ * Practice routines: ordered loops taken from sessions of different videos.
+ *
+ * Items only reference their session and loop, so edits made to a loop in the
+ * player are picked up the next time the routine is played.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PracticeRoutineService {
+  private readonly storage = inject(LooperStorageService);
+  private readonly sessionRepository = inject(SessionRepositoryService);
+
+  private readonly _routines = signal<PracticeRoutine[]>([]);
+  private readonly _lastError = signal<string | null>(null);
+
+  readonly routines = this._routines.asReadonly();
+  readonly lastError = this._lastError.asReadonly();
+
+  readonly routineCount = computed(() => this._routines().length);
+
+  constructor() {
+    this.refresh();
+  }
+
+  // === READ ===
+
+  /**
+   * Reload routines from storage
+   */
+  refresh(): StorageOperationResult {
+    const result = this.storage.loadRoutines();
+    if (result?.success) {
+      this._routines.set(result.data as PracticeRoutine[]);
+      this._lastError.set(null);
+    } else if (result) {
+      this._lastError.set(result.error || 'Erreur de chargement des routines');
+    }
+    return result;
+  }
+
+  getById(routineId: string): PracticeRoutine | null {
+    return this._routines().find(routine => routine.id === routineId) || null;
+  }
+
+  /**
+   * Session and loop of an item, null when either has been deleted since
+   */
+  resolveItem(item: RoutineItem): ResolvedRoutineItem | null {
+    const session = this.sessionRepository.getById(item.sessionId);
+    const loop = session?.loops.find(l => l.id === item.loopId);
+    return session && loop ? { item, session, loop } : null;
+  }
+
+  /**
+   * Playable items of a routine, in order, skipping the ones whose loop no longer exists
+   */
+  resolveRoutine(routineId: string): ResolvedRoutineItem[] {
+    const routine = this.getById(routineId);
+    if (!routine) {
+      return [];
+    }
+
+    return routine.items
+      .map(item => this.resolveItem(item))
+      .filter((resolved): resolved is ResolvedRoutineItem => resolved !== null);
+  }
+
+  // === WRITE ===
+
+  createRoutine(name: string, description?: string): StorageOperationResult {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      return this.fail('Le nom de la routine est requis');
+    }
+
+    const now = new Date();
+    const routine: PracticeRoutine = {
+      id: this.generateId('routine'),
+      name: trimmedName,
+      items: [],
+      createdAt: now,
+      updatedAt: now,
+      ...(description?.trim() && { description: description.trim() })
+    };
+
+    const result = this.persist([...this._routines(), routine]);
+    return result.success ? { ...result, data: routine } : result;
+  }
+
+  renameRoutine(routineId: string, name: string): StorageOperationResult {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      return this.fail('Le nom de la routine est requis');
+    }
+    return this.updateRoutine(routineId, routine => ({ ...routine, name: trimmedName }));
+  }
+
+  deleteRoutine(routineId: string): StorageOperationResult {
+    if (!this.getById(routineId)) {
+      return this.fail(`Routine introuvable: ${routineId}`);
+    }
+    return this.persist(this._routines().filter(routine => routine.id !== routineId));
+  }
+
+  /**
+   * Append a loop of a session to a routine
+   */
+  addItem(routineId: string, request: RoutineItemRequest): StorageOperationResult {
+    const session = this.sessionRepository.getById(request.sessionId);
+    const loop = session?.loops.find(l => l.id === request.loopId);
+    if (!session || !loop) {
+      return this.fail('Boucle introuvable dans la session');
+    }
+
+    const item: RoutineItem = {
+      id: this.generateId('item'),
+      sessionId: session.id,
+      loopId: loop.id,
+      videoId: session.videoId,
+      repetitions: request.repetitions ?? loop.repeatCount ?? DEFAULT_ROUTINE_REPETITIONS,
+      playbackSpeed: request.playbackSpeed ?? loop.playbackSpeed ?? 1
+    };
+
+    return this.updateRoutine(routineId, routine => ({ ...routine, items: [...routine.items, item] }));
+  }
+
+  updateItem(
+    routineId: string,
+    itemId: string,
+    changes: Partial<Pick<RoutineItem, 'repetitions' | 'playbackSpeed'>>
+  ): StorageOperationResult {
+    return this.updateRoutine(routineId, routine => ({
+      ...routine,
+      items: routine.items.map(item => item.id === itemId ? { ...item, ...changes } : item)
+    }));
+  }
+
+  removeItem(routineId: string, itemId: string): StorageOperationResult {
+    return this.updateRoutine(routineId, routine => ({
+      ...routine,
+      items: routine.items.filter(item => item.id !== itemId)
+    }));
+  }
+
+  /**
+   * Move an item to another position of the routine
+   */
+  moveItem(routineId: string, fromIndex: number, toIndex: number): StorageOperationResult {
+    return this.updateRoutine(routineId, routine => {
+      const items = [...routine.items];
+      if (fromIndex < 0 || fromIndex >= items.length || toIndex < 0 || toIndex >= items.length) {
+        return routine;
+      }
+      const [moved] = items.splice(fromIndex, 1);
+      items.splice(toIndex, 0, moved!);
+      return { ...routine, items };
+    });
+  }
+
+  markPlayed(routineId: string): StorageOperationResult {
+    return this.updateRoutine(routineId, routine => ({ ...routine, lastPlayed: new Date() }), false);
+  }
+
+  private updateRoutine(
+    routineId: string,
+    update: (routine: PracticeRoutine) => PracticeRoutine,
+    touch = true
+  ): StorageOperationResult {
+    const routine = this.getById(routineId);
+    if (!routine) {
+      return this.fail(`Routine introuvable: ${routineId}`);
+    }
+
+    const updated = { ...update(routine) };
+    if (touch) {
+      updated.updatedAt = new Date();
+    }
+
+    const result = this.persist(this._routines().map(r => r.id === routineId ? updated : r));
+    return result.success ? { ...result, data: updated } : result;
+  }
+
+  private persist(routines: PracticeRoutine[]): StorageOperationResult {
+    try {
+      const result = this.storage.saveRoutines(routines);
+
+      if (result.success) {
+        this._routines.set(result.data as PracticeRoutine[]);
+        this._lastError.set(null);
+      } else {
+        this._lastError.set(result.error || 'Erreur lors de la sauvegarde des routines');
+      }
+
+      return result;
+    } catch (error) {
+      return this.fail(`Erreur de sauvegarde des routines: ${(error as Error).message}`);
+    }
+  }
+
+  private fail(error: string): StorageOperationResult {
+    this._lastError.set(error);
+    return { success: false, error };
+  }
+
+  private generateId(prefix: string): string {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
@@ -0,0 +1,84 @@
+import { TestBed } from '@angular/core/testing';
+import { RestGapService, restDuration } from './rest-gap.service';
+import { LOOP_FRAME_SCHEDULER } from './loop-playback-engine.service';
+
+/**
+ * Manual clock for the countdown timers
+ */
+class FakeTimers {
+  private time = 0;
+  private nextHandle = 1;
+  private timers = new Map<number, { at: number; callback: () => void }>();
+
+  setTimer(callback: () => void, delayMs: number): number {
+    const handle = this.nextHandle++;
+    this.timers.set(handle, { at: this.time + delayMs, callback });
+    return handle;
+  }
+
+  clearTimer(handle: number): void {
+    this.timers.delete(handle);
+  }
+
+  advance(ms: number): void {
+    const end = this.time + ms;
+    const due = () => Array.from(this.timers.entries())
+      .filter(([, timer]) => timer.at <= end)
+      .sort((a, b) => a[1].at - b[1].at)[0];
+
+    for (let next = due(); next; next = due()) {
+      this.time = next[1].at;
+      this.timers.delete(next[0]);
+      next[1].callback();
+    }
+    this.time = end;
+  }
+}
+
+describe('RestGapService', () => {
+  let service: RestGapService;
+  let timers: FakeTimers;
+
+  beforeEach(() => {
+    timers = new FakeTimers();
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: LOOP_FRAME_SCHEDULER, useValue: timers }]
+    });
+
+    service = TestBed.inject(RestGapService);
+  });
+
+  it('should count down the whole seconds left and complete at the end of the rest', async () => {
+    const done = service.run('gap', 2.5);
+    expect(service.countdown()).toEqual({ mode: 'gap', remaining: 3 });
+
+    timers.advance(500);
+    expect(service.countdown()).toEqual({ mode: 'gap', remaining: 2 });
+
+    timers.advance(1999);
+    expect(service.countdown()).toEqual({ mode: 'gap', remaining: 1 });
+
+    timers.advance(1);
+    expect(service.isRunning()).toBe(false);
+    expect(await done).toBe(true);
+  });
+
+  it('should resolve false when cancelled', async () => {
+    const done = service.run('call-and-response', 4);
+
+    service.cancel();
+
+    expect(await done).toBe(false);
+    expect(service.countdown()).toBeNull();
+  });
+
+  it('should rest for the loop duration as heard in call-and-response', () => {
+    const loop = { startTime: 10, endTime: 14, restGap: { mode: 'call-and-response' as const, seconds: 1 } };
+
+    expect(restDuration(loop)).toBe(4);
+    expect(restDuration(loop, 0.5)).toBe(8);
+    expect(restDuration({ ...loop, restGap: { mode: 'gap', seconds: 3 } }, 0.5)).toBe(3);
+    expect(restDuration({ startTime: 10, endTime: 14 })).toBe(0);
+  });
+});
@@ -0,0 +1,93 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { LoopSegment, RestGapConfig, RestGapMode } from '@shared/interfaces';
+import { LOOP_FRAME_SCHEDULER } from './loop-playback-engine.service';
+
+// Whole seconds left in the rest, e.g. 3 then 2 then 1
+export interface RestCountdown {
+  mode: RestGapMode;
+  remaining: number;
+}
+
+export const DEFAULT_REST_GAP_CONFIG: RestGapConfig = {
+  mode: 'gap',
+  seconds: 4
+};
+
+/**
+ * Length of the rest after a repetition, in wall-clock seconds.
+ * Call-and-response rests for the loop as it was heard, so a slowed down loop rests longer.
+ */
+export function restDuration(loop: Pick<LoopSegment, 'startTime' | 'endTime' | 'restGap'>, playbackRate = 1): number {
+  if (!loop.restGap) {
+    return 0;
+  }
+
+  if (loop.restGap.mode === 'call-and-response') {
+    return (loop.endTime - loop.startTime) / Math.max(0.01, playbackRate);
+  }
+  return Math.max(0, loop.restGap.seconds);
+}
+
+/**
+ * Silent pause held between two loop repetitions, for ear training.
+ *
+ * The countdown shown in the player follows the timers of the loop engine scheduler.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class RestGapService {
+  private readonly scheduler = inject(LOOP_FRAME_SCHEDULER);
+
+  private timers: number[] = [];
+  private pending: ((completed: boolean) => void) | null = null;
+
+  private readonly _countdown = signal<RestCountdown | null>(null);
+
+  readonly countdown = this._countdown.asReadonly();
+  readonly isRunning = computed(() => this._countdown() !== null);
+
+  /**
+   * Hold the rest, a running one is cancelled first
+   * @returns true once the rest has elapsed, false when cancelled
+   */
+  run(mode: RestGapMode, seconds: number): Promise<boolean> {
+    this.cancel();
+
+    if (seconds <= 0) {
+      return Promise.resolve(true);
+    }
+
+    const totalMs = seconds * 1000;
+    this._countdown.set({ mode, remaining: Math.ceil(seconds) });
+
+    return new Promise(resolve => {
+      this.pending = resolve;
+
+      for (let remaining = Math.ceil(seconds) - 1; remaining > 0; remaining--) {
+        this.timers.push(this.scheduler.setTimer(
+          () => this._countdown.set({ mode, remaining }),
+          totalMs - remaining * 1000
+        ));
+      }
+
+      this.timers.push(this.scheduler.setTimer(() => this.finish(true), totalMs));
+    });
+  }
+
+  cancel(): void {
+    if (this.pending) {
+      this.finish(false);
+    }
+  }
+
+  private finish(completed: boolean): void {
+    this.timers.forEach(timer => this.scheduler.clearTimer(timer));
+    this.timers = [];
+    this._countdown.set(null);
+
+    const resolve = this.pending;
+    this.pending = null;
+    resolve?.(completed);
+  }
+}
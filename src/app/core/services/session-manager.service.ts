@@ -1,5 +1,6 @@
 import { Injectable, inject, signal, computed, effect } from '@angular/core';
 import { LooperStorageService } from './looper-storage.service';
+import { SessionRepositoryService } from './session-repository.service';
 import { 
   LooperSession,
   SessionSettings,
@@ -15,9 +16,10 @@ import { LoopSegment } from '@shared/interfaces';
 })
 export class SessionManagerService {
   private readonly storage = inject(LooperStorageService);
+  private readonly repository = inject(SessionRepositoryService);
 
-  // Reactive state using signals
-  private readonly _sessions = signal<LooperSession[]>([]);
+  // Reactive state using signals (sessions are owned by the repository)
+  private readonly _sessions = this.repository.sessions;
   private readonly _currentState = signal<CurrentState>({
     activeSessionId: null,
     currentVideoId: null,
@@ -32,7 +34,7 @@ export class SessionManagerService {
   private readonly _lastError = signal<string | null>(null);
 
   // Public readonly signals
-  readonly sessions = this._sessions.asReadonly();
+  readonly sessions = this._sessions;
   readonly currentState = this._currentState.asReadonly();
   readonly settings = this._settings.asReadonly();
   readonly history = this._history.asReadonly();
@@ -84,10 +86,7 @@ export class SessionManagerService {
   private async initializeData(): Promise<void> {
     try {
       // Load sessions
-      const sessionsResult = this.storage.loadSessions();
-      if (sessionsResult.success) {
-        this._sessions.set(sessionsResult.data as LooperSession[]);
-      }
+      this.repository.refresh();
 
       // Load current state
       const stateResult = this.storage.loadCurrentState();
@@ -143,11 +142,9 @@ export class SessionManagerService {
         playCount: 0
       };
 
-      const result = this.storage.saveSession(newSession);
+      const result = this.repository.save(newSession);
       
       if (result.success) {
-        const updatedSessions = [...this._sessions(), newSession];
-        this._sessions.set(updatedSessions);
         this._lastError.set(null);
       } else {
         this._lastError.set(result.error || 'Erreur lors de la création');
@@ -182,12 +179,9 @@ export class SessionManagerService {
         updatedAt: new Date()
       };
 
-      const result = this.storage.saveSession(updatedSession);
+      const result = this.repository.save(updatedSession);
       
       if (result.success) {
-        const updatedSessions = [...sessions];
-        updatedSessions[sessionIndex] = updatedSession;
-        this._sessions.set(updatedSessions);
         this._lastError.set(null);
       } else {
         this._lastError.set(result.error || 'Erreur lors de la mise à jour');
@@ -206,12 +200,10 @@ export class SessionManagerService {
    */
   deleteSession(sessionId: string): StorageOperationResult {
     try {
-      const result = this.storage.deleteSession(sessionId);
+      const result = this.repository.delete(sessionId);
       
       if (result.success) {
-        const filteredSessions = this._sessions().filter(s => s.id !== sessionId);
-        this._sessions.set(filteredSessions);
-        
+
         // Update current state if deleted session was active
         if (this._currentState().activeSessionId === sessionId) {
           this.updateCurrentState({ activeSessionId: null });
@@ -399,7 +391,7 @@ export class SessionManagerService {
       // Save active sessions
       const activeSessions = this._sessions().filter(session => session.isActive);
       if (activeSessions.length > 0) {
-        this.storage.saveSessions(this._sessions());
+        this.repository.saveAll(this._sessions());
       }
     } catch (error) {
       console.error('Erreur d\'auto-sauvegarde:', error);
@@ -433,8 +425,7 @@ export class SessionManagerService {
       );
 
       if (activeSessions.length !== this._sessions().length) {
-        this._sessions.set(activeSessions);
-        this.storage.saveSessions(activeSessions);
+        this.repository.saveAll(activeSessions);
       }
     } catch (error) {
       console.error('Erreur de nettoyage:', error);
@@ -508,7 +499,7 @@ export class SessionManagerService {
       
       if (result.success) {
         // Reset local state
-        this._sessions.set([]);
+        this.repository.reset();
         this._currentState.set({
           activeSessionId: null,
           currentVideoId: null,
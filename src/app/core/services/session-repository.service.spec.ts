@@ -0,0 +1,285 @@
+import { TestBed } from '@angular/core/testing';
+import {
+  SessionRepositoryService,
+  mergeLegacySessions,
+  videoSessionToLooperSession
+} from './session-repository.service';
+import { LooperStorageService } from './looper-storage.service';
+import { SecureStorageService } from './storage.service';
+import { VideoSession } from './storage.types';
+import { LooperSession, LOOPER_STORAGE_KEYS } from './looper-storage.types';
+
+describe('SessionRepositoryService', () => {
+  let service: SessionRepositoryService;
+  let mockStorage: jasmine.SpyObj<LooperStorageService>;
+  let mockSecureStorage: jasmine.SpyObj<SecureStorageService>;
+  let storedSessions: LooperSession[];
+
+  const legacySession = (overrides: Partial<VideoSession> = {}): VideoSession => ({
+    id: 'session-abc-1',
+    videoId: 'video-abc',
+    videoTitle: 'Legacy Video',
+    videoUrl: 'https://www.youtube.com/watch?v=video-abc',
+    loops: [{
+      id: 'loop-1',
+      name: 'Intro',
+      startTime: 0,
+      endTime: 10,
+      color: '#FF6B6B',
+      playCount: 3,
+      isActive: false,
+      playbackSpeed: 0.75
+    }],
+    playbackSpeed: 0.75,
+    currentTime: 5,
+    lastPlayed: new Date('2024-01-01T10:00:00Z'),
+    totalPlayTime: 60,
+    createdAt: new Date('2024-01-01T09:00:00Z'),
+    updatedAt: new Date('2024-01-01T10:00:00Z'),
+    ...overrides
+  });
+
+  const looperSession = (overrides: Partial<LooperSession> = {}): LooperSession => ({
+    id: 'session-1',
+    name: 'Practice',
+    videoId: 'video-abc',
+    videoTitle: 'Legacy Video',
+    videoUrl: 'https://www.youtube.com/watch?v=video-abc',
+    videoDuration: 300,
+    loops: [],
+    globalPlaybackSpeed: 1,
+    currentTime: 0,
+    isActive: false,
+    createdAt: new Date('2023-12-01T00:00:00Z'),
+    updatedAt: new Date('2023-12-01T00:00:00Z'),
+    totalPlayTime: 30,
+    playCount: 1,
+    ...overrides
+  });
+
+  const createService = (legacy: VideoSession[] = [], migrated = false) => {
+    mockSecureStorage.loadSessions.and.returnValue(legacy);
+    mockSecureStorage.loadData.and.returnValue(migrated ? { sessionsMergedAt: '2024-01-01' } : {});
+    service = TestBed.inject(SessionRepositoryService);
+  };
+
+  beforeEach(() => {
+    storedSessions = [];
+
+    mockStorage = jasmine.createSpyObj('LooperStorageService', [
+      'loadSessions',
+      'saveSessions',
+      'saveSession',
+      'deleteSession'
+    ]);
+    mockStorage.loadSessions.and.callFake(() => ({ success: true, data: [...storedSessions] }));
+    mockStorage.saveSessions.and.callFake((sessions: LooperSession[]) => {
+      storedSessions = [...sessions];
+      return { success: true };
+    });
+    mockStorage.saveSession.and.callFake((session: LooperSession) => {
+      storedSessions = [...storedSessions.filter(s => s.id !== session.id), session];
+      return { success: true, data: session };
+    });
+    mockStorage.deleteSession.and.returnValue({ success: true });
+
+    mockSecureStorage = jasmine.createSpyObj('SecureStorageService', [
+      'loadSessions',
+      'clearSessions',
+      'loadData',
+      'saveData'
+    ]);
+    mockSecureStorage.saveData.and.returnValue(true);
+    mockSecureStorage.clearSessions.and.returnValue(true);
+
+    TestBed.configureTestingModule({
+      providers: [
+        SessionRepositoryService,
+        { provide: LooperStorageService, useValue: mockStorage },
+        { provide: SecureStorageService, useValue: mockSecureStorage }
+      ]
+    });
+  });
+
+  describe('legacy migration', () => {
+    it('should merge player sessions into yl_sessions once', () => {
+      createService([legacySession()]);
+
+      expect(service.sessions().length).toBe(1);
+      expect(service.sessions()[0].loops[0].playbackSpeed).toBe(0.75);
+      expect(mockSecureStorage.clearSessions).toHaveBeenCalled();
+      expect(mockSecureStorage.saveData).toHaveBeenCalledWith(
+        LOOPER_STORAGE_KEYS.MIGRATIONS,
+        jasmine.objectContaining({ sessionsMergedAt: jasmine.any(String) })
+      );
+    });
+
+    it('should not run again once recorded', () => {
+      createService([legacySession()], true);
+
+      expect(mockStorage.saveSessions).not.toHaveBeenCalled();
+      expect(mockSecureStorage.clearSessions).not.toHaveBeenCalled();
+    });
+
+    it('should keep legacy data when the merge cannot be saved', () => {
+      mockStorage.saveSessions.and.returnValue({ success: false, error: 'Quota' });
+      createService([legacySession()]);
+
+      expect(mockSecureStorage.clearSessions).not.toHaveBeenCalled();
+      expect(mockSecureStorage.saveData).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('mergeLegacySessions', () => {
+    it('should collapse auto-saved records of the same video', () => {
+      const merged = mergeLegacySessions([], [
+        legacySession({ id: 's1', updatedAt: new Date('2024-01-01T10:00:00Z') }),
+        legacySession({
+          id: 's2',
+          currentTime: 42,
+          updatedAt: new Date('2024-01-02T10:00:00Z'),
+          loops: [{ id: 'loop-2', name: 'Verse', startTime: 20, endTime: 30, color: undefined, playCount: 0, isActive: false }]
+        })
+      ]);
+
+      expect(merged.length).toBe(1);
+      expect(merged[0].id).toBe('s2');
+      expect(merged[0].currentTime).toBe(42);
+      expect(merged[0].loops.map(loop => loop.id)).toEqual(['loop-1', 'loop-2']);
+      expect(merged[0].totalPlayTime).toBe(120);
+    });
+
+    it('should merge into the existing session of the video', () => {
+      const existing = looperSession({
+        loops: [{ id: 'loop-1', name: 'Old intro', startTime: 0, endTime: 8, playbackSpeed: 1, playCount: 0, isActive: false }]
+      });
+
+      const merged = mergeLegacySessions([existing], [legacySession()]);
+
+      expect(merged.length).toBe(1);
+      expect(merged[0].id).toBe('session-1');
+      expect(merged[0].name).toBe('Practice');
+      expect(merged[0].loops.length).toBe(1);
+      expect(merged[0].loops[0].name).toBe('Intro');
+      expect(merged[0].globalPlaybackSpeed).toBe(0.75);
+    });
+
+    it('should keep sessions of other videos untouched', () => {
+      const other = looperSession({ id: 'other', videoId: 'video-xyz' });
+
+      const merged = mergeLegacySessions([other], [legacySession()]);
+
+      expect(merged.length).toBe(2);
+      expect(merged[0]).toEqual(other);
+    });
+  });
+
+  describe('videoSessionToLooperSession', () => {
+    it('should fall back to a generated name without title', () => {
+      const session = videoSessionToLooperSession(legacySession({ videoTitle: undefined }));
+
+      expect(session.name).toBe('Session video-abc');
+      expect(session.videoTitle).toBe('');
+    });
+  });
+
+  describe('saveVideoSnapshot', () => {
+    const snapshot = {
+      videoId: 'video-abc',
+      videoTitle: 'Legacy Video',
+      videoUrl: 'https://www.youtube.com/watch?v=video-abc',
+      videoDuration: 300,
+      loops: [],
+      playbackSpeed: 1.25,
+      currentTime: 12
+    };
+
+    beforeEach(() => createService());
+
+    it('should create a session for a new video', () => {
+      const result = service.saveVideoSnapshot(snapshot);
+
+      expect(result.success).toBe(true);
+      expect(service.getByVideo('video-abc').length).toBe(1);
+      expect(service.getLatestForVideo('video-abc')!.globalPlaybackSpeed).toBe(1.25);
+    });
+
+    it('should update the same session on subsequent saves', () => {
+      service.saveVideoSnapshot(snapshot);
+      service.saveVideoSnapshot({ ...snapshot, currentTime: 99 });
+
+      const sessions = service.getByVideo('video-abc');
+      expect(sessions.length).toBe(1);
+      expect(sessions[0].currentTime).toBe(99);
+    });
+
+    it('should keep the groups of the video', () => {
+      const groups = [{ id: 'group-1', name: 'Set', loops: [], createdAt: new Date(), updatedAt: new Date() }];
+
+      service.saveVideoSnapshot({ ...snapshot, groups });
+      service.saveVideoSnapshot({ ...snapshot, currentTime: 99 });
+
+      expect(service.getLatestForVideo('video-abc')!.groups).toEqual(groups);
+    });
+
+    it('should target the requested session', () => {
+      service.save(looperSession({ id: 'first', updatedAt: new Date('2020-01-01') }));
+      service.save(looperSession({ id: 'second', updatedAt: new Date('2024-01-01') }));
+
+      service.saveVideoSnapshot({ ...snapshot, sessionId: 'first' });
+
+      expect(service.getById('first')!.currentTime).toBe(12);
+      expect(service.getById('second')!.currentTime).toBe(0);
+    });
+  });
+
+  describe('updateLoopReview', () => {
+    const review = { ease: 2.5, interval: 1, repetitions: 1, dueDate: '2024-03-11', lastReviewed: '2024-03-10' };
+    const loop = { id: 'loop-1', name: 'Intro', startTime: 0, endTime: 10, playbackSpeed: 1, playCount: 0, isActive: false };
+
+    beforeEach(() => createService());
+
+    it('should store the review of the loop and keep the rest of the session', () => {
+      service.save(looperSession({ loops: [loop], currentTime: 42 }));
+
+      expect(service.updateLoopReview('session-1', 'loop-1', review).success).toBe(true);
+
+      const stored = service.getById('session-1')!;
+      expect(stored.loops[0]!.review).toEqual(review);
+      expect(stored.currentTime).toBe(42);
+      expect(service.updateLoopReview('session-1', 'missing', review).success).toBe(false);
+    });
+
+    it('should keep the stored review when the player saves its copy of the loops', () => {
+      service.save(looperSession({ loops: [loop] }));
+      service.updateLoopReview('session-1', 'loop-1', review);
+
+      service.saveVideoSnapshot({
+        videoId: 'video-abc',
+        videoTitle: 'Legacy Video',
+        videoUrl: 'https://www.youtube.com/watch?v=video-abc',
+        videoDuration: 300,
+        loops: [{ ...loop, name: 'Intro renamed' }],
+        playbackSpeed: 1,
+        currentTime: 5,
+        sessionId: 'session-1'
+      });
+
+      const stored = service.getById('session-1')!;
+      expect(stored.loops[0]!.name).toBe('Intro renamed');
+      expect(stored.loops[0]!.review).toEqual(review);
+    });
+  });
+
+  describe('delete', () => {
+    it('should remove the session from the collection', () => {
+      createService();
+      service.save(looperSession());
+
+      service.delete('session-1');
+
+      expect(service.getById('session-1')).toBeNull();
+      expect(mockStorage.deleteSession).toHaveBeenCalledWith('session-1');
+    });
+  });
+});
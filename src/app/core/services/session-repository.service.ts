@@ -0,0 +1,395 @@
+import { Injectable, inject, signal, computed } from '@angular/core';
+import { LooperStorageService } from './looper-storage.service';
+import { SecureStorageService } from './storage.service';
+import { VideoSession } from './storage.types';
+import {
+  LooperSession,
+  SessionMetronome,
+  StorageMigrationState,
+  StorageOperationResult,
+  LOOPER_STORAGE_KEYS
+} from './looper-storage.types';
+import { LOOP_SCHEMA_VERSION, migrateLoops } from '../models/loop.migrations';
+import { LoopReviewSchedule, LoopSegment, Marker } from '@shared/interfaces';
+import { LoopGroup } from '../models/loop.model';
+
+// Player state to persist for a video, written by the video player
+export interface VideoSessionSnapshot {
+  videoId: string;
+  videoTitle: string | undefined;
+  videoUrl: string;
+  videoDuration: number;
+  loops: LoopSegment[];
+  playbackSpeed: number;
+  currentTime: number;
+  metronome?: SessionMetronome;
+  markers?: Marker[];
+  groups?: LoopGroup[];
+  sessionId?: string; // target session, defaults to the latest one for the video
+}
+
+/**
+ * Review schedules are written by the review queue only: the stored schedule
+ * of a loop wins over the possibly stale copy held by the player
+ */
+function withStoredReviews(loops: LoopSegment[], storedLoops: readonly LoopSegment[]): LoopSegment[] {
+  const reviews = new Map(storedLoops.map(loop => [loop.id, loop.review]));
+
+  return loops.map(loop => {
+    const review = reviews.get(loop.id);
+    return review ? { ...loop, review } : loop;
+  });
+}
+
+/**
+ * Convert a legacy player session (ng-youtube-looper-sessions) to a LooperSession
+ */
+export function videoSessionToLooperSession(session: VideoSession): LooperSession {
+  const title = session.videoTitle || '';
+  const converted: LooperSession = {
+    id: session.id,
+    name: title || `Session ${session.videoId}`,
+    videoId: session.videoId,
+    videoTitle: title,
+    videoUrl: session.videoUrl,
+    videoDuration: 0,
+    loops: migrateLoops(session.loops, session.schemaVersion),
+    globalPlaybackSpeed: session.playbackSpeed,
+    currentTime: session.currentTime,
+    isActive: false,
+    createdAt: new Date(session.createdAt),
+    updatedAt: new Date(session.updatedAt),
+    lastPlayed: new Date(session.lastPlayed),
+    totalPlayTime: session.totalPlayTime,
+    playCount: 0,
+    schemaVersion: LOOP_SCHEMA_VERSION
+  };
+
+  return converted;
+}
+
+/**
+ * Merge legacy player sessions into the session manager ones.
+ * The player auto-save wrote a new record every time, so all legacy records of a
+ * video collapse into a single session: the most recently updated existing session
+ * for that video when there is one, a new session otherwise. Loops are merged by id,
+ * the most recent record winning.
+ */
+export function mergeLegacySessions(existing: LooperSession[], legacy: VideoSession[]): LooperSession[] {
+  const merged = existing.map(session => ({ ...session, loops: [...session.loops] }));
+
+  const legacyByVideo = new Map<string, LooperSession[]>();
+  legacy
+    .map(session => videoSessionToLooperSession(session))
+    .sort((a, b) => a.updatedAt.getTime() - b.updatedAt.getTime())
+    .forEach(session => {
+      const group = legacyByVideo.get(session.videoId) || [];
+      group.push(session);
+      legacyByVideo.set(session.videoId, group);
+    });
+
+  legacyByVideo.forEach((records, videoId) => {
+    const latest = records[records.length - 1];
+    const target = latestSessionFor(merged, videoId);
+
+    const loopsById = new Map<string, LoopSegment>();
+    const baseLoops = target ? target.loops : [];
+    const legacyIsNewer = !target || latest.updatedAt.getTime() > new Date(target.updatedAt).getTime();
+
+    // The most recent side wins when the same loop exists in both stores
+    const ordered = legacyIsNewer
+      ? [baseLoops, ...records.map(record => record.loops)]
+      : [...records.map(record => record.loops), baseLoops];
+    ordered.forEach(loops => loops.forEach(loop => loopsById.set(loop.id, loop)));
+
+    if (target) {
+      const index = merged.indexOf(target);
+      merged[index] = {
+        ...target,
+        loops: Array.from(loopsById.values()),
+        ...(legacyIsNewer && {
+          globalPlaybackSpeed: latest.globalPlaybackSpeed,
+          currentTime: latest.currentTime,
+          updatedAt: latest.updatedAt
+        }),
+        totalPlayTime: target.totalPlayTime + records.reduce((sum, record) => sum + record.totalPlayTime, 0)
+      };
+    } else {
+      merged.push({
+        ...latest,
+        createdAt: records[0].createdAt,
+        loops: Array.from(loopsById.values()),
+        totalPlayTime: records.reduce((sum, record) => sum + record.totalPlayTime, 0)
+      });
+    }
+  });
+
+  return merged;
+}
+
+function latestSessionFor(sessions: LooperSession[], videoId: string): LooperSession | undefined {
+  return sessions
+    .filter(session => session.videoId === videoId)
+    .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())[0];
+}
+
+/**
+ * Single source of truth for practice sessions.
+ * Every reader and writer (session manager, video player) goes through this
+ * repository, which persists to yl_sessions via LooperStorageService.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SessionRepositoryService {
+  private readonly storage = inject(LooperStorageService);
+  private readonly secureStorage = inject(SecureStorageService);
+
+  private readonly _sessions = signal<LooperSession[]>([]);
+  private readonly _lastError = signal<string | null>(null);
+
+  readonly sessions = this._sessions.asReadonly();
+  readonly lastError = this._lastError.asReadonly();
+
+  readonly sessionCount = computed(() => this._sessions().length);
+
+  constructor() {
+    this.migrateLegacySessions();
+    this.refresh();
+  }
+
+  // === READ ===
+
+  /**
+   * Reload sessions from storage
+   */
+  refresh(): StorageOperationResult {
+    try {
+      const result = this.storage.loadSessions();
+      if (result?.success) {
+        this._sessions.set(result.data as LooperSession[]);
+        this._lastError.set(null);
+      }
+      return result;
+    } catch (error) {
+      const errorMsg = `Erreur de chargement des sessions: ${(error as Error).message}`;
+      this._lastError.set(errorMsg);
+      return { success: false, error: errorMsg };
+    }
+  }
+
+  /**
+   * Get a session by ID
+   */
+  getById(sessionId: string): LooperSession | null {
+    return this._sessions().find(session => session.id === sessionId) || null;
+  }
+
+  /**
+   * Get all sessions of a video
+   */
+  getByVideo(videoId: string): LooperSession[] {
+    return this._sessions().filter(session => session.videoId === videoId);
+  }
+
+  /**
+   * Get the most recently updated session of a video
+   */
+  getLatestForVideo(videoId: string): LooperSession | null {
+    return latestSessionFor(this._sessions(), videoId) || null;
+  }
+
+  // === WRITE ===
+
+  /**
+   * Create or replace a session
+   */
+  save(session: LooperSession): StorageOperationResult {
+    try {
+      const result = this.storage.saveSession(session);
+
+      if (result.success) {
+        const sessions = this._sessions();
+        const index = sessions.findIndex(s => s.id === session.id);
+        const updated = [...sessions];
+        if (index >= 0) {
+          updated[index] = session;
+        } else {
+          updated.push(session);
+        }
+        this._sessions.set(updated);
+        this._lastError.set(null);
+      } else {
+        this._lastError.set(result.error || 'Erreur lors de la sauvegarde');
+      }
+
+      return result;
+    } catch (error) {
+      const errorMsg = `Erreur de sauvegarde de session: ${(error as Error).message}`;
+      this._lastError.set(errorMsg);
+      return { success: false, error: errorMsg };
+    }
+  }
+
+  /**
+   * Store the review schedule of one loop, leaving the rest of the stored session
+   * as it is so that a concurrent snapshot of the player cannot be overwritten
+   */
+  updateLoopReview(sessionId: string, loopId: string, review: LoopReviewSchedule): StorageOperationResult {
+    const session = this.getById(sessionId);
+    if (!session?.loops.some(loop => loop.id === loopId)) {
+      return { success: false, error: 'Boucle introuvable' };
+    }
+
+    return this.save({
+      ...session,
+      loops: session.loops.map(loop => loop.id === loopId ? { ...loop, review } : loop),
+      updatedAt: new Date()
+    });
+  }
+
+  /**
+   * Replace the whole collection
+   */
+  saveAll(sessions: LooperSession[]): StorageOperationResult {
+    try {
+      const result = this.storage.saveSessions(sessions);
+
+      if (result.success) {
+        this._sessions.set([...sessions]);
+        this._lastError.set(null);
+      } else {
+        this._lastError.set(result.error || 'Erreur lors de la sauvegarde');
+      }
+
+      return result;
+    } catch (error) {
+      const errorMsg = `Erreur de sauvegarde des sessions: ${(error as Error).message}`;
+      this._lastError.set(errorMsg);
+      return { success: false, error: errorMsg };
+    }
+  }
+
+  /**
+   * Delete a session
+   */
+  delete(sessionId: string): StorageOperationResult {
+    try {
+      const result = this.storage.deleteSession(sessionId);
+
+      if (result.success) {
+        this._sessions.set(this._sessions().filter(session => session.id !== sessionId));
+        this._lastError.set(null);
+      } else {
+        this._lastError.set(result.error || 'Erreur lors de la suppression');
+      }
+
+      return result;
+    } catch (error) {
+      const errorMsg = `Erreur de suppression: ${(error as Error).message}`;
+      this._lastError.set(errorMsg);
+      return { success: false, error: errorMsg };
+    }
+  }
+
+  /**
+   * Persist the player state of a video into its session (created if needed)
+   */
+  saveVideoSnapshot(snapshot: VideoSessionSnapshot): StorageOperationResult {
+    const now = new Date();
+    const existing = (snapshot.sessionId && this.getById(snapshot.sessionId)) ||
+      this.getLatestForVideo(snapshot.videoId);
+
+    const session: LooperSession = existing && existing.videoId === snapshot.videoId
+      ? {
+          ...existing,
+          videoTitle: snapshot.videoTitle || existing.videoTitle,
+          videoDuration: snapshot.videoDuration || existing.videoDuration,
+          loops: withStoredReviews(snapshot.loops, existing.loops),
+          globalPlaybackSpeed: snapshot.playbackSpeed,
+          currentTime: snapshot.currentTime,
+          ...(snapshot.metronome && { metronome: snapshot.metronome }),
+          ...(snapshot.markers && { markers: snapshot.markers }),
+          ...(snapshot.groups && { groups: snapshot.groups }),
+          lastPlayed: now,
+          updatedAt: now,
+          schemaVersion: LOOP_SCHEMA_VERSION
+        }
+      : {
+          id: this.generateSessionId(),
+          name: snapshot.videoTitle || `Session ${snapshot.videoId}`,
+          videoId: snapshot.videoId,
+          videoTitle: snapshot.videoTitle || '',
+          videoUrl: snapshot.videoUrl,
+          videoDuration: snapshot.videoDuration,
+          loops: snapshot.loops,
+          globalPlaybackSpeed: snapshot.playbackSpeed,
+          currentTime: snapshot.currentTime,
+          isActive: false,
+          createdAt: now,
+          updatedAt: now,
+          lastPlayed: now,
+          totalPlayTime: 0,
+          playCount: 0,
+          ...(snapshot.metronome && { metronome: snapshot.metronome }),
+          ...(snapshot.markers && { markers: snapshot.markers }),
+          ...(snapshot.groups && { groups: snapshot.groups }),
+          schemaVersion: LOOP_SCHEMA_VERSION
+        };
+
+    const result = this.save(session);
+    return result.success ? { ...result, data: session } : result;
+  }
+
+  /**
+   * Forget in-memory sessions once storage has been wiped
+   */
+  reset(): void {
+    this._sessions.set([]);
+    this._lastError.set(null);
+  }
+
+  // === MIGRATION ===
+
+  /**
+   * One-time merge of the sessions saved by the video player
+   * (SecureStorageService, ng-youtube-looper-sessions) into yl_sessions
+   */
+  migrateLegacySessions(): StorageOperationResult {
+    try {
+      const state = this.secureStorage.loadData<StorageMigrationState>(LOOPER_STORAGE_KEYS.MIGRATIONS, {});
+      if (state.sessionsMergedAt) {
+        return { success: true, data: 0 };
+      }
+
+      const legacy = this.secureStorage.loadSessions();
+      if (legacy.length > 0) {
+        const current = this.storage.loadSessions();
+        const existing = current?.success ? current.data as LooperSession[] : [];
+        const result = this.storage.saveSessions(mergeLegacySessions(existing, legacy));
+
+        if (!result.success) {
+          this._lastError.set(result.error || 'Erreur de migration des sessions');
+          return result;
+        }
+
+        this.secureStorage.clearSessions();
+      }
+
+      this.secureStorage.saveData<StorageMigrationState>(LOOPER_STORAGE_KEYS.MIGRATIONS, {
+        ...state,
+        sessionsMergedAt: new Date().toISOString()
+      });
+
+      return { success: true, data: legacy.length };
+    } catch (error) {
+      const errorMsg = `Erreur de migration des sessions: ${(error as Error).message}`;
+      this._lastError.set(errorMsg);
+      return { success: false, error: errorMsg };
+    }
+  }
+
+  private generateSessionId(): string {
+    return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
@@ -0,0 +1,116 @@
+import { TestBed } from '@angular/core/testing';
+import { SpeedRampService } from './speed-ramp.service';
+import { LoopSpeedManagerService } from './loop-speed-manager.service';
+import { SpeedRampConfig } from '@shared/interfaces/loop.types';
+
+describe('SpeedRampService', () => {
+  let service: SpeedRampService;
+  let speedManager: LoopSpeedManagerService;
+
+  const config: SpeedRampConfig = {
+    startSpeed: 0.6,
+    targetSpeed: 0.7,
+    increment: 0.05,
+    repetitionsPerStep: 2
+  };
+
+  const playCleanRepetitions = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      service.recordRepetition();
+    }
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(SpeedRampService);
+    speedManager = TestBed.inject(LoopSpeedManagerService);
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('should start at the start speed', () => {
+    const speed = service.start('loop-1', config);
+
+    expect(speed).toBe(0.6);
+    expect(service.state()?.currentSpeed).toBe(0.6);
+    expect(speedManager.getLoopSpeed('loop-1')).toBe(0.6);
+  });
+
+  it('should step up after a block of clean repetitions', () => {
+    service.start('loop-1', config);
+
+    expect(service.recordRepetition()).toEqual({ speed: 0.6, speedChanged: false, isCompleted: false });
+    expect(service.recordRepetition()).toEqual({ speed: 0.65, speedChanged: true, isCompleted: false });
+    expect(service.state()?.cleanRepetitions).toBe(0);
+    expect(speedManager.getLoopSpeed('loop-1')).toBe(0.65);
+  });
+
+  it('should complete once the target speed block is played', () => {
+    service.start('loop-1', config);
+
+    playCleanRepetitions(4);
+    expect(service.state()?.currentSpeed).toBe(0.7);
+
+    service.recordRepetition();
+    const result = service.recordRepetition();
+
+    expect(result).toEqual({ speed: 0.7, speedChanged: false, isCompleted: true });
+    expect(service.progress()).toBe(100);
+  });
+
+  it('should cap the speed at the target', () => {
+    service.start('loop-1', { ...config, increment: 0.25 });
+
+    playCleanRepetitions(2);
+
+    expect(service.state()?.currentSpeed).toBe(0.7);
+  });
+
+  it('should start the block over after a missed repetition', () => {
+    service.start('loop-1', config);
+    service.recordRepetition();
+
+    service.markRepetitionMissed();
+    service.recordRepetition();
+
+    expect(service.state()?.currentSpeed).toBe(0.6);
+    expect(service.state()?.cleanRepetitions).toBe(1);
+  });
+
+  it('should resume from the last reached speed', () => {
+    speedManager.setLoopSpeed('loop-1', 0.65);
+
+    expect(service.start('loop-1', config)).toBe(0.65);
+  });
+
+  it('should ignore a saved speed outside of the ramp', () => {
+    speedManager.setLoopSpeed('loop-1', 1.5);
+
+    expect(service.start('loop-1', config)).toBe(0.6);
+  });
+
+  it('should restart from the start speed when asked', () => {
+    speedManager.setLoopSpeed('loop-1', 0.65);
+
+    expect(service.start('loop-1', config, true)).toBe(0.6);
+  });
+
+  it('should follow the standard speed steps without increment', () => {
+    service.start('loop-1', { startSpeed: 0.5, targetSpeed: 1, increment: 0, repetitionsPerStep: 1 });
+
+    service.recordRepetition();
+
+    expect(service.state()?.currentSpeed).toBe(0.75);
+  });
+
+  it('should do nothing when stopped', () => {
+    service.start('loop-1', config);
+    service.stop();
+
+    expect(service.recordRepetition()).toBeNull();
+    expect(service.isActive()).toBe(false);
+  });
+});
@@ -0,0 +1,154 @@
+import { Injectable, inject, signal, computed } from '@angular/core';
+import { ValidationService } from './validation.service';
+import { LoopSpeedManagerService } from './loop-speed-manager.service';
+import { SpeedRampConfig } from '@shared/interfaces/loop.types';
+
+// Progress of the speed trainer on the active loop
+export interface SpeedRampState {
+  loopId: string;
+  config: SpeedRampConfig;
+  currentSpeed: number;
+  cleanRepetitions: number; // clean repetitions played in the current step
+  isCompleted: boolean; // target speed reached and its step played
+}
+
+// Outcome of a recorded repetition
+export interface SpeedRampStepResult {
+  speed: number;
+  speedChanged: boolean;
+  isCompleted: boolean;
+}
+
+// Default trainer settings, e.g. for a lick practiced from 0.6x up to full tempo
+export const DEFAULT_SPEED_RAMP_CONFIG: SpeedRampConfig = {
+  startSpeed: 0.6,
+  targetSpeed: 1.0,
+  increment: 0.05,
+  repetitionsPerStep: 3
+};
+
+/**
+ * Progressive speed trainer.
+ *
+ * Counts clean repetitions of a loop and raises its playback speed by one step after
+ * each completed block, until the target speed is reached. The last reached speed is
+ * saved as the loop speed through LoopSpeedManagerService, so a session resumes where
+ * the previous one stopped.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SpeedRampService {
+  private readonly validationService = inject(ValidationService);
+  private readonly loopSpeedManager = inject(LoopSpeedManagerService);
+
+  private readonly _state = signal<SpeedRampState | null>(null);
+
+  readonly state = this._state.asReadonly();
+  readonly isActive = computed(() => this._state() !== null);
+
+  // Share of the way from start to target speed, between 0 and 100
+  readonly progress = computed(() => {
+    const state = this._state();
+    if (!state) return 0;
+
+    const { startSpeed, targetSpeed } = state.config;
+    if (targetSpeed <= startSpeed) return 100;
+    return Math.round(((state.currentSpeed - startSpeed) / (targetSpeed - startSpeed)) * 100);
+  });
+
+  /**
+   * Start the trainer on a loop and return the speed to play it at.
+   * Resumes from the last reached speed unless fromStart is set.
+   */
+  start(loopId: string, config: SpeedRampConfig, fromStart = false): number {
+    const sanitized = this.sanitizeConfig(config);
+    const lastReached = this.loopSpeedManager.speedMappings().get(loopId)?.playbackSpeed;
+    const canResume = !fromStart &&
+      lastReached !== undefined &&
+      lastReached >= sanitized.startSpeed &&
+      lastReached <= sanitized.targetSpeed;
+
+    const speed = canResume ? lastReached : sanitized.startSpeed;
+
+    this._state.set({
+      loopId,
+      config: sanitized,
+      currentSpeed: speed,
+      cleanRepetitions: 0,
+      isCompleted: false
+    });
+    this.loopSpeedManager.setLoopSpeed(loopId, speed);
+
+    return speed;
+  }
+
+  stop(): void {
+    this._state.set(null);
+  }
+
+  /**
+   * Record a clean repetition and step the speed up once the block is complete
+   */
+  recordRepetition(): SpeedRampStepResult | null {
+    const state = this._state();
+    if (!state) return null;
+
+    if (state.isCompleted) {
+      return { speed: state.currentSpeed, speedChanged: false, isCompleted: true };
+    }
+
+    const cleanRepetitions = state.cleanRepetitions + 1;
+    if (cleanRepetitions < state.config.repetitionsPerStep) {
+      this._state.set({ ...state, cleanRepetitions });
+      return { speed: state.currentSpeed, speedChanged: false, isCompleted: false };
+    }
+
+    if (state.currentSpeed >= state.config.targetSpeed) {
+      this._state.set({ ...state, cleanRepetitions, isCompleted: true });
+      return { speed: state.currentSpeed, speedChanged: false, isCompleted: true };
+    }
+
+    const speed = this.getNextSpeed(state.currentSpeed, state.config);
+    this._state.set({ ...state, currentSpeed: speed, cleanRepetitions: 0 });
+    this.loopSpeedManager.setLoopSpeed(state.loopId, speed);
+
+    return { speed, speedChanged: true, isCompleted: false };
+  }
+
+  /**
+   * The last repetition was not clean: the current step starts over
+   */
+  markRepetitionMissed(): void {
+    const state = this._state();
+    if (state && !state.isCompleted) {
+      this._state.set({ ...state, cleanRepetitions: 0 });
+    }
+  }
+
+  /**
+   * Next speed of the ramp, capped at the target
+   */
+  getNextSpeed(currentSpeed: number, config: SpeedRampConfig): number {
+    const next = config.increment > 0
+      ? Math.round((currentSpeed + config.increment) * 100) / 100
+      : this.validationService.getNextValidSpeed(currentSpeed, 'up') ?? config.targetSpeed;
+
+    return Math.min(next, config.targetSpeed);
+  }
+
+  private sanitizeConfig(config: SpeedRampConfig): SpeedRampConfig {
+    const clamp = (speed: number) => Math.min(
+      this.validationService.MAX_PLAYBACK_SPEED,
+      Math.max(this.validationService.MIN_PLAYBACK_SPEED, speed)
+    );
+
+    const startSpeed = clamp(config.startSpeed);
+    return {
+      startSpeed,
+      targetSpeed: Math.max(startSpeed, clamp(config.targetSpeed)),
+      increment: config.increment > 0 ? config.increment : 0,
+      repetitionsPerStep: Math.max(1, Math.floor(config.repetitionsPerStep) || 1)
+    };
+  }
+}
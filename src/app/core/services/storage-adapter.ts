@@ -0,0 +1,117 @@
+import { InjectionToken } from '@angular/core';
+import { IndexedDbStorageAdapter } from './indexed-db-storage.adapter';
+
+// Kind of persistence behind an adapter
+export type StorageAdapterKind = 'localStorage' | 'indexedDB' | 'memory';
+
+/**
+ * Asynchronous key/value persistence used by StorageBackendService.
+ * Values are already serialized strings: sanitization and validation stay in
+ * SecureStorageService whatever the backend.
+ */
+export interface StorageAdapter {
+  readonly kind: StorageAdapterKind;
+  readonly maxSize: number | null; // applicative size limit in bytes, null when the browser quota applies
+  isAvailable(): Promise<boolean>;
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+/**
+ * localStorage implementation (historical behaviour, 5MB limit)
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly kind = 'localStorage' as const;
+  readonly maxSize = 5 * 1024 * 1024;
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const testKey = '__storage_adapter_test__';
+      localStorage.setItem(testKey, 'test');
+      localStorage.removeItem(testKey);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return localStorage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    localStorage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    localStorage.removeItem(key);
+  }
+
+  async keys(): Promise<string[]> {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key !== null) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+}
+
+/**
+ * In-memory implementation, meant to be provided in tests
+ */
+export class InMemoryStorageAdapter implements StorageAdapter {
+  readonly kind = 'memory' as const;
+  readonly maxSize = null;
+
+  private readonly store = new Map<string, string>();
+
+  constructor(initialData: Record<string, string> = {}, private readonly available = true) {
+    Object.entries(initialData).forEach(([key, value]) => this.store.set(key, value));
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.available;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.store.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.store.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return Array.from(this.store.keys());
+  }
+
+  /**
+   * Synchronous view of the stored data, for assertions
+   */
+  snapshot(): Record<string, string> {
+    return Object.fromEntries(this.store);
+  }
+}
+
+/**
+ * IndexedDB when the browser supports it, localStorage otherwise
+ */
+export function createDefaultStorageAdapter(): StorageAdapter {
+  return typeof indexedDB !== 'undefined'
+    ? new IndexedDbStorageAdapter()
+    : new LocalStorageAdapter();
+}
+
+export const STORAGE_ADAPTER = new InjectionToken<StorageAdapter>('STORAGE_ADAPTER', {
+  providedIn: 'root',
+  factory: createDefaultStorageAdapter
+});
@@ -0,0 +1,123 @@
+import { TestBed } from '@angular/core/testing';
+import { StorageBackendService } from './storage-backend.service';
+import { STORAGE_ADAPTER, InMemoryStorageAdapter } from './storage-adapter';
+
+describe('StorageBackendService', () => {
+  let service: StorageBackendService;
+  let adapter: InMemoryStorageAdapter;
+
+  const createService = (memoryAdapter: InMemoryStorageAdapter) => {
+    adapter = memoryAdapter;
+    TestBed.configureTestingModule({
+      providers: [
+        StorageBackendService,
+        { provide: STORAGE_ADAPTER, useValue: adapter }
+      ]
+    });
+    service = TestBed.inject(StorageBackendService);
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('should only handle looper keys', () => {
+    createService(new InMemoryStorageAdapter());
+
+    expect(service.handles('yl_sessions')).toBe(true);
+    expect(service.handles('ng-youtube-looper-settings')).toBe(false);
+  });
+
+  it('should use localStorage until initialized', () => {
+    createService(new InMemoryStorageAdapter());
+
+    service.write('yl_settings', '{"theme":"dark"}');
+
+    expect(localStorage.getItem('yl_settings')).toBe('{"theme":"dark"}');
+    expect(service.ready()).toBe(false);
+  });
+
+  describe('initialize', () => {
+    it('should load adapter data in memory', async () => {
+      createService(new InMemoryStorageAdapter({ yl_sessions: '[]' }));
+
+      await service.initialize();
+
+      expect(service.kind()).toBe('memory');
+      expect(service.read('yl_sessions')).toBe('[]');
+      expect(service.maxSize).toBeNull();
+    });
+
+    it('should move looper keys out of localStorage', async () => {
+      localStorage.setItem('yl_sessions', '[{"id":"s1"}]');
+      localStorage.setItem('other_key', 'kept');
+      createService(new InMemoryStorageAdapter({ yl_sessions: '[]' }));
+
+      await service.initialize();
+
+      expect(adapter.snapshot()['yl_sessions']).toBe('[{"id":"s1"}]');
+      expect(service.read('yl_sessions')).toBe('[{"id":"s1"}]');
+      expect(localStorage.getItem('yl_sessions')).toBeNull();
+      expect(localStorage.getItem('other_key')).toBe('kept');
+    });
+
+    it('should fall back to localStorage when the adapter is unavailable', async () => {
+      localStorage.setItem('yl_sessions', '[]');
+      createService(new InMemoryStorageAdapter({}, false));
+
+      await service.initialize();
+
+      expect(service.kind()).toBe('localStorage');
+      expect(service.lastError()).toContain('memory');
+      expect(service.read('yl_sessions')).toBe('[]');
+      expect(localStorage.getItem('yl_sessions')).toBe('[]');
+    });
+  });
+
+  describe('writes', () => {
+    beforeEach(async () => {
+      createService(new InMemoryStorageAdapter());
+      await service.initialize();
+    });
+
+    it('should serve writes from memory and persist them on flush', async () => {
+      service.write('yl_settings', '{}');
+
+      expect(service.read('yl_settings')).toBe('{}');
+
+      await service.flush();
+
+      expect(adapter.snapshot()['yl_settings']).toBe('{}');
+      expect(localStorage.getItem('yl_settings')).toBeNull();
+    });
+
+    it('should remove keys from the adapter', async () => {
+      service.write('yl_settings', '{}');
+      service.remove('yl_settings');
+      await service.flush();
+
+      expect(service.read('yl_settings')).toBeNull();
+      expect(adapter.snapshot()['yl_settings']).toBeUndefined();
+    });
+
+    it('should report usage of the adapter data', () => {
+      service.write('yl_a', '12345');
+
+      expect(service.getUsage()).toBe('yl_a'.length + 5);
+    });
+
+    it('should record failed writes', async () => {
+      spyOn(adapter, 'setItem').and.returnValue(Promise.reject(new Error('QuotaExceeded')));
+      spyOn(console, 'error');
+
+      service.write('yl_settings', '{}');
+      await service.flush();
+
+      expect(service.lastError()).toContain('QuotaExceeded');
+    });
+  });
+});
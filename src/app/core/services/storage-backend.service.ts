@@ -0,0 +1,200 @@
+import { Injectable, inject, signal } from '@angular/core';
+import {
+  STORAGE_ADAPTER,
+  StorageAdapter,
+  StorageAdapterKind,
+  LocalStorageAdapter
+} from './storage-adapter';
+
+// Keys persisted through the adapter (looper data); other keys stay in localStorage
+export const STORAGE_BACKEND_KEY_PREFIX = 'yl_';
+
+/**
+ * Synchronous facade over an asynchronous StorageAdapter.
+ *
+ * Looper data (yl_* keys) is loaded into memory once by `initialize()` (run as an
+ * app initializer), then reads are served from memory and writes are persisted in
+ * order in the background. Until initialized, and when the configured adapter is
+ * unavailable, everything goes to localStorage as before.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class StorageBackendService {
+  private readonly configuredAdapter = inject(STORAGE_ADAPTER);
+  private adapter: StorageAdapter = this.configuredAdapter;
+
+  private readonly cache = new Map<string, string>();
+  private initialization: Promise<void> | null = null;
+  private pendingWrites: Promise<void> = Promise.resolve();
+
+  private readonly _kind = signal<StorageAdapterKind>('localStorage');
+  private readonly _ready = signal(false);
+  private readonly _lastError = signal<string | null>(null);
+
+  readonly kind = this._kind.asReadonly();
+  readonly ready = this._ready.asReadonly();
+  readonly lastError = this._lastError.asReadonly();
+
+  /**
+   * Whether a key is persisted through the adapter
+   */
+  handles(key: string): boolean {
+    return key.startsWith(STORAGE_BACKEND_KEY_PREFIX);
+  }
+
+  /**
+   * Applicative size limit of the active backend, null when only the browser quota applies
+   */
+  get maxSize(): number | null {
+    return this.isDirect() ? new LocalStorageAdapter().maxSize : this.adapter.maxSize;
+  }
+
+  /**
+   * Select the adapter, migrate yl_* keys out of localStorage and load them in memory
+   */
+  initialize(): Promise<void> {
+    if (!this.initialization) {
+      this.initialization = this.runInitialization();
+    }
+    return this.initialization;
+  }
+
+  read(key: string): string | null {
+    if (this.isDirect()) {
+      return localStorage.getItem(key);
+    }
+    return this.cache.get(key) ?? null;
+  }
+
+  write(key: string, value: string): void {
+    if (this.isDirect()) {
+      // Synchronous so that quota errors reach the caller
+      localStorage.setItem(key, value);
+      return;
+    }
+
+    this.cache.set(key, value);
+    this.enqueue(`écriture de ${key}`, () => this.adapter.setItem(key, value));
+  }
+
+  remove(key: string): void {
+    if (this.isDirect()) {
+      localStorage.removeItem(key);
+      return;
+    }
+
+    this.cache.delete(key);
+    this.enqueue(`suppression de ${key}`, () => this.adapter.removeItem(key));
+  }
+
+  /**
+   * Remove every key held by the adapter
+   */
+  clear(): void {
+    if (this.isDirect()) {
+      return; // cleared along with localStorage
+    }
+
+    Array.from(this.cache.keys()).forEach(key => this.remove(key));
+  }
+
+  /**
+   * Size in bytes of the data held by the adapter
+   */
+  getUsage(): number {
+    if (this.isDirect()) {
+      return 0; // already counted with the rest of localStorage
+    }
+
+    let total = 0;
+    this.cache.forEach((value, key) => {
+      total += key.length + value.length;
+    });
+    return total;
+  }
+
+  /**
+   * Resolve once every pending write has been persisted
+   */
+  flush(): Promise<void> {
+    return this.pendingWrites;
+  }
+
+  private isDirect(): boolean {
+    return !this._ready() || this.adapter.kind === 'localStorage';
+  }
+
+  private async runInitialization(): Promise<void> {
+    try {
+      if (!(await this.adapter.isAvailable())) {
+        this.fallbackToLocalStorage(`${this.adapter.kind} indisponible`);
+        return;
+      }
+
+      if (this.adapter.kind !== 'localStorage') {
+        const migratedKeys = await this.migrateFromLocalStorage();
+        await this.hydrate();
+
+        // Only drop the localStorage copies once the adapter holds them
+        migratedKeys.forEach(key => localStorage.removeItem(key));
+      }
+    } catch (error) {
+      this.cache.clear();
+      this.fallbackToLocalStorage(`Initialisation impossible: ${(error as Error).message}`);
+    } finally {
+      this._kind.set(this.adapter.kind);
+      this._ready.set(true);
+    }
+  }
+
+  /**
+   * Move yl_* keys written in localStorage (previous versions, or a previous
+   * fallback) into the adapter. localStorage values are the most recent ones.
+   */
+  private async migrateFromLocalStorage(): Promise<string[]> {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key !== null && this.handles(key)) {
+        keys.push(key);
+      }
+    }
+
+    for (const key of keys) {
+      const value = localStorage.getItem(key);
+      if (value !== null) {
+        await this.adapter.setItem(key, value);
+      }
+    }
+
+    return keys;
+  }
+
+  private async hydrate(): Promise<void> {
+    const keys = (await this.adapter.keys()).filter(key => this.handles(key));
+
+    for (const key of keys) {
+      const value = await this.adapter.getItem(key);
+      if (value !== null) {
+        this.cache.set(key, value);
+      }
+    }
+  }
+
+  private fallbackToLocalStorage(reason: string): void {
+    console.warn(`Stockage: repli sur localStorage (${reason})`);
+    this._lastError.set(reason);
+    this.adapter = new LocalStorageAdapter();
+  }
+
+  private enqueue(label: string, operation: () => Promise<void>): void {
+    this.pendingWrites = this.pendingWrites
+      .then(operation)
+      .catch(error => {
+        const message = `Échec de ${label}: ${(error as Error).message}`;
+        console.error(message);
+        this._lastError.set(message);
+      });
+  }
+}
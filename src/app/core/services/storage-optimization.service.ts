@@ -4,6 +4,7 @@ import {
   CompressedSessionData, 
   SessionMetadata
 } from './looper-storage.types';
+import { migrateLoops } from '../models/loop.migrations';
 
 export interface CompressionStats {
   originalSize: number;
@@ -124,6 +125,15 @@ export class StorageOptimizationService {
       if (session.description) {
         minified.de = session.description;
       }
+      if (session.metronome) {
+        minified.mt = session.metronome;
+      }
+      if (session.markers && session.markers.length > 0) {
+        minified.mk = session.markers;
+      }
+      if (session.groups && session.groups.length > 0) {
+        minified.gr = session.groups;
+      }
 
       return minified;
     });
@@ -142,7 +152,18 @@ export class StorageOptimizationService {
       pc: loop.playCount || 0, // playCount
       a: loop.isActive || false, // active
       c: loop.color,        // color (optional)
-      r: loop.repetitions   // repetitions (optional)
+      r: loop.repeatCount,  // repeatCount (optional)
+      ca: loop.completionAction, // completionAction (optional)
+      ct: loop.completionTargetId, // completionTargetId (optional)
+      sr: loop.speedRamp,   // speedRamp (optional)
+      pr: loop.preRoll,     // preRoll (optional)
+      ci: loop.countIn,     // countIn (optional)
+      rg: loop.restGap,     // restGap (optional)
+      fd: loop.fadeInOut,   // fadeInOut (optional)
+      pl: loop.parentLoopId, // parentLoopId (optional)
+      rv: loop.review,      // review schedule (optional)
+      cr: loop.createdAt ? new Date(loop.createdAt).getTime() : undefined, // created (optional)
+      up: loop.updatedAt ? new Date(loop.updatedAt).getTime() : undefined  // updated (optional)
     }));
   }
 
@@ -178,6 +199,15 @@ export class StorageOptimizationService {
       if (min.de) {
         session.description = min.de;
       }
+      if (min.mt) {
+        session.metronome = min.mt;
+      }
+      if (min.mk) {
+        session.markers = min.mk;
+      }
+      if (min.gr) {
+        session.groups = min.gr;
+      }
 
       return session;
     });
@@ -187,7 +217,7 @@ export class StorageOptimizationService {
    * Reconstruit les boucles depuis les données minifiées
    */
   private expandMinifiedLoops(minifiedLoops: any[]): any[] {
-    return minifiedLoops.map(min => ({
+    return migrateLoops(minifiedLoops.map(min => ({
       id: min.i,
       name: min.n,
       startTime: min.s,
@@ -196,10 +226,19 @@ export class StorageOptimizationService {
       playCount: min.pc || 0,
       isActive: min.a || false,
       color: min.c,
-      repetitions: min.r,
-      createdAt: new Date(),
-      updatedAt: new Date()
-    }));
+      repeatCount: min.r,
+      completionAction: min.ca,
+      completionTargetId: min.ct,
+      speedRamp: min.sr,
+      preRoll: min.pr,
+      countIn: min.ci,
+      restGap: min.rg,
+      fadeInOut: min.fd,
+      parentLoopId: min.pl,
+      review: min.rv,
+      createdAt: min.cr,
+      updatedAt: min.up
+    })));
   }
 
   // === CACHING SYSTEM ===
@@ -1,10 +1,14 @@
-import { Injectable } from '@angular/core';
+import { Injectable, inject } from '@angular/core';
 import { VideoSession, AppSettings, DEFAULT_APP_SETTINGS, HistoryEntry, StorageError } from './storage.types';
+import { LOOP_SCHEMA_VERSION, migrateLoops, toSessionLoop } from '../models/loop.migrations';
+import { StorageBackendService } from './storage-backend.service';
 
 @Injectable({
   providedIn: 'root'
 })
 export class SecureStorageService {
+  private readonly backend = inject(StorageBackendService);
+
   private readonly MAX_STORAGE_SIZE = 5 * 1024 * 1024; // 5MB
   private readonly MAX_SINGLE_ITEM_SIZE = 1024 * 1024; // 1MB per item
   private readonly MAX_HISTORY_ENTRIES = 100; // Maximum history entries
@@ -185,14 +189,21 @@ export class SecureStorageService {
       }
 
       const sanitizedData = this.sanitizeData(data);
+      const usesBackend = this.backend.handles(key);
       
-      if (!this.validateSizeLimit(sanitizedData)) {
+      // IndexedDB is only bounded by the browser quota
+      const isSizeLimited = !usesBackend || this.backend.maxSize !== null;
+      if (isSizeLimited && !this.validateSizeLimit(sanitizedData)) {
         this.handleStorageError('QUOTA_EXCEEDED', 'Data exceeds storage size limits');
         return false;
       }
 
       const serialized = this.serializeData(sanitizedData);
-      localStorage.setItem(key, serialized);
+      if (usesBackend) {
+        this.backend.write(key, serialized);
+      } else {
+        localStorage.setItem(key, serialized);
+      }
       
       return true;
     } catch (error) {
@@ -215,7 +226,7 @@ export class SecureStorageService {
         return defaultValue;
       }
 
-      const item = localStorage.getItem(key);
+      const item = this.backend.handles(key) ? this.backend.read(key) : localStorage.getItem(key);
       if (!item) {
         return defaultValue;
       }
@@ -238,7 +249,11 @@ export class SecureStorageService {
         return false;
       }
       
-      localStorage.removeItem(key);
+      if (this.backend.handles(key)) {
+        this.backend.remove(key);
+      } else {
+        localStorage.removeItem(key);
+      }
       return true;
     } catch (error) {
       console.error('Storage removal error:', error);
@@ -256,6 +271,7 @@ export class SecureStorageService {
       }
       
       localStorage.clear();
+      this.backend.clear();
       return true;
     } catch (error) {
       console.error('Storage clear error:', error);
@@ -282,7 +298,9 @@ export class SecureStorageService {
       currentSize,
       maxSize: this.MAX_STORAGE_SIZE,
       utilizationPercentage: (currentSize / this.MAX_STORAGE_SIZE) * 100,
-      remainingSize: this.MAX_STORAGE_SIZE - currentSize
+      remainingSize: this.MAX_STORAGE_SIZE - currentSize,
+      backend: this.backend.kind(),
+      backendSize: this.backend.getUsage()
     };
   }
 
@@ -976,33 +994,17 @@ export class SecureStorageService {
       videoId: String(session.videoId).trim(),
       videoTitle: session.videoTitle ? String(session.videoTitle).trim() : undefined,
       videoUrl: String(session.videoUrl).trim(),
-      loops: Array.isArray(session.loops) ? session.loops.filter(loop => this.isValidLoop(loop)) : [],
+      loops: migrateLoops(session.loops, session.schemaVersion).map(toSessionLoop),
       playbackSpeed: Math.max(0.25, Math.min(3.0, Number(session.playbackSpeed) || 1.0)),
       currentTime: Math.max(0, Number(session.currentTime) || 0),
       lastPlayed: new Date(session.lastPlayed),
       totalPlayTime: Math.max(0, Number(session.totalPlayTime) || 0),
       createdAt: new Date(session.createdAt),
-      updatedAt: new Date()
+      updatedAt: new Date(),
+      schemaVersion: LOOP_SCHEMA_VERSION
     };
   }
 
-  /**
-   * Check if a loop object is valid
-   */
-  private isValidLoop(loop: any): boolean {
-    return loop &&
-           typeof loop === 'object' &&
-           typeof loop.id === 'string' &&
-           loop.id.length > 0 &&
-           typeof loop.startTime === 'number' &&
-           loop.startTime >= 0 &&
-           typeof loop.endTime === 'number' &&
-           loop.endTime > loop.startTime &&
-           typeof loop.playCount === 'number' &&
-           loop.playCount >= 0 &&
-           typeof loop.isActive === 'boolean';
-  }
-
 
   /**
    * Sanitize and validate settings object
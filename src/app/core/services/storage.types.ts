@@ -1,4 +1,5 @@
 // Types and interfaces for storage operations
+import type { CountInConfig, FadeInOutConfig, LoopCompletionAction, LoopReviewSchedule, RestGapConfig, SpeedRampConfig } from '@shared/interfaces/loop.types';
 
 export interface VideoSession {
   id: string;
@@ -12,8 +13,10 @@ export interface VideoSession {
   totalPlayTime: number;
   createdAt: Date;
   updatedAt: Date;
+  schemaVersion?: number; // loop schema version, see LOOP_SCHEMA_VERSION
 }
 
+// Persisted form of the canonical LoopSegment: optional fields keep older sessions readable
 export interface SessionLoop {
   id: string;
   name: string | undefined;
@@ -22,6 +25,19 @@ export interface SessionLoop {
   color: string | undefined;
   playCount: number;
   isActive: boolean;
+  playbackSpeed?: number;
+  repeatCount?: number;
+  completionAction?: LoopCompletionAction;
+  completionTargetId?: string;
+  speedRamp?: SpeedRampConfig;
+  preRoll?: number;
+  countIn?: CountInConfig;
+  restGap?: RestGapConfig;
+  fadeInOut?: FadeInOutConfig;
+  parentLoopId?: string;
+  review?: LoopReviewSchedule;
+  createdAt?: Date;
+  updatedAt?: Date;
 }
 
 export interface AppSettings {
@@ -1,57 +1,39 @@
 import { Injectable, signal, inject, PLATFORM_ID } from '@angular/core';
 import { isPlatformBrowser } from '@angular/common';
+import { PlayerBackend, VideoInfo } from './player-backend';
+import { PLAYER_PORT_FACTORY } from './player-port';
+import { PlayerStateMachine, statusFromYouTubeState } from './player-state-machine';
+import { PlayerError, PlayerPort, PlayerState as YouTubePlayerState } from '../types/youtube-api.types';
 
-interface YouTubeWindow extends Window {
-  YT?: any;
-  onYouTubeIframeAPIReady?: () => void;
-}
-
-declare let window: YouTubeWindow;
-
-export interface VideoInfo {
-  id: string;
-  videoId: string;
-  title: string;
-  duration: number;
-  author: string;
-  thumbnail: string;
-  url?: string;
-}
-
-export interface PlayerState {
-  isReady: boolean;
-  isPlaying: boolean;
-  currentTime: number;
-  duration: number;
-  playbackRate: number;
-  volume: number;
-  error: string | null;
-}
+// Types communs aux players, réexportés pour les imports existants
+export type { VideoInfo, PlayerState } from './player-backend';
 
 @Injectable({
   providedIn: 'root'
 })
-export class YouTubeService {
+export class YouTubeService implements PlayerBackend {
+  readonly kind = 'youtube' as const;
   private platformId = inject(PLATFORM_ID);
-  private player: any = null;
-  private apiLoaded = signal(false);
+  // API IFrame, ou FakePlayer dans les tests et le mode démo
+  private playerFactory = inject(PLAYER_PORT_FACTORY);
+  private player: PlayerPort | null = null;
+  // onReady reçu : le statut repasse par 'unstarted' à chaque chargement de vidéo
+  private playerReady = false;
   
-  // Signals pour l'état du player
-  readonly playerState = signal<PlayerState>({
-    isReady: false,
-    isPlaying: false,
-    currentTime: 0,
-    duration: 0,
-    playbackRate: 1,
-    volume: 100,
-    error: null
-  });
+  // État du player, ne change que par des transitions valides
+  private readonly machine = new PlayerStateMachine();
+  readonly playerState = this.machine.state;
 
   readonly currentVideo = signal<VideoInfo | null>(null);
 
+  // Player simulé, sans réseau
+  readonly isDemo = this.playerFactory.isFake;
+
   constructor() {
     if (isPlatformBrowser(this.platformId)) {
-      this.loadYouTubeAPI();
+      this.loadYouTubeAPI().catch(() => {
+        // L'erreur est reportée dans l'état du player
+      });
     }
   }
 
@@ -59,49 +41,12 @@ export class YouTubeService {
    * Charge l'API YouTube IFrame de manière asynchrone
    */
   private async loadYouTubeAPI(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      // Vérifier si l'API est déjà chargée
-      if (window.YT && window.YT.Player) {
-        this.apiLoaded.set(true);
-        resolve();
-        return;
-      }
-
-      // Vérifier si le script est déjà en cours de chargement
-      if (document.getElementById('youtube-api-script')) {
-        // Attendre que l'API soit prête
-        const checkAPI = () => {
-          if (window.YT && window.YT.Player) {
-            this.apiLoaded.set(true);
-            resolve();
-          } else {
-            setTimeout(checkAPI, 100);
-          }
-        };
-        checkAPI();
-        return;
-      }
-
-      // Callback global pour l'API YouTube
-      window.onYouTubeIframeAPIReady = () => {
-        this.apiLoaded.set(true);
-        resolve();
-      };
-
-      // Charger le script de l'API
-      const script = document.createElement('script');
-      script.id = 'youtube-api-script';
-      script.src = 'https://www.youtube.com/iframe_api';
-      script.async = true;
-      script.defer = true;
-      
-      script.onerror = () => {
-        this.updatePlayerState({ error: 'Erreur lors du chargement de l\'API YouTube' });
-        reject(new Error('Failed to load YouTube API'));
-      };
-
-      document.head.appendChild(script);
-    });
+    try {
+      await this.playerFactory.load();
+    } catch (error) {
+      this.machine.fail('Erreur lors du chargement de l\'API YouTube');
+      throw error;
+    }
   }
 
   /**
@@ -117,38 +62,21 @@ export class YouTubeService {
 
     return new Promise((resolve, reject) => {
       try {
-        this.player = new window.YT.Player(elementId, {
-          height: '360',
-          width: '640',
-          videoId: videoId,
-          playerVars: {
-            autoplay: 0,
-            controls: 1,
-            disablekb: 0,
-            enablejsapi: 1,
-            fs: 1,
-            iv_load_policy: 3,
-            modestbranding: 1,
-            origin: window.location.origin,
-            playsinline: 1,
-            rel: 0
+        this.player = this.playerFactory.create(elementId, videoId, {
+          onReady: () => {
+            this.onPlayerReady();
+            resolve();
+          },
+          onStateChange: state => {
+            this.onPlayerStateChange(state);
           },
-          events: {
-            onReady: (event: any) => {
-              this.onPlayerReady(event);
-              resolve();
-            },
-            onStateChange: (event: any) => {
-              this.onPlayerStateChange(event);
-            },
-            onError: (event: any) => {
-              this.onPlayerError(event);
-              reject(new Error(`YouTube player error: ${event.data}`));
-            }
+          onError: error => {
+            this.onPlayerError(error);
+            reject(new Error(`YouTube player error: ${error}`));
           }
         });
       } catch (error) {
-        this.updatePlayerState({ error: 'Erreur lors de l\'initialisation du player' });
+        this.machine.fail('Erreur lors de l\'initialisation du player');
         reject(error);
       }
     });
@@ -186,7 +114,7 @@ export class YouTubeService {
    * Récupère les informations d'une vidéo
    */
   async getVideoInfo(videoId: string): Promise<VideoInfo | null> {
-    if (!this.player || !this.playerState().isReady) {
+    if (!this.player || !this.playerReady) {
       return null;
     }
 
@@ -212,17 +140,18 @@ export class YouTubeService {
    * Charge une nouvelle vidéo
    */
   async loadVideo(videoId: string): Promise<void> {
-    if (!this.player) {
+    const player = this.player;
+    if (!player) {
       throw new Error('Player not initialized');
     }
 
     try {
-      this.player.loadVideoById(videoId);
+      player.loadVideoById(videoId);
       
       // Attendre que la vidéo soit chargée
       await new Promise<void>((resolve) => {
         const checkLoaded = () => {
-          if (this.player.getDuration() > 0) {
+          if (player.getDuration() > 0) {
             resolve();
           } else {
             setTimeout(checkLoaded, 100);
@@ -236,7 +165,7 @@ export class YouTubeService {
       this.currentVideo.set(videoInfo);
       
     } catch (error) {
-      this.updatePlayerState({ error: 'Erreur lors du chargement de la vidéo' });
+      this.machine.fail('Erreur lors du chargement de la vidéo');
       throw error;
     }
   }
@@ -271,14 +200,14 @@ export class YouTubeService {
   setPlaybackRate(rate: number): void {
     if (this.player) {
       this.player.setPlaybackRate(rate);
-      this.updatePlayerState({ playbackRate: rate });
+      this.machine.update({ playbackRate: rate });
     }
   }
 
   setVolume(volume: number): void {
     if (this.player) {
       this.player.setVolume(Math.max(0, Math.min(100, volume)));
-      this.updatePlayerState({ volume });
+      this.machine.update({ volume });
     }
   }
 
@@ -304,40 +233,31 @@ export class YouTubeService {
   /**
    * Callbacks des événements YouTube
    */
-  private onPlayerReady(_event: any): void {
-    this.updatePlayerState({
-      isReady: true,
-      duration: this.player.getDuration(),
-      volume: this.player.getVolume(),
-      playbackRate: this.player.getPlaybackRate(),
-      error: null
-    });
-  }
+  private onPlayerReady(): void {
+    this.playerReady = true;
+    const measurements = {
+      duration: this.getDuration(),
+      volume: this.getVolume(),
+      playbackRate: this.getPlaybackRate()
+    };
 
-  private onPlayerStateChange(event: any): void {
-    const YT = window.YT;
-    let isPlaying = false;
-
-    switch (event.data) {
-      case YT.PlayerState.PLAYING:
-        isPlaying = true;
-        break;
-      case YT.PlayerState.PAUSED:
-      case YT.PlayerState.ENDED:
-      case YT.PlayerState.BUFFERING:
-      case YT.PlayerState.CUED:
-        isPlaying = false;
-        break;
+    // La vidéo peut déjà avoir changé d'état avant que le player soit prêt
+    const status = this.machine.status();
+    if (status === 'unstarted' || status === 'error') {
+      this.machine.transition('cued', measurements);
+    } else {
+      this.machine.update(measurements);
     }
+  }
 
-    this.updatePlayerState({
-      isPlaying,
+  private onPlayerStateChange(state: YouTubePlayerState): void {
+    this.machine.transition(statusFromYouTubeState(state), {
       currentTime: this.getCurrentTime(),
-      error: null
+      duration: this.getDuration()
     });
   }
 
-  private onPlayerError(event: any): void {
+  private onPlayerError(error: PlayerError): void {
     const errorMessages: { [key: number]: string } = {
       2: 'ID vidéo invalide',
       5: 'Erreur de lecture HTML5',
@@ -346,19 +266,9 @@ export class YouTubeService {
       150: 'Lecture non autorisée par le propriétaire'
     };
 
-    const errorMessage = errorMessages[event.data] || `Erreur inconnue (${event.data})`;
+    const errorMessage = errorMessages[error] || `Erreur inconnue (${error})`;
     
-    this.updatePlayerState({
-      error: errorMessage,
-      isPlaying: false
-    });
-  }
-
-  /**
-   * Met à jour l'état du player
-   */
-  private updatePlayerState(updates: Partial<PlayerState>): void {
-    this.playerState.update(current => ({ ...current, ...updates }));
+    this.machine.fail(errorMessage);
   }
 
   /**
@@ -369,16 +279,9 @@ export class YouTubeService {
       this.player.destroy();
       this.player = null;
     }
+    this.playerReady = false;
     
-    this.playerState.set({
-      isReady: false,
-      isPlaying: false,
-      currentTime: 0,
-      duration: 0,
-      playbackRate: 1,
-      volume: 100,
-      error: null
-    });
+    this.machine.reset();
     
     this.currentVideo.set(null);
   }
@@ -170,6 +170,51 @@ export interface YouTubePlayer {
   removeEventListener(event: string, listener: (event: any) => void): void;
 }
 
+/**
+ * Sous-ensemble du player IFrame dont l'application a besoin.
+ * YouTubePlayer le satisfait, FakePlayer l'implémente pour les tests et le mode démo.
+ */
+export interface PlayerPort {
+  playVideo(): void;
+  pauseVideo(): void;
+  stopVideo(): void;
+  seekTo(seconds: number, allowSeekAhead?: boolean): void;
+  loadVideoById(videoId: string, startSeconds?: number): void;
+  setPlaybackRate(suggestedRate: number): void;
+  getPlaybackRate(): number;
+  setVolume(volume: number): void;
+  getVolume(): number;
+  getDuration(): number;
+  getCurrentTime(): number;
+  getPlayerState(): PlayerState;
+  getVideoData(): {
+    video_id: string;
+    title: string;
+    author: string;
+  };
+  destroy(): void;
+}
+
+/**
+ * Événements d'un PlayerPort, sans l'objet événement de l'API IFrame
+ */
+export interface PlayerPortEvents {
+  onReady?: () => void;
+  onStateChange?: (state: PlayerState) => void;
+  onPlaybackRateChange?: (rate: number) => void;
+  onError?: (error: PlayerError) => void;
+}
+
+/**
+ * Crée les players utilisés par YouTubeService (API IFrame ou fake)
+ */
+export interface PlayerPortFactory {
+  readonly isFake: boolean;
+  // Prépare la création de players (chargement du script de l'API)
+  load(): Promise<void>;
+  create(elementId: string, videoId: string, events: PlayerPortEvents): PlayerPort;
+}
+
 export interface YouTubeNamespace {
   Player: new (elementId: string | HTMLElement, config: YouTubePlayerConfig) => YouTubePlayer;
   PlayerState: typeof PlayerState;
@@ -178,9 +223,8 @@ export interface YouTubeNamespace {
   scan: () => void;
 }
 
-declare global {
-  interface Window {
-    YT: YouTubeNamespace;
-    onYouTubeIframeAPIReady: (() => void) | undefined;
-  }
+// Fenêtre une fois le script de l'API chargé (Window est déclaré dans typings.d.ts)
+export interface YouTubeWindow extends Omit<Window, 'YT' | 'onYouTubeIframeAPIReady'> {
+  YT?: YouTubeNamespace;
+  onYouTubeIframeAPIReady?: () => void;
 }
\ No newline at end of file
@@ -0,0 +1,135 @@
+/**
+ * Utilitaires pour la grille de temps et de mesures d'une session
+ */
+
+/**
+ * Grille rythmique posée sur la timeline : tempo, temps par mesure et
+ * position (en secondes) du premier temps du morceau
+ */
+export interface BeatGrid {
+  bpm: number;
+  beatsPerBar: number;
+  offset: number;
+}
+
+/**
+ * Temps de la grille à une position de la timeline
+ */
+export interface GridBeat {
+  time: number;
+  bar: number;        // Numéro de mesure, 1 pour la mesure qui commence à l'offset
+  beatInBar: number;  // 1 pour le premier temps de la mesure
+  isDownbeat: boolean;
+}
+
+/**
+ * Durée d'un temps en secondes
+ * @param grid - Grille de la session
+ * @returns Durée d'un temps, 0 si le tempo est invalide
+ */
+export function beatDuration(grid: BeatGrid): number {
+  return grid.bpm > 0 ? 60 / grid.bpm : 0;
+}
+
+/**
+ * Position d'un temps de la grille à partir de son index (0 pour l'offset)
+ */
+function beatAt(grid: BeatGrid, index: number): GridBeat {
+  const beatsPerBar = Math.max(1, Math.floor(grid.beatsPerBar));
+  const beatInBar = ((index % beatsPerBar) + beatsPerBar) % beatsPerBar;
+
+  return {
+    time: grid.offset + index * beatDuration(grid),
+    bar: Math.floor(index / beatsPerBar) + 1,
+    beatInBar: beatInBar + 1,
+    isDownbeat: beatInBar === 0
+  };
+}
+
+/**
+ * Liste les temps de la grille compris dans un intervalle
+ * @param grid - Grille de la session
+ * @param start - Début de l'intervalle en secondes
+ * @param end - Fin de l'intervalle en secondes (incluse)
+ * @returns Temps de la grille, triés, jamais avant 0
+ */
+export function beatTimesInRange(grid: BeatGrid, start: number, end: number): GridBeat[] {
+  const beat = beatDuration(grid);
+  if (beat <= 0 || end < start) {
+    return [];
+  }
+
+  const first = Math.ceil((Math.max(0, start) - grid.offset) / beat);
+  const last = Math.floor((end - grid.offset) / beat);
+  const beats: GridBeat[] = [];
+
+  for (let index = first; index <= last; index++) {
+    beats.push(beatAt(grid, index));
+  }
+  return beats;
+}
+
+/**
+ * Temps de la grille le plus proche d'une position
+ * @param grid - Grille de la session
+ * @param time - Position en secondes
+ * @returns Position du temps le plus proche, jamais avant 0
+ */
+export function nearestBeatTime(grid: BeatGrid, time: number): number {
+  const beat = beatDuration(grid);
+  if (beat <= 0) {
+    return time;
+  }
+
+  const nearest = grid.offset + Math.round((time - grid.offset) / beat) * beat;
+  return nearest < 0 ? nearest + beat : nearest;
+}
+
+/**
+ * Numéro de la mesure jouée à une position
+ * @returns 1 pour la mesure qui commence à l'offset, 0 ou moins avant
+ */
+export function barNumberAt(grid: BeatGrid, time: number): number {
+  const barSeconds = beatDuration(grid) * Math.max(1, Math.floor(grid.beatsPerBar));
+  if (barSeconds <= 0) {
+    return 1;
+  }
+  return Math.floor((time - grid.offset) / barSeconds) + 1;
+}
+
+/**
+ * Durée exprimée en mesures et en temps, arrondie au temps le plus proche
+ * @returns Nombre de mesures complètes et de temps restants
+ */
+export function durationInBars(grid: BeatGrid, seconds: number): { bars: number; beats: number } {
+  const beat = beatDuration(grid);
+  if (beat <= 0 || seconds <= 0) {
+    return { bars: 0, beats: 0 };
+  }
+
+  const beatsPerBar = Math.max(1, Math.floor(grid.beatsPerBar));
+  const totalBeats = Math.round(seconds / beat);
+  return {
+    bars: Math.floor(totalBeats / beatsPerBar),
+    beats: totalBeats % beatsPerBar
+  };
+}
+
+/**
+ * Formate une durée en mesures (ex: "2 mesures", "1 mesure 3 temps", "2 temps")
+ * @param grid - Grille de la session
+ * @param seconds - Durée en secondes
+ * @returns Durée formatée
+ */
+export function formatBars(grid: BeatGrid, seconds: number): string {
+  const { bars, beats } = durationInBars(grid, seconds);
+  const parts: string[] = [];
+
+  if (bars > 0) {
+    parts.push(`${bars} ${bars > 1 ? 'mesures' : 'mesure'}`);
+  }
+  if (beats > 0 || bars === 0) {
+    parts.push(`${beats} temps`);
+  }
+  return parts.join(' ');
+}
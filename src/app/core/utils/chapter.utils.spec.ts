@@ -0,0 +1,88 @@
+import { buildChapterSegments, parseChapters } from './chapter.utils';
+
+describe('chapter.utils', () => {
+  describe('parseChapters', () => {
+    it('should read a timestamp followed by its title', () => {
+      expect(parseChapters('0:00 Intro\n1:12 - Couplet')).toEqual([
+        { startTime: 0, title: 'Intro' },
+        { startTime: 72, title: 'Couplet' }
+      ]);
+    });
+
+    it('should read bracketed timestamps', () => {
+      expect(parseChapters('[0:00] Intro\n(1:12) Couplet')).toEqual([
+        { startTime: 0, title: 'Intro' },
+        { startTime: 72, title: 'Couplet' }
+      ]);
+    });
+
+    it('should read a title followed by its timestamp', () => {
+      expect(parseChapters('Intro 0:00\nRefrain - 2:30')).toEqual([
+        { startTime: 0, title: 'Intro' },
+        { startTime: 150, title: 'Refrain' }
+      ]);
+    });
+
+    it('should read hours in H:MM:SS timestamps', () => {
+      expect(parseChapters('1:02:03 Outro')).toEqual([{ startTime: 3723, title: 'Outro' }]);
+    });
+
+    it('should split chapters separated by slashes on one line', () => {
+      expect(parseChapters('0:00 Intro / 1:12 Couplet / 2:30 Refrain')).toEqual([
+        { startTime: 0, title: 'Intro' },
+        { startTime: 72, title: 'Couplet' },
+        { startTime: 150, title: 'Refrain' }
+      ]);
+    });
+
+    it('should drop the numbering of the chapters', () => {
+      expect(parseChapters('1. 0:00 Intro\n0:45 2) Couplet')).toEqual([
+        { startTime: 0, title: 'Intro' },
+        { startTime: 45, title: 'Couplet' }
+      ]);
+    });
+
+    it('should sort the chapters, keep the first title of a position and name the untitled ones', () => {
+      expect(parseChapters('2:30 Refrain\n0:00 Intro\n0:00 Doublon\n3:00')).toEqual([
+        { startTime: 0, title: 'Intro' },
+        { startTime: 150, title: 'Refrain' },
+        { startTime: 180, title: 'Chapitre 3:00' }
+      ]);
+    });
+
+    it('should ignore text without timestamps', () => {
+      expect(parseChapters('Abonnez-vous !\nMerci 1000 fois')).toEqual([]);
+      expect(parseChapters('')).toEqual([]);
+    });
+  });
+
+  describe('buildChapterSegments', () => {
+    const chapters = [
+      { startTime: 0, title: 'Intro' },
+      { startTime: 100, title: 'Refrain' },
+      { startTime: 250, title: 'Bonus' }
+    ];
+
+    it('should end each segment at the next chapter and the last one at the end of the video', () => {
+      expect(buildChapterSegments(chapters.slice(0, 2), 200)).toEqual([
+        { title: 'Intro', startTime: 0, endTime: 100, issue: null },
+        { title: 'Refrain', startTime: 100, endTime: 200, issue: null }
+      ]);
+    });
+
+    it('should flag the chapters past the end of the video and clamp the previous one', () => {
+      const segments = buildChapterSegments(chapters, 200);
+
+      expect(segments[1]).toEqual({ title: 'Refrain', startTime: 100, endTime: 200, issue: null });
+      expect(segments[2]).toEqual({ title: 'Bonus', startTime: 250, endTime: 250, issue: 'Au-delà de la fin de la vidéo' });
+    });
+
+    it('should only flag the last chapter when the duration is unknown', () => {
+      const segments = buildChapterSegments(chapters, 0);
+
+      expect(segments.map(segment => segment.issue)).toEqual([null, null, 'Durée de la vidéo inconnue']);
+      expect(segments[1]!.endTime).toBe(250);
+      expect(segments[2]!.endTime).toBe(250);
+    });
+  });
+});
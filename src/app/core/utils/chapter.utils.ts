@@ -0,0 +1,134 @@
+/**
+ * Utilitaires pour lire les chapitres d'une description de vidéo
+ * (ex: "0:00 Intro", "[1:12] Couplet", "Refrain - 2:30", "1:02:03 Outro")
+ */
+
+import { formatSecondsToMMSS, parseTimeString } from './time.utils';
+
+/**
+ * Chapitre trouvé dans le texte
+ */
+export interface ParsedChapter {
+  startTime: number;
+  title: string;
+}
+
+/**
+ * Segment d'un chapitre, borné par le chapitre suivant ou la fin de la vidéo
+ */
+export interface ChapterSegment {
+  title: string;
+  startTime: number;
+  endTime: number;
+  issue: string | null; // raison pour laquelle le segment ne peut pas devenir une boucle
+}
+
+// Horodatage isolé : M:SS, MM:SS ou H:MM:SS, sans chiffre ni ':' autour
+const TIMESTAMP_PATTERN = /(?<![\d:])(?:\d{1,2}:)?\d{1,3}:\d{2}(?![\d:])/g;
+
+// Ponctuation, puces et séparateurs entourant un titre (ex: " - ", "[", "•", " / ")
+const TITLE_EDGE_PATTERN = /^[\s\-–—:|/•·*>.,)\]]+|[\s\-–—:|/•·*<(,[]+$/g;
+const LEADING_NUMBER_PATTERN = /^\d{1,2}[.)]\s+/;
+
+// Nombre maximal de chapitres importés d'un seul texte
+export const MAX_IMPORTED_CHAPTERS = 50;
+
+/**
+ * Extrait les chapitres d'un texte collé, une ligne ou un séparateur « / » par chapitre
+ * @param text - Description de la vidéo ou liste de chapitres
+ * @returns Chapitres triés par position, sans doublon de position
+ */
+export function parseChapters(text: string): ParsedChapter[] {
+  if (!text || typeof text !== 'string') {
+    return [];
+  }
+
+  const chapters = text
+    .split(/\r?\n/)
+    .flatMap(line => parseChapterLine(line));
+
+  const byTime = new Map<number, ParsedChapter>();
+  for (const chapter of chapters) {
+    if (!byTime.has(chapter.startTime)) {
+      byTime.set(chapter.startTime, chapter);
+    }
+  }
+
+  return Array.from(byTime.values())
+    .sort((a, b) => a.startTime - b.startTime)
+    .slice(0, MAX_IMPORTED_CHAPTERS);
+}
+
+/**
+ * Découpe les chapitres en segments et les confronte à la durée de la vidéo
+ * @param chapters - Chapitres triés par position
+ * @param videoDuration - Durée de la vidéo en secondes, 0 si inconnue
+ * @returns Un segment par chapitre, `issue` renseigné pour ceux qui ne sont pas importables
+ */
+export function buildChapterSegments(chapters: readonly ParsedChapter[], videoDuration: number): ChapterSegment[] {
+  const duration = Math.max(0, Number(videoDuration) || 0);
+
+  return chapters.map((chapter, index) => {
+    const next = chapters[index + 1];
+    const endTime = next ? next.startTime : duration;
+    const segment: ChapterSegment = {
+      title: chapter.title,
+      startTime: chapter.startTime,
+      endTime,
+      issue: null
+    };
+
+    if (duration > 0 && chapter.startTime >= duration) {
+      segment.issue = 'Au-delà de la fin de la vidéo';
+      segment.endTime = chapter.startTime;
+    } else if (!next && duration === 0) {
+      segment.issue = 'Durée de la vidéo inconnue';
+      segment.endTime = chapter.startTime;
+    } else {
+      segment.endTime = duration > 0 ? Math.min(endTime, duration) : endTime;
+    }
+    return segment;
+  });
+}
+
+/**
+ * Chapitres d'une ligne : le titre suit l'horodatage, ou le précède
+ * quand rien ne suit le dernier horodatage (ex: "Refrain - 2:30")
+ */
+function parseChapterLine(line: string): ParsedChapter[] {
+  const matches = Array.from(line.matchAll(TIMESTAMP_PATTERN));
+  if (matches.length === 0) {
+    return [];
+  }
+
+  const bounds = matches.map(match => ({
+    time: parseTimeString(match[0]),
+    start: match.index!,
+    end: match.index! + match[0].length
+  }));
+
+  const titleAfterLast = cleanTitle(line.slice(bounds[bounds.length - 1]!.end));
+  const titlesBefore = !titleAfterLast && cleanTitle(line.slice(0, bounds[0]!.start)) !== '';
+
+  return bounds.flatMap((bound, index) => {
+    if (bound.time === null) {
+      return [];
+    }
+
+    const title = titlesBefore
+      ? cleanTitle(line.slice(index === 0 ? 0 : bounds[index - 1]!.end, bound.start))
+      : cleanTitle(line.slice(bound.end, bounds[index + 1]?.start ?? line.length));
+
+    return [{ startTime: bound.time, title: title || `Chapitre ${formatSecondsToMMSS(bound.time)}` }];
+  });
+}
+
+/**
+ * Retire la ponctuation et la numérotation autour d'un titre
+ */
+function cleanTitle(raw: string): string {
+  return raw
+    .replace(TITLE_EDGE_PATTERN, '')
+    .replace(LEADING_NUMBER_PATTERN, '')
+    .trim();
+}
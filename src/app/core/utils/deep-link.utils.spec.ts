@@ -0,0 +1,103 @@
+import {
+  DEEP_LINK_PARAMS,
+  SharedLoop,
+  buildDeepLink,
+  decodeLoopsPayload,
+  encodeLoopsPayload,
+  parseDeepLink,
+  parseLoopParam,
+  parseVideoUrlLink
+} from './deep-link.utils';
+
+describe('deep-link.utils', () => {
+  const loops: SharedLoop[] = [
+    { name: 'Intro', startTime: 0, endTime: 12.346 },
+    { name: 'Refrain à deux voix', startTime: 30, endTime: 45 }
+  ];
+
+  describe('parseLoopParam', () => {
+    it('should parse a named range in seconds or units', () => {
+      expect(parseLoopParam('12-30:Refrain')).toEqual({ name: 'Refrain', startTime: 12, endTime: 30 });
+      expect(parseLoopParam('1m05s-1m20s')).toEqual({ name: '', startTime: 65, endTime: 80 });
+    });
+
+    it('should split the name off times written with colons', () => {
+      expect(parseLoopParam('1:05-1:20:Solo')).toEqual({ name: 'Solo', startTime: 65, endTime: 80 });
+      expect(parseLoopParam('1:05-1:01:20')).toEqual({ name: '', startTime: 65, endTime: 3680 });
+      expect(parseLoopParam('12-30:Intro: 2nd take')).toEqual({ name: 'Intro: 2nd take', startTime: 12, endTime: 30 });
+    });
+
+    it('should reject malformed or empty ranges', () => {
+      expect(parseLoopParam('12')).toBeNull();
+      expect(parseLoopParam('abc-30')).toBeNull();
+      expect(parseLoopParam('30-12')).toBeNull();
+    });
+  });
+
+  describe('encodeLoopsPayload / decodeLoopsPayload', () => {
+    it('should round-trip the loops with times rounded to the hundredth', () => {
+      const payload = encodeLoopsPayload(loops);
+
+      expect(payload).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(decodeLoopsPayload(payload)).toEqual([
+        { name: 'Intro', startTime: 0, endTime: 12.35 },
+        { name: 'Refrain à deux voix', startTime: 30, endTime: 45 }
+      ]);
+    });
+
+    it('should drop invalid entries and ignore unreadable payloads', () => {
+      const payload = btoa(JSON.stringify([[10, 5, 'Inverse'], ['a', 2], [1, 2, 3]]));
+
+      expect(decodeLoopsPayload(payload)).toEqual([{ name: '', startTime: 1, endTime: 2 }]);
+      expect(decodeLoopsPayload('%%%')).toEqual([]);
+      expect(decodeLoopsPayload(btoa('{}'))).toEqual([]);
+    });
+  });
+
+  describe('buildDeepLink / parseDeepLink', () => {
+    it('should keep readable loops up to the limit and compress beyond it', () => {
+      const readable = new URL(buildDeepLink('https://app.test/video-player', {
+        videoId: 'dQw4w9WgXcQ', startTime: 42.8, playbackRate: 0.75, loops
+      }));
+      expect(readable.searchParams.getAll(DEEP_LINK_PARAMS.LOOP)).toEqual(['0-12.35:Intro', '30-45:Refrain à deux voix']);
+      expect(readable.searchParams.get(DEEP_LINK_PARAMS.TIME)).toBe('42');
+
+      const manyLoops = [...loops, ...loops];
+      const compressed = new URL(buildDeepLink('https://app.test/video-player', {
+        videoId: 'dQw4w9WgXcQ', startTime: null, playbackRate: null, loops: manyLoops
+      }));
+      expect(compressed.searchParams.has(DEEP_LINK_PARAMS.LOOP)).toBe(false);
+      expect(parseDeepLink(compressed.searchParams)?.loops.length).toBe(4);
+    });
+
+    it('should restore the player state and require a video', () => {
+      const params = new URLSearchParams('v=dQw4w9WgXcQ&t=1m30s&speed=0.5&loop=12-30:Refrain');
+
+      expect(parseDeepLink(params)).toEqual({
+        videoId: 'dQw4w9WgXcQ',
+        startTime: 90,
+        playbackRate: 0.5,
+        loops: [{ name: 'Refrain', startTime: 12, endTime: 30 }]
+      });
+      expect(parseDeepLink(new URLSearchParams('t=90'))).toBeNull();
+    });
+  });
+
+  describe('parseVideoUrlLink', () => {
+    it('should make a loop of the start and end of an embed URL', () => {
+      expect(parseVideoUrlLink('https://www.youtube.com/embed/dQw4w9WgXcQ?start=43&end=61', 'dQw4w9WgXcQ')).toEqual({
+        videoId: 'dQw4w9WgXcQ',
+        startTime: 43,
+        playbackRate: null,
+        loops: [{ name: '', startTime: 43, endTime: 61 }]
+      });
+    });
+
+    it('should only keep the position without a valid end', () => {
+      expect(parseVideoUrlLink('https://youtu.be/dQw4w9WgXcQ?t=1m30s', 'dQw4w9WgXcQ').loops).toEqual([]);
+      expect(parseVideoUrlLink('https://www.youtube.com/embed/dQw4w9WgXcQ?start=61&end=43', 'dQw4w9WgXcQ')).toEqual(
+        jasmine.objectContaining({ startTime: 61, loops: [] })
+      );
+    });
+  });
+});
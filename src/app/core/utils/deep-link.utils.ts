@@ -0,0 +1,217 @@
+/**
+ * Utilitaires pour les liens de partage du lecteur (vidéo, position, vitesse et boucles)
+ */
+
+import { extractEndTimestamp, extractTimestamp, parseTimeParam } from './youtube.utils';
+
+/**
+ * Noms des paramètres de query d'un lien de partage
+ */
+export const DEEP_LINK_PARAMS = {
+  VIDEO: 'v',
+  TIME: 't',
+  SPEED: 'speed',
+  LOOP: 'loop',
+  LOOPS: 'loops'
+} as const;
+
+/**
+ * Au-delà de ce nombre de boucles, elles sont encodées dans le paramètre compressé 'loops'
+ */
+export const MAX_READABLE_LOOPS = 3;
+
+/**
+ * Boucle transmise dans un lien, sans les réglages propres à chaque utilisateur
+ */
+export interface SharedLoop {
+  name: string;
+  startTime: number;
+  endTime: number;
+}
+
+/**
+ * État du lecteur restauré depuis un lien de partage
+ */
+export interface DeepLinkState {
+  videoId: string;
+  startTime: number | null;
+  playbackRate: number | null;
+  loops: SharedLoop[];
+}
+
+/**
+ * Lecture des paramètres, compatible avec URLSearchParams et le ParamMap du router
+ */
+export interface QueryParamReader {
+  get(name: string): string | null;
+  getAll(name: string): string[];
+}
+
+/**
+ * Arrondit un temps au centième pour garder des liens courts
+ */
+function roundTime(seconds: number): number {
+  return Math.round(seconds * 100) / 100;
+}
+
+/**
+ * Vérifie qu'une plage de boucle est exploitable
+ */
+function isValidLoopRange(startTime: number | null, endTime: number | null): boolean {
+  return startTime !== null && endTime !== null && startTime >= 0 && endTime > startTime;
+}
+
+/**
+ * Parse un paramètre de boucle lisible
+ * @param value - Valeur au format "début-fin:nom" (ex: "12-30:Refrain", "1m05s-1m20s", "1:05-1:20:Solo")
+ * @returns Boucle partagée ou null si format invalide
+ */
+export function parseLoopParam(value: string): SharedLoop | null {
+  const separator = value.indexOf('-');
+  if (separator <= 0) {
+    return null;
+  }
+
+  const startTime = parseTimeParam(value.slice(0, separator));
+  const rest = value.slice(separator + 1);
+
+  // Les temps peuvent contenir ':' (1:05) : la fin est le plus long préfixe qui reste un temps valide
+  for (let end = rest.length; end > 0; end = rest.lastIndexOf(':', end - 1)) {
+    const endTime = parseTimeParam(rest.slice(0, end));
+    if (isValidLoopRange(startTime, endTime)) {
+      return {
+        name: rest.slice(end + 1).trim(),
+        startTime: startTime!,
+        endTime: endTime!
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Formate une boucle pour le paramètre 'loop'
+ * @param loop - Boucle à partager
+ * @returns Valeur au format "début-fin:nom"
+ */
+export function formatLoopParam(loop: SharedLoop): string {
+  const range = `${roundTime(loop.startTime)}-${roundTime(loop.endTime)}`;
+  return loop.name ? `${range}:${loop.name}` : range;
+}
+
+/**
+ * Encode des boucles en base64url, chaque boucle est un tuple [début, fin, nom]
+ * @param loops - Boucles à partager
+ * @returns Charge utile du paramètre 'loops'
+ */
+export function encodeLoopsPayload(loops: SharedLoop[]): string {
+  const tuples = loops.map(loop => [roundTime(loop.startTime), roundTime(loop.endTime), loop.name]);
+  const bytes = new TextEncoder().encode(JSON.stringify(tuples));
+  const binary = Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Décode le paramètre 'loops', les entrées invalides sont ignorées
+ * @param payload - Charge utile produite par encodeLoopsPayload
+ * @returns Boucles décodées, vide si la charge utile est illisible
+ */
+export function decodeLoopsPayload(payload: string): SharedLoop[] {
+  try {
+    const binary = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+    const tuples: unknown = JSON.parse(new TextDecoder().decode(bytes));
+
+    if (!Array.isArray(tuples)) {
+      return [];
+    }
+
+    return tuples
+      .filter((tuple): tuple is [number, number, unknown] =>
+        Array.isArray(tuple) &&
+        typeof tuple[0] === 'number' &&
+        typeof tuple[1] === 'number' &&
+        isValidLoopRange(tuple[0], tuple[1]))
+      .map(([startTime, endTime, name]) => ({
+        name: typeof name === 'string' ? name : '',
+        startTime,
+        endTime
+      }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Lit l'état du lecteur dans les paramètres d'un lien de partage
+ * @param params - Paramètres de query du lien
+ * @returns État à restaurer ou null si le lien ne désigne pas de vidéo
+ */
+export function parseDeepLink(params: QueryParamReader): DeepLinkState | null {
+  const videoId = params.get(DEEP_LINK_PARAMS.VIDEO)?.trim();
+  if (!videoId) {
+    return null;
+  }
+
+  const time = params.get(DEEP_LINK_PARAMS.TIME);
+  const speed = parseFloat(params.get(DEEP_LINK_PARAMS.SPEED) ?? '');
+  const payload = params.get(DEEP_LINK_PARAMS.LOOPS);
+
+  const readableLoops = params.getAll(DEEP_LINK_PARAMS.LOOP)
+    .map(parseLoopParam)
+    .filter((loop): loop is SharedLoop => loop !== null);
+
+  return {
+    videoId,
+    startTime: time ? parseTimeParam(time) : null,
+    playbackRate: Number.isFinite(speed) && speed > 0 ? speed : null,
+    loops: [...readableLoops, ...(payload ? decodeLoopsPayload(payload) : [])]
+  };
+}
+
+/**
+ * Lit la position et la plage d'une URL YouTube (t ou start, et end des URLs d'embed)
+ * @param url - URL collée dans le lecteur
+ * @param videoId - Vidéo désignée par l'URL
+ * @returns État à appliquer, avec une boucle quand l'URL donne un début et une fin
+ */
+export function parseVideoUrlLink(url: string, videoId: string): DeepLinkState {
+  const startTime = extractTimestamp(url);
+  const endTime = extractEndTimestamp(url);
+
+  return {
+    videoId,
+    startTime,
+    playbackRate: null,
+    loops: isValidLoopRange(startTime, endTime) ? [{ name: '', startTime: startTime!, endTime: endTime! }] : []
+  };
+}
+
+/**
+ * Construit un lien de partage de l'état du lecteur
+ * @param baseUrl - URL de la page du lecteur, sans query
+ * @param state - État à partager
+ * @returns Lien complet, les boucles sont compressées au-delà de MAX_READABLE_LOOPS
+ */
+export function buildDeepLink(baseUrl: string, state: DeepLinkState): string {
+  const params = new URLSearchParams();
+  params.set(DEEP_LINK_PARAMS.VIDEO, state.videoId);
+
+  if (state.startTime !== null && state.startTime > 0) {
+    params.set(DEEP_LINK_PARAMS.TIME, String(Math.floor(state.startTime)));
+  }
+
+  if (state.playbackRate !== null && state.playbackRate !== 1) {
+    params.set(DEEP_LINK_PARAMS.SPEED, String(state.playbackRate));
+  }
+
+  if (state.loops.length > MAX_READABLE_LOOPS) {
+    params.set(DEEP_LINK_PARAMS.LOOPS, encodeLoopsPayload(state.loops));
+  } else {
+    state.loops.forEach(loop => params.append(DEEP_LINK_PARAMS.LOOP, formatLoopParam(loop)));
+  }
+
+  return `${baseUrl}?${params.toString()}`;
+}
@@ -1,2 +1,7 @@
 export * from './time.utils';
-export * from './youtube.utils';
\ No newline at end of file
+export * from './youtube.utils';
+export * from './media.utils';
+export * from './deep-link.utils';
+export * from './beat-grid.utils';
+export * from './chapter.utils';
+export * from './random.utils';
@@ -0,0 +1,81 @@
+/**
+ * Utilitaires pour les fichiers audio/vidéo locaux
+ */
+
+/**
+ * Préfixe des identifiants de média local, les sessions sont indexées par ce
+ * hash de contenu comme elles le sont par l'ID pour une vidéo YouTube
+ */
+export const LOCAL_MEDIA_ID_PREFIX = 'local-';
+
+/**
+ * Préfixe de l'URL enregistrée dans les sessions d'un média local (nom du fichier)
+ */
+export const LOCAL_MEDIA_URL_PREFIX = 'local-file:';
+
+/**
+ * Taille des échantillons lus en début et fin de fichier pour le hash
+ */
+const HASH_SAMPLE_SIZE = 2 * 1024 * 1024;
+
+/**
+ * Indique si un fichier peut être lu par un élément <audio>/<video>
+ * @param file - Fichier choisi ou déposé par l'utilisateur
+ * @returns True pour les types audio/* et video/*
+ */
+export function isSupportedMediaFile(file: File): boolean {
+  return file.type.startsWith('audio/') || file.type.startsWith('video/');
+}
+
+/**
+ * Indique si un fichier ne contient que du son
+ */
+export function isAudioFile(file: File): boolean {
+  return file.type.startsWith('audio/');
+}
+
+/**
+ * Indique si un identifiant de vidéo désigne un média local
+ */
+export function isLocalMediaId(videoId: string | null | undefined): boolean {
+  return !!videoId && videoId.startsWith(LOCAL_MEDIA_ID_PREFIX);
+}
+
+/**
+ * URL enregistrée dans une session pour un fichier local
+ */
+export function createLocalMediaUrl(fileName: string): string {
+  return `${LOCAL_MEDIA_URL_PREFIX}${encodeURIComponent(fileName)}`;
+}
+
+/**
+ * Calcule l'identifiant d'un média local à partir de son contenu.
+ *
+ * Le même enregistrement retrouve ses boucles même renommé ou déplacé. Pour ne
+ * pas lire des fichiers de plusieurs centaines de Mo en mémoire, le SHA-256
+ * porte sur la taille et les premiers et derniers Mo du fichier.
+ * @param file - Fichier audio/vidéo
+ * @returns Identifiant de la forme "local-<sha256 hexadécimal>"
+ */
+export async function computeMediaContentHash(file: File): Promise<string> {
+  const parts: BlobPart[] = [`${file.size}:`];
+  if (file.size <= HASH_SAMPLE_SIZE * 2) {
+    parts.push(file);
+  } else {
+    parts.push(file.slice(0, HASH_SAMPLE_SIZE), file.slice(file.size - HASH_SAMPLE_SIZE));
+  }
+
+  const buffer = await new Blob(parts).arrayBuffer();
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  const hex = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+
+  return `${LOCAL_MEDIA_ID_PREFIX}${hex}`;
+}
+
+/**
+ * Titre affiché pour un fichier local (nom sans extension)
+ */
+export function getMediaTitle(fileName: string): string {
+  const title = fileName.replace(/\.[^./\\]+$/, '').trim();
+  return title || fileName;
+}
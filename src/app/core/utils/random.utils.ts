@@ -0,0 +1,56 @@
+/**
+ * Utilitaires de tirage aléatoire, avec une graine pour rejouer un tirage à l'identique
+ */
+
+/**
+ * Source de nombres aléatoires dans [0, 1), comme Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Crée un générateur pseudo-aléatoire (mulberry32) : une même graine
+ * donne toujours la même suite de nombres
+ * @param seed - Graine entière
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = Math.trunc(Number(seed) || 0) >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Tire un élément avec une probabilité proportionnelle à son poids
+ * @param items - Éléments candidats
+ * @param weightOf - Poids d'un élément, ignoré s'il est nul ou négatif
+ * @param random - Source aléatoire, Math.random par défaut
+ * @returns L'élément tiré, null si aucun n'a de poids
+ */
+export function pickWeighted<T>(
+  items: readonly T[],
+  weightOf: (item: T) => number,
+  random: RandomSource = Math.random
+): T | null {
+  const candidates = items
+    .map(item => ({ item, weight: Math.max(0, Number(weightOf(item)) || 0) }))
+    .filter(candidate => candidate.weight > 0);
+
+  const totalWeight = candidates.reduce((sum, candidate) => sum + candidate.weight, 0);
+  if (totalWeight === 0) {
+    return null;
+  }
+
+  let threshold = random() * totalWeight;
+  for (const candidate of candidates) {
+    threshold -= candidate.weight;
+    if (threshold < 0) {
+      return candidate.item;
+    }
+  }
+  return candidates[candidates.length - 1]!.item;
+}
@@ -0,0 +1,47 @@
+import { extractEndTimestamp, extractTimestamp, parseTimeParam } from './youtube.utils';
+
+describe('youtube.utils', () => {
+  describe('parseTimeParam', () => {
+    it('should parse seconds, unit and colon formats', () => {
+      expect(parseTimeParam('90')).toBe(90);
+      expect(parseTimeParam('12.5')).toBe(12.5);
+      expect(parseTimeParam('1m30s')).toBe(90);
+      expect(parseTimeParam('1h2m3s')).toBe(3723);
+      expect(parseTimeParam('1:30')).toBe(90);
+    });
+
+    it('should reject invalid values', () => {
+      expect(parseTimeParam('')).toBeNull();
+      expect(parseTimeParam('abc')).toBeNull();
+      expect(parseTimeParam('30:2nd')).toBeNull();
+    });
+  });
+
+  describe('extractTimestamp', () => {
+    it('should read the t parameter in seconds or units', () => {
+      expect(extractTimestamp('https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=90')).toBe(90);
+      expect(extractTimestamp('https://youtu.be/dQw4w9WgXcQ?t=1m30s')).toBe(90);
+    });
+
+    it('should read the time in the fragment', () => {
+      expect(extractTimestamp('https://www.youtube.com/watch?v=dQw4w9WgXcQ#t=1m30s')).toBe(90);
+    });
+
+    it('should fall back to the start parameter of embed URLs', () => {
+      expect(extractTimestamp('https://www.youtube.com/embed/dQw4w9WgXcQ?start=45')).toBe(45);
+      expect(extractTimestamp('https://www.youtube.com/embed/dQw4w9WgXcQ?start=45&t=10')).toBe(10);
+    });
+
+    it('should return null without a time or with an invalid escape sequence', () => {
+      expect(extractTimestamp('https://www.youtube.com/watch?v=dQw4w9WgXcQ')).toBeNull();
+      expect(extractTimestamp('https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=%E0%A4%A')).toBeNull();
+    });
+  });
+
+  describe('extractEndTimestamp', () => {
+    it('should read the end parameter of embed URLs', () => {
+      expect(extractEndTimestamp('https://www.youtube.com/embed/dQw4w9WgXcQ?start=45&end=1m20s')).toBe(80);
+      expect(extractEndTimestamp('https://www.youtube.com/embed/dQw4w9WgXcQ?start=45')).toBeNull();
+    });
+  });
+});
@@ -2,6 +2,8 @@
  * Utilitaires pour la validation et gestion des vidéos YouTube
  */
 
+import { parseTimeString } from './time.utils';
+
 /**
  * Types d'erreurs YouTube et leurs codes
  */
@@ -231,28 +233,73 @@ export function createEmbedUrl(
 }
 
 /**
- * Extrait les paramètres de temps d'une URL YouTube
- * @param url - URL YouTube avec timestamp possible
- * @returns Temps de début en secondes ou null
+ * Parse une valeur de temps YouTube en secondes
+ * @param value - Valeur à parser (ex: "90", "12.5", "1m30s", "1h2m3s", "1:30")
+ * @returns Temps en secondes ou null si format invalide
  */
-export function extractTimestamp(url: string): number | null {
+export function parseTimeParam(value: string): number | null {
+  if (!value || typeof value !== 'string') {
+    return null;
+  }
+
+  const trimmed = value.trim();
+
+  // Secondes simples, décimales acceptées
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return parseFloat(trimmed);
+  }
+
+  // Format 1h2m3s, chaque unité est optionnelle
+  const unitsMatch = trimmed.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+(?:\.\d+)?)s)?$/i);
+  if (unitsMatch && (unitsMatch[1] || unitsMatch[2] || unitsMatch[3])) {
+    const hours = parseInt(unitsMatch[1] || '0', 10);
+    const minutes = parseInt(unitsMatch[2] || '0', 10);
+    const seconds = parseFloat(unitsMatch[3] || '0');
+    return hours * 3600 + minutes * 60 + seconds;
+  }
+
+  // Format MM:SS ou HH:MM:SS, chiffres uniquement ("1:20:Solo" n'est pas un temps)
+  return /^\d+(?::\d+){1,2}$/.test(trimmed) ? parseTimeString(trimmed) : null;
+}
+
+/**
+ * Lit un paramètre de temps dans la query ou le fragment d'une URL
+ */
+function extractTimeParam(url: string, name: string): number | null {
   if (!url || typeof url !== 'string') {
     return null;
   }
 
-  // Chercher le paramètre 't' ou 'start'
-  const tMatch = url.match(/[?&]t=(\d+)/);
-  const startMatch = url.match(/[?&]start=(\d+)/);
-  
-  if (tMatch && tMatch[1]) {
-    return parseInt(tMatch[1], 10);
+  const match = url.match(new RegExp(`[?&#]${name}=([^&#]+)`));
+  if (!match || !match[1]) {
+    return null;
   }
-  
-  if (startMatch && startMatch[1]) {
-    return parseInt(startMatch[1], 10);
+
+  try {
+    return parseTimeParam(decodeURIComponent(match[1]));
+  } catch {
+    // Séquence d'échappement invalide (URIError)
+    return null;
   }
+}
 
-  return null;
+/**
+ * Extrait les paramètres de temps d'une URL YouTube
+ * @param url - URL YouTube avec timestamp possible (t=123, t=1m30s, start=123 ou #t=1m30s)
+ * @returns Temps de début en secondes ou null
+ */
+export function extractTimestamp(url: string): number | null {
+  // 't' (liens de partage et fragments) est prioritaire sur 'start' (URLs d'embed)
+  return extractTimeParam(url, 't') ?? extractTimeParam(url, 'start');
+}
+
+/**
+ * Extrait le temps de fin d'une URL d'embed YouTube
+ * @param url - URL YouTube avec paramètre end possible (end=123)
+ * @returns Temps de fin en secondes ou null
+ */
+export function extractEndTimestamp(url: string): number | null {
+  return extractTimeParam(url, 'end');
 }
 
 /**
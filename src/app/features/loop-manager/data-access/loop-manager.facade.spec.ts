@@ -0,0 +1,93 @@
+import { TestBed } from '@angular/core/testing';
+import { LoopManagerFacade } from './loop-manager.facade';
+import { LoopHistoryService } from '@core/services/loop-history.service';
+
+describe('LoopManagerFacade (data-access) history', () => {
+  let facade: LoopManagerFacade;
+
+  const loopTimes = () => facade.loops().map(loop => [loop.startTime, loop.endTime]);
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    facade = TestBed.inject(LoopManagerFacade);
+    facade.setVideoContext('video-1');
+  });
+
+  it('should undo and redo a loop creation', () => {
+    facade.createLoop(10, 20, 'Intro');
+
+    expect(facade.undo().success).toBe(true);
+    expect(facade.loops()).toEqual([]);
+
+    expect(facade.redo().success).toBe(true);
+    expect(facade.loops()[0]?.name).toBe('Intro');
+  });
+
+  it('should restore a deleted loop and release its selection', () => {
+    const { loop } = facade.createLoop(10, 20, 'Intro');
+    facade.selectLoop(loop!.id);
+
+    facade.deleteLoop(loop!.id);
+    expect(facade.activeLoop()).toBeNull();
+
+    facade.undo();
+    expect(facade.loops().map(l => l.id)).toEqual([loop!.id]);
+
+    facade.redo();
+    expect(facade.loops()).toEqual([]);
+  });
+
+  it('should record a duplicate as a single step', () => {
+    const { loop } = facade.createLoop(10, 20, 'Intro');
+
+    facade.duplicateLoop(loop!.id);
+    expect(facade.loops()[1]?.name).toBe('Intro (copie)');
+    expect(facade.undoLabel()).toBe('Dupliquer « Intro »');
+
+    facade.undo();
+    expect(facade.loops().length).toBe(1);
+  });
+
+  it('should undo a whole edit gesture at once', () => {
+    const { loop } = facade.createLoop(10, 20, 'Intro');
+
+    facade.beginLoopEdit('move', 'Déplacer « Intro »');
+    facade.updateLoop(loop!.id, { startTime: 11, endTime: 21 });
+    facade.updateLoop(loop!.id, { startTime: 12, endTime: 22 });
+    facade.endLoopEdit();
+
+    facade.undo();
+    expect(loopTimes()).toEqual([[10, 20]]);
+  });
+
+  it('should undo clearing all loops', () => {
+    facade.createLoop(10, 20, 'Intro');
+    facade.createLoop(30, 40, 'Solo');
+
+    facade.clearAllLoops();
+    facade.undo();
+
+    expect(facade.loops().map(loop => loop.name)).toEqual(['Intro', 'Solo']);
+  });
+
+  it('should keep the history of each video apart', () => {
+    facade.createLoop(10, 20, 'Intro');
+
+    facade.setVideoContext('video-2');
+    expect(facade.canUndo()).toBe(false);
+    expect(facade.undo().success).toBe(false);
+
+    facade.setVideoContext('video-1');
+    expect(facade.canUndo()).toBe(true);
+  });
+
+  it('should keep its history apart from the player history', () => {
+    const playerHistory = TestBed.inject(LoopHistoryService);
+    playerHistory.setScope('video-2');
+
+    facade.createLoop(10, 20, 'Intro');
+
+    expect(playerHistory.canUndo()).toBe(false);
+    expect(facade.canUndo()).toBe(true);
+  });
+});
@@ -1,5 +1,6 @@
 import { Injectable, computed, signal, inject, effect } from '@angular/core';
 import { LoopService } from '@core/services/loop.service';
+import { LoopHistoryService, LoopHistoryAction } from '@core/services/loop-history.service';
 import { LoopSegment } from '@shared/interfaces/loop.types';
 
 // State interface for the LoopManagerFacade
@@ -64,6 +65,8 @@ export interface LoopCreationOptions {
 })
 export class LoopManagerFacade {
   private readonly loopService = inject(LoopService);
+  // History of its own: the player's history (root LoopHistoryService) follows the video it loads
+  private readonly history = new LoopHistoryService();
 
   // Private signals for internal state management
   private readonly _loops = signal<LoopSegment[]>([]);
@@ -83,10 +86,16 @@ export class LoopManagerFacade {
   readonly editingLoop = this._editingLoop.asReadonly();
   readonly error = this._error.asReadonly();
   readonly isLoading = this._isLoading.asReadonly();
-  
+
   // Alias for compatibility with component
   readonly currentLoop = this.activeLoop;
 
+  // Undo/redo state of the current video
+  readonly canUndo = this.history.canUndo;
+  readonly canRedo = this.history.canRedo;
+  readonly undoLabel = this.history.undoLabel;
+  readonly redoLabel = this.history.redoLabel;
+
   // Enhanced computed ViewModels
   readonly vm = computed<LoopManagerViewModel>(() => {
     const loops = this._loops();
@@ -140,16 +149,6 @@ export class LoopManagerFacade {
   });
 
   constructor() {
-    // Effect for automatic loop repetition
-    effect(() => {
-      // This effect will be triggered when loop reaches end
-      // Actual repeat logic will be implemented in integration with VideoPlayerFacade
-      // Access signals to track dependencies without storing in variables
-      this._activeLoop();
-      this._isLooping();
-      this._repeatCount();
-    });
-
     // Effect for loop validation
     effect(() => {
       const editingLoop = this._editingLoop();
@@ -225,6 +224,7 @@ export class LoopManagerFacade {
         isActive: loop.isActive || false
       };
       this._loops.update(loops => [...loops, loopSegment]);
+      this.recordHistory('create', `Créer « ${loopSegment.name} »`, existingLoops);
       
       // Auto-start if requested
       if (options.autoStart) {
@@ -271,6 +271,7 @@ export class LoopManagerFacade {
           loop.id === loopId ? updatedLoop : loop
         )
       );
+      this.recordHistory('update', `Modifier « ${updatedLoop.name} »`, loops);
       
       // Update active loop if it's the one being modified
       if (this._activeLoop()?.id === loopId) {
@@ -298,6 +299,7 @@ export class LoopManagerFacade {
       }
 
       this._loops.update(loops => loops.filter(loop => loop.id !== loopId));
+      this.recordHistory('delete', `Supprimer « ${loopToDelete.name} »`, loops);
       
       // Clean up related state
       if (this._activeLoop()?.id === loopId) {
@@ -322,6 +324,37 @@ export class LoopManagerFacade {
     }
   }
 
+  duplicateLoop(loopId: string): LoopCommandResult {
+    const source = this._loops().find(l => l.id === loopId);
+    if (!source) {
+      const errorMsg = 'Boucle non trouvée';
+      this._error.set(errorMsg);
+      return { success: false, error: errorMsg };
+    }
+
+    // Loops cannot overlap, the copy goes in the first free slot from the end of the source
+    const range = this.loopService.suggestNonOverlappingTimeRange(
+      source.endTime,
+      source.endTime - source.startTime,
+      this._loops()
+    );
+    if (!range) {
+      const errorMsg = 'Aucun emplacement libre pour la copie';
+      this._error.set(errorMsg);
+      return { success: false, error: errorMsg };
+    }
+
+    // The copy is created through createLoop, recorded as a single duplicate command
+    this.beginLoopEdit('duplicate', `Dupliquer « ${source.name} »`);
+    const result = this.createLoopFromParams(range.startTime, range.endTime, `${source.name} (copie)`, {
+      playbackSpeed: source.playbackSpeed,
+      color: source.color || '#3B82F6',
+      repeatCount: source.repeatCount || 1
+    });
+    this.endLoopEdit();
+    return result;
+  }
+
   selectLoop(loopId: string): LoopCommandResult {
     try {
       const loop = this._loops().find(l => l.id === loopId);
@@ -460,12 +493,20 @@ export class LoopManagerFacade {
       const maxRepeats = activeLoop.repeatCount || 1;
 
       if (currentRepeatCount >= maxRepeats) {
-        // Loop completed, move to next or stop
-        const canNavigateNext = this.vm().canNavigateNext;
-        if (canNavigateNext) {
-          return this.nextLoop();
-        } else {
-          return this.stopLoop();
+        // Loop completed, apply its completion action
+        switch (activeLoop.completionAction ?? 'stop') {
+          case 'next':
+            if (this.vm().canNavigateNext) {
+              return this.startLoop(this.nextLoopAfter(activeLoop).id);
+            }
+            return this.stopLoop();
+          case 'jump': {
+            const target = this._loops().find(l => l.id === activeLoop.completionTargetId && l.id !== activeLoop.id);
+            return target ? this.startLoop(target.id) : this.stopLoop();
+          }
+          default:
+            // 'stop' and 'continue' both end the repetition, playback goes on with 'continue'
+            return this.stopLoop();
         }
       }
 
@@ -478,6 +519,11 @@ export class LoopManagerFacade {
     }
   }
 
+  private nextLoopAfter(loop: LoopSegment): LoopSegment {
+    const loops = this._loops();
+    return loops[loops.findIndex(l => l.id === loop.id) + 1];
+  }
+
   // Loop editing support
   startEditingLoop(loopId: string): LoopCommandResult {
     try {
@@ -535,7 +581,9 @@ export class LoopManagerFacade {
   // Batch operations
   clearAllLoops(): LoopCommandResult {
     try {
+      const loops = this._loops();
       this._loops.set([]);
+      this.recordHistory('clear', 'Supprimer toutes les boucles', loops);
       this._activeLoop.set(null);
       this._editingLoop.set(null);
       this._selectedLoopId.set(null);
@@ -550,6 +598,94 @@ export class LoopManagerFacade {
     }
   }
 
+  resolveConflicts(videoDuration?: number): LoopCommandResult {
+    try {
+      const loops = this._loops();
+      const { resolvedLoops } = this.loopService.resolveLoopConflicts(loops, videoDuration, {
+        adjustOverlaps: true,
+        trimToVideoDuration: true,
+        renameDuplicates: true,
+        removeInvalid: true
+      });
+
+      this.restoreLoops(resolvedLoops);
+      this.recordHistory('resolve-conflicts', 'Résoudre les conflits', loops);
+      this._error.set(null);
+      return { success: true };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Erreur lors de la résolution des conflits';
+      this._error.set(errorMsg);
+      return { success: false, error: errorMsg };
+    }
+  }
+
+  // Undo/redo history, scoped to the video set with setVideoContext
+  setVideoContext(videoId: string | null): void {
+    this.history.setScope(videoId);
+  }
+
+  undo(): LoopCommandResult {
+    const command = this.history.undo();
+    if (!command) {
+      return { success: false, error: 'Aucune action à annuler' };
+    }
+
+    this.restoreLoops(command.before);
+    this._error.set(null);
+    return { success: true };
+  }
+
+  redo(): LoopCommandResult {
+    const command = this.history.redo();
+    if (!command) {
+      return { success: false, error: 'Aucune action à rétablir' };
+    }
+
+    this.restoreLoops(command.after);
+    this._error.set(null);
+    return { success: true };
+  }
+
+  /**
+   * Groups the updates made until endLoopEdit into one undo step,
+   * e.g. while a loop is dragged on the timeline
+   */
+  beginLoopEdit(action: LoopHistoryAction, label: string): void {
+    this.history.beginTransaction(action, label, this._loops());
+  }
+
+  endLoopEdit(): void {
+    this.history.commitTransaction(this._loops());
+  }
+
+  private recordHistory(action: LoopHistoryAction, label: string, before: LoopSegment[]): void {
+    this.history.record(action, label, before, this._loops());
+  }
+
+  // Replaces the loops and drops the references to loops that no longer exist
+  private restoreLoops(loops: LoopSegment[]): void {
+    this._loops.set(loops.map(loop => ({ ...loop })));
+
+    const activeLoop = this._activeLoop();
+    if (activeLoop) {
+      const restored = this._loops().find(l => l.id === activeLoop.id) ?? null;
+      this._activeLoop.set(restored);
+      if (!restored) {
+        this.stopLoop();
+      }
+    }
+
+    const editingLoop = this._editingLoop();
+    if (editingLoop && !this._loops().some(l => l.id === editingLoop.id)) {
+      this._editingLoop.set(null);
+    }
+
+    const selectedLoopId = this._selectedLoopId();
+    if (selectedLoopId && !this._loops().some(l => l.id === selectedLoopId)) {
+      this._selectedLoopId.set(null);
+    }
+  }
+
   // Utility methods
   private calculateCurrentLoopProgress(): number {
     const activeLoop = this._activeLoop();
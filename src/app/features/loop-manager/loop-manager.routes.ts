@@ -1,4 +1,5 @@
-import { Routes } from '@angular/router';
+import { inject } from '@angular/core';
+import { Router, Routes } from '@angular/router';
 
 export const LOOP_MANAGER_ROUTES: Routes = [
   {
@@ -10,8 +11,9 @@ export const LOOP_MANAGER_ROUTES: Routes = [
     loadComponent: () => import('./ui/loop-manager/loop-manager.component').then(m => m.LoopManagerComponent)
   },
   {
+    // The list edits the session of the loaded video, it lives in the timeline editor
     path: 'list',
-    loadComponent: () => import('./ui/loop-list/loop-list.component').then(m => m.LoopListComponent)
+    redirectTo: route => inject(Router).createUrlTree(['/video-player/timeline'], { queryParams: route.queryParams })
   },
   {
     path: 'create',
@@ -185,4 +185,4 @@ export class LoopManagerFacade {
   parseTime(timeString: string): number {
     return this.loopService.parseTime(timeString);
   }
-}
\ No newline at end of file
+}
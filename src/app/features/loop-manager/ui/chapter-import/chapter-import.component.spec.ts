@@ -0,0 +1,84 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { ChapterImportComponent } from './chapter-import.component';
+import { VideoPlayerFacade } from '../../../video-player/data-access/video-player.facade';
+
+describe('ChapterImportComponent', () => {
+  let component: ChapterImportComponent;
+  let fixture: ComponentFixture<ChapterImportComponent>;
+  let mockFacade: jasmine.SpyObj<VideoPlayerFacade>;
+
+  const description = [
+    'Merci d\'avoir regardé ! Chapitres :',
+    '0:00 Intro',
+    '[0:45] - Couplet 1',
+    'Refrain – 1:30',
+    '02:15 Solo',
+    '5:00 Bonus'
+  ].join('\n');
+
+  beforeEach(async () => {
+    mockFacade = jasmine.createSpyObj('VideoPlayerFacade', ['importChapters', 'formatTime'], { vm: signal({ duration: 180 }) });
+    mockFacade.formatTime.and.callFake((seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`);
+
+    await TestBed.configureTestingModule({
+      imports: [ChapterImportComponent],
+      providers: [
+        { provide: VideoPlayerFacade, useValue: mockFacade }
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ChapterImportComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should preview one segment per chapter against the video duration', () => {
+    component.onTextChange(description);
+
+    expect(component.segments()).toEqual([
+      { title: 'Intro', startTime: 0, endTime: 45, issue: null },
+      { title: 'Couplet 1', startTime: 45, endTime: 90, issue: null },
+      { title: 'Refrain', startTime: 90, endTime: 135, issue: null },
+      { title: 'Solo', startTime: 135, endTime: 180, issue: null },
+      { title: 'Bonus', startTime: 300, endTime: 300, issue: 'Au-delà de la fin de la vidéo' }
+    ]);
+    expect(component.importableCount()).toBe(4);
+  });
+
+  it('should use the typed duration instead of the loaded video', () => {
+    component.onTextChange(description);
+    component.onDurationChange('6:00');
+
+    expect(component.videoDuration()).toBe(360);
+    expect(component.segments()[3]!.endTime).toBe(300);
+    expect(component.segments()[4]).toEqual({ title: 'Bonus', startTime: 300, endTime: 360, issue: null });
+
+    component.onDurationChange('six minutes');
+    expect(component.isDurationInvalid()).toBe(true);
+  });
+
+  it('should import the valid segments and report how many loops were created', () => {
+    spyOn(component.imported, 'emit');
+    mockFacade.importChapters.and.returnValue(2);
+    component.onTextChange('0:00 Intro\n0:45 Couplet\n1:30 Refrain');
+    const segments = component.segments();
+
+    component.importChapters();
+
+    expect(mockFacade.importChapters).toHaveBeenCalledWith(segments);
+    expect(component.summary()).toEqual({ created: 2, failed: 1 });
+    expect(component.text()).toBe('');
+    expect(component.imported.emit).toHaveBeenCalledWith(2);
+  });
+
+  it('should not import when no timestamp is recognised', () => {
+    component.onTextChange('Pas de chapitres dans cette vidéo');
+    fixture.detectChanges();
+
+    component.importChapters();
+
+    expect(mockFacade.importChapters).not.toHaveBeenCalled();
+    expect(fixture.nativeElement.querySelector('.empty-preview')).toBeTruthy();
+  });
+});
@@ -0,0 +1,77 @@
+import { Component, Output, EventEmitter, inject, signal, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { VideoPlayerFacade } from '../../../video-player/data-access/video-player.facade';
+import { ChapterSegment, buildChapterSegments, parseChapters, parseTimeString } from '@core/utils';
+
+interface ChapterImportSummary {
+  created: number;
+  failed: number;
+}
+
+@Component({
+  selector: 'app-chapter-import',
+  imports: [CommonModule],
+  templateUrl: './chapter-import.component.html',
+  styleUrl: './chapter-import.component.scss'
+})
+export class ChapterImportComponent {
+  // Chapters become loops of the player session, checked against the loaded video
+  private readonly facade = inject(VideoPlayerFacade);
+
+  @Output() imported = new EventEmitter<number>();
+  @Output() closed = new EventEmitter<void>();
+
+  readonly text = signal('');
+  readonly durationText = signal('');
+  readonly summary = signal<ChapterImportSummary | null>(null);
+
+  // Typed duration wins over the loaded video, so chapters can be checked before the player is ready
+  readonly videoDuration = computed(() => {
+    const typed = this.durationText().trim();
+    if (typed) {
+      return parseTimeString(typed) ?? 0;
+    }
+    return this.facade.vm().duration;
+  });
+
+  readonly isDurationInvalid = computed(() =>
+    this.durationText().trim() !== '' && parseTimeString(this.durationText().trim()) === null
+  );
+
+  readonly segments = computed(() => buildChapterSegments(parseChapters(this.text()), this.videoDuration()));
+
+  readonly importableCount = computed(() => this.segments().filter(segment => segment.issue === null).length);
+
+  onTextChange(value: string): void {
+    this.text.set(value);
+    this.summary.set(null);
+  }
+
+  onDurationChange(value: string): void {
+    this.durationText.set(value);
+  }
+
+  importChapters(): void {
+    if (this.importableCount() === 0) return;
+
+    const created = this.facade.importChapters(this.segments());
+
+    this.summary.set({ created, failed: this.importableCount() - created });
+    if (created > 0) {
+      this.text.set('');
+      this.imported.emit(created);
+    }
+  }
+
+  formatTime(seconds: number): string {
+    return this.facade.formatTime(seconds);
+  }
+
+  formatSegmentRange(segment: ChapterSegment): string {
+    return `${this.formatTime(segment.startTime)} - ${this.formatTime(segment.endTime)}`;
+  }
+
+  close(): void {
+    this.closed.emit();
+  }
+}
@@ -0,0 +1 @@
+export { ChapterImportComponent } from './chapter-import.component';
\ No newline at end of file
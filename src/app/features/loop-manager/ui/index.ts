@@ -1,4 +1,5 @@
 export * from './loop-form';
 export * from './loop-list';
 export * from './loop-manager';
-export * from './loop-creation-modal';
\ No newline at end of file
+export * from './loop-creation-modal';
+export * from './chapter-import';
\ No newline at end of file
@@ -1 +1,2 @@
-export { LoopFormComponent, LoopFormData, LoopFormResult } from './loop-form.component';
\ No newline at end of file
+export { LoopFormComponent } from './loop-form.component';
+export type { LoopFormData, LoopFormResult } from './loop-form.component';
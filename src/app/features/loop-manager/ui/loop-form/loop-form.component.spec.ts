@@ -169,6 +169,7 @@ describe('LoopFormComponent', () => {
         endTime: 120,
         playbackSpeed: 0.75,
         repeatCount: 2,
+        completionAction: 'stop',
         color: '#10B981'
       };
 
@@ -212,6 +213,7 @@ describe('LoopFormComponent', () => {
         endTime: 120,
         playbackSpeed: 1.0,
         repeatCount: 1,
+        completionAction: 'stop',
         color: '#3B82F6'
       };
 
@@ -233,6 +235,137 @@ describe('LoopFormComponent', () => {
 
       expect(component.formSubmit.emit).not.toHaveBeenCalled();
     });
+
+    it('should require a target loop for the jump action', () => {
+      component.loopForm.patchValue({ name: 'Loop', completionAction: 'jump', completionTargetId: '' });
+
+      expect(component.loopForm.hasError('missingCompletionTarget')).toBe(true);
+
+      component.loopForm.patchValue({ completionTargetId: 'loop-2' });
+
+      expect(component.loopForm.hasError('missingCompletionTarget')).toBe(false);
+    });
+
+    it('should hide the playback settings where loops are not played', () => {
+      expect(fixture.nativeElement.querySelector('#completionAction')).toBeTruthy();
+      expect(fixture.nativeElement.querySelector('[formControlName="speedRampEnabled"]')).toBeTruthy();
+      expect(fixture.nativeElement.querySelector('#preRoll')).toBeTruthy();
+      expect(fixture.nativeElement.querySelector('[formControlName="countInEnabled"]')).toBeTruthy();
+      expect(fixture.nativeElement.querySelector('#restGapMode')).toBeTruthy();
+      expect(fixture.nativeElement.querySelector('[formControlName="fadeEnabled"]')).toBeTruthy();
+
+      fixture.componentRef.setInput('playbackSettings', false);
+      fixture.detectChanges();
+
+      expect(fixture.nativeElement.querySelector('#completionAction')).toBeNull();
+      expect(fixture.nativeElement.querySelector('[formControlName="speedRampEnabled"]')).toBeNull();
+      expect(fixture.nativeElement.querySelector('#preRoll')).toBeNull();
+      expect(fixture.nativeElement.querySelector('[formControlName="countInEnabled"]')).toBeNull();
+      expect(fixture.nativeElement.querySelector('#restGapMode')).toBeNull();
+      expect(fixture.nativeElement.querySelector('[formControlName="fadeEnabled"]')).toBeNull();
+    });
+
+    it('should include the speed trainer settings when enabled', () => {
+      spyOn(component.formSubmit, 'emit');
+      mockFacade.parseTime.and.returnValues(0, 30);
+
+      component.loopForm.patchValue({
+        name: 'Lick',
+        speedRampEnabled: true,
+        rampStartSpeed: 0.5,
+        rampTargetSpeed: 1,
+        rampIncrement: 0.1,
+        rampRepetitionsPerStep: 4
+      });
+      component.onSubmit();
+
+      const request = (component.formSubmit.emit as jasmine.Spy).calls.mostRecent().args[0].data;
+      expect(request.speedRamp).toEqual({ startSpeed: 0.5, targetSpeed: 1, increment: 0.1, repetitionsPerStep: 4 });
+    });
+
+    it('should clear the speed trainer when disabled on an edited loop', () => {
+      spyOn(component.formSubmit, 'emit');
+      mockFacade.parseTime.and.returnValues(0, 30);
+
+      component.editingLoop = {
+        id: 'edit-1',
+        name: 'Lick',
+        startTime: 0,
+        endTime: 30,
+        playbackSpeed: 1,
+        playCount: 0,
+        isActive: true,
+        speedRamp: { startSpeed: 0.6, targetSpeed: 1, increment: 0.05, repetitionsPerStep: 3 }
+      };
+      component.loopForm.patchValue({ name: 'Lick', speedRampEnabled: false });
+      component.onSubmit();
+
+      const request = (component.formSubmit.emit as jasmine.Spy).calls.mostRecent().args[0].data;
+      expect(request.speedRamp).toBeNull();
+    });
+
+    it('should reject a target speed below the start speed', () => {
+      component.loopForm.patchValue({ speedRampEnabled: true, rampStartSpeed: 1, rampTargetSpeed: 0.5 });
+
+      expect(component.loopForm.hasError('invalidSpeedRamp')).toBe(true);
+    });
+
+    it('should include the pre-roll and count-in when set', () => {
+      spyOn(component.formSubmit, 'emit');
+      mockFacade.parseTime.and.returnValues(10, 30);
+
+      component.loopForm.patchValue({
+        name: 'Solo',
+        preRoll: 2,
+        countInEnabled: true,
+        countInBeats: 4,
+        countInBpm: 90
+      });
+      component.onSubmit();
+
+      const request = (component.formSubmit.emit as jasmine.Spy).calls.mostRecent().args[0].data;
+      expect(request.preRoll).toBe(2);
+      expect(request.countIn).toEqual({ beats: 4, bpm: 90 });
+    });
+
+    it('should reject a count-in tempo out of range', () => {
+      component.loopForm.patchValue({ countInEnabled: true, countInBeats: 4, countInBpm: 500 });
+
+      expect(component.loopForm.hasError('invalidCountIn')).toBe(true);
+    });
+
+    it('should include a call-and-response rest gap', () => {
+      spyOn(component.formSubmit, 'emit');
+      mockFacade.parseTime.and.returnValues(10, 30);
+
+      component.loopForm.patchValue({ name: 'Riff', restGapMode: 'call-and-response' });
+      component.onSubmit();
+
+      const request = (component.formSubmit.emit as jasmine.Spy).calls.mostRecent().args[0].data;
+      expect(request.restGap).toEqual({ mode: 'call-and-response', seconds: 4 });
+    });
+
+    it('should reject a fixed rest gap out of range', () => {
+      component.loopForm.patchValue({ restGapMode: 'gap', restGapSeconds: 0 });
+      expect(component.loopForm.hasError('invalidRestGap')).toBe(true);
+
+      component.loopForm.patchValue({ restGapMode: 'call-and-response' });
+      expect(component.loopForm.hasError('invalidRestGap')).toBe(false);
+    });
+
+    it('should include the fades when enabled and reject empty ones', () => {
+      spyOn(component.formSubmit, 'emit');
+      mockFacade.parseTime.and.returnValues(10, 30);
+
+      component.loopForm.patchValue({ name: 'Intro', fadeEnabled: true, fadeIn: 0, fadeOut: 0 });
+      expect(component.loopForm.hasError('invalidFade')).toBe(true);
+
+      component.loopForm.patchValue({ fadeIn: 0.5, fadeOut: 1 });
+      component.onSubmit();
+
+      const request = (component.formSubmit.emit as jasmine.Spy).calls.mostRecent().args[0].data;
+      expect(request.fadeInOut).toEqual({ fadeIn: 0.5, fadeOut: 1 });
+    });
   });
 
   describe('Error Messages', () => {
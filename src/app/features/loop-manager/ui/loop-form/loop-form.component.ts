@@ -3,7 +3,11 @@ import { ReactiveFormsModule, FormBuilder, FormGroup, Validators, AbstractContro
 import { CommonModule } from '@angular/common';
 import { LoopManagerFacade } from '../../services/loop-manager.facade';
 import { VideoPlayerFacade } from '../../../video-player/data-access/video-player.facade';
-import { LoopSegment, CreateLoopRequest, UpdateLoopRequest } from '@shared/interfaces';
+import { LoopSegment, CreateLoopRequest, UpdateLoopRequest, LoopCompletionAction, SpeedRampConfig, CountInConfig, RestGapConfig, RestGapMode, FadeInOutConfig } from '@shared/interfaces';
+import { DEFAULT_SPEED_RAMP_CONFIG } from '@core/services/speed-ramp.service';
+import { DEFAULT_COUNT_IN_CONFIG } from '@core/services/count-in.service';
+import { DEFAULT_REST_GAP_CONFIG } from '@core/services/rest-gap.service';
+import { DEFAULT_FADE_IN_OUT_CONFIG } from '@core/services/loop-fade.service';
 
 export interface LoopFormData {
   name: string;
@@ -11,6 +15,22 @@ export interface LoopFormData {
   endTimeText: string;
   playbackSpeed: number;
   repeatCount: number;
+  completionAction: LoopCompletionAction;
+  completionTargetId: string;
+  speedRampEnabled: boolean;
+  rampStartSpeed: number;
+  rampTargetSpeed: number;
+  rampIncrement: number;
+  rampRepetitionsPerStep: number;
+  preRoll: number;
+  countInEnabled: boolean;
+  countInBeats: number;
+  countInBpm: number;
+  restGapMode: RestGapMode | '';
+  restGapSeconds: number;
+  fadeEnabled: boolean;
+  fadeIn: number;
+  fadeOut: number;
   color: string;
 }
 
@@ -32,6 +52,8 @@ export class LoopFormComponent implements OnInit, OnChanges {
 
   @Input() editingLoop: LoopSegment | null = null;
   @Input() videoDuration?: number;
+  // Settings only the player applies, hidden where the loops are edited without being played
+  @Input() playbackSettings = true;
   @Output() formSubmit = new EventEmitter<LoopFormResult>();
   @Output() formCancel = new EventEmitter<void>();
 
@@ -47,6 +69,19 @@ export class LoopFormComponent implements OnInit, OnChanges {
     { value: 2.0, label: '2x' }
   ];
 
+  readonly completionActionOptions: { value: LoopCompletionAction; label: string }[] = [
+    { value: 'stop', label: 'Arrêter' },
+    { value: 'continue', label: 'Continuer la vidéo' },
+    { value: 'next', label: 'Passer à la boucle suivante' },
+    { value: 'jump', label: 'Sauter à une boucle' }
+  ];
+
+  readonly restGapModeOptions: { value: RestGapMode | ''; label: string }[] = [
+    { value: '', label: 'Aucun' },
+    { value: 'gap', label: 'Silence fixe' },
+    { value: 'call-and-response', label: 'Question-réponse (durée de la boucle)' }
+  ];
+
   readonly colorOptions = [
     { value: '#3B82F6', label: 'Bleu' },
     { value: '#EF4444', label: 'Rouge' },
@@ -60,6 +95,13 @@ export class LoopFormComponent implements OnInit, OnChanges {
     return this.editingLoop !== null;
   }
 
+  /**
+   * Loops available as 'jump' target, among the loops played by the player
+   */
+  get completionTargets(): LoopSegment[] {
+    return this.videoPlayerFacade.loops().filter(loop => loop.id !== this.editingLoop?.id);
+  }
+
   get formTitle(): string {
     return this.isEditMode ? 'Modifier la boucle' : 'Créer une nouvelle boucle';
   }
@@ -81,9 +123,20 @@ export class LoopFormComponent implements OnInit, OnChanges {
       endTimeText: ['0:30', [Validators.required, this.timeFormatValidator]],
       playbackSpeed: [1.0, [Validators.required, Validators.min(0.25), Validators.max(2.0)]],
       repeatCount: [1, [Validators.required, Validators.min(1), Validators.max(100)]],
+      completionAction: ['stop' as LoopCompletionAction],
+      completionTargetId: [''],
+      speedRampEnabled: [false],
+      rampStartSpeed: [DEFAULT_SPEED_RAMP_CONFIG.startSpeed],
+      rampTargetSpeed: [DEFAULT_SPEED_RAMP_CONFIG.targetSpeed],
+      rampIncrement: [DEFAULT_SPEED_RAMP_CONFIG.increment],
+      rampRepetitionsPerStep: [DEFAULT_SPEED_RAMP_CONFIG.repetitionsPerStep],
+      preRoll: [0, [Validators.min(0), Validators.max(10)]],
+      ...this.countInFormValue(undefined),
+      ...this.restGapFormValue(undefined),
+      ...this.fadeFormValue(undefined),
       color: ['#3B82F6', [Validators.required]]
     }, { 
-      validators: [this.timeRangeValidator, this.videoDurationValidator]
+      validators: [this.timeRangeValidator, this.videoDurationValidator, this.completionTargetValidator, this.speedRampValidator, this.countInValidator, this.restGapValidator, this.fadeValidator]
     });
 
     this.populateFormFromLoop();
@@ -97,6 +150,13 @@ export class LoopFormComponent implements OnInit, OnChanges {
         endTimeText: this.facade.formatTime(this.editingLoop.endTime),
         playbackSpeed: this.editingLoop.playbackSpeed,
         repeatCount: this.editingLoop.repeatCount || 1,
+        completionAction: this.editingLoop.completionAction || 'stop',
+        completionTargetId: this.editingLoop.completionTargetId || '',
+        ...this.speedRampFormValue(this.editingLoop.speedRamp),
+        preRoll: this.editingLoop.preRoll || 0,
+        ...this.countInFormValue(this.editingLoop.countIn),
+        ...this.restGapFormValue(this.editingLoop.restGap),
+        ...this.fadeFormValue(this.editingLoop.fadeInOut),
         color: this.editingLoop.color || '#3B82F6'
       });
     }
@@ -159,6 +219,127 @@ export class LoopFormComponent implements OnInit, OnChanges {
     return null;
   };
 
+  private completionTargetValidator = (form: AbstractControl): ValidationErrors | null => {
+    if (form.get('completionAction')?.value !== 'jump') return null;
+
+    return form.get('completionTargetId')?.value ? null : { missingCompletionTarget: true };
+  };
+
+  private speedRampValidator = (form: AbstractControl): ValidationErrors | null => {
+    if (!form.get('speedRampEnabled')?.value) return null;
+
+    const start = Number(form.get('rampStartSpeed')?.value);
+    const target = Number(form.get('rampTargetSpeed')?.value);
+    const increment = Number(form.get('rampIncrement')?.value);
+    const repetitions = Number(form.get('rampRepetitionsPerStep')?.value);
+    const isValid = start >= 0.25 && target <= 2 && start <= target &&
+      increment >= 0 && repetitions >= 1;
+
+    return isValid ? null : { invalidSpeedRamp: true };
+  };
+
+  private countInValidator = (form: AbstractControl): ValidationErrors | null => {
+    if (!form.get('countInEnabled')?.value) return null;
+
+    const beats = Number(form.get('countInBeats')?.value);
+    const bpm = Number(form.get('countInBpm')?.value);
+    const isValid = Number.isInteger(beats) && beats >= 1 && beats <= 16 && bpm >= 30 && bpm <= 300;
+
+    return isValid ? null : { invalidCountIn: true };
+  };
+
+  // The call-and-response rest lasts as long as the loop, only a fixed gap needs a length
+  private restGapValidator = (form: AbstractControl): ValidationErrors | null => {
+    if (form.get('restGapMode')?.value !== 'gap') return null;
+
+    const seconds = Number(form.get('restGapSeconds')?.value);
+    return seconds >= 0.5 && seconds <= 60 ? null : { invalidRestGap: true };
+  };
+
+  private fadeValidator = (form: AbstractControl): ValidationErrors | null => {
+    if (!form.get('fadeEnabled')?.value) return null;
+
+    const fadeIn = Number(form.get('fadeIn')?.value);
+    const fadeOut = Number(form.get('fadeOut')?.value);
+    const isValid = fadeIn >= 0 && fadeIn <= 5 && fadeOut >= 0 && fadeOut <= 5 && fadeIn + fadeOut > 0;
+
+    return isValid ? null : { invalidFade: true };
+  };
+
+  private speedRampFormValue(config: SpeedRampConfig | undefined) {
+    const ramp = config ?? DEFAULT_SPEED_RAMP_CONFIG;
+    return {
+      speedRampEnabled: !!config,
+      rampStartSpeed: ramp.startSpeed,
+      rampTargetSpeed: ramp.targetSpeed,
+      rampIncrement: ramp.increment,
+      rampRepetitionsPerStep: ramp.repetitionsPerStep
+    };
+  }
+
+  private countInFormValue(config: CountInConfig | undefined) {
+    const countIn = config ?? DEFAULT_COUNT_IN_CONFIG;
+    return {
+      countInEnabled: !!config,
+      countInBeats: countIn.beats,
+      countInBpm: countIn.bpm
+    };
+  }
+
+  private countInFromForm(formValue: LoopFormData): CountInConfig | null {
+    if (!formValue.countInEnabled) return null;
+
+    return {
+      beats: Number(formValue.countInBeats),
+      bpm: Number(formValue.countInBpm)
+    };
+  }
+
+  private restGapFormValue(config: RestGapConfig | undefined) {
+    return {
+      restGapMode: config?.mode ?? '',
+      restGapSeconds: (config ?? DEFAULT_REST_GAP_CONFIG).seconds
+    };
+  }
+
+  private restGapFromForm(formValue: LoopFormData): RestGapConfig | null {
+    if (!formValue.restGapMode) return null;
+
+    return {
+      mode: formValue.restGapMode,
+      seconds: Number(formValue.restGapSeconds)
+    };
+  }
+
+  private fadeFormValue(config: FadeInOutConfig | undefined) {
+    const fade = config ?? DEFAULT_FADE_IN_OUT_CONFIG;
+    return {
+      fadeEnabled: !!config,
+      fadeIn: fade.fadeIn,
+      fadeOut: fade.fadeOut
+    };
+  }
+
+  private fadeFromForm(formValue: LoopFormData): FadeInOutConfig | null {
+    if (!formValue.fadeEnabled) return null;
+
+    return {
+      fadeIn: Number(formValue.fadeIn),
+      fadeOut: Number(formValue.fadeOut)
+    };
+  }
+
+  private speedRampFromForm(formValue: LoopFormData): SpeedRampConfig | null {
+    if (!formValue.speedRampEnabled) return null;
+
+    return {
+      startSpeed: Number(formValue.rampStartSpeed),
+      targetSpeed: Number(formValue.rampTargetSpeed),
+      increment: Number(formValue.rampIncrement),
+      repetitionsPerStep: Number(formValue.rampRepetitionsPerStep)
+    };
+  }
+
   onSubmit(): void {
     if (this.loopForm.invalid) {
       this.markFormGroupTouched();
@@ -168,6 +349,15 @@ export class LoopFormComponent implements OnInit, OnChanges {
     const formValue = this.loopForm.value;
     const startTime = this.facade.parseTime(formValue.startTimeText);
     const endTime = this.facade.parseTime(formValue.endTimeText);
+    const completion = {
+      completionAction: formValue.completionAction,
+      ...(formValue.completionAction === 'jump' && { completionTargetId: formValue.completionTargetId })
+    };
+    const speedRamp = this.speedRampFromForm(formValue);
+    const countIn = this.countInFromForm(formValue);
+    const restGap = this.restGapFromForm(formValue);
+    const fadeInOut = this.fadeFromForm(formValue);
+    const preRoll = Number(formValue.preRoll) || 0;
 
     if (this.isEditMode && this.editingLoop) {
       const updateRequest: UpdateLoopRequest = {
@@ -177,6 +367,13 @@ export class LoopFormComponent implements OnInit, OnChanges {
         endTime,
         playbackSpeed: formValue.playbackSpeed,
         repeatCount: formValue.repeatCount,
+        ...completion,
+        // null only when disabling an existing speed trainer
+        ...((speedRamp || this.editingLoop.speedRamp) && { speedRamp }),
+        preRoll,
+        ...((countIn || this.editingLoop.countIn) && { countIn }),
+        ...((restGap || this.editingLoop.restGap) && { restGap }),
+        ...((fadeInOut || this.editingLoop.fadeInOut) && { fadeInOut }),
         color: formValue.color
       };
 
@@ -191,6 +388,12 @@ export class LoopFormComponent implements OnInit, OnChanges {
         endTime,
         playbackSpeed: formValue.playbackSpeed,
         repeatCount: formValue.repeatCount,
+        ...completion,
+        ...(speedRamp && { speedRamp }),
+        ...(preRoll > 0 && { preRoll }),
+        ...(countIn && { countIn }),
+        ...(restGap && { restGap }),
+        ...(fadeInOut && { fadeInOut }),
         color: formValue.color
       };
 
@@ -213,6 +416,13 @@ export class LoopFormComponent implements OnInit, OnChanges {
       endTimeText: '0:30',
       playbackSpeed: 1.0,
       repeatCount: 1,
+      completionAction: 'stop',
+      completionTargetId: '',
+      ...this.speedRampFormValue(undefined),
+      preRoll: 0,
+      ...this.countInFormValue(undefined),
+      ...this.restGapFormValue(undefined),
+      ...this.fadeFormValue(undefined),
       color: '#3B82F6'
     });
   }
@@ -388,6 +598,13 @@ export class LoopFormComponent implements OnInit, OnChanges {
   get endTimeControl() { return this.loopForm.get('endTimeText'); }
   get playbackSpeedControl() { return this.loopForm.get('playbackSpeed'); }
   get repeatCountControl() { return this.loopForm.get('repeatCount'); }
+  get completionActionControl() { return this.loopForm.get('completionAction'); }
+  get completionTargetIdControl() { return this.loopForm.get('completionTargetId'); }
+  get speedRampEnabledControl() { return this.loopForm.get('speedRampEnabled'); }
+  get preRollControl() { return this.loopForm.get('preRoll'); }
+  get countInEnabledControl() { return this.loopForm.get('countInEnabled'); }
+  get restGapModeControl() { return this.loopForm.get('restGapMode'); }
+  get fadeEnabledControl() { return this.loopForm.get('fadeEnabled'); }
   get colorControl() { return this.loopForm.get('color'); }
 
   // Error message getters
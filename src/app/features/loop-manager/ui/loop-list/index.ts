@@ -1 +1,2 @@
-export { LoopListComponent, LoopListAction } from './loop-list.component';
\ No newline at end of file
+export { LoopListComponent } from './loop-list.component';
+export type { LoopListAction } from './loop-list.component';
@@ -1,13 +1,20 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
 import { LoopListComponent, LoopListAction } from './loop-list.component';
-import { LoopManagerFacade } from '../../services/loop-manager.facade';
+import { VideoPlayerFacade } from '../../../video-player/data-access/video-player.facade';
 import { LoopSegment } from '@shared/interfaces';
 import { signal } from '@angular/core';
+import { LoopGroup } from '@core/models/loop.model';
+import { ShufflePracticeSummary } from '../../../video-player/data-access/video-player.facade';
 
 describe('LoopListComponent', () => {
   let component: LoopListComponent;
   let fixture: ComponentFixture<LoopListComponent>;
-  let mockFacade: jasmine.SpyObj<LoopManagerFacade>;
+  let mockFacade: jasmine.SpyObj<VideoPlayerFacade>;
+  const loops = signal<LoopSegment[]>([]);
+  const groups = signal<LoopGroup[]>([]);
+  const currentLoop = signal<LoopSegment | null>(null);
+  const isShuffling = signal(false);
+  const shuffleSummary = signal<ShufflePracticeSummary | null>(null);
 
   const mockLoops: LoopSegment[] = [
     {
@@ -35,19 +42,28 @@ describe('LoopListComponent', () => {
   ];
 
   beforeEach(async () => {
-    const facadeSpy = jasmine.createSpyObj('LoopManagerFacade', [
-      'formatTime'
+    loops.set(mockLoops);
+    groups.set([]);
+    currentLoop.set(mockLoops[0]);
+    isShuffling.set(false);
+    shuffleSummary.set(null);
+
+    const facadeSpy = jasmine.createSpyObj('VideoPlayerFacade', [
+      'formatTime',
+      'moveLoopToGroup',
+      'playGroup',
+      'stopGroup',
+      'startShufflePractice',
+      'stopShufflePractice',
+      'clearShuffleSummary'
     ], {
-      vm: jasmine.createSpy('vm').and.returnValue({
-        loops: mockLoops,
-        activeLoop: mockLoops[0],
-        isLooping: false,
-        hasLoops: true,
-        totalLoops: 2,
-        activeLoopIndex: 0,
-        canStartLoop: true,
-        lastError: null
-      })
+      loops,
+      groups,
+      currentLoop,
+      isLooping: signal(false),
+      playingGroupId: signal(null),
+      isShuffling,
+      shuffleSummary
     });
 
     facadeSpy.formatTime.and.callFake((seconds: number) => {
@@ -59,14 +75,14 @@ describe('LoopListComponent', () => {
     await TestBed.configureTestingModule({
       imports: [LoopListComponent],
       providers: [
-        { provide: LoopManagerFacade, useValue: facadeSpy }
+        { provide: VideoPlayerFacade, useValue: facadeSpy }
       ]
     })
     .compileComponents();
 
     fixture = TestBed.createComponent(LoopListComponent);
     component = fixture.componentInstance;
-    mockFacade = TestBed.inject(LoopManagerFacade) as jasmine.SpyObj<LoopManagerFacade>;
+    mockFacade = TestBed.inject(VideoPlayerFacade) as jasmine.SpyObj<VideoPlayerFacade>;
     fixture.detectChanges();
   });
 
@@ -163,16 +179,8 @@ describe('LoopListComponent', () => {
 
   describe('Empty State', () => {
     beforeEach(() => {
-      mockFacade.vm.and.returnValue({
-        loops: [],
-        activeLoop: null,
-        isLooping: false,
-        hasLoops: false,
-        totalLoops: 0,
-        activeLoopIndex: -1,
-        canStartLoop: false,
-        lastError: null
-      });
+      loops.set([]);
+      currentLoop.set(null);
       fixture.detectChanges();
     });
 
@@ -188,6 +196,99 @@ describe('LoopListComponent', () => {
     });
   });
 
+  describe('Loop Groups', () => {
+    const group = {
+      id: 'group-1',
+      name: 'Lent',
+      color: '#10B981',
+      loops: ['2'],
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    beforeEach(() => {
+      currentLoop.set(null);
+      groups.set([group]);
+      fixture = TestBed.createComponent(LoopListComponent);
+      component = fixture.componentInstance;
+      fixture.detectChanges();
+    });
+
+    it('should list grouped loops before the ungrouped ones', () => {
+      const sections = component.sections();
+
+      expect(sections.map(section => section.loops.map(loop => loop.id))).toEqual([['2'], ['1']]);
+      expect(fixture.nativeElement.querySelector('.group-name-input').value).toBe('Lent');
+      expect(component.sortedLoops().map(loop => loop.id)).toEqual(['2', '1']);
+    });
+
+    it('should hide the loops of a collapsed group from keyboard navigation', () => {
+      component.toggleCollapsed(component.sections()[0]!);
+
+      expect(component.sortedLoops().map(loop => loop.id)).toEqual(['1']);
+    });
+
+    it('should move a dropped loop into the group before the target card', () => {
+      const dropEvent = new DragEvent('drop');
+      component.onLoopDragStart(new DragEvent('dragstart'), mockLoops[0]);
+
+      component.onSectionDrop(dropEvent, component.sections()[0]!, mockLoops[1]);
+
+      expect(mockFacade.moveLoopToGroup).toHaveBeenCalledWith('1', 'group-1', 0);
+      expect(component.draggedLoopId()).toBeNull();
+    });
+
+    it('should ungroup a loop dropped outside any group', () => {
+      component.onLoopDragStart(new DragEvent('dragstart'), mockLoops[1]);
+
+      component.onSectionDrop(new DragEvent('drop'), component.sections()[1]!);
+
+      expect(mockFacade.moveLoopToGroup).toHaveBeenCalledWith('2', null);
+    });
+
+    it('should play the group loops in sequence', () => {
+      component.toggleGroupPlayback(group);
+
+      expect(mockFacade.playGroup).toHaveBeenCalledWith('group-1');
+    });
+  });
+
+  describe('Shuffle Practice', () => {
+    it('should start and stop the shuffle practice and show its summary', () => {
+      component.toggleShufflePractice();
+      expect(mockFacade.startShufflePractice).toHaveBeenCalledWith({ weights: {}, avoidRepeats: true });
+
+      isShuffling.set(true);
+      component.toggleShufflePractice();
+      expect(mockFacade.stopShufflePractice).toHaveBeenCalled();
+
+      shuffleSummary.set({
+        totalPicks: 3,
+        loops: [{ loopId: '2', name: 'Second Loop', count: 2 }, { loopId: '1', name: 'First Loop', count: 1 }]
+      });
+      fixture.detectChanges();
+
+      const items = fixture.nativeElement.querySelectorAll('.shuffle-summary-list li');
+      expect(items.length).toBe(2);
+      expect(items[0].textContent).toContain('2×');
+    });
+
+    it('should start the shuffle practice with the chosen weights and repeat option', () => {
+      component.toggleShuffleOptions();
+      fixture.detectChanges();
+
+      expect(fixture.nativeElement.querySelectorAll('.shuffle-weights input').length).toBe(2);
+
+      component.setShuffleWeight('1', '0');
+      component.setShuffleWeight('2', 12);
+      component.shuffleAvoidRepeats.set(false);
+      component.toggleShufflePractice();
+
+      expect(component.shuffleWeightOf('2')).toBe(5);
+      expect(mockFacade.startShufflePractice).toHaveBeenCalledWith({ weights: { '1': 0, '2': 5 }, avoidRepeats: false });
+    });
+  });
+
   describe('Responsive Behavior', () => {
     it('should handle loop cards with different viewport sizes', () => {
       const compiled = fixture.nativeElement;
@@ -1,31 +1,264 @@
-import { Component, Output, EventEmitter, inject, computed, HostListener } from '@angular/core';
+import { Component, Output, EventEmitter, inject, computed, signal, HostListener } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { LoopManagerFacade } from '../../services/loop-manager.facade';
+import { VideoPlayerFacade } from '../../../video-player/data-access/video-player.facade';
 import { LoopSegment } from '@shared/interfaces';
+import { LoopGroup } from '@core/models/loop.model';
+import { ChapterImportComponent } from '../chapter-import';
 
 export interface LoopListAction {
   type: 'play' | 'edit' | 'delete' | 'duplicate';
   loop: LoopSegment;
 }
 
+// A group of loops, or the loops outside any group (group: null)
+export interface LoopListSection {
+  id: string;
+  group: LoopGroup | null;
+  loops: LoopSegment[];
+}
+
+const UNGROUPED_SECTION_ID = 'ungrouped';
+
+// Highest relative weight offered for a loop in the shuffle practice
+const MAX_SHUFFLE_WEIGHT = 5;
+
 @Component({
   selector: 'app-loop-list',
-  imports: [CommonModule],
+  imports: [CommonModule, ChapterImportComponent],
   templateUrl: './loop-list.component.html',
   styleUrl: './loop-list.component.scss'
 })
 export class LoopListComponent {
-  private readonly facade = inject(LoopManagerFacade);
+  // Loops and groups of the player session, played by the player
+  private readonly facade = inject(VideoPlayerFacade);
 
   @Output() loopAction = new EventEmitter<LoopListAction>();
   @Output() loopSelect = new EventEmitter<LoopSegment>();
 
-  readonly vm = this.facade.vm;
-  
+  readonly vm = computed(() => {
+    const loops = this.facade.loops();
+    return {
+      loops,
+      groups: this.facade.groups(),
+      totalLoops: loops.length,
+      hasLoops: loops.length > 0,
+      activeLoop: this.facade.currentLoop(),
+      isLooping: this.facade.isLooping(),
+      playingGroupId: this.facade.playingGroupId(),
+      isShuffling: this.facade.isShuffling()
+    };
+  });
+  readonly showChapterImport = signal(false);
+  readonly importMessage = signal<string | null>(null);
+
+  // Shuffle practice options, 1 for loops without a weight, and the summary of the last practice
+  readonly shuffleSummary = this.facade.shuffleSummary;
+  readonly maxShuffleWeight = MAX_SHUFFLE_WEIGHT;
+  readonly showShuffleOptions = signal(false);
+  readonly shuffleAvoidRepeats = signal(true);
+  readonly shuffleWeights = signal<Record<string, number>>({});
+
+  // Group display and drag-and-drop state
+  readonly collapsedGroupIds = signal<ReadonlySet<string>>(new Set());
+  readonly draggedLoopId = signal<string | null>(null);
+  readonly dropTargetId = signal<string | null>(null);
+
+  // Groups in creation order, then the ungrouped loops by start time
+  readonly sections = computed<LoopListSection[]>(() => {
+    const { loops, groups } = this.vm();
+    const loopsById = new Map(loops.map(loop => [loop.id, loop]));
+    const groupedIds = new Set(groups.flatMap(group => group.loops));
+
+    const groupSections = groups.map(group => ({
+      id: group.id,
+      group,
+      loops: group.loops
+        .map(id => loopsById.get(id))
+        .filter((loop): loop is LoopSegment => loop !== undefined)
+    }));
+    const ungrouped = loops
+      .filter(loop => !groupedIds.has(loop.id))
+      .sort((a, b) => a.startTime - b.startTime);
+
+    return [...groupSections, { id: UNGROUPED_SECTION_ID, group: null, loops: ungrouped }];
+  });
+
+  // Loops in display order, without the collapsed groups (keyboard navigation order)
   readonly sortedLoops = computed(() => {
-    return [...this.vm().loops].sort((a, b) => a.startTime - b.startTime);
+    const collapsed = this.collapsedGroupIds();
+    return this.sections()
+      .filter(section => !collapsed.has(section.id))
+      .flatMap(section => section.loops);
   });
 
+  toggleChapterImport(): void {
+    this.showChapterImport.update(visible => !visible);
+  }
+
+  // === Groups ===
+
+  createGroup(): void {
+    this.facade.createGroup(`Groupe ${this.vm().groups.length + 1}`);
+  }
+
+  renameGroup(group: LoopGroup, name: string): void {
+    if (name.trim() && name.trim() !== group.name) {
+      this.facade.updateGroup(group.id, { name });
+    }
+  }
+
+  recolorGroup(group: LoopGroup, color: string): void {
+    this.facade.updateGroup(group.id, { color });
+  }
+
+  deleteGroup(group: LoopGroup): void {
+    this.facade.deleteGroup(group.id);
+  }
+
+  toggleGroupPlayback(group: LoopGroup): void {
+    if (this.vm().playingGroupId === group.id) {
+      this.facade.stopGroup();
+    } else {
+      this.facade.playGroup(group.id);
+    }
+  }
+
+  isCollapsed(section: LoopListSection): boolean {
+    return this.collapsedGroupIds().has(section.id);
+  }
+
+  toggleCollapsed(section: LoopListSection): void {
+    this.collapsedGroupIds.update(ids => {
+      const next = new Set(ids);
+      if (next.has(section.id)) {
+        next.delete(section.id);
+      } else {
+        next.add(section.id);
+      }
+      return next;
+    });
+  }
+
+  // Index of a loop in keyboard navigation order
+  indexOfLoop(loop: LoopSegment): number {
+    return this.sortedLoops().indexOf(loop);
+  }
+
+  getSectionDuration(section: LoopListSection): string {
+    return this.formatDuration(section.loops.reduce((total, loop) => total + this.calculateDuration(loop), 0));
+  }
+
+  // === Shuffle practice ===
+
+  /**
+   * Start an interleaved practice on the loops, or end it and show how often each loop came up
+   */
+  toggleShufflePractice(): void {
+    if (this.vm().isShuffling) {
+      this.facade.stopShufflePractice();
+      return;
+    }
+
+    this.facade.startShufflePractice({
+      weights: this.shuffleWeights(),
+      avoidRepeats: this.shuffleAvoidRepeats()
+    });
+  }
+
+  toggleShuffleOptions(): void {
+    this.showShuffleOptions.update(visible => !visible);
+  }
+
+  shuffleWeightOf(loopId: string): number {
+    return this.shuffleWeights()[loopId] ?? 1;
+  }
+
+  /**
+   * Set how often a loop comes up in the shuffle practice, 0 leaves it out
+   */
+  setShuffleWeight(loopId: string, value: string | number): void {
+    const weight = Math.round(Number(value));
+    if (!Number.isFinite(weight)) return;
+
+    this.shuffleWeights.update(weights => ({
+      ...weights,
+      [loopId]: Math.max(0, Math.min(MAX_SHUFFLE_WEIGHT, weight))
+    }));
+  }
+
+  closeShuffleSummary(): void {
+    this.facade.clearShuffleSummary();
+  }
+
+  // === Drag and drop ===
+
+  onLoopDragStart(event: DragEvent, loop: LoopSegment): void {
+    this.draggedLoopId.set(loop.id);
+    if (event.dataTransfer) {
+      event.dataTransfer.effectAllowed = 'move';
+      event.dataTransfer.setData('text/plain', loop.id);
+    }
+  }
+
+  onLoopDragEnd(): void {
+    this.draggedLoopId.set(null);
+    this.dropTargetId.set(null);
+  }
+
+  onSectionDragOver(event: DragEvent, section: LoopListSection): void {
+    if (!this.draggedLoopId()) return;
+
+    // Accept the drop
+    event.preventDefault();
+    this.dropTargetId.set(section.id);
+  }
+
+  onSectionDragLeave(event: DragEvent, section: LoopListSection): void {
+    const target = event.currentTarget as HTMLElement | null;
+    if (this.dropTargetId() === section.id && !target?.contains(event.relatedTarget as Node | null)) {
+      this.dropTargetId.set(null);
+    }
+  }
+
+  /**
+   * Drop a loop into a section, before `beforeLoop` when dropped on a card
+   */
+  onSectionDrop(event: DragEvent, section: LoopListSection, beforeLoop?: LoopSegment): void {
+    const loopId = this.draggedLoopId() ?? event.dataTransfer?.getData('text/plain');
+    event.preventDefault();
+    event.stopPropagation();
+    this.onLoopDragEnd();
+
+    if (!loopId || loopId === beforeLoop?.id) return;
+
+    if (!section.group) {
+      this.facade.moveLoopToGroup(loopId, null);
+      return;
+    }
+
+    const index = beforeLoop
+      ? section.group.loops.filter(id => id !== loopId).indexOf(beforeLoop.id)
+      : -1;
+    this.facade.moveLoopToGroup(loopId, section.group.id, index === -1 ? undefined : index);
+  }
+
+  // === Export / import ===
+
+  exportLoops(): void {
+    this.facade.exportLoopsToFile();
+  }
+
+  async onImportFileSelected(input: HTMLInputElement): Promise<void> {
+    const file = input.files?.[0];
+    if (!file) return;
+
+    const imported = await this.facade.importLoopsFromFile(file);
+    this.importMessage.set(imported > 0
+      ? `${imported} boucle${imported > 1 ? 's' : ''} importée${imported > 1 ? 's' : ''}`
+      : 'Aucune boucle importée : fichier invalide');
+    input.value = '';
+  }
+
   onPlayLoop(loop: LoopSegment): void {
     this.loopAction.emit({ type: 'play', loop });
   }
@@ -1,5 +1,7 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
 import { signal } from '@angular/core';
+import { ActivatedRoute, convertToParamMap } from '@angular/router';
+import { BehaviorSubject } from 'rxjs';
 import { LoopManagerComponent } from './loop-manager.component';
 import { LoopManagerFacade } from '../../data-access/loop-manager.facade';
 import { LoopSegment } from '@core/models/loop.model';
@@ -8,6 +10,7 @@ describe('LoopManagerComponent', () => {
   let component: LoopManagerComponent;
   let fixture: ComponentFixture<LoopManagerComponent>;
   let mockLoopManagerFacade: jasmine.SpyObj<LoopManagerFacade>;
+  let queryParams: BehaviorSubject<any>;
 
   const mockLoops: LoopSegment[] = [
     {
@@ -16,6 +19,9 @@ describe('LoopManagerComponent', () => {
       startTime: 30,
       endTime: 60,
       color: '#ff0000',
+      playbackSpeed: 1,
+      playCount: 0,
+      isActive: false,
       createdAt: new Date(),
       updatedAt: new Date()
     },
@@ -25,6 +31,9 @@ describe('LoopManagerComponent', () => {
       startTime: 90,
       endTime: 120,
       color: '#00ff00',
+      playbackSpeed: 1,
+      playCount: 0,
+      isActive: false,
       createdAt: new Date(),
       updatedAt: new Date()
     }
@@ -36,7 +45,8 @@ describe('LoopManagerComponent', () => {
       'updateLoop', 
       'deleteLoop',
       'playLoop',
-      'stopLoop'
+      'stopLoop',
+      'setVideoContext'
     ], {
       loops: signal(mockLoops),
       currentLoop: signal(null),
@@ -44,10 +54,13 @@ describe('LoopManagerComponent', () => {
       error: signal(null)
     });
 
+    queryParams = new BehaviorSubject(convertToParamMap({ v: 'dQw4w9WgXcQ' }));
+
     await TestBed.configureTestingModule({
       imports: [LoopManagerComponent],
       providers: [
-        { provide: LoopManagerFacade, useValue: spy }
+        { provide: LoopManagerFacade, useValue: spy },
+        { provide: ActivatedRoute, useValue: { queryParamMap: queryParams.asObservable() } }
       ]
     }).compileComponents();
 
@@ -61,6 +74,13 @@ describe('LoopManagerComponent', () => {
     expect(component).toBeTruthy();
   });
 
+  it('should scope the undo history to the video of the link', () => {
+    expect(mockLoopManagerFacade.setVideoContext).toHaveBeenCalledWith('dQw4w9WgXcQ');
+
+    queryParams.next(convertToParamMap({}));
+    expect(mockLoopManagerFacade.setVideoContext).toHaveBeenCalledWith(null);
+  });
+
   it('should display loops in view model', () => {
     expect(component.vm().loops).toEqual(mockLoops);
     expect(component.vm().totalLoops).toBe(2);
@@ -1,6 +1,8 @@
-import { Component, OnInit, Output, EventEmitter, inject, computed, signal, ChangeDetectionStrategy } from '@angular/core';
+import { Component, OnInit, Output, EventEmitter, inject, computed, signal, ChangeDetectionStrategy, DestroyRef } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { CommonModule } from '@angular/common';
 import { ReactiveFormsModule } from '@angular/forms';
+import { ActivatedRoute } from '@angular/router';
 import { LoopManagerFacade } from '../../data-access/loop-manager.facade';
 import { LoopFormComponent } from '../loop-form/loop-form.component';
 import { LoopSegment } from '@shared/interfaces/loop.types';
@@ -28,6 +30,8 @@ export interface LoopManagerViewModel {
 })
 export class LoopManagerComponent implements OnInit {
   private readonly loopManagerFacade = inject(LoopManagerFacade);
+  private readonly route = inject(ActivatedRoute);
+  private readonly destroyRef = inject(DestroyRef);
 
   // Timeline synchronization outputs
   @Output() syncWithTimeline = new EventEmitter<{
@@ -81,6 +85,11 @@ export class LoopManagerComponent implements OnInit {
   ngOnInit(): void {
     // Initialize loop manager
     console.log('LoopManagerComponent initialized');
+
+    // The undo history follows the video of the link (?v=)
+    this.route.queryParamMap
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(params => this.loopManagerFacade.setVideoContext(params.get('v')));
   }
 
   // Actions
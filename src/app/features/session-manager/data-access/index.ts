@@ -1 +1,7 @@
-export { SessionFacade } from './session.facade';
\ No newline at end of file
+export { SessionFacade } from './session.facade';
+export { RoutineFacade } from './routine.facade';
+export type { RoutineItemView } from './routine.facade';
+export { RoutinePlayerFacade } from './routine-player.facade';
+export type { RoutinePlayerViewModel, RoutinePlaybackStatus } from './routine-player.facade';
+export { ReviewPlayerFacade } from './review-player.facade';
+export type { ReviewPlayerViewModel, ReviewPlaybackStatus } from './review-player.facade';
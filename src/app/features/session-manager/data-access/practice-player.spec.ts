@@ -0,0 +1,75 @@
+import { signal } from '@angular/core';
+import { PracticePlayer } from './practice-player';
+
+describe('PracticePlayer', () => {
+  let player: PracticePlayer;
+  let mockYouTubeService: any;
+  let mockLoopEngine: any;
+
+  const loop = (id: string, startTime: number) => ({ id, startTime, endTime: startTime + 10 });
+
+  beforeEach(() => {
+    mockYouTubeService = {
+      initializePlayer: jasmine.createSpy('initializePlayer').and.returnValue(Promise.resolve()),
+      loadVideo: jasmine.createSpy('loadVideo').and.returnValue(Promise.resolve()),
+      play: jasmine.createSpy('play'),
+      pause: jasmine.createSpy('pause'),
+      seekTo: jasmine.createSpy('seekTo'),
+      setPlaybackRate: jasmine.createSpy('setPlaybackRate'),
+      destroy: jasmine.createSpy('destroy'),
+      getCurrentTime: jasmine.createSpy('getCurrentTime').and.returnValue(0),
+      getPlaybackRate: jasmine.createSpy('getPlaybackRate').and.returnValue(1),
+      playerState: signal({ isPlaying: false })
+    };
+
+    mockLoopEngine = {
+      attach: jasmine.createSpy('attach'),
+      detach: jasmine.createSpy('detach'),
+      start: jasmine.createSpy('start'),
+      stop: jasmine.createSpy('stop')
+    };
+
+    player = new PracticePlayer(mockYouTubeService, mockLoopEngine);
+    player.setElement('practice-player');
+  });
+
+  it('should create the player once and only load the other videos', async () => {
+    await player.play('videoA', loop('a', 10), 1);
+    await player.play('videoA', loop('b', 30), 1);
+    await player.play('videoB', loop('c', 50), 1);
+
+    expect(mockYouTubeService.initializePlayer).toHaveBeenCalledOnceWith('practice-player', 'videoA');
+    expect(mockYouTubeService.loadVideo).toHaveBeenCalledOnceWith('videoB');
+  });
+
+  it('should only start the last requested loop', async () => {
+    const first = player.play('videoA', loop('a', 10), 1);
+    const second = player.play('videoA', loop('b', 30), 0.5);
+
+    expect(await first).toBeFalse();
+    expect(await second).toBeTrue();
+    expect(mockLoopEngine.start).toHaveBeenCalledOnceWith(loop('b', 30));
+    expect(mockYouTubeService.setPlaybackRate).toHaveBeenCalledOnceWith(0.5);
+  });
+
+  it('should ignore the load error of a superseded loop', async () => {
+    mockYouTubeService.initializePlayer.and.returnValue(Promise.reject(new Error('Vidéo introuvable')));
+
+    const pending = player.play('videoA', loop('a', 10), 1);
+    player.stop();
+
+    expect(await pending).toBeFalse();
+    expect(mockLoopEngine.start).not.toHaveBeenCalled();
+  });
+
+  it('should destroy the player only once a video is loaded', async () => {
+    player.destroy();
+    expect(mockYouTubeService.destroy).not.toHaveBeenCalled();
+
+    await player.play('videoA', loop('a', 10), 1);
+    player.destroy();
+
+    expect(mockLoopEngine.detach).toHaveBeenCalled();
+    expect(mockYouTubeService.destroy).toHaveBeenCalled();
+  });
+});
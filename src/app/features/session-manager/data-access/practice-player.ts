@@ -0,0 +1,115 @@
+import { YouTubeService } from '@core/services/youtube.service';
+import {
+  LoopEngineListener,
+  LoopEngineSegment,
+  LoopPlaybackEngineService
+} from '@core/services/loop-playback-engine.service';
+
+/**
+ * Player YouTube et moteur de boucle d'une lecture enchaînée (routine, révision) :
+ * le player est créé à la première vidéo puis réutilisé, et seule la dernière
+ * boucle demandée démarre quand plusieurs chargements se chevauchent.
+ *
+ * Le moteur doit être une instance propre au composant, pas celle du lecteur vidéo.
+ */
+export class PracticePlayer {
+  private elementId: string | null = null;
+  private loadedVideoId: string | null = null;
+  // Incrémenté à chaque nouvelle boucle pour ignorer les chargements obsolètes
+  private playToken = 0;
+
+  constructor(
+    private readonly youtubeService: YouTubeService,
+    private readonly loopEngine: LoopPlaybackEngineService,
+    listener?: LoopEngineListener
+  ) {
+    this.loopEngine.attach({
+      getCurrentTime: () => this.youtubeService.getCurrentTime(),
+      getPlaybackRate: () => this.youtubeService.getPlaybackRate(),
+      isPlaying: () => this.youtubeService.playerState().isPlaying,
+      seekTo: (seconds: number) => this.youtubeService.seekTo(seconds)
+    }, listener);
+  }
+
+  /**
+   * Élément DOM dans lequel le player est créé
+   */
+  setElement(elementId: string): void {
+    this.elementId = elementId;
+  }
+
+  hasElement(): boolean {
+    return this.elementId !== null;
+  }
+
+  /**
+   * Ouvre la vidéo si besoin et lance la boucle à sa vitesse
+   * @returns false si une autre boucle a été demandée pendant le chargement
+   * @throws L'erreur de chargement de la vidéo, si la boucle est toujours attendue
+   */
+  async play(videoId: string, loop: LoopEngineSegment, playbackSpeed: number): Promise<boolean> {
+    const token = ++this.playToken;
+    this.loopEngine.stop();
+
+    try {
+      await this.showVideo(videoId);
+    } catch (error) {
+      if (token !== this.playToken) {
+        return false;
+      }
+      throw error;
+    }
+    if (token !== this.playToken) {
+      return false;
+    }
+
+    this.youtubeService.seekTo(loop.startTime);
+    this.youtubeService.setPlaybackRate(playbackSpeed);
+    this.youtubeService.play();
+    this.loopEngine.start(loop);
+    return true;
+  }
+
+  pause(): void {
+    this.youtubeService.pause();
+  }
+
+  resume(): void {
+    this.youtubeService.play();
+  }
+
+  /**
+   * Arrête la boucle et annule le chargement en cours, le player reste ouvert
+   */
+  stop(): void {
+    this.playToken++;
+    this.loopEngine.stop();
+    if (this.loadedVideoId) {
+      this.youtubeService.pause();
+    }
+  }
+
+  /**
+   * Libère le player à la destruction du composant
+   */
+  destroy(): void {
+    this.playToken++;
+    this.loopEngine.detach();
+    if (this.loadedVideoId) {
+      this.youtubeService.destroy();
+      this.loadedVideoId = null;
+    }
+  }
+
+  /**
+   * Crée le player à la première vidéo, puis change de vidéo uniquement si besoin
+   */
+  private async showVideo(videoId: string): Promise<void> {
+    if (!this.loadedVideoId) {
+      await this.youtubeService.initializePlayer(this.elementId!, videoId);
+    } else if (this.loadedVideoId !== videoId) {
+      await this.youtubeService.loadVideo(videoId);
+    }
+    this.loadedVideoId = videoId;
+  }
+}
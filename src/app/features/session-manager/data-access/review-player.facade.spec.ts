@@ -0,0 +1,110 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { ReviewPlayerFacade } from './review-player.facade';
+import { YouTubeService } from '@core/services/youtube.service';
+import { LoopPlaybackEngineService } from '@core/services/loop-playback-engine.service';
+import { DueLoop, LoopReviewService } from '@core/services/loop-review.service';
+
+describe('ReviewPlayerFacade', () => {
+  let facade: ReviewPlayerFacade;
+  let mockYouTubeService: any;
+  let mockLoopEngine: any;
+  let mockReviewService: any;
+
+  const dueLoop = (id: string, videoId: string, startTime: number): DueLoop => ({
+    session: { id: `session-${videoId}`, name: videoId, videoId } as any,
+    loop: { id: `loop-${id}`, name: `Loop ${id}`, startTime, endTime: startTime + 10, playbackSpeed: 0.75, playCount: 0, isActive: false },
+    overdueDays: 0,
+    isNew: true
+  });
+
+  const due = signal<DueLoop[]>([dueLoop('a', 'videoA', 10), dueLoop('b', 'videoB', 30)]);
+
+  beforeEach(() => {
+    due.set([dueLoop('a', 'videoA', 10), dueLoop('b', 'videoB', 30)]);
+
+    mockYouTubeService = {
+      initializePlayer: jasmine.createSpy('initializePlayer').and.returnValue(Promise.resolve()),
+      loadVideo: jasmine.createSpy('loadVideo').and.returnValue(Promise.resolve()),
+      play: jasmine.createSpy('play'),
+      pause: jasmine.createSpy('pause'),
+      seekTo: jasmine.createSpy('seekTo'),
+      setPlaybackRate: jasmine.createSpy('setPlaybackRate'),
+      destroy: jasmine.createSpy('destroy'),
+      getCurrentTime: jasmine.createSpy('getCurrentTime').and.returnValue(0),
+      getPlaybackRate: jasmine.createSpy('getPlaybackRate').and.returnValue(1),
+      playerState: signal({ isPlaying: false })
+    };
+
+    mockLoopEngine = {
+      attach: jasmine.createSpy('attach'),
+      detach: jasmine.createSpy('detach'),
+      start: jasmine.createSpy('start'),
+      stop: jasmine.createSpy('stop'),
+      repetition: signal(null)
+    };
+
+    // A rated loop is scheduled for a later day and leaves the due list
+    mockReviewService = {
+      dueToday: due,
+      rate: jasmine.createSpy('rate').and.callFake((_sessionId: string, loopId: string) => {
+        due.update(list => list.filter(entry => entry.loop.id !== loopId));
+        return { success: true };
+      })
+    };
+
+    TestBed.configureTestingModule({
+      providers: [
+        ReviewPlayerFacade,
+        { provide: YouTubeService, useValue: mockYouTubeService },
+        { provide: LoopPlaybackEngineService, useValue: mockLoopEngine },
+        { provide: LoopReviewService, useValue: mockReviewService }
+      ]
+    });
+
+    facade = TestBed.inject(ReviewPlayerFacade);
+  });
+
+  it('should open the video of the loop and repeat it until it is rated', async () => {
+    await facade.practice('review-player', due()[0]!);
+
+    expect(mockYouTubeService.initializePlayer).toHaveBeenCalledWith('review-player', 'videoA');
+    expect(mockYouTubeService.seekTo).toHaveBeenCalledWith(10);
+    expect(mockYouTubeService.setPlaybackRate).toHaveBeenCalledWith(0.75);
+    expect(mockLoopEngine.start).toHaveBeenCalledWith({ id: 'loop-a', startTime: 10, endTime: 20 });
+    expect(facade.status()).toBe('playing');
+  });
+
+  it('should save the rating and start the next due loop', async () => {
+    await facade.practice('review-player', due()[0]!);
+
+    await facade.rate('good');
+
+    expect(mockReviewService.rate).toHaveBeenCalledWith('session-videoA', 'loop-a', 'good');
+    expect(mockYouTubeService.loadVideo).toHaveBeenCalledWith('videoB');
+    expect(facade.current()?.loop.id).toBe('loop-b');
+    expect(facade.reviewedCount()).toBe(1);
+  });
+
+  it('should finish once every due loop is rated', async () => {
+    await facade.practice('review-player', due()[1]!);
+    await facade.rate('easy');
+
+    await facade.rate('hard');
+
+    expect(facade.status()).toBe('finished');
+    expect(facade.current()).toBeNull();
+    expect(facade.reviewedCount()).toBe(2);
+  });
+
+  it('should keep the loop when the rating cannot be saved', async () => {
+    mockReviewService.rate.and.returnValue({ success: false, error: 'Boucle introuvable' });
+    await facade.practice('review-player', due()[0]!);
+
+    await facade.rate('again');
+
+    expect(facade.error()).toBe('Boucle introuvable');
+    expect(facade.current()?.loop.id).toBe('loop-a');
+    expect(facade.reviewedCount()).toBe(0);
+  });
+});
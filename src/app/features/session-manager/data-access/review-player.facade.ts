@@ -0,0 +1,131 @@
+import { Injectable, inject, signal, computed } from '@angular/core';
+import { YouTubeService } from '@core/services/youtube.service';
+import { LoopPlaybackEngineService } from '@core/services/loop-playback-engine.service';
+import { DueLoop, LoopReviewService } from '@core/services/loop-review.service';
+import { ReviewRating } from '@shared/interfaces';
+import { PracticePlayer } from './practice-player';
+
+export type ReviewPlaybackStatus = 'idle' | 'loading' | 'playing' | 'finished';
+
+export interface ReviewPlayerViewModel {
+  dueLoops: DueLoop[];
+  current: DueLoop | null;
+  reviewedCount: number;
+  status: ReviewPlaybackStatus;
+  error: string | null;
+}
+
+/**
+ * Révision des boucles du jour : la boucle choisie tourne en continu jusqu'à
+ * l'auto-évaluation, qui planifie son prochain passage et lance la boucle suivante.
+ *
+ * Fournie par le composant avec sa propre instance de LoopPlaybackEngineService.
+ */
+@Injectable()
+export class ReviewPlayerFacade {
+  private readonly youtubeService = inject(YouTubeService);
+  private readonly loopEngine = inject(LoopPlaybackEngineService);
+  private readonly reviewService = inject(LoopReviewService);
+
+  private readonly _current = signal<DueLoop | null>(null);
+  private readonly _reviewedCount = signal(0);
+  private readonly _status = signal<ReviewPlaybackStatus>('idle');
+  private readonly _error = signal<string | null>(null);
+
+  private readonly player = new PracticePlayer(this.youtubeService, this.loopEngine);
+
+  readonly dueLoops = this.reviewService.dueToday;
+  readonly current = this._current.asReadonly();
+  readonly reviewedCount = this._reviewedCount.asReadonly();
+  readonly status = this._status.asReadonly();
+  readonly error = this._error.asReadonly();
+
+  readonly vm = computed<ReviewPlayerViewModel>(() => ({
+    dueLoops: this.dueLoops(),
+    current: this._current(),
+    reviewedCount: this._reviewedCount(),
+    status: this._status(),
+    error: this._error()
+  }));
+
+  /**
+   * Ouvre la vidéo d'une boucle à réviser dans l'élément DOM du player et la lance
+   */
+  async practice(elementId: string, entry: DueLoop): Promise<void> {
+    this.player.setElement(elementId);
+    await this.playEntry(entry);
+  }
+
+  /**
+   * Enregistre l'auto-évaluation de la boucle en cours puis passe à la suivante
+   */
+  async rate(rating: ReviewRating): Promise<void> {
+    const current = this._current();
+    if (!current) {
+      return;
+    }
+
+    const result = this.reviewService.rate(current.session.id, current.loop.id, rating);
+    if (!result.success) {
+      this._error.set(result.error || 'Erreur lors de l\'enregistrement de la révision');
+      return;
+    }
+
+    this._reviewedCount.update(count => count + 1);
+
+    const next = this.dueLoops()[0];
+    if (next) {
+      await this.playEntry(next);
+    } else {
+      this.finish();
+    }
+  }
+
+  stop(): void {
+    this.player.stop();
+    this._status.set('idle');
+  }
+
+  /**
+   * Libère le player à la destruction du composant
+   */
+  destroy(): void {
+    this.player.destroy();
+    this._status.set('idle');
+  }
+
+  private async playEntry(entry: DueLoop): Promise<void> {
+    if (!this.player.hasElement()) {
+      return;
+    }
+
+    const { session, loop } = entry;
+
+    this._current.set(entry);
+    this._status.set('loading');
+    this._error.set(null);
+
+    try {
+      // Sans nombre de répétitions : la boucle tourne jusqu'à l'évaluation
+      const started = await this.player.play(session.videoId, {
+        id: loop.id,
+        startTime: loop.startTime,
+        endTime: loop.endTime
+      }, loop.playbackSpeed || 1);
+      // Sinon une autre boucle a été demandée pendant le chargement
+      if (started) {
+        this._status.set('playing');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Erreur lors du chargement de la vidéo';
+      this._error.set(errorMessage);
+      this._status.set('idle');
+    }
+  }
+
+  private finish(): void {
+    this.player.stop();
+    this._current.set(null);
+    this._status.set('finished');
+  }
+}
@@ -0,0 +1,150 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { RoutinePlayerFacade } from './routine-player.facade';
+import { YouTubeService } from '@core/services/youtube.service';
+import { LoopPlaybackEngineService } from '@core/services/loop-playback-engine.service';
+import { PracticeRoutineService, ResolvedRoutineItem } from '@core/services/practice-routine.service';
+
+describe('RoutinePlayerFacade', () => {
+  let facade: RoutinePlayerFacade;
+  let mockYouTubeService: any;
+  let mockLoopEngine: any;
+  let mockRoutineService: any;
+
+  const resolvedItem = (id: string, videoId: string, startTime: number): ResolvedRoutineItem => ({
+    item: { id, sessionId: `session-${videoId}`, loopId: `loop-${id}`, videoId, repetitions: 2, playbackSpeed: 0.75 },
+    session: { id: `session-${videoId}`, name: videoId, videoId } as any,
+    loop: { id: `loop-${id}`, name: `Loop ${id}`, startTime, endTime: startTime + 10, playbackSpeed: 1, playCount: 0, isActive: false }
+  });
+
+  const items = [
+    resolvedItem('a', 'videoA', 10),
+    resolvedItem('b', 'videoB', 30),
+    resolvedItem('c', 'videoB', 50)
+  ];
+
+  const completeCurrentLoop = () => {
+    const listener = mockLoopEngine.attach.calls.mostRecent().args[1];
+    return listener.onLoopCompleted();
+  };
+
+  beforeEach(() => {
+    mockYouTubeService = {
+      initializePlayer: jasmine.createSpy('initializePlayer').and.returnValue(Promise.resolve()),
+      loadVideo: jasmine.createSpy('loadVideo').and.returnValue(Promise.resolve()),
+      play: jasmine.createSpy('play'),
+      pause: jasmine.createSpy('pause'),
+      seekTo: jasmine.createSpy('seekTo'),
+      setPlaybackRate: jasmine.createSpy('setPlaybackRate'),
+      destroy: jasmine.createSpy('destroy'),
+      getCurrentTime: jasmine.createSpy('getCurrentTime').and.returnValue(0),
+      getPlaybackRate: jasmine.createSpy('getPlaybackRate').and.returnValue(1),
+      playerState: signal({ isPlaying: false })
+    };
+
+    mockLoopEngine = {
+      attach: jasmine.createSpy('attach'),
+      detach: jasmine.createSpy('detach'),
+      start: jasmine.createSpy('start'),
+      stop: jasmine.createSpy('stop'),
+      repetition: signal(null)
+    };
+
+    mockRoutineService = {
+      routines: signal([{ id: 'routine-1', name: 'Warm-up', items: items.map(i => i.item) }]),
+      getById: jasmine.createSpy('getById').and.callFake((id: string) => id === 'routine-1' ? {} : null),
+      resolveRoutine: jasmine.createSpy('resolveRoutine').and.returnValue(items),
+      markPlayed: jasmine.createSpy('markPlayed')
+    };
+
+    TestBed.configureTestingModule({
+      providers: [
+        RoutinePlayerFacade,
+        { provide: YouTubeService, useValue: mockYouTubeService },
+        { provide: LoopPlaybackEngineService, useValue: mockLoopEngine },
+        { provide: PracticeRoutineService, useValue: mockRoutineService }
+      ]
+    });
+
+    facade = TestBed.inject(RoutinePlayerFacade);
+  });
+
+  it('should load the playable items of a routine', () => {
+    expect(facade.load('routine-1')).toBe(true);
+
+    expect(facade.vm().routine?.name).toBe('Warm-up');
+    expect(facade.vm().items.length).toBe(3);
+  });
+
+  it('should report a missing routine', () => {
+    expect(facade.load('unknown')).toBe(false);
+
+    expect(facade.error()).toBe('Routine introuvable');
+  });
+
+  it('should play the first item with its repetitions and speed', async () => {
+    facade.load('routine-1');
+
+    await facade.start('routine-player');
+
+    expect(mockYouTubeService.initializePlayer).toHaveBeenCalledWith('routine-player', 'videoA');
+    expect(mockYouTubeService.seekTo).toHaveBeenCalledWith(10);
+    expect(mockYouTubeService.setPlaybackRate).toHaveBeenCalledWith(0.75);
+    expect(mockLoopEngine.start).toHaveBeenCalledWith({ id: 'a', startTime: 10, endTime: 20, repeatCount: 2 });
+    expect(facade.status()).toBe('playing');
+  });
+
+  it('should load the next video when a loop is completed', async () => {
+    facade.load('routine-1');
+    await facade.start('routine-player');
+
+    await completeCurrentLoop();
+
+    expect(mockYouTubeService.loadVideo).toHaveBeenCalledWith('videoB');
+    expect(mockYouTubeService.seekTo).toHaveBeenCalledWith(30);
+    expect(facade.currentIndex()).toBe(1);
+  });
+
+  it('should keep the video loaded for consecutive items of the same video', async () => {
+    facade.load('routine-1');
+    await facade.start('routine-player', 1);
+
+    await completeCurrentLoop();
+
+    expect(mockYouTubeService.initializePlayer).toHaveBeenCalledTimes(1);
+    expect(mockYouTubeService.loadVideo).not.toHaveBeenCalled();
+    expect(mockYouTubeService.seekTo).toHaveBeenCalledWith(50);
+  });
+
+  it('should finish after the last item', async () => {
+    facade.load('routine-1');
+    await facade.start('routine-player', 2);
+
+    await completeCurrentLoop();
+
+    expect(facade.status()).toBe('finished');
+    expect(facade.progress()).toBe(100);
+    expect(mockYouTubeService.pause).toHaveBeenCalled();
+    expect(mockRoutineService.markPlayed).toHaveBeenCalledWith('routine-1');
+  });
+
+  it('should report video loading errors', async () => {
+    mockYouTubeService.initializePlayer.and.returnValue(Promise.reject(new Error('Vidéo introuvable')));
+    facade.load('routine-1');
+
+    await facade.start('routine-player');
+
+    expect(facade.error()).toBe('Vidéo introuvable');
+    expect(facade.status()).toBe('idle');
+  });
+
+  it('should release the player on destroy', async () => {
+    facade.load('routine-1');
+    await facade.start('routine-player');
+
+    facade.destroy();
+
+    expect(mockLoopEngine.detach).toHaveBeenCalled();
+    expect(mockYouTubeService.destroy).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,189 @@
+import { Injectable, inject, signal, computed } from '@angular/core';
+import { YouTubeService } from '@core/services/youtube.service';
+import { LoopPlaybackEngineService, LoopEngineRepetition } from '@core/services/loop-playback-engine.service';
+import {
+  PracticeRoutineService,
+  ResolvedRoutineItem
+} from '@core/services/practice-routine.service';
+import { PracticeRoutine } from '@core/services/looper-storage.types';
+import { PracticePlayer } from './practice-player';
+
+export type RoutinePlaybackStatus = 'idle' | 'loading' | 'playing' | 'paused' | 'finished';
+
+export interface RoutinePlayerViewModel {
+  routine: PracticeRoutine | null;
+  items: ResolvedRoutineItem[];
+  currentIndex: number;
+  currentItem: ResolvedRoutineItem | null;
+  repetition: LoopEngineRepetition | null;
+  status: RoutinePlaybackStatus;
+  progress: number; // pourcentage d'éléments terminés
+  error: string | null;
+}
+
+/**
+ * Lecture d'une routine de pratique : chaque élément est joué le nombre de fois
+ * demandé à sa vitesse, puis la vidéo de l'élément suivant est chargée.
+ *
+ * Fournie par le composant de lecture avec sa propre instance de
+ * LoopPlaybackEngineService, pour ne pas partager le moteur du lecteur vidéo.
+ */
+@Injectable()
+export class RoutinePlayerFacade {
+  private readonly youtubeService = inject(YouTubeService);
+  private readonly loopEngine = inject(LoopPlaybackEngineService);
+  private readonly routineService = inject(PracticeRoutineService);
+
+  private readonly _routineId = signal<string | null>(null);
+  private readonly _items = signal<ResolvedRoutineItem[]>([]);
+  private readonly _currentIndex = signal(0);
+  private readonly _status = signal<RoutinePlaybackStatus>('idle');
+  private readonly _error = signal<string | null>(null);
+
+  private readonly player = new PracticePlayer(this.youtubeService, this.loopEngine, {
+    onLoopCompleted: () => this.next()
+  });
+
+  readonly routine = computed(() => {
+    const routineId = this._routineId();
+    return routineId ? this.routineService.routines().find(r => r.id === routineId) || null : null;
+  });
+  readonly items = this._items.asReadonly();
+  readonly currentIndex = this._currentIndex.asReadonly();
+  readonly status = this._status.asReadonly();
+  readonly error = this._error.asReadonly();
+
+  readonly currentItem = computed(() => this._items()[this._currentIndex()] || null);
+
+  readonly progress = computed(() => {
+    const total = this._items().length;
+    if (total === 0) return 0;
+    const done = this._status() === 'finished' ? total : this._currentIndex();
+    return Math.round((done / total) * 100);
+  });
+
+  readonly vm = computed<RoutinePlayerViewModel>(() => ({
+    routine: this.routine(),
+    items: this._items(),
+    currentIndex: this._currentIndex(),
+    currentItem: this.currentItem(),
+    repetition: this.loopEngine.repetition(),
+    status: this._status(),
+    progress: this.progress(),
+    error: this._error()
+  }));
+
+  /**
+   * Prépare une routine : seuls les éléments dont la boucle existe encore sont joués
+   */
+  load(routineId: string): boolean {
+    this.stop();
+    this._routineId.set(routineId);
+    this._currentIndex.set(0);
+
+    if (!this.routineService.getById(routineId)) {
+      this._items.set([]);
+      this._error.set('Routine introuvable');
+      return false;
+    }
+
+    const items = this.routineService.resolveRoutine(routineId);
+    this._items.set(items);
+
+    if (items.length === 0) {
+      this._error.set('Aucune boucle disponible dans cette routine');
+      return false;
+    }
+
+    this._error.set(null);
+    return true;
+  }
+
+  /**
+   * Démarre la routine dans l'élément DOM du player, à partir d'un élément donné
+   */
+  async start(elementId: string, index = 0): Promise<void> {
+    this.player.setElement(elementId);
+    await this.playItem(index);
+  }
+
+  async next(): Promise<void> {
+    const nextIndex = this._currentIndex() + 1;
+    if (nextIndex < this._items().length) {
+      await this.playItem(nextIndex);
+    } else {
+      this.finish();
+    }
+  }
+
+  async previous(): Promise<void> {
+    await this.playItem(Math.max(0, this._currentIndex() - 1));
+  }
+
+  pause(): void {
+    if (this._status() === 'playing') {
+      this.player.pause();
+      this._status.set('paused');
+    }
+  }
+
+  resume(): void {
+    if (this._status() === 'paused') {
+      this.player.resume();
+      this._status.set('playing');
+    }
+  }
+
+  stop(): void {
+    this.player.stop();
+    this._status.set('idle');
+  }
+
+  /**
+   * Libère le player à la destruction du composant
+   */
+  destroy(): void {
+    this.player.destroy();
+    this._status.set('idle');
+  }
+
+  private async playItem(index: number): Promise<void> {
+    const resolved = this._items()[index];
+    if (!resolved || !this.player.hasElement()) {
+      return;
+    }
+
+    const { item, loop } = resolved;
+
+    this._currentIndex.set(index);
+    this._status.set('loading');
+    this._error.set(null);
+
+    try {
+      const started = await this.player.play(item.videoId, {
+        id: item.id,
+        startTime: loop.startTime,
+        endTime: loop.endTime,
+        repeatCount: item.repetitions
+      }, item.playbackSpeed);
+      // Sinon un autre élément a été demandé pendant le chargement
+      if (started) {
+        this._status.set('playing');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Erreur lors du chargement de la vidéo';
+      this._error.set(errorMessage);
+      this._status.set('idle');
+    }
+  }
+
+  private finish(): void {
+    this.player.stop();
+    this._status.set('finished');
+
+    const routineId = this._routineId();
+    if (routineId) {
+      this.routineService.markPlayed(routineId);
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import { Injectable, inject, signal, computed } from '@angular/core';
+import {
+  PracticeRoutineService,
+  ResolvedRoutineItem,
+  RoutineItemRequest
+} from '@core/services/practice-routine.service';
+import { SessionRepositoryService } from '@core/services/session-repository.service';
+import { LoopService } from '@core/services/loop.service';
+import { PracticeRoutine, RoutineItem } from '@core/services/looper-storage.types';
+
+// Élément affiché dans l'éditeur, y compris quand sa boucle a été supprimée
+export interface RoutineItemView {
+  item: RoutineItem;
+  resolved: ResolvedRoutineItem | null;
+}
+
+/**
+ * Construction des routines de pratique à partir des boucles des sessions
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class RoutineFacade {
+  private readonly routineService = inject(PracticeRoutineService);
+  private readonly sessionRepository = inject(SessionRepositoryService);
+  private readonly loopService = inject(LoopService);
+
+  private readonly _selectedRoutineId = signal<string | null>(null);
+
+  readonly routines = this.routineService.routines;
+  readonly lastError = this.routineService.lastError;
+  readonly selectedRoutineId = this._selectedRoutineId.asReadonly();
+
+  readonly selectedRoutine = computed(() => {
+    const routineId = this._selectedRoutineId();
+    return routineId ? this.routines().find(routine => routine.id === routineId) || null : null;
+  });
+
+  readonly selectedItems = computed<RoutineItemView[]>(() => {
+    // Relire les sessions pour suivre les boucles modifiées dans le lecteur
+    this.sessionRepository.sessions();
+    return (this.selectedRoutine()?.items || []).map(item => ({
+      item,
+      resolved: this.routineService.resolveItem(item)
+    }));
+  });
+
+  // Sessions proposant au moins une boucle à ajouter
+  readonly sessionsWithLoops = computed(() =>
+    this.sessionRepository.sessions().filter(session => session.loops.length > 0)
+  );
+
+  // Durée d'un passage complet de la routine, en secondes de vidéo
+  readonly selectedRoutineDuration = computed(() =>
+    this.selectedItems().reduce((total, { item, resolved }) => {
+      if (!resolved) return total;
+      const loopDuration = (resolved.loop.endTime - resolved.loop.startTime) / item.playbackSpeed;
+      return total + loopDuration * item.repetitions;
+    }, 0)
+  );
+
+  selectRoutine(routineId: string | null): void {
+    this._selectedRoutineId.set(routineId);
+  }
+
+  createRoutine(name: string, description?: string): boolean {
+    const result = this.routineService.createRoutine(name, description);
+    if (result.success) {
+      this._selectedRoutineId.set((result.data as PracticeRoutine).id);
+    }
+    return result.success;
+  }
+
+  renameRoutine(routineId: string, name: string): boolean {
+    return this.routineService.renameRoutine(routineId, name).success;
+  }
+
+  deleteRoutine(routineId: string): boolean {
+    const success = this.routineService.deleteRoutine(routineId).success;
+    if (success && this._selectedRoutineId() === routineId) {
+      this._selectedRoutineId.set(null);
+    }
+    return success;
+  }
+
+  addItem(request: RoutineItemRequest): boolean {
+    const routineId = this._selectedRoutineId();
+    return routineId ? this.routineService.addItem(routineId, request).success : false;
+  }
+
+  updateItem(itemId: string, changes: Partial<Pick<RoutineItem, 'repetitions' | 'playbackSpeed'>>): boolean {
+    const routineId = this._selectedRoutineId();
+    return routineId ? this.routineService.updateItem(routineId, itemId, changes).success : false;
+  }
+
+  removeItem(itemId: string): boolean {
+    const routineId = this._selectedRoutineId();
+    return routineId ? this.routineService.removeItem(routineId, itemId).success : false;
+  }
+
+  moveItem(fromIndex: number, toIndex: number): boolean {
+    const routineId = this._selectedRoutineId();
+    return routineId ? this.routineService.moveItem(routineId, fromIndex, toIndex).success : false;
+  }
+
+  formatTime(seconds: number): string {
+    return this.loopService.formatTime(seconds);
+  }
+}
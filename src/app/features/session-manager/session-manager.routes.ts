@@ -24,5 +24,17 @@ export const SESSION_MANAGER_ROUTES: Routes = [
   {
     path: 'import-export',
     loadComponent: () => import('./ui/import-export/import-export.component').then(m => m.ImportExportComponent)
+  },
+  {
+    path: 'routines',
+    loadComponent: () => import('./ui/routine-builder/routine-builder.component').then(m => m.RoutineBuilderComponent)
+  },
+  {
+    path: 'routines/:id/play',
+    loadComponent: () => import('./ui/routine-player/routine-player.component').then(m => m.RoutinePlayerComponent)
+  },
+  {
+    path: 'review',
+    loadComponent: () => import('./ui/review-due/review-due.component').then(m => m.ReviewDueComponent)
   }
 ];
\ No newline at end of file
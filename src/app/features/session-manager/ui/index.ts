@@ -2,4 +2,7 @@ export * from './session-form';
 export * from './session-list';
 export * from './session-history';
 export * from './import-export';
-export * from './session-manager';
\ No newline at end of file
+export * from './session-manager';
+export * from './routine-builder';
+export * from './routine-player';
+export * from './review-due';
\ No newline at end of file
@@ -0,0 +1 @@
+export { ReviewDueComponent } from './review-due.component';
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { Component, OnDestroy, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { ReviewPlayerFacade } from '../../data-access';
+import { LoopPlaybackEngineService } from '@core/services/loop-playback-engine.service';
+import { LoopService } from '@core/services/loop.service';
+import { DueLoop } from '@core/services/loop-review.service';
+import { ReviewRating } from '@shared/interfaces';
+
+@Component({
+  selector: 'app-review-due',
+  standalone: true,
+  imports: [CommonModule, RouterLink],
+  // Moteur de boucle propre à la révision, distinct de celui du lecteur vidéo
+  providers: [ReviewPlayerFacade, LoopPlaybackEngineService],
+  templateUrl: './review-due.component.html',
+  styleUrls: ['./review-due.component.scss']
+})
+export class ReviewDueComponent implements OnDestroy {
+  private readonly loopService = inject(LoopService);
+  readonly facade = inject(ReviewPlayerFacade);
+
+  readonly playerElementId = 'review-player';
+  readonly vm = this.facade.vm;
+
+  readonly ratings: { value: ReviewRating; label: string }[] = [
+    { value: 'again', label: 'À revoir' },
+    { value: 'hard', label: 'Difficile' },
+    { value: 'good', label: 'Bien' },
+    { value: 'easy', label: 'Facile' }
+  ];
+
+  ngOnDestroy(): void {
+    this.facade.destroy();
+  }
+
+  // Le premier lancement doit venir d'un clic (lecture automatique bloquée par les navigateurs)
+  practice(entry: DueLoop): void {
+    this.facade.practice(this.playerElementId, entry);
+  }
+
+  rate(rating: ReviewRating): void {
+    this.facade.rate(rating);
+  }
+
+  isCurrent(entry: DueLoop): boolean {
+    const current = this.vm().current;
+    return !!current && current.session.id === entry.session.id && current.loop.id === entry.loop.id;
+  }
+
+  formatTime(seconds: number): string {
+    return this.loopService.formatTime(seconds);
+  }
+}
@@ -0,0 +1 @@
+export { RoutineBuilderComponent } from './routine-builder.component';
\ No newline at end of file
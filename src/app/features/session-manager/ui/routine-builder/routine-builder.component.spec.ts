@@ -0,0 +1,97 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { provideRouter } from '@angular/router';
+
+import { RoutineBuilderComponent } from './routine-builder.component';
+import { RoutineFacade } from '../../data-access';
+
+describe('RoutineBuilderComponent', () => {
+  let component: RoutineBuilderComponent;
+  let fixture: ComponentFixture<RoutineBuilderComponent>;
+  let mockRoutineFacade: jasmine.SpyObj<RoutineFacade>;
+
+  const session = {
+    id: 'session-1',
+    name: 'Solo',
+    videoId: 'videoA',
+    loops: [{ id: 'loop-1', name: 'Intro', startTime: 0, endTime: 15, playbackSpeed: 0.5, repeatCount: 5, playCount: 0, isActive: false }]
+  };
+
+  beforeEach(async () => {
+    const routineFacadeSpy = jasmine.createSpyObj('RoutineFacade', [
+      'selectRoutine',
+      'createRoutine',
+      'renameRoutine',
+      'deleteRoutine',
+      'addItem',
+      'updateItem',
+      'removeItem',
+      'moveItem',
+      'formatTime'
+    ], {
+      routines: signal([]),
+      selectedRoutine: signal({ id: 'routine-1', name: 'Warm-up', items: [] }),
+      selectedItems: signal([]),
+      sessionsWithLoops: signal([session]),
+      selectedRoutineDuration: signal(0),
+      lastError: signal(null)
+    });
+    routineFacadeSpy.formatTime.and.returnValue('0:00');
+
+    await TestBed.configureTestingModule({
+      imports: [RoutineBuilderComponent],
+      providers: [
+        provideRouter([]),
+        { provide: RoutineFacade, useValue: routineFacadeSpy }
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(RoutineBuilderComponent);
+    component = fixture.componentInstance;
+    mockRoutineFacade = TestBed.inject(RoutineFacade) as jasmine.SpyObj<RoutineFacade>;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should create a routine and clear the name', () => {
+    mockRoutineFacade.createRoutine.and.returnValue(true);
+    component.newRoutineName = 'Warm-up';
+
+    component.createRoutine();
+
+    expect(mockRoutineFacade.createRoutine).toHaveBeenCalledWith('Warm-up');
+    expect(component.newRoutineName).toBe('');
+  });
+
+  it('should default the item settings to the chosen loop', () => {
+    component.onSessionChange('session-1');
+    component.onLoopChange('loop-1');
+
+    expect(component.repetitions()).toBe(5);
+    expect(component.playbackSpeed()).toBe(0.5);
+  });
+
+  it('should add the selected loop to the routine', () => {
+    mockRoutineFacade.addItem.and.returnValue(true);
+    component.onSessionChange('session-1');
+    component.onLoopChange('loop-1');
+
+    component.addItem();
+
+    expect(mockRoutineFacade.addItem).toHaveBeenCalledWith({
+      sessionId: 'session-1',
+      loopId: 'loop-1',
+      repetitions: 5,
+      playbackSpeed: 0.5
+    });
+  });
+
+  it('should ignore invalid repetition counts', () => {
+    component.updateRepetitions('item-1', '0');
+
+    expect(mockRoutineFacade.updateItem).not.toHaveBeenCalled();
+  });
+});
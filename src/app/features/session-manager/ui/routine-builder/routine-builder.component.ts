@@ -0,0 +1,119 @@
+import { Component, inject, signal, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { RoutineFacade } from '../../data-access';
+import { DEFAULT_ROUTINE_REPETITIONS } from '@core/services/practice-routine.service';
+
+@Component({
+  selector: 'app-routine-builder',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  templateUrl: './routine-builder.component.html',
+  styleUrls: ['./routine-builder.component.scss']
+})
+export class RoutineBuilderComponent {
+  private readonly routineFacade = inject(RoutineFacade);
+
+  // Expose facade signals
+  readonly routines = this.routineFacade.routines;
+  readonly selectedRoutine = this.routineFacade.selectedRoutine;
+  readonly selectedItems = this.routineFacade.selectedItems;
+  readonly sessionsWithLoops = this.routineFacade.sessionsWithLoops;
+  readonly routineDuration = this.routineFacade.selectedRoutineDuration;
+  readonly lastError = this.routineFacade.lastError;
+
+  // Form state
+  newRoutineName = '';
+  readonly selectedSessionId = signal<string>('');
+  readonly selectedLoopId = signal<string>('');
+  readonly repetitions = signal<number>(DEFAULT_ROUTINE_REPETITIONS);
+  readonly playbackSpeed = signal<number>(1);
+
+  readonly availableLoops = computed(() => {
+    const sessionId = this.selectedSessionId();
+    return this.sessionsWithLoops().find(session => session.id === sessionId)?.loops || [];
+  });
+
+  readonly canAddItem = computed(() => !!this.selectedRoutine() && !!this.selectedLoopId());
+
+  readonly playableCount = computed(() => this.selectedItems().filter(view => view.resolved).length);
+
+  selectRoutine(routineId: string): void {
+    this.routineFacade.selectRoutine(routineId);
+  }
+
+  createRoutine(): void {
+    if (this.routineFacade.createRoutine(this.newRoutineName)) {
+      this.newRoutineName = '';
+    }
+  }
+
+  renameRoutine(name: string): void {
+    const routine = this.selectedRoutine();
+    if (routine && name.trim() && name.trim() !== routine.name) {
+      this.routineFacade.renameRoutine(routine.id, name);
+    }
+  }
+
+  deleteRoutine(routineId: string): void {
+    this.routineFacade.deleteRoutine(routineId);
+  }
+
+  onSessionChange(sessionId: string): void {
+    this.selectedSessionId.set(sessionId);
+    this.selectedLoopId.set('');
+  }
+
+  onLoopChange(loopId: string): void {
+    this.selectedLoopId.set(loopId);
+
+    // Reprendre les réglages de la boucle comme valeurs par défaut
+    const loop = this.availableLoops().find(l => l.id === loopId);
+    if (loop) {
+      this.repetitions.set(loop.repeatCount ?? DEFAULT_ROUTINE_REPETITIONS);
+      this.playbackSpeed.set(loop.playbackSpeed ?? 1);
+    }
+  }
+
+  addItem(): void {
+    if (!this.canAddItem()) return;
+
+    const added = this.routineFacade.addItem({
+      sessionId: this.selectedSessionId(),
+      loopId: this.selectedLoopId(),
+      repetitions: this.repetitions(),
+      playbackSpeed: this.playbackSpeed()
+    });
+
+    if (added) {
+      this.selectedLoopId.set('');
+    }
+  }
+
+  updateRepetitions(itemId: string, value: string): void {
+    const repetitions = Math.floor(Number(value));
+    if (repetitions >= 1) {
+      this.routineFacade.updateItem(itemId, { repetitions });
+    }
+  }
+
+  updateSpeed(itemId: string, value: string): void {
+    const playbackSpeed = Number(value);
+    if (playbackSpeed >= 0.25 && playbackSpeed <= 2) {
+      this.routineFacade.updateItem(itemId, { playbackSpeed });
+    }
+  }
+
+  moveItem(index: number, offset: number): void {
+    this.routineFacade.moveItem(index, index + offset);
+  }
+
+  removeItem(itemId: string): void {
+    this.routineFacade.removeItem(itemId);
+  }
+
+  formatTime(seconds: number): string {
+    return this.routineFacade.formatTime(seconds);
+  }
+}
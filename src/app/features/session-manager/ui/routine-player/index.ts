@@ -0,0 +1 @@
+export { RoutinePlayerComponent } from './routine-player.component';
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { Component, OnInit, OnDestroy, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { RoutinePlayerFacade } from '../../data-access';
+import { LoopPlaybackEngineService } from '@core/services/loop-playback-engine.service';
+import { LoopService } from '@core/services/loop.service';
+
+@Component({
+  selector: 'app-routine-player',
+  standalone: true,
+  imports: [CommonModule, RouterLink],
+  // Moteur de boucle propre à la routine, distinct de celui du lecteur vidéo
+  providers: [RoutinePlayerFacade, LoopPlaybackEngineService],
+  templateUrl: './routine-player.component.html',
+  styleUrls: ['./routine-player.component.scss']
+})
+export class RoutinePlayerComponent implements OnInit, OnDestroy {
+  private readonly route = inject(ActivatedRoute);
+  private readonly loopService = inject(LoopService);
+  readonly facade = inject(RoutinePlayerFacade);
+
+  readonly playerElementId = 'routine-player';
+  readonly vm = this.facade.vm;
+
+  ngOnInit(): void {
+    const routineId = this.route.snapshot.paramMap.get('id');
+    if (routineId) {
+      this.facade.load(routineId);
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.facade.destroy();
+  }
+
+  // Le premier lancement doit venir d'un clic (lecture automatique bloquée par les navigateurs)
+  start(index = 0): void {
+    this.facade.start(this.playerElementId, index);
+  }
+
+  formatTime(seconds: number): string {
+    return this.loopService.formatTime(seconds);
+  }
+}
@@ -1,5 +1,6 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
 import { signal } from '@angular/core';
+import { provideRouter } from '@angular/router';
 
 import { SessionManagerComponent } from './session-manager.component';
 import { SessionFacade } from '../../data-access';
@@ -63,6 +64,7 @@ describe('SessionManagerComponent', () => {
     await TestBed.configureTestingModule({
       imports: [SessionManagerComponent],
       providers: [
+        provideRouter([]),
         { provide: SessionFacade, useValue: sessionFacadeSpy }
       ]
     }).compileComponents();
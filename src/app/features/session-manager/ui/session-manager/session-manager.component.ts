@@ -7,6 +7,7 @@ import {
   effect 
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
 import { SessionFacade } from '../../data-access';
 import { SessionFormComponent, SessionFormData } from '../session-form';
 import { SessionListComponent } from '../session-list';
@@ -20,6 +21,7 @@ export type ViewMode = 'list' | 'create' | 'edit' | 'history' | 'import-export';
   standalone: true,
   imports: [
     CommonModule,
+    RouterLink,
     SessionFormComponent,
     SessionListComponent,
     ImportExportComponent
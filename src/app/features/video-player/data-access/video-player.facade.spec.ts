@@ -1,18 +1,29 @@
-import { TestBed } from '@angular/core/testing';
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
 import { signal } from '@angular/core';
 import { VideoPlayerFacade } from './video-player.facade';
 import { YouTubeService } from '@core/services/youtube.service';
+import { Html5PlayerService } from '@core/services/html5-player.service';
 import { SecureStorageService } from '@core/services/storage.service';
 import { LoopService } from '@core/services/loop.service';
+import { SessionRepositoryService } from '@core/services/session-repository.service';
+import { LoopPlaybackEngineService } from '@core/services/loop-playback-engine.service';
+import { SpeedRampService } from '@core/services/speed-ramp.service';
+import { CLICK_SYNTH } from '@core/services/count-in.service';
+import { LoopFadeService } from '@core/services/loop-fade.service';
+import { MetronomeService } from '@core/services/metronome.service';
 
 describe('VideoPlayerFacade', () => {
   let facade: VideoPlayerFacade;
   let mockYouTubeService: any;
+  let mockHtml5Player: any;
   let mockStorageService: any;
   let mockLoopService: any;
+  let mockSessionRepository: any;
+  let mockLoopEngine: any;
 
   beforeEach(() => {
     const mockPlayerState = {
+      status: 'unstarted',
       isReady: false,
       isPlaying: false,
       currentTime: 0,
@@ -24,6 +35,7 @@ describe('VideoPlayerFacade', () => {
 
 
     mockYouTubeService = {
+      kind: 'youtube',
       isValidYouTubeUrl: jasmine.createSpy('isValidYouTubeUrl'),
       extractVideoId: jasmine.createSpy('extractVideoId'),
       loadVideo: jasmine.createSpy('loadVideo'),
@@ -34,6 +46,7 @@ describe('VideoPlayerFacade', () => {
       seekTo: jasmine.createSpy('seekTo'),
       setPlaybackRate: jasmine.createSpy('setPlaybackRate'),
       setVolume: jasmine.createSpy('setVolume'),
+      getVolume: jasmine.createSpy('getVolume').and.returnValue(100),
       destroy: jasmine.createSpy('destroy'),
       
       // Mock signals as writeable signals
@@ -41,6 +54,20 @@ describe('VideoPlayerFacade', () => {
       playerState: signal(mockPlayerState)
     };
 
+    mockHtml5Player = {
+      kind: 'html5',
+      loadFile: jasmine.createSpy('loadFile'),
+      play: jasmine.createSpy('play'),
+      pause: jasmine.createSpy('pause'),
+      stop: jasmine.createSpy('stop'),
+      seekTo: jasmine.createSpy('seekTo'),
+      setPlaybackRate: jasmine.createSpy('setPlaybackRate'),
+      setVolume: jasmine.createSpy('setVolume'),
+      destroy: jasmine.createSpy('destroy'),
+      currentVideo: signal(null),
+      playerState: signal(mockPlayerState)
+    };
+
     mockStorageService = {
       getVideoSessions: jasmine.createSpy('getVideoSessions').and.returnValue([]),
       saveSession: jasmine.createSpy('saveSession').and.returnValue(true),
@@ -55,6 +82,22 @@ describe('VideoPlayerFacade', () => {
       })
     };
 
+    mockSessionRepository = {
+      getById: jasmine.createSpy('getById').and.returnValue(null),
+      getByVideo: jasmine.createSpy('getByVideo').and.returnValue([]),
+      getLatestForVideo: jasmine.createSpy('getLatestForVideo').and.returnValue(null),
+      saveVideoSnapshot: jasmine.createSpy('saveVideoSnapshot').and.returnValue({ success: true })
+    };
+
+    mockLoopEngine = {
+      attach: jasmine.createSpy('attach'),
+      start: jasmine.createSpy('start'),
+      stop: jasmine.createSpy('stop'),
+      notifySeek: jasmine.createSpy('notifySeek'),
+      activeLoop: signal(null),
+      repetition: signal(null)
+    };
+
     mockLoopService = {
       formatTime: jasmine.createSpy('formatTime').and.callFake((seconds: number) => {
         const minutes = Math.floor(seconds / 60);
@@ -73,6 +116,7 @@ describe('VideoPlayerFacade', () => {
         },
         validation: { isValid: true, errors: [], warnings: [] }
       }),
+      validateLoop: jasmine.createSpy('validateLoop').and.returnValue({ isValid: true, errors: [], warnings: [] }),
       getLoopStatistics: jasmine.createSpy('getLoopStatistics').and.returnValue({
         totalCount: 0,
         activeCount: 0,
@@ -90,15 +134,21 @@ describe('VideoPlayerFacade', () => {
         resolvedLoops: [],
         removedLoops: [],
         modifications: []
-      })
+      }),
+      suggestNonOverlappingTimeRange: jasmine.createSpy('suggestNonOverlappingTimeRange').and.returnValue(null),
+      importLoops: jasmine.createSpy('importLoops').and.returnValue({ loops: [], groups: [], skipped: 0 })
     };
 
     TestBed.configureTestingModule({
       providers: [
         VideoPlayerFacade,
         { provide: YouTubeService, useValue: mockYouTubeService },
+        { provide: Html5PlayerService, useValue: mockHtml5Player },
         { provide: SecureStorageService, useValue: mockStorageService },
-        { provide: LoopService, useValue: mockLoopService }
+        { provide: SessionRepositoryService, useValue: mockSessionRepository },
+        { provide: LoopService, useValue: mockLoopService },
+        { provide: LoopPlaybackEngineService, useValue: mockLoopEngine },
+        { provide: CLICK_SYNTH, useValue: { currentTime: () => 0, click: () => {}, silence: () => {} } }
       ]
     });
 
@@ -145,6 +195,7 @@ describe('VideoPlayerFacade', () => {
   it('should calculate canPlay correctly', () => {
     // Mock player state to be ready but not playing
     const readyState = {
+      status: 'paused',
       isReady: true,
       isPlaying: false,
       currentTime: 0,
@@ -182,6 +233,7 @@ describe('VideoPlayerFacade', () => {
   it('should play when can play', () => {
     // Mock state to allow play
     const readyState = {
+      status: 'paused',
       isReady: true,
       isPlaying: false,
       currentTime: 0,
@@ -200,6 +252,7 @@ describe('VideoPlayerFacade', () => {
   it('should seek to specific time', () => {
     // Set up player state with duration
     mockYouTubeService.playerState.set({
+      status: 'paused',
       isReady: true,
       isPlaying: false,
       currentTime: 0,
@@ -213,6 +266,27 @@ describe('VideoPlayerFacade', () => {
     
     expect(mockYouTubeService.seekTo).toHaveBeenCalledWith(45);
     expect(facade.currentTime()).toBe(45);
+    expect(mockLoopEngine.notifySeek).toHaveBeenCalledWith(45);
+  });
+
+  it('should hand the current loop to the loop engine while playing', () => {
+    const loop = { id: 'loop-1', name: 'Intro', startTime: 10, endTime: 20, playCount: 0, isActive: true };
+    mockLoopService.getCurrentLoop.and.returnValue(loop);
+
+    mockYouTubeService.playerState.set({
+      status: 'playing',
+      isReady: true,
+      isPlaying: true,
+      currentTime: 12,
+      duration: 100,
+      playbackRate: 1,
+      volume: 100,
+      error: null
+    });
+    TestBed.flushEffects();
+
+    expect(mockLoopEngine.attach).toHaveBeenCalled();
+    expect(mockLoopEngine.start).toHaveBeenCalledWith(loop);
   });
 
   it('should set playback rate to closest valid value', () => {
@@ -230,6 +304,7 @@ describe('VideoPlayerFacade', () => {
 
   it('should calculate progress percentage', () => {
     const currentState = {
+      status: 'playing',
       isReady: true,
       isPlaying: true,
       currentTime: 30,
@@ -247,6 +322,7 @@ describe('VideoPlayerFacade', () => {
 
   it('should return 0 progress for zero duration', () => {
     const currentState = {
+      status: 'playing',
       isReady: true,
       isPlaying: true,
       currentTime: 30,
@@ -316,6 +392,7 @@ describe('VideoPlayerFacade', () => {
       
       // Set player to ready state
       mockYouTubeService.playerState.set({
+        status: 'paused',
         isReady: true,
         isPlaying: false,
         currentTime: 0,
@@ -334,6 +411,7 @@ describe('VideoPlayerFacade', () => {
       
       // Set player with duration
       mockYouTubeService.playerState.set({
+        status: 'paused',
         isReady: true,
         isPlaying: false,
         currentTime: 0,
@@ -346,6 +424,44 @@ describe('VideoPlayerFacade', () => {
       expect(facade.canSeek()).toBe(true);
     });
 
+    it('should derive the controls from the playback status', () => {
+      const setStatus = (status: string, isReady: boolean, isPlaying: boolean) => {
+        mockYouTubeService.playerState.set({
+          status,
+          isReady,
+          isPlaying,
+          currentTime: 0,
+          duration: 100,
+          playbackRate: 1,
+          volume: 100,
+          error: null
+        });
+      };
+
+      setStatus('buffering', true, false);
+      expect(facade.canPlay()).toBe(false);
+      expect(facade.canPause()).toBe(true);
+      expect(facade.canSeek()).toBe(true);
+
+      setStatus('ended', true, false);
+      expect(facade.canPlay()).toBe(true);
+      expect(facade.canPause()).toBe(false);
+
+      setStatus('unstarted', false, false);
+      expect(facade.canPlay()).toBe(false);
+      expect(facade.canSeek()).toBe(false);
+    });
+
+    it('should only report looping while the loop is playing', () => {
+      (facade as any)._currentLoop.set({ id: 'loop-1', name: 'Intro', startTime: 10, endTime: 20, playCount: 0, isActive: true });
+
+      mockYouTubeService.playerState.set({ ...mockYouTubeService.playerState(), status: 'paused', isReady: true });
+      expect(facade.isLooping()).toBe(false);
+
+      mockYouTubeService.playerState.set({ ...mockYouTubeService.playerState(), status: 'playing', isReady: true, isPlaying: true });
+      expect(facade.isLooping()).toBe(true);
+    });
+
     it('should format time using LoopService', () => {
       facade.formatTime(65);
       expect(mockLoopService.formatTime).toHaveBeenCalledWith(65);
@@ -354,6 +470,7 @@ describe('VideoPlayerFacade', () => {
     it('should compute progress correctly', () => {
       // Set player state with time and duration
       mockYouTubeService.playerState.set({
+        status: 'playing',
         isReady: true,
         isPlaying: true,
         currentTime: 30,
@@ -402,6 +519,26 @@ describe('VideoPlayerFacade', () => {
       expect(facade.loops().length).toBe(0);
     });
 
+    it('should update the bounds of a loop', () => {
+      facade.addLoop('Test Loop', 10, 20);
+
+      const result = facade.updateLoop('test-loop', { startTime: 12, endTime: 25 });
+
+      expect(result).toBe(true);
+      expect(facade.loops()[0]).toEqual(jasmine.objectContaining({ id: 'test-loop', startTime: 12, endTime: 25 }));
+    });
+
+    it('should keep a loop unchanged when the update is invalid', () => {
+      facade.addLoop('Test Loop', 10, 20);
+      mockLoopService.validateLoop.and.returnValue({ isValid: false, errors: ['INVALID_TIME_RANGE'], warnings: [] });
+
+      const result = facade.updateLoop('test-loop', { startTime: 30 });
+
+      expect(result).toBe(false);
+      expect(facade.loops()[0]?.startTime).toBe(10);
+      expect(facade.error()).toContain('Impossible de modifier la boucle');
+    });
+
     it('should toggle loop active state', () => {
       // Add a loop first
       facade.addLoop('Test Loop', 10, 20);
@@ -423,6 +560,620 @@ describe('VideoPlayerFacade', () => {
       expect(mockYouTubeService.seekTo).toHaveBeenCalledWith(10);
       expect(mockYouTubeService.play).toHaveBeenCalled();
     });
+
+    it('should create one colored loop per importable chapter in one undoable step', () => {
+      mockStorageService.loadSettings = jasmine.createSpy('loadSettings').and.returnValue({ loopColors: ['#111111', '#222222'] });
+      let created = 0;
+      mockLoopService.createValidatedLoop.and.callFake((name: string, startTime: number, endTime: number, options: object) => ({
+        loop: { id: `chapter-${++created}`, name, startTime, endTime, playCount: 0, isActive: false, ...options },
+        validation: { isValid: true, errors: [], warnings: [] }
+      }));
+
+      const count = facade.importChapters([
+        { title: 'Intro', startTime: 0, endTime: 30, issue: null },
+        { title: 'Couplet', startTime: 30, endTime: 75, issue: null },
+        { title: 'Bonus', startTime: 400, endTime: 400, issue: 'Au-delà de la fin de la vidéo' },
+        { title: 'Refrain', startTime: 75, endTime: 120, issue: null }
+      ]);
+
+      expect(count).toBe(3);
+      expect(facade.loops().map(({ name, color }) => ({ name, color }))).toEqual([
+        { name: 'Intro', color: '#111111' },
+        { name: 'Couplet', color: '#222222' },
+        { name: 'Refrain', color: '#111111' }
+      ]);
+      expect(facade.undoLabel()).toBe('Importer les chapitres');
+
+      facade.undo();
+      expect(facade.loops()).toEqual([]);
+    });
+  });
+
+  describe('Nested Loops', () => {
+    const verse = { id: 'verse', name: 'Couplet', startTime: 30, endTime: 60, playbackSpeed: 1, playCount: 0, isActive: false };
+    const riff = { id: 'riff', name: 'Riff', startTime: 35, endTime: 40, playbackSpeed: 1, playCount: 0, isActive: false, parentLoopId: 'verse' };
+
+    beforeEach(() => {
+      mockYouTubeService.playerState.set({
+        status: 'paused',
+        isReady: true,
+        isPlaying: false,
+        currentTime: 0,
+        duration: 100,
+        playbackRate: 1,
+        volume: 100,
+        error: null
+      });
+      (facade as any)._loops.set([verse, riff]);
+    });
+
+    it('should move sub-loops with their parent and reattach them when it is removed', () => {
+      expect(facade.updateLoop('verse', { startTime: 40, endTime: 70 })).toBe(true);
+      expect(facade.loops().find(loop => loop.id === 'riff')).toEqual(jasmine.objectContaining({ startTime: 45, endTime: 50 }));
+
+      expect(facade.updateLoop('verse', { endTime: 80 })).toBe(true);
+      expect(facade.loops().find(loop => loop.id === 'riff')!.startTime).toBe(45);
+
+      facade.removeLoop('verse');
+      expect(facade.loops().map(loop => loop.id)).toEqual(['riff']);
+      expect(facade.loops()[0]!.parentLoopId).toBeUndefined();
+    });
+
+    it('should constrain navigation to the parent loop while zoomed', () => {
+      expect(facade.zoomIntoParent('riff')).toBe(true);
+      expect(facade.zoomedLoop()?.id).toBe('verse');
+      expect(mockYouTubeService.seekTo).toHaveBeenCalledWith(30);
+
+      facade.seekTo(90);
+      expect(facade.currentTime()).toBe(60);
+
+      mockLoopService.createValidatedLoop.calls.reset();
+      facade.addLoop('Fill', 50, 55);
+      expect(mockLoopService.createValidatedLoop.calls.mostRecent().args[3]).toEqual({ parentLoopId: 'verse' });
+
+      facade.exitLoopZoom();
+      facade.seekTo(90);
+      expect(facade.currentTime()).toBe(90);
+    });
+
+    it('should loop playback over the zoomed parent range', () => {
+      facade.zoomIntoParent('verse');
+      mockYouTubeService.seekTo.calls.reset();
+
+      mockYouTubeService.playerState.set({ ...mockYouTubeService.playerState(), status: 'playing', isPlaying: true, currentTime: 60.2 });
+      TestBed.flushEffects();
+
+      expect(mockYouTubeService.seekTo).toHaveBeenCalledWith(30);
+    });
+
+    it('should undo and redo loop edits within the history of the loaded video', async () => {
+      await (facade as any).loadLoopsForVideo('videoA');
+      (facade as any)._loops.set([verse, riff]);
+
+      facade.updateLoop('riff', { startTime: 36, endTime: 41 });
+      facade.removeLoop('verse');
+      expect(facade.undoLabel()).toBe('Supprimer « Couplet »');
+
+      expect(facade.undo()).toBe(true);
+      expect(facade.undo()).toBe(true);
+      expect(facade.loops()).toEqual([verse, riff]);
+
+      expect(facade.redo()).toBe(true);
+      expect(facade.loops().find(loop => loop.id === 'riff')!.startTime).toBe(36);
+
+      await (facade as any).loadLoopsForVideo('videoB');
+      expect(facade.canUndo()).toBe(false);
+      expect(facade.undo()).toBe(false);
+    });
+
+    it('should record duplicates, conflict resolution and clearing in the history', async () => {
+      await (facade as any).loadLoopsForVideo('videoA');
+      (facade as any)._loops.set([verse, riff]);
+      mockLoopService.suggestNonOverlappingTimeRange.and.returnValue({ startTime: 60, endTime: 90 });
+      mockLoopService.createValidatedLoop.and.callFake((name: string, startTime: number, endTime: number, options: object) => ({
+        loop: { id: 'verse-copy', name, startTime, endTime, playCount: 0, isActive: false, ...options },
+        validation: { isValid: true, errors: [], warnings: [] }
+      }));
+
+      expect(facade.duplicateLoop('verse')).toBe(true);
+      expect(facade.loops()[2]).toEqual(jasmine.objectContaining({ id: 'verse-copy', name: 'Couplet (copie)', startTime: 60, endTime: 90, playbackSpeed: 1 }));
+      expect(facade.undoLabel()).toBe('Dupliquer « Couplet »');
+
+      mockLoopService.resolveLoopConflicts.and.returnValue({ resolvedLoops: [verse], removedLoops: [riff], modifications: [] });
+      expect(facade.resolveLoopConflicts()).toBe(true);
+      expect(facade.undoLabel()).toBe('Résoudre les conflits');
+
+      facade.clearAllLoops();
+      expect(facade.loops()).toEqual([]);
+      expect(facade.undoLabel()).toBe('Supprimer toutes les boucles');
+
+      facade.undo();
+      facade.undo();
+      expect(facade.loops().map(loop => loop.id)).toEqual(['verse', 'riff', 'verse-copy']);
+      facade.undo();
+      expect(facade.loops()).toEqual([verse, riff]);
+    });
+  });
+
+  describe('Markers', () => {
+    const video = { id: 'local-abc', videoId: 'local-abc', title: 'Take', duration: 60 };
+
+    it('should add, move and remove markers kept in time order', () => {
+      (facade as any)._currentVideo.set(video);
+
+      const solo = facade.addMarker('Solo', 40, { note: 'Attaque' })!;
+      const intro = facade.addMarker('Intro', 5)!;
+
+      expect(facade.markers().map(marker => marker.label)).toEqual(['Intro', 'Solo']);
+
+      expect(facade.updateMarker(intro.id, { time: 50 })).toBe(true);
+      expect(facade.markers().map(marker => marker.label)).toEqual(['Solo', 'Intro']);
+
+      expect(facade.removeMarker(solo.id)).toBe(true);
+      expect(facade.markers().length).toBe(1);
+      expect(facade.removeMarker(solo.id)).toBe(false);
+      expect(facade.error()).toBe('Repère non trouvé');
+    });
+
+    it('should seek to the next and previous markers', () => {
+      (facade as any)._currentVideo.set(video);
+      facade.addMarker('Couplet', 10);
+      facade.addMarker('Refrain', 30);
+      (facade as any)._currentTime.set(20);
+
+      expect(facade.seekToMarker('next')).toBe(true);
+      expect(mockYouTubeService.seekTo).toHaveBeenCalledWith(30);
+
+      (facade as any)._currentTime.set(5);
+      expect(facade.seekToMarker('previous')).toBe(false);
+    });
+
+    it('should save and restore the markers of the session', async () => {
+      const markers = [{ id: 'marker-1', time: 12, label: 'Pont', color: '#F59E0B' }];
+      mockSessionRepository.getById.and.returnValue({
+        id: 'session-1',
+        videoId: 'local-abc',
+        videoTitle: 'Take',
+        loops: [],
+        globalPlaybackSpeed: 1,
+        currentTime: 0,
+        markers
+      });
+      (facade as any)._currentVideo.set(video);
+
+      expect(await facade.loadSession('session-1')).toBe(true);
+      expect(facade.markers()).toEqual(markers);
+
+      (facade as any)._currentVideo.set(video);
+      facade.saveCurrentSession();
+      expect(mockSessionRepository.saveVideoSnapshot).toHaveBeenCalledWith(jasmine.objectContaining({ markers }));
+    });
+  });
+
+  describe('Loop Groups', () => {
+    const video = { id: 'local-abc', videoId: 'local-abc', title: 'Take', duration: 60 };
+    const intro = { id: 'intro', name: 'Intro', startTime: 0, endTime: 10, playbackSpeed: 1, playCount: 0, isActive: false };
+    const solo = { id: 'solo', name: 'Solo', startTime: 30, endTime: 40, playbackSpeed: 1, playCount: 0, isActive: false };
+
+    beforeEach(() => {
+      mockYouTubeService.playerState.set({ ...mockYouTubeService.playerState(), duration: 60 });
+      (facade as any)._currentVideo.set(video);
+      (facade as any)._loops.set([intro, solo]);
+    });
+
+    it('should keep grouped loops in group order and drop deleted loops', () => {
+      const group = facade.createGroup('Set')!;
+
+      expect(facade.moveLoopToGroup('solo', group.id)).toBe(true);
+      expect(facade.moveLoopToGroup('intro', group.id)).toBe(true);
+      expect(facade.getGroupLoops(group.id).map(loop => loop.id)).toEqual(['solo', 'intro']);
+
+      facade.removeLoop('solo');
+      expect(facade.groups()[0]!.loops).toEqual(['intro']);
+
+      expect(facade.moveLoopToGroup('intro', 'missing')).toBe(false);
+      expect(facade.error()).toBe('Groupe non trouvé');
+    });
+
+    it('should play the loops of a group one after the other and stop after the last one', () => {
+      const group = facade.createGroup('Set')!;
+      facade.moveLoopToGroup('solo', group.id);
+      facade.moveLoopToGroup('intro', group.id);
+      const listener = mockLoopEngine.attach.calls.mostRecent().args[1];
+
+      expect(facade.playGroup(group.id)).toBe(true);
+      expect(mockYouTubeService.seekTo).toHaveBeenCalledWith(30);
+      expect(facade.playingGroupId()).toBe(group.id);
+
+      // A loop without repetitions is played once while its group plays
+      expect((facade as any).withSequenceRepeats(facade.loops()[1]).repeatCount).toBe(1);
+
+      listener.onLoopCompleted(solo);
+      expect(mockYouTubeService.seekTo).toHaveBeenCalledWith(0);
+      expect(mockYouTubeService.pause).not.toHaveBeenCalled();
+
+      listener.onLoopCompleted(intro);
+      expect(mockYouTubeService.pause).toHaveBeenCalled();
+      expect(facade.playingGroupId()).toBeNull();
+    });
+
+    it('should not play an empty group', () => {
+      const group = facade.createGroup('Empty')!;
+
+      expect(facade.playGroup(group.id)).toBe(false);
+      expect(facade.error()).toBe('Aucune boucle dans ce groupe');
+    });
+
+    it('should rename and recolor a group', () => {
+      const group = facade.createGroup('Set')!;
+
+      expect(facade.updateGroup(group.id, { name: 'Refrains', color: '#10B981' })).toBe(true);
+      expect(facade.groups()[0]).toEqual(jasmine.objectContaining({ name: 'Refrains', color: '#10B981' }));
+      expect(facade.updateGroup('missing', { name: 'Solo' })).toBe(false);
+    });
+
+    it('should import the loops and groups of an exported file in one undoable step', async () => {
+      const copy = { ...solo, id: 'solo-copy', name: 'Solo (import)' };
+      const importedGroup = { id: 'group-2', name: 'Import', loops: ['solo-copy'], createdAt: new Date(), updatedAt: new Date() };
+      mockLoopService.importLoops.and.returnValue({ loops: [copy], groups: [importedGroup], skipped: 1 });
+      const file = new File([JSON.stringify({ version: '1.0', loops: [solo] })], 'boucles.json');
+
+      expect(await facade.importLoopsFromFile(file)).toBe(1);
+      expect(mockLoopService.importLoops).toHaveBeenCalledWith({ version: '1.0', loops: [solo] }, [intro, solo], 60);
+      expect(facade.loops().map(loop => loop.id)).toEqual(['intro', 'solo', 'solo-copy']);
+      expect(facade.groups()).toEqual([importedGroup]);
+
+      facade.undo();
+      expect(facade.loops().map(loop => loop.id)).toEqual(['intro', 'solo']);
+
+      expect(await facade.importLoopsFromFile(new File(['pas du JSON'], 'boucles.json'))).toBe(0);
+      expect(facade.error()).toBe('Fichier d\'export de boucles illisible');
+    });
+
+    it('should save and restore the groups of the session', async () => {
+      const groups = [{ id: 'group-1', name: 'Set', color: '#8B5CF6', loops: ['solo'], createdAt: new Date(), updatedAt: new Date() }];
+      mockSessionRepository.getById.and.returnValue({
+        id: 'session-1',
+        videoId: 'local-abc',
+        videoTitle: 'Take',
+        loops: [solo],
+        globalPlaybackSpeed: 1,
+        currentTime: 0,
+        groups
+      });
+
+      expect(await facade.loadSession('session-1')).toBe(true);
+      expect(facade.groups()).toEqual(groups);
+
+      (facade as any)._currentVideo.set(video);
+      facade.saveCurrentSession();
+      expect(mockSessionRepository.saveVideoSnapshot).toHaveBeenCalledWith(jasmine.objectContaining({ groups }));
+    });
+  });
+
+  describe('Shuffle Practice', () => {
+    const loops = [
+      { id: 'intro', name: 'Intro', startTime: 0, endTime: 10, playbackSpeed: 1, playCount: 0, isActive: true },
+      { id: 'verse', name: 'Couplet', startTime: 20, endTime: 30, playbackSpeed: 1, playCount: 0, isActive: true },
+      { id: 'solo', name: 'Solo', startTime: 40, endTime: 50, playbackSpeed: 1, playCount: 0, isActive: true }
+    ];
+    let listener: any;
+
+    // The drawn loop is the one the player seeked to
+    const playedLoop = () => facade.loops().find(loop => loop.startTime === mockYouTubeService.seekTo.calls.mostRecent().args[0])!;
+
+    const drawOrder = (seed: number, picks: number) => {
+      facade.startShufflePractice({ seed });
+      const order = [playedLoop().name];
+      for (let i = 1; i < picks; i++) {
+        listener.onLoopCompleted(playedLoop());
+        order.push(playedLoop().name);
+      }
+      return order;
+    };
+
+    beforeEach(() => {
+      mockYouTubeService.playerState.set({ ...mockYouTubeService.playerState(), duration: 60 });
+      (facade as any)._loops.set(loops);
+      listener = mockLoopEngine.attach.calls.mostRecent().args[1];
+    });
+
+    it('should draw the same order from the same seed without immediate repeats', () => {
+      const order = drawOrder(42, 12);
+      facade.stopShufflePractice();
+
+      expect(drawOrder(42, 12)).toEqual(order);
+      expect(order.every((name, i) => i === 0 || name !== order[i - 1])).toBe(true);
+      expect(new Set(order).size).toBe(3);
+    });
+
+    it('should follow the weights whatever the completion action of the drawn loop', () => {
+      (facade as any)._loops.set(loops.map(loop => ({ ...loop, completionAction: 'stop' })));
+      facade.startShufflePractice({ seed: 7, weights: { intro: 0 }, avoidRepeats: false });
+
+      const names = [playedLoop().name];
+      for (let i = 0; i < 20; i++) {
+        listener.onLoopCompleted(playedLoop());
+        names.push(playedLoop().name);
+      }
+
+      expect(names).not.toContain('Intro');
+      expect(mockYouTubeService.pause).not.toHaveBeenCalled();
+      expect(facade.isShuffling()).toBe(true);
+    });
+
+    it('should play a drawn loop without repetitions once', () => {
+      facade.startShufflePractice({ seed: 1 });
+
+      expect((facade as any).withSequenceRepeats(playedLoop()).repeatCount).toBe(1);
+    });
+
+    it('should summarize how many times each loop came up', () => {
+      drawOrder(3, 6);
+
+      const summary = facade.stopShufflePractice()!;
+
+      expect(summary.totalPicks).toBe(6);
+      expect(summary.loops.map(entry => [entry.name, entry.count])).toEqual([['Intro', 3], ['Solo', 2], ['Couplet', 1]]);
+      expect(facade.shuffleSummary()).toEqual(summary);
+      expect(facade.isShuffling()).toBe(false);
+      expect(facade.stopShufflePractice()).toBeNull();
+    });
+
+    it('should not start without a loop to draw', () => {
+      expect(facade.startShufflePractice({ weights: { intro: 0, verse: 0, solo: 0 } })).toBe(false);
+      expect(facade.error()).toBe('Aucune boucle à tirer avec ces poids');
+      expect(facade.isShuffling()).toBe(false);
+    });
+  });
+
+  describe('Speed Ramp', () => {
+    const ramp = { startSpeed: 0.6, targetSpeed: 0.7, increment: 0.05, repetitionsPerStep: 1 };
+    const loop = { id: 'lick', name: 'Lick', startTime: 10, endTime: 20, playbackSpeed: 1, playCount: 0, isActive: true, speedRamp: ramp };
+
+    const restartLoop = () => {
+      const listener = mockLoopEngine.attach.calls.mostRecent().args[1];
+      listener.onLoopRestarted(loop, 2);
+    };
+
+    beforeEach(() => {
+      (facade as any)._loops.set([loop]);
+      TestBed.inject(SpeedRampService).start(loop.id, ramp, true);
+    });
+
+    it('should raise the speed after each clean block', () => {
+      restartLoop();
+
+      expect(mockYouTubeService.setPlaybackRate).toHaveBeenCalledWith(0.65);
+      expect(facade.vm().speedRamp?.currentSpeed).toBe(0.65);
+    });
+
+    it('should run the completion action once the target speed is played', () => {
+      restartLoop();
+      restartLoop();
+      restartLoop();
+
+      expect(facade.speedRampState()?.isCompleted).toBe(true);
+      expect(mockYouTubeService.pause).toHaveBeenCalled();
+    });
+  });
+
+  describe('Loop Completion', () => {
+    const intro = { id: 'intro', name: 'Intro', startTime: 10, endTime: 20, playbackSpeed: 1, playCount: 0, isActive: true, repeatCount: 3 };
+    const verse = { id: 'verse', name: 'Verse', startTime: 30, endTime: 40, playbackSpeed: 1, playCount: 0, isActive: false };
+
+    const completeLoop = (loop: any) => {
+      (facade as any)._loops.set([loop, verse]);
+      const listener = mockLoopEngine.attach.calls.mostRecent().args[1];
+      listener.onLoopCompleted(loop);
+    };
+
+    beforeEach(() => {
+      mockYouTubeService.playerState.set({
+        status: 'paused',
+        isReady: true,
+        isPlaying: false,
+        currentTime: 20,
+        duration: 100,
+        playbackRate: 1,
+        volume: 100,
+        error: null
+      });
+    });
+
+    it('should pause at the loop start by default', () => {
+      completeLoop(intro);
+
+      expect(mockYouTubeService.pause).toHaveBeenCalled();
+      expect(mockYouTubeService.seekTo).toHaveBeenCalledWith(10);
+    });
+
+    it('should keep playing with the continue action', () => {
+      completeLoop({ ...intro, completionAction: 'continue' });
+
+      expect(mockYouTubeService.pause).not.toHaveBeenCalled();
+      expect(mockYouTubeService.seekTo).not.toHaveBeenCalled();
+    });
+
+    it('should start the next loop with the next action', () => {
+      completeLoop({ ...intro, completionAction: 'next' });
+
+      expect(mockYouTubeService.seekTo).toHaveBeenCalledWith(30);
+      expect(facade.loops().find(loop => loop.id === 'verse')!.isActive).toBe(true);
+    });
+
+    it('should jump to the chosen loop', () => {
+      completeLoop({ ...intro, id: 'outro', completionAction: 'jump', completionTargetId: 'verse' });
+
+      expect(mockYouTubeService.seekTo).toHaveBeenCalledWith(30);
+    });
+
+    it('should stop when the jump target no longer exists', () => {
+      completeLoop({ ...intro, completionAction: 'jump', completionTargetId: 'missing' });
+
+      expect(mockYouTubeService.pause).toHaveBeenCalled();
+      expect(mockYouTubeService.seekTo).toHaveBeenCalledWith(10);
+    });
+  });
+
+  describe('Pre-roll and Count-in', () => {
+    const solo = {
+      id: 'solo',
+      name: 'Solo',
+      startTime: 10,
+      endTime: 20,
+      playbackSpeed: 1,
+      playCount: 0,
+      isActive: true,
+      preRoll: 2,
+      countIn: { beats: 4, bpm: 120 }
+    };
+
+    beforeEach(() => {
+      (facade as any)._loops.set([solo]);
+      mockYouTubeService.playerState.set({
+        ...mockYouTubeService.playerState(),
+        status: 'paused',
+        isReady: true,
+        duration: 100
+      });
+    });
+
+    it('should start a loop from its pre-roll once the count-in is over', fakeAsync(() => {
+      facade.startLoop('solo');
+
+      expect(mockYouTubeService.seekTo).toHaveBeenCalledWith(8);
+      expect(mockYouTubeService.pause).toHaveBeenCalled();
+      expect(facade.countInBeat()).toEqual({ current: 1, total: 4 });
+
+      tick(1050);
+      expect(facade.countInBeat()).toEqual({ current: 3, total: 4 });
+      expect(mockYouTubeService.play).not.toHaveBeenCalled();
+
+      tick(1000);
+      expect(facade.countInBeat()).toBeNull();
+      expect(mockYouTubeService.play).toHaveBeenCalled();
+    }));
+
+    it('should count in before each repetition and stay paused when paused during it', fakeAsync(() => {
+      const listener = mockLoopEngine.attach.calls.mostRecent().args[1];
+      listener.onLoopRestarted(solo, 2);
+
+      expect(mockYouTubeService.pause).toHaveBeenCalled();
+      expect(facade.countInBeat()?.total).toBe(4);
+
+      facade.pause();
+      tick(3000);
+
+      expect(facade.countInBeat()).toBeNull();
+      expect(mockYouTubeService.play).not.toHaveBeenCalled();
+    }));
+  });
+
+  describe('Rest Gaps', () => {
+    const riff = {
+      id: 'riff',
+      name: 'Riff',
+      startTime: 10,
+      endTime: 13,
+      playbackSpeed: 1,
+      playCount: 0,
+      isActive: true,
+      restGap: { mode: 'gap' as const, seconds: 2 }
+    };
+
+    beforeEach(() => {
+      (facade as any)._loops.set([riff]);
+    });
+
+    it('should rest after a repetition with a countdown before playing again', fakeAsync(() => {
+      const listener = mockLoopEngine.attach.calls.mostRecent().args[1];
+      listener.onLoopRestarted(riff, 2);
+
+      expect(mockYouTubeService.pause).toHaveBeenCalled();
+      expect(facade.restCountdown()).toEqual({ mode: 'gap', remaining: 2 });
+
+      tick(1000);
+      expect(facade.restCountdown()).toEqual({ mode: 'gap', remaining: 1 });
+      expect(mockYouTubeService.play).not.toHaveBeenCalled();
+
+      tick(1000);
+      expect(facade.restCountdown()).toBeNull();
+      expect(mockYouTubeService.play).toHaveBeenCalled();
+    }));
+
+    it('should rest for the loop duration at the current speed in call-and-response', fakeAsync(() => {
+      const callAndResponse = { ...riff, restGap: { mode: 'call-and-response' as const, seconds: 0 } };
+      (facade as any)._loops.set([callAndResponse]);
+      (facade as any)._playbackRate.set(0.5);
+
+      const listener = mockLoopEngine.attach.calls.mostRecent().args[1];
+      listener.onLoopRestarted(callAndResponse, 2);
+      expect(facade.restCountdown()).toEqual({ mode: 'call-and-response', remaining: 6 });
+
+      tick(5999);
+      expect(mockYouTubeService.play).not.toHaveBeenCalled();
+
+      tick(1);
+      expect(mockYouTubeService.play).toHaveBeenCalled();
+    }));
+
+    it('should cancel the rest when seeking', fakeAsync(() => {
+      const listener = mockLoopEngine.attach.calls.mostRecent().args[1];
+      listener.onLoopRestarted(riff, 2);
+
+      facade.seekTo(5);
+      tick(3000);
+
+      expect(facade.restCountdown()).toBeNull();
+      expect(mockYouTubeService.play).not.toHaveBeenCalled();
+    }));
+  });
+
+  describe('Volume and Fades', () => {
+    it('should keep the base volume through mute and unmute', () => {
+      facade.setVolume(70);
+      expect(mockYouTubeService.setVolume).toHaveBeenCalledWith(70);
+
+      facade.mute();
+      expect(mockYouTubeService.setVolume).toHaveBeenCalledWith(0);
+      expect(facade.vm().volume).toBe(0);
+
+      facade.unmute();
+      expect(mockYouTubeService.setVolume.calls.mostRecent().args).toEqual([70]);
+      expect(facade.vm().volume).toBe(70);
+    });
+
+    it('should fade the loop played by the engine and stop when it ends', () => {
+      const loopFade = TestBed.inject(LoopFadeService);
+      spyOn(loopFade, 'start');
+      spyOn(loopFade, 'stop');
+
+      const chorus = {
+        id: 'chorus',
+        name: 'Chorus',
+        startTime: 30,
+        endTime: 45,
+        playbackSpeed: 1,
+        playCount: 0,
+        isActive: true,
+        fadeInOut: { fadeIn: 0.5, fadeOut: 1 }
+      };
+      (facade as any)._loops.set([chorus]);
+      mockLoopEngine.activeLoop.set(chorus);
+      TestBed.flushEffects();
+
+      expect(loopFade.start).toHaveBeenCalledWith({
+        id: 'chorus',
+        startTime: 30,
+        endTime: 45,
+        fadeInOut: { fadeIn: 0.5, fadeOut: 1 }
+      });
+
+      mockLoopEngine.activeLoop.set(null);
+      TestBed.flushEffects();
+      expect(loopFade.stop).toHaveBeenCalled();
+    });
   });
 
   describe('Session Management', () => {
@@ -445,7 +1196,35 @@ describe('VideoPlayerFacade', () => {
       const result = facade.saveCurrentSession();
       
       expect(result).toBe(true);
-      expect(mockStorageService.saveSession).toHaveBeenCalled();
+      expect(mockSessionRepository.saveVideoSnapshot).toHaveBeenCalledWith(jasmine.objectContaining({
+        videoId: 'testId',
+        videoTitle: 'Test Video'
+      }));
+    });
+
+    it('should save and restore the metronome of the session', async () => {
+      const metronome = TestBed.inject(MetronomeService);
+      const settings = { bpm: 92, beatsPerBar: 3, beatUnit: 4, offset: 1.5 };
+      mockSessionRepository.getById.and.returnValue({
+        id: 'session-1',
+        videoId: 'local-abc',
+        videoTitle: 'Take',
+        loops: [],
+        globalPlaybackSpeed: 1,
+        currentTime: 0,
+        metronome: settings
+      });
+      const video = { id: 'local-abc', videoId: 'local-abc', title: 'Take', duration: 60 };
+      (facade as any)._currentVideo.set(video);
+
+      expect(await facade.loadSession('session-1')).toBe(true);
+      expect(metronome.settings()).toEqual(settings);
+
+      (facade as any)._currentVideo.set(video);
+      facade.saveCurrentSession();
+      expect(mockSessionRepository.saveVideoSnapshot).toHaveBeenCalledWith(jasmine.objectContaining({
+        metronome: settings
+      }));
     });
 
     it('should fail to save session without video', () => {
@@ -458,19 +1237,23 @@ describe('VideoPlayerFacade', () => {
     it('should load session successfully', async () => {
       const mockSession = {
         id: 'session-1',
+        name: 'Test Video',
         videoId: 'testId',
         videoTitle: 'Test Video',
         videoUrl: 'https://www.youtube.com/watch?v=testId',
+        videoDuration: 180,
         loops: [],
-        playbackSpeed: 1.5,
+        globalPlaybackSpeed: 1.5,
         currentTime: 45,
+        isActive: false,
         lastPlayed: new Date(),
         totalPlayTime: 0,
+        playCount: 0,
         createdAt: new Date(),
         updatedAt: new Date()
       };
       
-      mockStorageService.getSession.and.returnValue(mockSession);
+      mockSessionRepository.getById.and.returnValue(mockSession);
       mockYouTubeService.extractVideoId.and.returnValue('testId');
       mockYouTubeService.loadVideo.and.returnValue(Promise.resolve());
       
@@ -482,9 +1265,162 @@ describe('VideoPlayerFacade', () => {
     });
   });
 
+  describe('Local Media', () => {
+    const localVideo = {
+      id: 'local-abc123',
+      videoId: 'local-abc123',
+      title: 'Répétition',
+      duration: 240,
+      author: '',
+      thumbnail: '',
+      url: 'local-file:R%C3%A9p%C3%A9tition.mp3'
+    };
+
+    it('should play a local file and key its loops by content hash', async () => {
+      const file = new File(['audio'], 'Répétition.mp3', { type: 'audio/mpeg' });
+      const element = document.createElement('audio');
+      mockHtml5Player.loadFile.and.callFake(() => {
+        mockHtml5Player.currentVideo.set(localVideo);
+        mockHtml5Player.playerState.set({ ...mockHtml5Player.playerState(), status: 'cued', isReady: true, duration: 240 });
+        return Promise.resolve(localVideo);
+      });
+
+      await facade.loadLocalFile(file, element);
+
+      expect(mockHtml5Player.loadFile).toHaveBeenCalledWith(element, file);
+      expect(mockSessionRepository.getLatestForVideo).toHaveBeenCalledWith('local-abc123');
+      expect(facade.isLocalMedia()).toBe(true);
+      expect(facade.currentVideo()).toEqual(localVideo);
+
+      facade.seekTo(30);
+      facade.setPlaybackRate(0.75);
+
+      expect(mockHtml5Player.seekTo).toHaveBeenCalledWith(30);
+      expect(mockHtml5Player.setPlaybackRate).toHaveBeenCalledWith(0.75);
+      expect(mockYouTubeService.seekTo).not.toHaveBeenCalled();
+    });
+
+    it('should reject files that are not audio or video', async () => {
+      const file = new File(['notes'], 'notes.txt', { type: 'text/plain' });
+
+      await facade.loadLocalFile(file, document.createElement('video'));
+
+      expect(mockHtml5Player.loadFile).not.toHaveBeenCalled();
+      expect(facade.isLocalMedia()).toBe(false);
+      expect(facade.error()).toContain('Format de fichier non pris en charge');
+    });
+
+    it('should switch back to YouTube and release the local file', async () => {
+      mockHtml5Player.loadFile.and.returnValue(Promise.resolve(localVideo));
+      mockYouTubeService.extractVideoId.and.returnValue('testId');
+      mockYouTubeService.loadVideo.and.returnValue(Promise.resolve());
+
+      await facade.loadLocalFile(new File(['video'], 'take.mp4', { type: 'video/mp4' }), document.createElement('video'));
+      await facade.loadVideo('https://www.youtube.com/watch?v=testId');
+
+      expect(mockHtml5Player.destroy).toHaveBeenCalled();
+      expect(facade.isLocalMedia()).toBe(false);
+    });
+
+    it('should ask to open the file of a local session', async () => {
+      mockSessionRepository.getById.and.returnValue({
+        id: 'session-local',
+        videoId: 'local-abc123',
+        videoTitle: 'Répétition',
+        videoUrl: 'local-file:R%C3%A9p%C3%A9tition.mp3',
+        loops: [],
+        globalPlaybackSpeed: 1,
+        currentTime: 0
+      });
+
+      const result = await facade.loadSession('session-local');
+
+      expect(result).toBe(false);
+      expect(mockYouTubeService.loadVideo).not.toHaveBeenCalled();
+      expect(facade.error()).toBe('Ouvrez le fichier "Répétition" pour reprendre cette session');
+    });
+  });
+
+  describe('Share Links', () => {
+    const sharedVideo = {
+      id: 'dQw4w9WgXcQ',
+      videoId: 'dQw4w9WgXcQ',
+      title: 'Never Gonna Give You Up',
+      duration: 213,
+      author: 'Rick Astley',
+      thumbnail: ''
+    };
+
+    beforeEach(() => {
+      mockYouTubeService.currentVideo.set(sharedVideo);
+      mockYouTubeService.playerState.set({
+        ...mockYouTubeService.playerState(),
+        status: 'cued',
+        isReady: true,
+        duration: 213
+      });
+      mockLoopService.createValidatedLoop.and.callFake((name: string, startTime: number, endTime: number) => ({
+        loop: { id: `loop-${startTime}`, name, startTime, endTime, playCount: 0, isActive: true },
+        validation: { isValid: true, errors: [], warnings: [] }
+      }));
+      TestBed.flushEffects();
+    });
+
+    it('should apply the time, speed and loops of a shared link', () => {
+      const applied = facade.applyDeepLink({
+        videoId: 'dQw4w9WgXcQ',
+        startTime: 90,
+        playbackRate: 0.75,
+        loops: [
+          { name: 'Refrain', startTime: 43, endTime: 61 },
+          { name: '', startTime: 100, endTime: 120 },
+          { name: 'Refrain bis', startTime: 43, endTime: 61 }
+        ]
+      });
+
+      expect(applied).toBe(true);
+      expect(facade.loops().map(loop => loop.name)).toEqual(['Refrain', 'Boucle 2']);
+      expect(mockYouTubeService.setPlaybackRate).toHaveBeenCalledWith(0.75);
+      expect(mockYouTubeService.seekTo).toHaveBeenCalledWith(90);
+    });
+
+    it('should ignore a link to another video', () => {
+      const applied = facade.applyDeepLink({ videoId: 'oHg5SJYRHA0', startTime: 30, playbackRate: null, loops: [] });
+
+      expect(applied).toBe(false);
+      expect(mockYouTubeService.seekTo).not.toHaveBeenCalled();
+    });
+
+    it('should create a loop between the start and end of a pasted embed URL', async () => {
+      const embedUrl = 'https://www.youtube.com/embed/dQw4w9WgXcQ?start=43&end=1m01s';
+      mockYouTubeService.extractVideoId.and.returnValue('dQw4w9WgXcQ');
+      mockYouTubeService.loadVideo.and.returnValue(Promise.resolve());
+
+      await facade.loadVideo(embedUrl);
+
+      expect(facade.loops().map(({ name, startTime, endTime }) => ({ name, startTime, endTime })))
+        .toEqual([{ name: 'Boucle 1', startTime: 43, endTime: 61 }]);
+      expect(mockYouTubeService.seekTo).toHaveBeenCalledWith(43);
+    });
+
+    it('should build a link that restores the current state', () => {
+      facade.addLoop('Refrain', 43, 61);
+      mockYouTubeService.playerState.set({ ...mockYouTubeService.playerState(), playbackRate: 0.75 });
+      TestBed.flushEffects();
+
+      const link = facade.buildShareLink('https://looper.app/video-player');
+      const params = new URL(link!).searchParams;
+
+      expect(params.get('v')).toBe('dQw4w9WgXcQ');
+      expect(params.get('speed')).toBe('0.75');
+      expect(params.getAll('loop')).toEqual(['43-61:Refrain']);
+    });
+  });
+
   describe('Player Health and Diagnostics', () => {
     it('should return healthy state when everything is normal', () => {
       mockYouTubeService.playerState.set({
+        status: 'paused',
         isReady: true,
         isPlaying: false,
         currentTime: 0,
@@ -525,6 +1461,7 @@ describe('VideoPlayerFacade', () => {
   describe('Integration with Services', () => {
     it('should synchronize with YouTubeService playerState changes', () => {
       const newState = {
+        status: 'playing',
         isReady: true,
         isPlaying: true,
         currentTime: 45,
@@ -547,6 +1484,7 @@ describe('VideoPlayerFacade', () => {
 
     it('should handle YouTubeService errors correctly', () => {
       const errorState = {
+        status: 'error',
         isReady: true,
         isPlaying: false,
         currentTime: 0,
@@ -568,7 +1506,7 @@ describe('VideoPlayerFacade', () => {
       expect(mockLoopService.createValidatedLoop).toHaveBeenCalled();
     });
 
-    it('should integrate with StorageService for session management', () => {
+    it('should integrate with SessionRepositoryService for session management', () => {
       const mockVideo = {
         id: 'test-video',
         videoId: 'testId',
@@ -585,7 +1523,7 @@ describe('VideoPlayerFacade', () => {
       
       facade.saveCurrentSession();
       
-      expect(mockStorageService.saveSession).toHaveBeenCalled();
+      expect(mockSessionRepository.saveVideoSnapshot).toHaveBeenCalled();
     });
   });
 });
\ No newline at end of file
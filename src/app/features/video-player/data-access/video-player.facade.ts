@@ -1,8 +1,32 @@
-import { Injectable, computed, signal, inject, effect } from '@angular/core';
+import { Injectable, computed, signal, inject, effect, untracked } from '@angular/core';
 import { YouTubeService, VideoInfo as YouTubeVideoInfo, PlayerState } from '@core/services/youtube.service';
+import { Html5PlayerService } from '@core/services/html5-player.service';
+import { MediaPlayerService } from '@core/services/media-player.service';
+import { PlayerBackendKind } from '@core/services/player-backend';
+import { ACTIVE_STATUSES, PLAYABLE_STATUSES, READY_STATUSES } from '@core/services/player-state-machine';
 import { SecureStorageService } from '@core/services/storage.service';
-import { VideoSession, SessionLoop } from '@core/services/storage.types';
+import { DEFAULT_APP_SETTINGS } from '@core/services/storage.types';
+import { SessionRepositoryService } from '@core/services/session-repository.service';
+import { LooperSession } from '@core/services/looper-storage.types';
 import { LoopService, Loop } from '@core/services/loop.service';
+import { LoopPlaybackEngineService, LoopEngineRepetition, restartTime } from '@core/services/loop-playback-engine.service';
+import { CountInService } from '@core/services/count-in.service';
+import { RestGapService, restDuration } from '@core/services/rest-gap.service';
+import { LoopFadeService } from '@core/services/loop-fade.service';
+import { MetronomeService } from '@core/services/metronome.service';
+import { SpeedRampService, SpeedRampState } from '@core/services/speed-ramp.service';
+import { LoopHistoryService, LoopHistoryAction } from '@core/services/loop-history.service';
+import { migrateLoops } from '@core/models/loop.migrations';
+import { Marker, adjacentMarker, createMarker, sortMarkers, updateMarker } from '@core/models/marker.model';
+import { getParentLoop, isWithinLoop, reparentSubLoops, shiftSubLoops } from '@core/models/loop-nesting.model';
+import { LoopExportData, LoopGroup, LoopUtils } from '@core/models/loop.model';
+import { assignLoopToGroup, createLoopGroup, normalizeLoopGroups, removeLoopFromGroups, updateLoopGroup } from '@core/models/loop-group.model';
+import { SpeedRampConfig, UpdateLoopRequest, UpdateMarkerRequest } from '@shared/interfaces';
+import { isLocalMediaId, isSupportedMediaFile } from '@core/utils/media.utils';
+import { DeepLinkState, buildDeepLink, parseVideoUrlLink } from '@core/utils/deep-link.utils';
+import { BeatGrid } from '@core/utils/beat-grid.utils';
+import { ChapterSegment } from '@core/utils/chapter.utils';
+import { RandomSource, createSeededRandom, pickWeighted } from '@core/utils/random.utils';
 
 export interface VideoPlayerState {
   currentVideo: YouTubeVideoInfo | null;
@@ -50,6 +74,8 @@ export interface VideoPlayerViewModel {
   loops: Loop[];
   currentLoop: Loop | null;
   isLooping: boolean;
+  loopRepetition: LoopEngineRepetition | null;
+  speedRamp: SpeedRampState | null;
   
   // UI state
   urlInput: string;
@@ -57,13 +83,50 @@ export interface VideoPlayerViewModel {
   hasError: boolean;
 }
 
+// Boucles d'un groupe jouées l'une après l'autre, dans l'ordre du groupe
+interface GroupPlayback {
+  groupId: string;
+  loopIds: string[];
+  index: number;
+}
+
+// Pratique entrelacée : la boucle suivante est tirée au sort à la fin des répétitions de chaque boucle
+export interface ShufflePracticeOptions {
+  seed?: number; // même graine, même ordre des boucles
+  weights?: Record<string, number>; // poids relatif par boucle, 1 par défaut, 0 l'exclut
+  avoidRepeats?: boolean; // jamais deux fois de suite la même boucle, vrai par défaut
+}
+
+// Nombre de tirages de chaque boucle pendant une pratique aléatoire
+export interface ShufflePracticeSummary {
+  totalPicks: number;
+  loops: { loopId: string; name: string; count: number }[];
+}
+
+interface ShufflePractice {
+  random: RandomSource;
+  weights: Record<string, number>;
+  avoidRepeats: boolean;
+  picks: { loopId: string; name: string }[];
+}
+
 @Injectable({
   providedIn: 'root'
 })
 export class VideoPlayerFacade {
   private readonly youtubeService = inject(YouTubeService);
+  private readonly html5Player = inject(Html5PlayerService);
+  private readonly mediaPlayer = inject(MediaPlayerService);
   private readonly storageService = inject(SecureStorageService);
+  private readonly sessionRepository = inject(SessionRepositoryService);
   private readonly loopService = inject(LoopService);
+  private readonly loopEngine = inject(LoopPlaybackEngineService);
+  private readonly speedRamp = inject(SpeedRampService);
+  private readonly countIn = inject(CountInService);
+  private readonly restGap = inject(RestGapService);
+  private readonly loopFade = inject(LoopFadeService);
+  private readonly metronome = inject(MetronomeService);
+  private readonly history = inject(LoopHistoryService);
 
   // Private signals pour l'état interne
   private readonly _currentVideo = signal<YouTubeVideoInfo | null>(null);
@@ -75,7 +138,15 @@ export class VideoPlayerFacade {
   private readonly _error = signal<string | null>(null);
   private readonly _urlInput = signal('');
   private readonly _loops = signal<Loop[]>([]);
+  private readonly _markers = signal<Marker[]>([]);
+  private readonly _groups = signal<LoopGroup[]>([]);
   private readonly _currentLoop = signal<Loop | null>(null);
+  private readonly _sessionId = signal<string | null>(null);
+  private readonly _zoomedLoopId = signal<string | null>(null);
+  private readonly _groupPlayback = signal<GroupPlayback | null>(null);
+  private readonly _shuffle = signal<ShufflePractice | null>(null);
+  private readonly _shuffleSummary = signal<ShufflePracticeSummary | null>(null);
+  private speedRampSource: SpeedRampConfig | null = null;
   
   // Signals publics en lecture seule
   readonly currentVideo = this._currentVideo.asReadonly();
@@ -87,10 +158,32 @@ export class VideoPlayerFacade {
   readonly error = this._error.asReadonly();
   readonly urlInput = this._urlInput.asReadonly();
   readonly loops = this._loops.asReadonly();
+  readonly markers = this._markers.asReadonly();
+  readonly groups = this._groups.asReadonly();
+  readonly playingGroupId = computed(() => this._groupPlayback()?.groupId ?? null);
+  readonly isShuffling = computed(() => this._shuffle() !== null);
+  readonly shuffleSummary = this._shuffleSummary.asReadonly();
   readonly currentLoop = this._currentLoop.asReadonly();
+  readonly sessionId = this._sessionId.asReadonly();
+
+  // Annuler / rétablir les modifications de boucles de la vidéo courante
+  readonly canUndo = this.history.canUndo;
+  readonly canRedo = this.history.canRedo;
+  readonly undoLabel = this.history.undoLabel;
+  readonly redoLabel = this.history.redoLabel;
+
+  // Boucle parente sur laquelle la lecture et la navigation sont resserrées
+  readonly zoomedLoop = computed(() => {
+    const zoomedLoopId = this._zoomedLoopId();
+    return zoomedLoopId ? this._loops().find(loop => loop.id === zoomedLoopId) ?? null : null;
+  });
   
-  // Signals dérivés du YouTubeService pour compatibilité
-  readonly playerState = this.youtubeService.playerState;
+  // Signals dérivés du player actif (YouTube ou fichier local)
+  readonly playerState = this.mediaPlayer.playerState;
+  readonly backendKind = this.mediaPlayer.backendKind;
+  readonly isLocalMedia = computed(() => this.backendKind() === 'html5');
+  // Player YouTube simulé (?demo), sans réseau
+  readonly isDemoMode = this.youtubeService.isDemo;
 
   // ViewModels computed
   readonly isValidUrl = computed(() => {
@@ -98,18 +191,19 @@ export class VideoPlayerFacade {
     return url.length > 0 ? this.youtubeService.isValidYouTubeUrl(url) : false;
   });
 
+  // Statut de la machine à états du player actif
+  readonly playerStatus = computed(() => this.playerState().status);
+
   readonly isPlayerReady = computed(() => {
-    const state = this.playerState();
-    return state.isReady && !this._loading() && this._error() === null;
+    return READY_STATUSES.includes(this.playerStatus()) && !this._loading() && this._error() === null;
   });
 
   readonly canPlay = computed(() => {
-    const state = this.playerState();
-    return this.isPlayerReady() && !this._isPlaying() && !state.error;
+    return this.isPlayerReady() && PLAYABLE_STATUSES.includes(this.playerStatus());
   });
 
   readonly canPause = computed(() => {
-    return this.isPlayerReady() && this._isPlaying();
+    return this.isPlayerReady() && ACTIVE_STATUSES.includes(this.playerStatus());
   });
 
   readonly canSeek = computed(() => {
@@ -138,9 +232,33 @@ export class VideoPlayerFacade {
   });
 
   readonly isLooping = computed(() => {
-    return this._currentLoop() !== null;
+    return this._currentLoop() !== null && ACTIVE_STATUSES.includes(this.playerStatus());
   });
 
+  // Compteur de répétitions de la boucle en cours (« 3 / 5 »), null pour une boucle infinie
+  readonly loopRepetition = this.loopEngine.repetition;
+
+  // Progression de vitesse de la boucle en cours
+  readonly speedRampState = this.speedRamp.state;
+
+  // Temps du décompte en cours avant une répétition (ex: 2 / 4)
+  readonly countInBeat = this.countIn.beat;
+
+  // Compte à rebours du silence entre deux répétitions
+  readonly restCountdown = this.restGap.countdown;
+
+  // Grille des temps et mesures de la timeline, null tant que la session n'a pas de tempo
+  readonly beatGrid = computed<BeatGrid | null>(() => {
+    if (!this.metronome.isConfigured()) {
+      return null;
+    }
+    const { bpm, beatsPerBar, offset } = this.metronome.settings();
+    return { bpm, beatsPerBar, offset };
+  });
+
+  // Silence ou décompte en cours : la vidéo attend en pause la prochaine répétition
+  private readonly isBetweenRepetitions = computed(() => this.countIn.isRunning() || this.restGap.isRunning());
+
   readonly isVideoLoaded = computed(() => {
     return this._currentVideo() !== null && this.isPlayerReady();
   });
@@ -168,7 +286,7 @@ export class VideoPlayerFacade {
       
       // Playback controls
       playbackRate: this._playbackRate(),
-      volume: state.volume,
+      volume: this.userVolume(state.volume),
       canPlay: this.canPlay(),
       canPause: this.canPause(),
       canSeek: this.canSeek(),
@@ -177,6 +295,8 @@ export class VideoPlayerFacade {
       loops: this._loops(),
       currentLoop: this._currentLoop(),
       isLooping: this.isLooping(),
+      loopRepetition: this.loopRepetition(),
+      speedRamp: this.speedRampState(),
       
       // UI state
       urlInput: this._urlInput(),
@@ -198,7 +318,7 @@ export class VideoPlayerFacade {
     currentTime: this._currentTime(),
     duration: this.playerState().duration,
     playbackRate: this._playbackRate(),
-    volume: this.playerState().volume,
+    volume: this.userVolume(this.playerState().volume),
     loops: this._loops(),
     isPlayerReady: this.isPlayerReady()
   }));
@@ -208,43 +328,50 @@ export class VideoPlayerFacade {
    */
   
   /**
-   * Convertit SessionLoop vers Loop
-   */
-  private convertSessionLoopToLoop(sessionLoop: SessionLoop): Loop {
-    return {
-      id: sessionLoop.id,
-      name: sessionLoop.name || 'Boucle sans nom',
-      startTime: sessionLoop.startTime,
-      endTime: sessionLoop.endTime,
-      color: sessionLoop.color || '#3B82F6',
-      playCount: sessionLoop.playCount,
-      isActive: sessionLoop.isActive,
-      playbackSpeed: 1.0, // Default value for Loop interface
-      repeatCount: 1 // Default value for Loop interface
-    };
-  }
-
-  /**
-   * Convertit Loop vers SessionLoop
+   * Convertit les boucles d'une session vers le modèle canonique (sans perte de champ)
    */
-  private convertLoopToSessionLoop(loop: Loop): SessionLoop {
-    return {
-      id: loop.id,
-      name: loop.name,
-      startTime: loop.startTime,
-      endTime: loop.endTime,
-      color: loop.color || '#3B82F6',
-      playCount: loop.playCount,
-      isActive: loop.isActive
-    };
+  private convertSessionLoopsToLoops(session: LooperSession): Loop[] {
+    return migrateLoops(session.loops || [], session.schemaVersion);
   }
 
   // Effets pour synchroniser l'état du player
   constructor() {
+    // Le moteur de boucle lit le temps directement sur le player
+    this.loopEngine.attach({
+      getCurrentTime: () => this.mediaPlayer.getCurrentTime(),
+      getPlaybackRate: () => this.mediaPlayer.getPlaybackRate(),
+      isPlaying: () => this.mediaPlayer.playerState().isPlaying,
+      seekTo: (seconds: number) => {
+        this.mediaPlayer.seekTo(seconds);
+        this._currentTime.set(seconds);
+      }
+    }, {
+      onLoopCompleted: loop => this.handleLoopCompletion(loop.id),
+      onLoopRestarted: loop => {
+        // Ni silence ni décompte quand la répétition termine la progression de vitesse
+        if (!this.advanceSpeedRamp(loop.id)) {
+          this.restBeforeRepetition(loop.id);
+        }
+      }
+    });
+
+    // Les fondus règlent le volume du player actif
+    this.loopFade.attach({
+      getCurrentTime: () => this.mediaPlayer.getCurrentTime(),
+      getVolume: () => this.mediaPlayer.getVolume(),
+      setVolume: (volume: number) => this.mediaPlayer.setVolume(volume)
+    });
+
+    // Le métronome se cale sur le temps du média
+    this.metronome.attach({
+      getCurrentTime: () => this.mediaPlayer.getCurrentTime(),
+      isPlaying: () => this.mediaPlayer.playerState().isPlaying
+    });
+
     // Effet pour synchroniser l'état du YouTube player avec les signals privés
     effect(() => {
       const state = this.playerState();
-      const video = this.youtubeService.currentVideo();
+      const video = this.mediaPlayer.currentVideo();
       
       // Synchroniser l'état de lecture
       this._isPlaying.set(state.isPlaying);
@@ -267,19 +394,77 @@ export class VideoPlayerFacade {
     effect(() => {
       const currentTime = this._currentTime();
       const loops = this._loops();
-      const currentLoop = this.loopService.getCurrentLoop(currentTime, loops);
-      this._currentLoop.set(currentLoop);
+      const engineLoop = this.loopEngine.activeLoop();
+
+      // Pendant le pré-roll, la boucle jouée reste la boucle courante
+      const preRollLoop = engineLoop && currentTime < engineLoop.startTime && currentTime >= restartTime(engineLoop)
+        ? loops.find(loop => loop.id === engineLoop.id)
+        : undefined;
+
+      this._currentLoop.set(preRollLoop ?? this.loopService.getCurrentLoop(currentTime, loops));
     });
 
-    // Effet pour la gestion automatique des boucles
+    // Effet pour la gestion automatique des boucles (redémarrage assuré par le moteur)
     effect(() => {
       const currentLoop = this._currentLoop();
       const isPlaying = this._isPlaying();
+
+      untracked(() => {
+        if (currentLoop && isPlaying) {
+          this.syncSpeedRamp(currentLoop);
+          // En mode progression, la boucle se répète jusqu'à la vitesse cible
+          this.loopEngine.start(currentLoop.speedRamp
+            ? {
+                id: currentLoop.id,
+                startTime: currentLoop.startTime,
+                endTime: currentLoop.endTime,
+                ...(currentLoop.preRoll !== undefined && { preRoll: currentLoop.preRoll })
+              }
+            : this.withSequenceRepeats(currentLoop));
+        } else if (!isPlaying && !this.isBetweenRepetitions()) {
+          // La pause du silence et du décompte garde la boucle et ses répétitions
+          this.loopEngine.stop();
+        }
+      });
+    });
+
+    // En zoom sur une boucle parente, la lecture reprend à son début une fois sa fin atteinte
+    effect(() => {
       const currentTime = this._currentTime();
-      
-      if (currentLoop && isPlaying && currentTime >= currentLoop.endTime) {
-        // Redémarrer la boucle si on a atteint la fin
-        this.seekTo(currentLoop.startTime);
+      const zoomedLoop = this.zoomedLoop();
+
+      if (zoomedLoop && this._isPlaying() && currentTime >= zoomedLoop.endTime) {
+        untracked(() => this.seekTo(zoomedLoop.startTime));
+      }
+    });
+
+    // Fondus de volume aux bornes de la boucle jouée par le moteur
+    effect(() => {
+      const engineLoop = this.loopEngine.activeLoop();
+      const loop = engineLoop && this._loops().find(l => l.id === engineLoop.id);
+
+      untracked(() => {
+        if (loop?.fadeInOut) {
+          this.loopFade.start({
+            id: loop.id,
+            startTime: loop.startTime,
+            endTime: loop.endTime,
+            ...(loop.preRoll !== undefined && { preRoll: loop.preRoll }),
+            fadeInOut: loop.fadeInOut
+          });
+        } else {
+          this.loopFade.stop();
+        }
+      });
+    });
+
+    // Arrêter le moteur si sa boucle est supprimée ou désactivée
+    effect(() => {
+      const loops = this._loops();
+      const engineLoop = this.loopEngine.activeLoop();
+
+      if (engineLoop && !loops.some(loop => loop.id === engineLoop.id && loop.isActive)) {
+        untracked(() => this.loopEngine.stop());
       }
     });
 
@@ -296,10 +481,14 @@ export class VideoPlayerFacade {
       const video = this._currentVideo();
       // Track changes to trigger auto-save, but don't use the values directly
       this._loops();
+      this._markers();
+      this._groups();
       this._currentTime();
+      this.metronome.settings();
       this._playbackRate();
       
-      if (video) {
+      // Uniquement pour le player initialisé par ce lecteur (pas celui d'une routine)
+      if (video && untracked(() => this._player())) {
         // Sauvegarder la session automatiquement avec debounce
         this.scheduleAutoSave();
       }
@@ -337,10 +526,14 @@ export class VideoPlayerFacade {
       this._loading.set(true);
       this._error.set(null);
       
+      this.useBackend('youtube');
       await this.youtubeService.loadVideo(videoId);
       
       // Charger les boucles sauvegardées pour cette vidéo
       await this.loadLoopsForVideo(videoId);
+
+      // Position de l'URL (t, start), et boucle entre start et end d'une URL d'embed
+      this.applyDeepLink(parseVideoUrlLink(urlToLoad, videoId));
       
       // Clear l'input après chargement réussi
       this._urlInput.set('');
@@ -368,6 +561,7 @@ export class VideoPlayerFacade {
       this._loading.set(true);
       this._error.set(null);
       
+      this.useBackend('youtube');
       await this.youtubeService.initializePlayer(elementId, videoId);
       this._player.set(this.youtubeService);
       
@@ -384,32 +578,86 @@ export class VideoPlayerFacade {
     }
   }
 
+  /**
+   * Charge un fichier audio/vidéo local dans l'élément média fourni.
+   * Les boucles et la session sont indexées par le hash du contenu du fichier.
+   */
+  async loadLocalFile(file: File, element: HTMLMediaElement): Promise<void> {
+    if (!isSupportedMediaFile(file)) {
+      this._error.set('Format de fichier non pris en charge, choisissez un fichier audio ou vidéo');
+      return;
+    }
+
+    try {
+      this._loading.set(true);
+      this._error.set(null);
+
+      this.useBackend('html5');
+      const video = await this.html5Player.loadFile(element, file);
+      this._player.set(this.html5Player);
+
+      // Charger les boucles sauvegardées pour ce fichier
+      await this.loadLoopsForVideo(video.videoId);
+
+      this._loading.set(false);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Erreur lors du chargement du fichier';
+      this._error.set(errorMessage);
+      this._loading.set(false);
+      console.error('Erreur lors du chargement du fichier:', error);
+    }
+  }
+
+  /**
+   * Bascule sur le player YouTube ou HTML5, la boucle en cours appartient à l'ancien média
+   */
+  private useBackend(kind: PlayerBackendKind): void {
+    if (this.mediaPlayer.kind === kind) return;
+
+    this.cancelBetweenRepetitions();
+    this.loopEngine.stop();
+    this.speedRamp.stop();
+    this._currentLoop.set(null);
+    this.mediaPlayer.use(kind);
+  }
+
   /**
    * Contrôles de lecture améliorés avec gestion d'état
    */
   play(): void {
+    this.cancelBetweenRepetitions();
     if (this.canPlay()) {
-      this.youtubeService.play();
+      this.mediaPlayer.play();
       this._error.set(null);
     }
   }
 
   pause(): void {
+    // Pendant le silence ou le décompte la vidéo est déjà en pause, la reprise est annulée
+    if (this.isBetweenRepetitions()) {
+      this.cancelBetweenRepetitions();
+      return;
+    }
+
     if (this.canPause()) {
-      this.youtubeService.pause();
+      this.mediaPlayer.pause();
       this._error.set(null);
     }
   }
 
   stop(): void {
-    this.youtubeService.stop();
+    this.cancelBetweenRepetitions();
+    this.loopEngine.stop();
+    this.mediaPlayer.stop();
+    this._groupPlayback.set(null);
+    this._shuffle.set(null);
     this._currentTime.set(0);
     this._isPlaying.set(false);
     this._currentLoop.set(null);
   }
 
   togglePlayPause(): void {
-    if (this._isPlaying()) {
+    if (this._isPlaying() || this.isBetweenRepetitions()) {
       this.pause();
     } else {
       this.play();
@@ -421,13 +669,26 @@ export class VideoPlayerFacade {
    */
   seekTo(seconds: number): void {
     const duration = this.playerState().duration;
-    const clampedTime = Math.max(0, Math.min(seconds, duration));
+    const zoomedLoop = this.zoomedLoop();
+    const clampedTime = zoomedLoop
+      ? Math.max(zoomedLoop.startTime, Math.min(seconds, zoomedLoop.endTime))
+      : Math.max(0, Math.min(seconds, duration));
     
-    this.youtubeService.seekTo(clampedTime);
+    this.cancelBetweenRepetitions();
+    this.mediaPlayer.seekTo(clampedTime);
     this._currentTime.set(clampedTime);
+    this.loopEngine.notifySeek(clampedTime);
     this._error.set(null);
   }
 
+  /**
+   * Relit la position de lecture sur le player, l'API YouTube ne notifie pas la progression
+   */
+  refreshCurrentTime(): void {
+    if (!this._player()) return;
+    this._currentTime.set(this.mediaPlayer.getCurrentTime());
+  }
+
   seekBy(seconds: number): void {
     const currentTime = this._currentTime();
     this.seekTo(currentTime + seconds);
@@ -451,7 +712,7 @@ export class VideoPlayerFacade {
       Math.abs(curr - rate) < Math.abs(prev - rate) ? curr : prev
     );
     
-    this.youtubeService.setPlaybackRate(closestRate);
+    this.mediaPlayer.setPlaybackRate(closestRate);
     this._playbackRate.set(closestRate);
     this._error.set(null);
   }
@@ -477,14 +738,28 @@ export class VideoPlayerFacade {
   }
 
   /**
-   * Contrôle du volume
+   * Contrôle du volume : volume de base de l'utilisateur, les fondus s'y appliquent
    */
   setVolume(volume: number): void {
-    this.youtubeService.setVolume(volume);
+    this.loopFade.setBaseVolume(volume);
   }
 
   mute(): void {
-    this.setVolume(0);
+    this.loopFade.setMuted(true);
+  }
+
+  unmute(): void {
+    this.loopFade.setMuted(false);
+  }
+
+  /**
+   * Volume affiché : celui choisi par l'utilisateur, pas le niveau d'un fondu en cours
+   */
+  private userVolume(playerVolume: number): number {
+    if (this.loopFade.isMuted()) {
+      return 0;
+    }
+    return this.loopFade.baseVolume() ?? playerVolume;
   }
 
   /**
@@ -495,25 +770,35 @@ export class VideoPlayerFacade {
    * Charge les boucles sauvegardées pour une vidéo
    */
   private async loadLoopsForVideo(videoId: string): Promise<void> {
+    this._zoomedLoopId.set(null);
+    this._groupPlayback.set(null);
+    this._shuffle.set(null);
+    this._shuffleSummary.set(null);
+    // Historique propre à chaque vidéo, conservé pour sa prochaine ouverture
+    this.history.setScope(videoId);
     try {
-      const sessions = this.storageService.getVideoSessions(videoId);
-      if (sessions.length > 0) {
-        // Prendre la session la plus récente
-        const latestSession = sessions.sort((a, b) => 
-          new Date(b.lastPlayed).getTime() - new Date(a.lastPlayed).getTime()
-        )[0];
-        
-        // Convertir SessionLoop vers Loop
-        const loops = (latestSession.loops || []).map(sessionLoop => 
-          this.convertSessionLoopToLoop(sessionLoop)
-        );
-        this._loops.set(loops);
+      // Prendre la session la plus récente de la vidéo
+      const latestSession = this.sessionRepository.getLatestForVideo(videoId);
+      if (latestSession) {
+        this._loops.set(this.convertSessionLoopsToLoops(latestSession));
+        this._markers.set(sortMarkers(latestSession.markers ?? []));
+        this._groups.set(latestSession.groups ?? []);
+        this._sessionId.set(latestSession.id);
+        this.metronome.load(latestSession.metronome);
       } else {
         this._loops.set([]);
+        this._markers.set([]);
+        this._groups.set([]);
+        this._sessionId.set(null);
+        this.metronome.load(undefined);
       }
     } catch (error) {
       console.error('Erreur lors du chargement des boucles:', error);
       this._loops.set([]);
+      this._markers.set([]);
+      this._groups.set([]);
+      this._sessionId.set(null);
+      this.metronome.load(undefined);
     }
   }
 
@@ -524,12 +809,18 @@ export class VideoPlayerFacade {
     try {
       const videoDuration = this.playerState().duration;
       const existingLoops = this._loops();
+
+      // Une boucle créée dans la boucle zoomée en devient une sous-boucle
+      const zoomedLoop = this.zoomedLoop();
+      const loopOptions = zoomedLoop && options.parentLoopId === undefined && isWithinLoop({ startTime, endTime }, zoomedLoop)
+        ? { ...options, parentLoopId: zoomedLoop.id }
+        : options;
       
       const { loop, validation } = this.loopService.createValidatedLoop(
         name, 
         startTime, 
         endTime, 
-        options, 
+        loopOptions, 
         videoDuration, 
         existingLoops
       );
@@ -540,6 +831,7 @@ export class VideoPlayerFacade {
       }
 
       this._loops.update(loops => [...loops, loop]);
+      this.history.record('create', `Créer « ${loop.name} »`, existingLoops, this._loops());
       this._error.set(null);
       return true;
     } catch (error) {
@@ -555,14 +847,21 @@ export class VideoPlayerFacade {
   removeLoop(loopId: string): boolean {
     try {
       const currentLoops = this._loops();
-      const updatedLoops = currentLoops.filter(loop => loop.id !== loopId);
+      const removedLoop = currentLoops.find(loop => loop.id === loopId);
       
-      if (updatedLoops.length === currentLoops.length) {
+      if (!removedLoop) {
         this._error.set('Boucle non trouvée');
         return false;
       }
 
-      this._loops.set(updatedLoops);
+      // Les sous-boucles remontent d'un niveau
+      this._loops.set(reparentSubLoops(currentLoops.filter(loop => loop.id !== loopId), removedLoop));
+      this.history.record('delete', `Supprimer « ${removedLoop.name} »`, currentLoops, this._loops());
+      this._groups.update(groups => removeLoopFromGroups(groups, loopId));
+
+      if (this._zoomedLoopId() === loopId) {
+        this._zoomedLoopId.set(null);
+      }
       
       // Si c'était la boucle courante, la désactiver
       const currentLoop = this._currentLoop();
@@ -579,6 +878,489 @@ export class VideoPlayerFacade {
     }
   }
 
+  /**
+   * Modifie une boucle existante, par exemple ses bornes après un déplacement sur la timeline
+   */
+  updateLoop(loopId: string, updates: Partial<Loop>): boolean {
+    return this.replaceLoop(loopId, loop => ({ ...loop, ...updates, id: loopId }));
+  }
+
+  /**
+   * Enregistre la demande du formulaire de boucle : null désactive un réglage
+   * (entraîneur de vitesse, décompte, pause, fondus), pris en compte dès la répétition suivante
+   */
+  editLoop(request: UpdateLoopRequest): boolean {
+    return this.replaceLoop(request.id, loop => LoopUtils.applyUpdate(loop, request));
+  }
+
+  private replaceLoop(loopId: string, update: (loop: Loop) => Loop): boolean {
+    try {
+      const currentLoops = this._loops();
+      const currentLoop = currentLoops.find(loop => loop.id === loopId);
+
+      if (!currentLoop) {
+        this._error.set('Boucle non trouvée');
+        return false;
+      }
+
+      const updatedLoop = update(currentLoop);
+
+      // Un déplacement (bornes décalées d'autant) emmène les sous-boucles, un redimensionnement non
+      const offset = updatedLoop.startTime - currentLoop.startTime;
+      const isMove = offset !== 0 && updatedLoop.endTime - currentLoop.endTime === offset;
+      const loops = isMove ? shiftSubLoops(currentLoops, loopId, offset) : currentLoops;
+
+      const otherLoops = loops.filter(loop => loop.id !== loopId);
+      const validation = this.loopService.validateLoop(updatedLoop, this.playerState().duration || undefined, otherLoops);
+
+      if (!validation.isValid) {
+        this._error.set(`Impossible de modifier la boucle: ${validation.errors.join(', ')}`);
+        return false;
+      }
+
+      this._loops.set(loops.map(loop => loop.id === loopId ? updatedLoop : loop));
+      this.history.record('update', `Modifier « ${updatedLoop.name} »`, currentLoops, this._loops());
+
+      // Garder la boucle courante synchronisée avec ses nouvelles bornes
+      if (this._currentLoop()?.id === loopId) {
+        this._currentLoop.set(updatedLoop);
+      }
+
+      this._error.set(null);
+      return true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Erreur lors de la modification de la boucle';
+      this._error.set(errorMessage);
+      return false;
+    }
+  }
+
+  /**
+   * Duplique une boucle et ses réglages, au premier emplacement libre après elle
+   */
+  duplicateLoop(loopId: string): boolean {
+    const loops = this._loops();
+    const source = loops.find(loop => loop.id === loopId);
+    if (!source) {
+      this._error.set('Boucle non trouvée');
+      return false;
+    }
+
+    // Les boucles ne se chevauchent pas, la copie prend la première place libre après la source
+    const range = this.loopService.suggestNonOverlappingTimeRange(
+      source.endTime,
+      source.endTime - source.startTime,
+      loops,
+      this.playerState().duration || undefined
+    );
+    if (!range) {
+      this._error.set('Aucun emplacement libre pour la copie');
+      return false;
+    }
+
+    // La copie passe par addLoop, enregistrée comme une seule duplication, sans le planning de révision
+    const { id, name, startTime, endTime, playCount, createdAt, updatedAt, parentLoopId, review, ...settings } = source;
+    this.beginLoopEdit('duplicate', `Dupliquer « ${source.name} »`);
+    const created = this.addLoop(`${source.name} (copie)`, range.startTime, range.endTime, settings);
+    this.endLoopEdit();
+    return created;
+  }
+
+  /**
+   * Crée une boucle par chapitre importé, nommée d'après le chapitre et colorée avec
+   * la palette des réglages, en une étape d'historique. Les segments en défaut sont ignorés.
+   * @returns Nombre de boucles créées
+   */
+  importChapters(segments: readonly ChapterSegment[]): number {
+    const savedColors = this.storageService.loadSettings().loopColors;
+    const colors = savedColors?.length ? savedColors : DEFAULT_APP_SETTINGS.loopColors;
+
+    this.beginLoopEdit('create', 'Importer les chapitres');
+    const created = segments
+      .filter(segment => segment.issue === null)
+      .filter((segment, index) =>
+        this.addLoop(segment.title, segment.startTime, segment.endTime, { color: colors[index % colors.length]! })
+      ).length;
+    this.endLoopEdit();
+    return created;
+  }
+
+  /**
+   * Supprime toutes les boucles de la vidéo courante, en une étape d'historique
+   */
+  clearAllLoops(): void {
+    const loops = this._loops();
+    this.restoreLoops([]);
+    this.history.record('clear', 'Supprimer toutes les boucles', loops, this._loops());
+    this._error.set(null);
+  }
+
+  /**
+   * Regroupe les modifications faites jusqu'à endLoopEdit en une seule étape
+   * d'historique, par exemple pendant le glisser d'une boucle sur la timeline
+   */
+  beginLoopEdit(action: LoopHistoryAction, label: string): void {
+    this.history.beginTransaction(action, label, this._loops());
+  }
+
+  endLoopEdit(): void {
+    this.history.commitTransaction(this._loops());
+  }
+
+  /**
+   * Annule la dernière modification de boucles de la vidéo courante
+   */
+  undo(): boolean {
+    const command = this.history.undo();
+    if (!command) {
+      this._error.set('Aucune action à annuler');
+      return false;
+    }
+
+    this.restoreLoops(command.before);
+    this._error.set(null);
+    return true;
+  }
+
+  /**
+   * Rétablit la dernière modification annulée
+   */
+  redo(): boolean {
+    const command = this.history.redo();
+    if (!command) {
+      this._error.set('Aucune action à rétablir');
+      return false;
+    }
+
+    this.restoreLoops(command.after);
+    this._error.set(null);
+    return true;
+  }
+
+  /**
+   * Remplace les boucles par un état de l'historique et oublie les boucles disparues
+   */
+  private restoreLoops(loops: Loop[]): void {
+    this._loops.set(loops.map(loop => ({ ...loop })));
+    this._groups.update(groups => normalizeLoopGroups(groups, loops.map(loop => loop.id)));
+
+    // Le moteur s'arrête de lui-même si sa boucle a disparu
+    const currentLoop = this._currentLoop();
+    if (currentLoop) {
+      this._currentLoop.set(this._loops().find(loop => loop.id === currentLoop.id) ?? null);
+    }
+
+    const zoomedLoopId = this._zoomedLoopId();
+    if (zoomedLoopId && !this._loops().some(loop => loop.id === zoomedLoopId)) {
+      this._zoomedLoopId.set(null);
+    }
+  }
+
+  /**
+   * Resserre la lecture et la navigation sur la boucle parente d'une sous-boucle,
+   * ou sur la boucle elle-même si elle est de premier niveau
+   */
+  zoomIntoParent(loopId: string): boolean {
+    const loops = this._loops();
+    const loop = loops.find(l => l.id === loopId);
+
+    if (!loop) {
+      this._error.set('Boucle non trouvée');
+      return false;
+    }
+
+    const target = getParentLoop(loop, loops) ?? loop;
+    this._zoomedLoopId.set(target.id);
+
+    if (this._currentTime() < target.startTime || this._currentTime() > target.endTime) {
+      this.seekTo(target.startTime);
+    }
+    this._error.set(null);
+    return true;
+  }
+
+  /**
+   * Revient à la vidéo entière
+   */
+  exitLoopZoom(): void {
+    this._zoomedLoopId.set(null);
+  }
+
+  /**
+   * === GESTION DES REPÈRES ===
+   */
+
+  /**
+   * Ajoute un repère nommé, à la position de lecture par défaut
+   */
+  addMarker(label: string, time: number = this._currentTime(), options: { color?: string; note?: string } = {}): Marker | null {
+    if (!this._currentVideo()) {
+      this._error.set('Aucune vidéo chargée pour ajouter un repère');
+      return null;
+    }
+
+    const marker = createMarker({ label, time, ...options }, this.playerState().duration || undefined);
+    this._markers.update(markers => sortMarkers([...markers, marker]));
+    this._error.set(null);
+    return marker;
+  }
+
+  /**
+   * Modifie un repère, par exemple sa position après un déplacement sur la timeline
+   */
+  updateMarker(markerId: string, updates: Omit<UpdateMarkerRequest, 'id'>): boolean {
+    const current = this._markers().find(marker => marker.id === markerId);
+    if (!current) {
+      this._error.set('Repère non trouvé');
+      return false;
+    }
+
+    const updated = updateMarker(current, updates, this.playerState().duration || undefined);
+    this._markers.update(markers => sortMarkers(markers.map(marker => marker.id === markerId ? updated : marker)));
+    this._error.set(null);
+    return true;
+  }
+
+  /**
+   * Supprime un repère
+   */
+  removeMarker(markerId: string): boolean {
+    const markers = this._markers();
+    if (!markers.some(marker => marker.id === markerId)) {
+      this._error.set('Repère non trouvé');
+      return false;
+    }
+
+    this._markers.set(markers.filter(marker => marker.id !== markerId));
+    this._error.set(null);
+    return true;
+  }
+
+  /**
+   * Place la lecture sur le repère suivant ou précédent
+   * @returns false s'il n'y a pas de repère dans cette direction
+   */
+  seekToMarker(direction: 'next' | 'previous'): boolean {
+    const marker = adjacentMarker(this._markers(), this._currentTime(), direction);
+    if (!marker) {
+      return false;
+    }
+
+    this.seekTo(marker.time);
+    return true;
+  }
+
+  /**
+   * === GROUPES DE BOUCLES ===
+   */
+
+  /**
+   * Crée un groupe vide, enregistré avec la session de la vidéo
+   */
+  createGroup(name: string, color?: string): LoopGroup | null {
+    if (!this._currentVideo()) {
+      this._error.set('Aucune vidéo chargée pour créer un groupe');
+      return null;
+    }
+
+    const group = createLoopGroup(name, color);
+    this._groups.update(groups => [...groups, group]);
+    this._error.set(null);
+    return group;
+  }
+
+  /**
+   * Supprime un groupe, ses boucles sont conservées hors groupe
+   */
+  deleteGroup(groupId: string): boolean {
+    const groups = this._groups();
+    if (!groups.some(group => group.id === groupId)) {
+      this._error.set('Groupe non trouvé');
+      return false;
+    }
+
+    if (this._groupPlayback()?.groupId === groupId) {
+      this._groupPlayback.set(null);
+    }
+    this._groups.set(groups.filter(group => group.id !== groupId));
+    this._error.set(null);
+    return true;
+  }
+
+  /**
+   * Renomme ou recolore un groupe
+   */
+  updateGroup(groupId: string, changes: { name?: string; color?: string }): boolean {
+    const groups = this._groups();
+    if (!groups.some(group => group.id === groupId)) {
+      this._error.set('Groupe non trouvé');
+      return false;
+    }
+
+    this._groups.set(groups.map(group => group.id === groupId ? updateLoopGroup(group, changes) : group));
+    this._error.set(null);
+    return true;
+  }
+
+  /**
+   * Range une boucle dans un groupe à la position donnée, ou hors de tout groupe avec null
+   */
+  moveLoopToGroup(loopId: string, groupId: string | null, index?: number): boolean {
+    if (!this._loops().some(loop => loop.id === loopId)) {
+      this._error.set('Boucle non trouvée');
+      return false;
+    }
+    if (groupId !== null && !this._groups().some(group => group.id === groupId)) {
+      this._error.set('Groupe non trouvé');
+      return false;
+    }
+
+    this._groups.update(groups => assignLoopToGroup(groups, loopId, groupId, index));
+    this._error.set(null);
+    return true;
+  }
+
+  /**
+   * Boucles d'un groupe, dans l'ordre du groupe
+   */
+  getGroupLoops(groupId: string): Loop[] {
+    const group = this._groups().find(g => g.id === groupId);
+    if (!group) return [];
+
+    const loops = this._loops();
+    return group.loops
+      .map(id => loops.find(loop => loop.id === id))
+      .filter((loop): loop is Loop => loop !== undefined);
+  }
+
+  /**
+   * Joue les boucles d'un groupe l'une après l'autre : chaque boucle enchaîne
+   * sur la suivante à la fin de ses répétitions, une seule sans nombre de répétitions
+   */
+  playGroup(groupId: string): boolean {
+    const loops = this.getGroupLoops(groupId);
+    const first = loops[0];
+    if (!first) {
+      this._error.set('Aucune boucle dans ce groupe');
+      return false;
+    }
+
+    this._shuffle.set(null);
+    this._groupPlayback.set({ groupId, loopIds: loops.map(loop => loop.id), index: 0 });
+    this.startLoop(first.id);
+    return true;
+  }
+
+  /**
+   * Arrête la lecture du groupe en cours
+   */
+  stopGroup(): void {
+    if (!this._groupPlayback()) return;
+
+    this._groupPlayback.set(null);
+    this.pause();
+  }
+
+  /**
+   * Démarre une pratique entrelacée : les boucles s'enchaînent dans un ordre
+   * aléatoire et pondéré jusqu'à l'appel de stopShufflePractice
+   */
+  startShufflePractice(options: ShufflePracticeOptions = {}): boolean {
+    if (this._loops().length === 0) {
+      this._error.set('Aucune boucle disponible');
+      return false;
+    }
+
+    this._groupPlayback.set(null);
+    this._shuffleSummary.set(null);
+    this._shuffle.set({
+      random: options.seed !== undefined ? createSeededRandom(options.seed) : Math.random,
+      weights: { ...options.weights },
+      avoidRepeats: options.avoidRepeats ?? true,
+      picks: []
+    });
+
+    const first = this.drawShuffledLoop();
+    if (!first) {
+      this._shuffle.set(null);
+      this._error.set('Aucune boucle à tirer avec ces poids');
+      return false;
+    }
+
+    this.startLoop(first.id);
+    return true;
+  }
+
+  /**
+   * Termine la pratique aléatoire et garde le nombre de tirages de chaque boucle
+   */
+  stopShufflePractice(): ShufflePracticeSummary | null {
+    const shuffle = this._shuffle();
+    if (!shuffle) {
+      return null;
+    }
+
+    const counts = new Map<string, { loopId: string; name: string; count: number }>();
+    for (const pick of shuffle.picks) {
+      const entry = counts.get(pick.loopId) ?? { ...pick, count: 0 };
+      entry.count++;
+      counts.set(pick.loopId, entry);
+    }
+
+    const summary: ShufflePracticeSummary = {
+      totalPicks: shuffle.picks.length,
+      loops: [...counts.values()].sort((a, b) => b.count - a.count)
+    };
+
+    this._shuffle.set(null);
+    this._shuffleSummary.set(summary);
+    this.pause();
+    return summary;
+  }
+
+  clearShuffleSummary(): void {
+    this._shuffleSummary.set(null);
+  }
+
+  // Tire la boucle suivante de la pratique aléatoire et la compte
+  private drawShuffledLoop(): Loop | null {
+    const shuffle = this._shuffle();
+    if (!shuffle) return null;
+
+    const weightOf = (loop: Loop) => shuffle.weights[loop.id] ?? 1;
+    const previousId = shuffle.picks[shuffle.picks.length - 1]?.loopId;
+    const candidates = this._loops().filter(loop => weightOf(loop) > 0);
+
+    // La boucle qui vient d'être jouée est écartée, sauf si elle est la seule
+    const pool = shuffle.avoidRepeats && candidates.length > 1
+      ? candidates.filter(loop => loop.id !== previousId)
+      : candidates;
+
+    const loop = pickWeighted(pool, weightOf, shuffle.random);
+    if (loop) {
+      this._shuffle.set({ ...shuffle, picks: [...shuffle.picks, { loopId: loop.id, name: loop.name }] });
+    }
+    return loop;
+  }
+
+  // Boucle tirée en dernier, celle que joue la pratique aléatoire
+  private isShuffledLoop(loopId: string): boolean {
+    const picks = this._shuffle()?.picks ?? [];
+    return picks[picks.length - 1]?.loopId === loopId;
+  }
+
+  /**
+   * Pendant la lecture d'un groupe ou la pratique aléatoire, la boucle en cours
+   * doit se terminer pour passer à la suivante
+   */
+  private withSequenceRepeats(loop: Loop): Loop {
+    const playback = this._groupPlayback();
+    const isChained = (playback && playback.loopIds[playback.index] === loop.id) || this.isShuffledLoop(loop.id);
+    return isChained && loop.repeatCount === undefined
+      ? { ...loop, repeatCount: 1 }
+      : loop;
+  }
+
   /**
    * Active/désactive une boucle
    */
@@ -618,11 +1400,15 @@ export class VideoPlayerFacade {
         this.toggleLoop(loopId);
       }
 
-      // Se positionner au début de la boucle
-      this.seekTo(loop.startTime);
+      // Se positionner au début de la boucle, pré-roll compris
+      this.seekTo(restartTime(loop));
       
-      // Démarrer la lecture
-      this.play();
+      // Démarrer la lecture, après le décompte s'il y en a un
+      if (loop.countIn) {
+        this.playCountIn(loop.id);
+      } else {
+        this.play();
+      }
       
       this._error.set(null);
     } catch (error) {
@@ -631,6 +1417,190 @@ export class VideoPlayerFacade {
     }
   }
 
+  /**
+   * Applique l'action de fin d'une boucle après sa dernière répétition
+   */
+  private handleLoopCompletion(loopId: string): void {
+    const loops = this._loops();
+    const loop = loops.find(l => l.id === loopId);
+    if (!loop) {
+      return;
+    }
+
+    const playback = this._groupPlayback();
+    if (playback && playback.loopIds[playback.index] === loopId) {
+      // Lecture d'un groupe : l'ordre du groupe remplace l'action de fin, arrêt après la dernière boucle
+      const nextIndex = playback.loopIds.findIndex((id, index) => index > playback.index && loops.some(l => l.id === id));
+      const nextId = playback.loopIds[nextIndex];
+      if (nextId) {
+        this._groupPlayback.set({ ...playback, index: nextIndex });
+        this.startLoop(nextId);
+        return;
+      }
+      this._groupPlayback.set(null);
+    } else if (this.isShuffledLoop(loopId)) {
+      // Pratique aléatoire : la boucle suivante est tirée au sort, quelle que soit l'action de fin
+      const next = this.drawShuffledLoop();
+      if (next) {
+        this.startLoop(next.id);
+        return;
+      }
+      this.stopShufflePractice();
+    } else {
+      switch (loop.completionAction ?? 'stop') {
+        case 'continue':
+          // La lecture se poursuit au-delà de la boucle
+          return;
+
+        case 'next': {
+          const next = loops[loops.indexOf(loop) + 1];
+          if (next) {
+            this.startLoop(next.id);
+            return;
+          }
+          break;
+        }
+
+        case 'jump': {
+          const target = loops.find(l => l.id === loop.completionTargetId && l.id !== loop.id);
+          if (target) {
+            this.startLoop(target.id);
+            return;
+          }
+          break;
+        }
+      }
+    }
+
+    // 'stop' : pause au début de la boucle, prête à être rejouée
+    this.mediaPlayer.pause();
+    this.seekTo(restartTime(loop));
+  }
+
+  /**
+   * Silence après une répétition : la vidéo attend en pause, pour la durée choisie
+   * ou celle de la boucle en question-réponse, puis le décompte éventuel
+   */
+  private async restBeforeRepetition(loopId: string): Promise<void> {
+    const loop = this._loops().find(l => l.id === loopId);
+    if (!loop?.restGap) {
+      await this.playCountIn(loopId);
+      return;
+    }
+
+    this.mediaPlayer.pause();
+    const duration = restDuration(loop, this._playbackRate());
+    if (!(await this.restGap.run(loop.restGap.mode, duration))) {
+      return;
+    }
+
+    if (loop.countIn) {
+      await this.playCountIn(loopId);
+    } else {
+      this.mediaPlayer.play();
+    }
+  }
+
+  /**
+   * Annule le silence ou le décompte en cours, sans reprendre la lecture
+   */
+  private cancelBetweenRepetitions(): void {
+    this.restGap.cancel();
+    this.countIn.cancel();
+  }
+
+  /**
+   * Décompte du métronome avant une répétition : la vidéo attend en pause
+   * puis reprend sur le temps qui suit le dernier clic
+   */
+  private async playCountIn(loopId: string): Promise<void> {
+    const loop = this._loops().find(l => l.id === loopId);
+    if (!loop?.countIn) {
+      return;
+    }
+
+    this.mediaPlayer.pause();
+    if (await this.countIn.run(loop.countIn)) {
+      this.mediaPlayer.play();
+    }
+  }
+
+  /**
+   * === PROGRESSION DE VITESSE ===
+   */
+
+  /**
+   * Démarre ou arrête l'entraîneur de vitesse selon la boucle jouée,
+   * et le relance quand ses réglages sont modifiés en cours de lecture
+   */
+  private syncSpeedRamp(loop: Loop): void {
+    const ramp = this.speedRamp.state();
+
+    if (loop.speedRamp) {
+      const config = loop.speedRamp;
+      // Le service borne les vitesses : on compare aux réglages tels que saisis
+      const source = this.speedRampSource;
+      const isSameRamp = ramp?.loopId === loop.id && source !== null &&
+        (Object.keys(config) as (keyof SpeedRampConfig)[]).every(key => source[key] === config[key]);
+      if (!isSameRamp) {
+        this.speedRampSource = { ...config };
+        this.applyRampSpeed(this.speedRamp.start(loop.id, config));
+      }
+    } else if (ramp) {
+      this.speedRampSource = null;
+      this.speedRamp.stop();
+    }
+  }
+
+  /**
+   * Compte une répétition propre et accélère à la fin de chaque palier
+   * @returns true quand la vitesse cible est atteinte et l'action de fin appliquée
+   */
+  private advanceSpeedRamp(loopId: string): boolean {
+    const ramp = this.speedRamp.state();
+    if (!ramp || ramp.loopId !== loopId || ramp.isCompleted) {
+      return false;
+    }
+
+    const result = this.speedRamp.recordRepetition();
+    if (result?.speedChanged) {
+      this.applyRampSpeed(result.speed);
+    }
+    if (result?.isCompleted) {
+      // Vitesse cible atteinte : action de fin de la boucle
+      this.handleLoopCompletion(loopId);
+      return true;
+    }
+    return false;
+  }
+
+  // Vitesse fine (0.6x, 0.65x...) : pas d'arrondi aux paliers de setPlaybackRate
+  private applyRampSpeed(speed: number): void {
+    this.mediaPlayer.setPlaybackRate(speed);
+    this._playbackRate.set(speed);
+  }
+
+  /**
+   * La dernière répétition n'était pas propre : le palier recommence
+   */
+  markRepetitionMissed(): void {
+    this.speedRamp.markRepetitionMissed();
+  }
+
+  /**
+   * Reprend la progression de la boucle en cours depuis sa vitesse de départ
+   */
+  restartSpeedRamp(): void {
+    const ramp = this.speedRamp.state();
+    const loop = ramp && this._loops().find(l => l.id === ramp.loopId);
+    if (!loop?.speedRamp) {
+      return;
+    }
+
+    this.applyRampSpeed(this.speedRamp.start(loop.id, loop.speedRamp, true));
+    this.seekTo(loop.startTime);
+  }
+
   /**
    * === PERSISTANCE DES SESSIONS ===
    */
@@ -658,24 +1628,25 @@ export class VideoPlayerFacade {
       const video = this._currentVideo();
       if (!video) return;
 
-      // Convertir les boucles Loop vers SessionLoop
-      const sessionLoops = this._loops().map(loop => this.convertLoopToSessionLoop(loop));
-
-      const session: VideoSession = {
-        id: `session-${video.videoId}-${Date.now()}`,
+      // Une seule session par vidéo, partagée avec le gestionnaire de sessions
+      const sessionId = this._sessionId();
+      const result = this.sessionRepository.saveVideoSnapshot({
         videoId: video.videoId,
         videoTitle: video.title,
         videoUrl: video.url || `https://www.youtube.com/watch?v=${video.videoId}`,
-        loops: sessionLoops,
+        videoDuration: video.duration,
+        loops: this._loops(),
         playbackSpeed: this._playbackRate(),
         currentTime: this._currentTime(),
-        lastPlayed: new Date(),
-        totalPlayTime: 0, // Could be tracked separately
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
-
-      this.storageService.saveSession(session);
+        metronome: this.metronome.settings(),
+        markers: this._markers(),
+        groups: this._groups(),
+        ...(sessionId && { sessionId })
+      });
+
+      if (result.success && result.data) {
+        this._sessionId.set((result.data as LooperSession).id);
+      }
     } catch (error) {
       console.error('Erreur lors de la sauvegarde automatique:', error);
     }
@@ -710,22 +1681,31 @@ export class VideoPlayerFacade {
       this._loading.set(true);
       this._error.set(null);
 
-      const session = this.storageService.getSession(sessionId);
+      const session = this.sessionRepository.getById(sessionId);
       if (!session) {
         this._error.set('Session non trouvée');
         this._loading.set(false);
         return false;
       }
 
-      // Charger la vidéo
-      await this.loadVideo(session.videoUrl);
+      // Charger la vidéo, un fichier local ne peut être rouvert que par l'utilisateur
+      if (isLocalMediaId(session.videoId)) {
+        if (this._currentVideo()?.videoId !== session.videoId) {
+          this._error.set(`Ouvrez le fichier "${session.videoTitle}" pour reprendre cette session`);
+          this._loading.set(false);
+          return false;
+        }
+      } else {
+        await this.loadVideo(session.videoUrl);
+      }
       
       // Restaurer l'état de la session avec conversion des types
-      const loops = (session.loops || []).map(sessionLoop => 
-        this.convertSessionLoopToLoop(sessionLoop)
-      );
-      this._loops.set(loops);
-      this.setPlaybackRate(session.playbackSpeed);
+      this._sessionId.set(session.id);
+      this._loops.set(this.convertSessionLoopsToLoops(session));
+      this._markers.set(sortMarkers(session.markers ?? []));
+      this._groups.set(session.groups ?? []);
+      this.metronome.load(session.metronome);
+      this.setPlaybackRate(session.globalPlaybackSpeed);
       this.seekTo(session.currentTime);
       
       this._loading.set(false);
@@ -743,10 +1723,16 @@ export class VideoPlayerFacade {
    */
   reset(): void {
     // Nettoyer les services externes
-    this.youtubeService.destroy();
+    this.cancelBetweenRepetitions();
+    this.loopEngine.stop();
+    this.loopFade.stop();
+    this.metronome.stop();
+    this.speedRamp.stop();
+    this.mediaPlayer.destroy();
     
     // Réinitialiser les signals privés
     this._currentVideo.set(null);
+    this._sessionId.set(null);
     this._player.set(null);
     this._isPlaying.set(false);
     this._currentTime.set(0);
@@ -755,7 +1741,14 @@ export class VideoPlayerFacade {
     this._error.set(null);
     this._urlInput.set('');
     this._loops.set([]);
+    this._markers.set([]);
+    this._groups.set([]);
+    this._groupPlayback.set(null);
+    this._shuffle.set(null);
+    this._shuffleSummary.set(null);
     this._currentLoop.set(null);
+    this._zoomedLoopId.set(null);
+    this.history.setScope(null);
   }
 
   /**
@@ -816,8 +1809,9 @@ export class VideoPlayerFacade {
         }
       );
 
-      this._loops.set(resolvedLoops);
-      
+      this.restoreLoops(resolvedLoops);
+      this.history.record('resolve-conflicts', 'Résoudre les conflits', loops, this._loops());
+
       if (modifications.length > 0) {
         console.log('Résolution des conflits de boucles:', modifications);
       }
@@ -844,11 +1838,11 @@ export class VideoPlayerFacade {
       const video = this._currentVideo();
       if (!video) return [];
 
-      const sessions = this.storageService.getVideoSessions(video.videoId);
+      const sessions = this.sessionRepository.getByVideo(video.videoId);
       return sessions.map(session => ({
         id: session.id,
-        title: session.videoTitle || 'Session sans titre',
-        lastPlayed: new Date(session.lastPlayed),
+        title: session.name || session.videoTitle || 'Session sans titre',
+        lastPlayed: new Date(session.lastPlayed ?? session.updatedAt),
         loopCount: session.loops?.length || 0
       }));
     } catch (error) {
@@ -950,6 +1944,131 @@ export class VideoPlayerFacade {
     };
   }
 
+  /**
+   * Télécharge les boucles et groupes de la vidéo courante dans un fichier JSON
+   */
+  exportLoopsToFile(): LoopExportData {
+    const videoId = this._currentVideo()?.videoId;
+    const data = this.loopService.exportLoops(this._loops(), this._groups(), videoId);
+    this.downloadJsonFile(data, `boucles-${videoId ?? 'video'}.json`);
+    return data;
+  }
+
+  /**
+   * Ajoute les boucles et groupes d'un fichier exporté à la session, en une étape d'historique
+   * @returns Nombre de boucles importées, 0 si le fichier n'est pas un export de boucles
+   */
+  async importLoopsFromFile(file: File): Promise<number> {
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch (error) {
+      console.warn('Fichier d\'export de boucles illisible:', error);
+      this._error.set('Fichier d\'export de boucles illisible');
+      return 0;
+    }
+
+    const loops = this._loops();
+    const imported = this.loopService.importLoops(data, loops, this.playerState().duration || undefined);
+    if (imported.loops.length === 0) {
+      this._error.set('Aucune boucle à importer dans ce fichier');
+      return 0;
+    }
+
+    this._loops.set([...loops, ...imported.loops]);
+    this._groups.update(groups => [...groups, ...imported.groups]);
+    this.history.record('create', `Importer ${imported.loops.length} boucle(s)`, loops, this._loops());
+    this._error.set(null);
+    return imported.loops.length;
+  }
+
+  private downloadJsonFile(data: unknown, filename: string): void {
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.style.display = 'none';
+
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    setTimeout(() => URL.revokeObjectURL(url), 100);
+  }
+
+  /**
+   * === LIENS DE PARTAGE ===
+   */
+
+  /**
+   * Construit le lien de partage de l'état courant (vidéo, position, vitesse et boucles)
+   * @returns null sans vidéo YouTube, un fichier local ne peut pas être partagé
+   */
+  buildShareLink(baseUrl: string): string | null {
+    const video = this._currentVideo();
+    if (!video || this.isLocalMedia()) {
+      return null;
+    }
+
+    return buildDeepLink(baseUrl, {
+      videoId: video.videoId,
+      startTime: this._currentTime(),
+      playbackRate: this._playbackRate(),
+      loops: this._loops().map(({ name, startTime, endTime }) => ({ name, startTime, endTime }))
+    });
+  }
+
+  /**
+   * Applique un lien de partage à la vidéo qu'il désigne, une fois chargée.
+   * Les boucles du lien s'ajoutent aux boucles sauvegardées, sans doublon.
+   */
+  applyDeepLink(link: DeepLinkState): boolean {
+    if (this.mediaPlayer.currentVideo()?.videoId !== link.videoId) {
+      return false;
+    }
+
+    const videoDuration = this.playerState().duration;
+    const existingLoops = this._loops();
+    const sharedLoops: Loop[] = [];
+
+    for (const shared of link.loops) {
+      const isDuplicate = [...existingLoops, ...sharedLoops].some(loop =>
+        Math.abs(loop.startTime - shared.startTime) < 0.01 &&
+        Math.abs(loop.endTime - shared.endTime) < 0.01
+      );
+      if (isDuplicate) continue;
+
+      const name = shared.name || `Boucle ${existingLoops.length + sharedLoops.length + 1}`;
+      const { loop, validation } = this.loopService.createValidatedLoop(
+        name,
+        shared.startTime,
+        shared.endTime,
+        {},
+        videoDuration,
+        [...existingLoops, ...sharedLoops]
+      );
+      if (validation.isValid) {
+        sharedLoops.push(loop);
+      }
+    }
+
+    if (sharedLoops.length > 0) {
+      this._loops.update(loops => [...loops, ...sharedLoops]);
+    }
+
+    if (link.playbackRate !== null) {
+      this.setPlaybackRate(link.playbackRate);
+    }
+
+    if (link.startTime !== null) {
+      this.seekTo(link.startTime);
+    }
+
+    return true;
+  }
+
   /**
    * Importe une configuration
    */
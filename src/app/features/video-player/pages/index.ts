@@ -1 +1,2 @@
-export * from './video-player-page';
\ No newline at end of file
+export * from './video-player-page';
+export * from './timeline-editor-page';
\ No newline at end of file
@@ -0,0 +1 @@
+export { TimelineEditorPageComponent } from './timeline-editor-page.component';
\ No newline at end of file
@@ -0,0 +1,278 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { computed, signal } from '@angular/core';
+import { ActivatedRoute, convertToParamMap, provideRouter } from '@angular/router';
+import { BehaviorSubject } from 'rxjs';
+
+import { By } from '@angular/platform-browser';
+
+import { TimelineEditorPageComponent } from './timeline-editor-page.component';
+import { TimelineComponent } from '../../ui/timeline/timeline.component';
+import { VideoPlayerFacade } from '../../data-access/video-player.facade';
+import { LoopListComponent } from '../../../loop-manager/ui/loop-list';
+import { LoopFormComponent } from '../../../loop-manager/ui/loop-form';
+
+describe('TimelineEditorPageComponent', () => {
+  let component: TimelineEditorPageComponent;
+  let fixture: ComponentFixture<TimelineEditorPageComponent>;
+  let mockFacade: any;
+  let queryParams: BehaviorSubject<any>;
+
+  const createComponent = (params: Record<string, string>) => {
+    queryParams = new BehaviorSubject(convertToParamMap(params));
+
+    TestBed.configureTestingModule({
+      imports: [TimelineEditorPageComponent],
+      providers: [
+        provideRouter([]),
+        { provide: VideoPlayerFacade, useValue: mockFacade },
+        { provide: ActivatedRoute, useValue: { queryParamMap: queryParams.asObservable() } }
+      ]
+    });
+
+    fixture = TestBed.createComponent(TimelineEditorPageComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  };
+
+  beforeEach(() => {
+    mockFacade = {
+      vm: signal({
+        currentVideo: null,
+        isPlayerReady: false,
+        isPlaying: false,
+        loading: false,
+        error: null,
+        currentTime: 0,
+        duration: 120,
+        currentTimeFormatted: '0:00',
+        durationFormatted: '2:00',
+        loops: [{ id: 'loop-1', name: 'Intro', startTime: 10, endTime: 20, playbackSpeed: 1, playCount: 0, isActive: false }]
+      }),
+      initializePlayer: jasmine.createSpy('initializePlayer').and.returnValue(Promise.resolve()),
+      loadVideo: jasmine.createSpy('loadVideo').and.returnValue(Promise.resolve()),
+      addLoop: jasmine.createSpy('addLoop').and.returnValue(true),
+      updateLoop: jasmine.createSpy('updateLoop').and.returnValue(true),
+      removeLoop: jasmine.createSpy('removeLoop').and.returnValue(true),
+      duplicateLoop: jasmine.createSpy('duplicateLoop').and.returnValue(true),
+      clearAllLoops: jasmine.createSpy('clearAllLoops'),
+      resolveLoopConflicts: jasmine.createSpy('resolveLoopConflicts').and.returnValue(true),
+      seekTo: jasmine.createSpy('seekTo'),
+      formatTime: (seconds: number) => `${seconds}s`,
+      togglePlayPause: jasmine.createSpy('togglePlayPause'),
+      refreshCurrentTime: jasmine.createSpy('refreshCurrentTime'),
+      reset: jasmine.createSpy('reset'),
+      beatGrid: signal(null),
+      markers: signal([{ id: 'marker-1', time: 15, label: 'Solo', color: '#F59E0B' }]),
+      addMarker: jasmine.createSpy('addMarker'),
+      updateMarker: jasmine.createSpy('updateMarker').and.returnValue(true),
+      removeMarker: jasmine.createSpy('removeMarker').and.returnValue(true),
+      zoomedLoop: signal(null),
+      zoomIntoParent: jasmine.createSpy('zoomIntoParent').and.returnValue(true),
+      exitLoopZoom: jasmine.createSpy('exitLoopZoom'),
+      canUndo: signal(false),
+      canRedo: signal(false),
+      undoLabel: signal(null),
+      redoLabel: signal(null),
+      undo: jasmine.createSpy('undo').and.returnValue(true),
+      redo: jasmine.createSpy('redo').and.returnValue(true),
+      beginLoopEdit: jasmine.createSpy('beginLoopEdit'),
+      endLoopEdit: jasmine.createSpy('endLoopEdit'),
+      groups: signal([]),
+      playingGroupId: signal(null),
+      currentLoop: signal(null),
+      isLooping: signal(false),
+      startLoop: jasmine.createSpy('startLoop'),
+      editLoop: jasmine.createSpy('editLoop').and.returnValue(true),
+      isPlayerReady: signal(false),
+      currentTime: signal(0),
+      currentTimeFormatted: signal('0:00'),
+      pause: jasmine.createSpy('pause'),
+      playGroup: jasmine.createSpy('playGroup').and.returnValue(true),
+      stopGroup: jasmine.createSpy('stopGroup')
+    };
+    mockFacade.loops = computed(() => mockFacade.vm().loops);
+  });
+
+  it('should open the video of the link', () => {
+    createComponent({ v: 'dQw4w9WgXcQ' });
+
+    expect(mockFacade.initializePlayer).toHaveBeenCalledWith('timeline-editor-player', 'dQw4w9WgXcQ');
+    expect(component.missingVideo()).toBe(false);
+  });
+
+  it('should reuse the player when the link changes', async () => {
+    createComponent({ v: 'dQw4w9WgXcQ' });
+    await fixture.whenStable();
+
+    queryParams.next(convertToParamMap({ v: 'oHg5SJYRHA0' }));
+
+    expect(mockFacade.initializePlayer).toHaveBeenCalledTimes(1);
+    expect(mockFacade.loadVideo).toHaveBeenCalledWith('oHg5SJYRHA0');
+  });
+
+  it('should report a link without video', () => {
+    createComponent({});
+
+    expect(component.missingVideo()).toBe(true);
+    expect(mockFacade.initializePlayer).not.toHaveBeenCalled();
+  });
+
+  it('should save the loops edited on the timeline', () => {
+    createComponent({ v: 'dQw4w9WgXcQ' });
+
+    component.onLoopCreate({ startTime: 30, endTime: 40 });
+    component.onLoopTimesChange({ id: 'loop-1', startTime: 12, endTime: 22 });
+
+    expect(mockFacade.addLoop).toHaveBeenCalledWith('Boucle 2', 30, 40);
+    expect(mockFacade.updateLoop).toHaveBeenCalledWith('loop-1', { startTime: 12, endTime: 22 });
+  });
+
+  it('should undo and redo loop edits from the toolbar and the timeline', () => {
+    createComponent({ v: 'dQw4w9WgXcQ' });
+    const undoButton = () => Array.from(fixture.nativeElement.querySelectorAll('.editor-toolbar button') as NodeListOf<HTMLButtonElement>)
+      .find(button => button.textContent!.includes('Annuler'))!;
+
+    expect(undoButton().disabled).toBe(true);
+
+    mockFacade.canUndo.set(true);
+    mockFacade.undoLabel.set('Supprimer « Intro »');
+    fixture.detectChanges();
+    expect(undoButton().title).toBe('Annuler : Supprimer « Intro »');
+    undoButton().click();
+    expect(mockFacade.undo).toHaveBeenCalled();
+
+    const timeline = fixture.debugElement.query(By.directive(TimelineComponent)).componentInstance as TimelineComponent;
+    timeline.redoRequest.emit();
+    timeline.loopEditStart.emit({ action: 'move', label: 'Déplacer « Intro »' });
+    timeline.loopEditEnd.emit();
+
+    expect(mockFacade.redo).toHaveBeenCalled();
+    expect(mockFacade.beginLoopEdit).toHaveBeenCalledWith('move', 'Déplacer « Intro »');
+    expect(mockFacade.endLoopEdit).toHaveBeenCalled();
+  });
+
+  it('should duplicate, fix and clear loops through the undoable player commands', () => {
+    createComponent({ v: 'dQw4w9WgXcQ' });
+    const toolbarButton = (label: string) => Array.from(fixture.nativeElement.querySelectorAll('.editor-toolbar button') as NodeListOf<HTMLButtonElement>)
+      .find(button => button.textContent!.includes(label))!;
+
+    const timeline = fixture.debugElement.query(By.directive(TimelineComponent)).componentInstance as TimelineComponent;
+    timeline.loopDuplicate.emit('loop-1');
+    toolbarButton('Résoudre les conflits').click();
+    toolbarButton('Tout supprimer').click();
+
+    expect(mockFacade.duplicateLoop).toHaveBeenCalledWith('loop-1');
+    expect(mockFacade.resolveLoopConflicts).toHaveBeenCalled();
+    expect(mockFacade.clearAllLoops).toHaveBeenCalled();
+    expect(mockFacade.addLoop).not.toHaveBeenCalled();
+  });
+
+  it('should number the markers dropped on the timeline', () => {
+    createComponent({ v: 'dQw4w9WgXcQ' });
+
+    component.onMarkerCreate(42);
+
+    expect(mockFacade.addMarker).toHaveBeenCalledWith('Repère 2', 42);
+  });
+
+  it('should rename, recolor and annotate a marker from the markers panel', () => {
+    createComponent({ v: 'dQw4w9WgXcQ' });
+    const marker = mockFacade.markers()[0];
+    const input = (selector: string) => fixture.nativeElement.querySelector(`.marker-item ${selector}`) as HTMLInputElement;
+
+    expect(input('.marker-label').value).toBe('Solo');
+
+    input('.marker-label').value = 'Pont';
+    input('.marker-label').dispatchEvent(new Event('change'));
+    input('.marker-color').value = '#8b5cf6';
+    input('.marker-color').dispatchEvent(new Event('change'));
+    input('.marker-note').value = ' Attention au tempo ';
+    input('.marker-note').dispatchEvent(new Event('change'));
+
+    expect(mockFacade.updateMarker).toHaveBeenCalledWith('marker-1', { label: 'Pont' });
+    expect(mockFacade.updateMarker).toHaveBeenCalledWith('marker-1', { color: '#8b5cf6' });
+    expect(mockFacade.updateMarker).toHaveBeenCalledWith('marker-1', { note: 'Attention au tempo' });
+
+    // An empty note removes it, an empty label keeps the current one
+    component.onMarkerNoteChange({ ...marker, note: 'Attention au tempo' }, '  ');
+    expect(mockFacade.updateMarker).toHaveBeenCalledWith('marker-1', { note: null });
+    mockFacade.updateMarker.calls.reset();
+    component.onMarkerLabelChange(marker, ' ');
+    expect(mockFacade.updateMarker).not.toHaveBeenCalled();
+  });
+
+  it('should zoom into the parent of the selected loop and leave the zoom', () => {
+    createComponent({ v: 'dQw4w9WgXcQ' });
+    const toolbarButton = () => Array.from(fixture.nativeElement.querySelectorAll('.editor-toolbar button') as NodeListOf<HTMLButtonElement>).pop()!;
+
+    expect(toolbarButton().disabled).toBe(true);
+
+    component.selectedLoopId.set('loop-1');
+    fixture.detectChanges();
+    toolbarButton().click();
+    expect(mockFacade.zoomIntoParent).toHaveBeenCalledWith('loop-1');
+
+    mockFacade.zoomedLoop.set(mockFacade.vm().loops[0]);
+    fixture.detectChanges();
+    expect(fixture.nativeElement.querySelector('.zoom-label').textContent).toContain('Intro');
+    toolbarButton().click();
+    expect(mockFacade.exitLoopZoom).toHaveBeenCalled();
+  });
+
+  it('should list the session loops and groups and play them through the player', () => {
+    createComponent({ v: 'dQw4w9WgXcQ' });
+    const group = { id: 'group-1', name: 'Set', color: '#8B5CF6', loops: ['loop-1'], createdAt: new Date(), updatedAt: new Date() };
+    mockFacade.groups.set([group]);
+    fixture.detectChanges();
+    const loopList = fixture.debugElement.query(By.directive(LoopListComponent)).componentInstance as LoopListComponent;
+    const loop = mockFacade.vm().loops[0];
+
+    expect(loopList.sections()[0]!.loops).toEqual([loop]);
+
+    loopList.toggleGroupPlayback(group);
+    expect(mockFacade.playGroup).toHaveBeenCalledWith('group-1');
+    mockFacade.playingGroupId.set('group-1');
+    loopList.toggleGroupPlayback(group);
+    expect(mockFacade.stopGroup).toHaveBeenCalled();
+
+    loopList.onPlayLoop(loop);
+    expect(mockFacade.startLoop).toHaveBeenCalledWith('loop-1');
+    mockFacade.currentLoop.set(loop);
+    mockFacade.isLooping.set(true);
+    loopList.onPlayLoop(loop);
+    expect(mockFacade.pause).toHaveBeenCalled();
+
+    loopList.onEditLoop(loop);
+    expect(component.selectedLoopId()).toBe('loop-1');
+    loopList.onDuplicateLoop(loop);
+    expect(mockFacade.duplicateLoop).toHaveBeenCalledWith('loop-1');
+    loopList.onDeleteLoop(loop);
+    expect(mockFacade.removeLoop).toHaveBeenCalledWith('loop-1');
+  });
+
+  it('should open the settings of a loop from the list and save them through the player', () => {
+    createComponent({ v: 'dQw4w9WgXcQ' });
+    const loop = mockFacade.vm().loops[0];
+    const loopList = fixture.debugElement.query(By.directive(LoopListComponent)).componentInstance as LoopListComponent;
+
+    loopList.onEditLoop(loop);
+    fixture.detectChanges();
+    const form = fixture.debugElement.query(By.directive(LoopFormComponent)).componentInstance as LoopFormComponent;
+    expect(form.editingLoop).toBe(loop);
+
+    form.loopForm.patchValue({ completionAction: 'next' });
+    form.onSubmit();
+
+    expect(mockFacade.editLoop).toHaveBeenCalledWith(jasmine.objectContaining({ id: 'loop-1', completionAction: 'next' }));
+    fixture.detectChanges();
+    expect(fixture.debugElement.query(By.directive(LoopFormComponent))).toBeNull();
+  });
+
+  it('should release the player on destroy', () => {
+    createComponent({ v: 'dQw4w9WgXcQ' });
+
+    fixture.destroy();
+
+    expect(mockFacade.reset).toHaveBeenCalled();
+  });
+});
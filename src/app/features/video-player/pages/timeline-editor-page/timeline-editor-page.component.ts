@@ -0,0 +1,415 @@
+import { Component, OnInit, OnDestroy, inject, computed, effect, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { Subject, takeUntil } from 'rxjs';
+import { VideoPlayerFacade } from '../../data-access/video-player.facade';
+import { TimelineComponent } from '../../ui/timeline/timeline.component';
+import { LoopListAction, LoopListComponent } from '../../../loop-manager/ui/loop-list';
+import { LoopFormComponent, LoopFormResult } from '../../../loop-manager/ui/loop-form';
+import { MAX_MARKER_LABEL_LENGTH } from '@core/models/marker.model';
+import { Marker } from '@shared/interfaces/marker.types';
+import { UpdateLoopRequest } from '@shared/interfaces/loop.types';
+
+// Fréquence de relecture de la position pendant la lecture
+const TIME_POLLING_INTERVAL = 250;
+
+@Component({
+  selector: 'app-timeline-editor-page',
+  imports: [
+    CommonModule,
+    RouterLink,
+    TimelineComponent,
+    LoopListComponent,
+    LoopFormComponent
+  ],
+  template: `
+    <div class="timeline-editor-page">
+      <div class="editor-header">
+        <a class="back-link" routerLink="/video-player">← Lecteur</a>
+        <h1 class="editor-title">{{ vm().currentVideo?.title || 'Éditeur de boucles' }}</h1>
+      </div>
+
+      @if (missingVideo()) {
+        <div class="editor-message" role="alert">
+          Aucune vidéo à éditer : ajoutez <code>?v=&lt;identifiant YouTube&gt;</code> à l'adresse.
+        </div>
+      } @else {
+        @if (vm().error) {
+          <div class="editor-message error" role="alert">{{ vm().error }}</div>
+        }
+
+        <div class="player-frame">
+          <div [id]="playerElementId"></div>
+        </div>
+
+        <div class="editor-toolbar">
+          <button class="action-btn primary" type="button" (click)="facade.togglePlayPause()" [disabled]="!vm().isPlayerReady">
+            {{ vm().isPlaying ? '⏸ Pause' : '▶ Lecture' }}
+          </button>
+          <span class="time-label">{{ vm().currentTimeFormatted }} / {{ vm().durationFormatted }}</span>
+          <span class="loop-count">{{ vm().loops.length }} boucle(s)</span>
+          <button class="action-btn" type="button" (click)="facade.undo()" [disabled]="!facade.canUndo()" [title]="facade.undoLabel() ? 'Annuler : ' + facade.undoLabel() : 'Annuler (Ctrl+Z)'">
+            ↶ Annuler
+          </button>
+          <button class="action-btn" type="button" (click)="facade.redo()" [disabled]="!facade.canRedo()" [title]="facade.redoLabel() ? 'Rétablir : ' + facade.redoLabel() : 'Rétablir (Ctrl+Shift+Z)'">
+            ↷ Rétablir
+          </button>
+          <button class="action-btn" type="button" (click)="facade.resolveLoopConflicts()" [disabled]="vm().loops.length === 0" title="Supprime les chevauchements et les doublons de noms">
+            Résoudre les conflits
+          </button>
+          <button class="action-btn" type="button" (click)="facade.clearAllLoops()" [disabled]="vm().loops.length === 0">
+            Tout supprimer
+          </button>
+          <button class="action-btn" type="button" (click)="onMarkerCreate(vm().currentTime)" [disabled]="!vm().isPlayerReady">
+            + Repère
+          </button>
+          <span class="marker-count">{{ facade.markers().length }} repère(s)</span>
+          @if (facade.zoomedLoop(); as zoomedLoop) {
+            <span class="zoom-label">Zoom : {{ zoomedLoop.name }}</span>
+            <button class="action-btn" type="button" (click)="facade.exitLoopZoom()">Quitter le zoom</button>
+          } @else {
+            <button class="action-btn" type="button" (click)="facade.zoomIntoParent(selectedLoopId()!)" [disabled]="!selectedLoopId()">
+              Zoomer sur la boucle parente
+            </button>
+          }
+        </div>
+
+        <app-timeline
+          class="editor-timeline"
+          [useFacade]="false"
+          [loops]="vm().loops"
+          [currentTime]="vm().currentTime"
+          [duration]="vm().duration"
+          [isPlaying]="vm().isPlaying"
+          [isLoading]="vm().loading"
+          [beatGrid]="facade.beatGrid()"
+          [barMarkers]="true"
+          [markers]="facade.markers()"
+          [focusLoop]="facade.zoomedLoop()"
+          (seekTo)="facade.seekTo($event)"
+          (loopCreate)="onLoopCreate($event)"
+          (loopMove)="onLoopTimesChange($event)"
+          (loopResize)="onLoopTimesChange($event)"
+          (loopEditStart)="facade.beginLoopEdit($event.action, $event.label)"
+          (loopEditEnd)="facade.endLoopEdit()"
+          (undoRequest)="facade.undo()"
+          (redoRequest)="facade.redo()"
+          (loopDelete)="facade.removeLoop($event)"
+          (loopDuplicate)="facade.duplicateLoop($event)"
+          (loopSelect)="selectedLoopId.set($event)"
+          (loopDeselect)="selectedLoopId.set(null)"
+          (loopZoom)="facade.zoomIntoParent($event)"
+          (markerCreate)="onMarkerCreate($event)"
+          (markerMove)="facade.updateMarker($event.id, { time: $event.time })"
+          (markerDelete)="facade.removeMarker($event)">
+        </app-timeline>
+
+        <!-- Loops and groups of the session: groups are played loop after loop -->
+        <app-loop-list
+          (loopAction)="onLoopAction($event)"
+          (loopSelect)="selectedLoopId.set($event.id)">
+        </app-loop-list>
+
+        <!-- Settings of the loop opened from the list, applied by the player from the next pass -->
+        @if (editingLoop(); as loop) {
+          <section class="loop-settings-panel" aria-label="Réglages de la boucle">
+            <app-loop-form
+              [editingLoop]="loop"
+              [videoDuration]="vm().duration"
+              (formSubmit)="onLoopFormSubmit($event)"
+              (formCancel)="editingLoopId.set(null)">
+            </app-loop-form>
+          </section>
+        }
+
+        <!-- Markers are dropped as "Repère N": label, color and note are edited here -->
+        <section class="markers-panel" aria-label="Repères">
+          <h2 class="panel-title">Repères</h2>
+
+          <ul class="marker-list">
+            @for (marker of facade.markers(); track marker.id) {
+              <li class="marker-item">
+                <button class="action-btn marker-time" type="button" (click)="facade.seekTo(marker.time)" [title]="'Aller au repère ' + marker.label">
+                  {{ facade.formatTime(marker.time) }}
+                </button>
+                <input
+                  class="marker-color"
+                  type="color"
+                  [value]="marker.color"
+                  [attr.aria-label]="'Couleur du repère ' + marker.label"
+                  (change)="onMarkerColorChange(marker, $any($event.target).value)">
+                <input
+                  class="marker-label"
+                  type="text"
+                  [maxLength]="maxMarkerLabelLength"
+                  [value]="marker.label"
+                  aria-label="Nom du repère"
+                  (change)="onMarkerLabelChange(marker, $any($event.target).value)">
+                <input
+                  class="marker-note"
+                  type="text"
+                  placeholder="Note"
+                  [value]="marker.note || ''"
+                  [attr.aria-label]="'Note du repère ' + marker.label"
+                  (change)="onMarkerNoteChange(marker, $any($event.target).value)">
+                <button class="action-btn" type="button" (click)="facade.removeMarker(marker.id)" [title]="'Supprimer le repère ' + marker.label">✕</button>
+              </li>
+            } @empty {
+              <li class="marker-empty">Aucun repère : ajoutez-en un avec « + Repère » ou sur la timeline.</li>
+            }
+          </ul>
+        </section>
+      }
+    </div>
+  `,
+  styles: [`
+    .timeline-editor-page {
+      min-height: 100vh;
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-lg);
+      padding: var(--spacing-lg);
+      background: var(--bg-primary);
+    }
+
+    .editor-header {
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-lg);
+    }
+
+    .back-link {
+      color: var(--text-secondary);
+      text-decoration: none;
+    }
+
+    .back-link:hover {
+      color: var(--primary-color);
+    }
+
+    .editor-title {
+      margin: 0;
+      font-size: 1.5rem;
+      color: var(--text-primary);
+    }
+
+    .editor-message {
+      padding: var(--spacing-lg);
+      border-radius: 8px;
+      background: var(--bg-secondary);
+      color: var(--text-secondary);
+    }
+
+    .editor-message.error {
+      color: var(--error-color);
+    }
+
+    .player-frame {
+      width: 100%;
+      max-height: 60vh;
+      aspect-ratio: 16 / 9;
+      background: #000;
+      border-radius: 12px;
+      overflow: hidden;
+    }
+
+    .player-frame > div {
+      width: 100%;
+      height: 100%;
+    }
+
+    .editor-toolbar {
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-lg);
+      color: var(--text-secondary);
+    }
+
+    .zoom-label {
+      color: var(--primary-color);
+    }
+
+    .editor-timeline {
+      flex: 1;
+    }
+
+    .panel-title {
+      margin: 0;
+      font-size: 1.125rem;
+      color: var(--text-primary);
+    }
+
+    .marker-empty {
+      color: var(--text-secondary);
+      font-size: 0.875rem;
+    }
+
+    .marker-list {
+      list-style: none;
+      margin: var(--spacing-md) 0 0;
+      padding: 0;
+      display: flex;
+      flex-direction: column;
+      gap: 0.5rem;
+    }
+
+    .marker-item {
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-md);
+      padding: 0.5rem 0.75rem;
+      border-radius: 8px;
+      background: var(--bg-secondary);
+    }
+
+    .marker-color {
+      width: 2rem;
+      height: 2rem;
+      padding: 0;
+      border: none;
+      background: none;
+    }
+
+    .marker-label {
+      width: 12rem;
+    }
+
+    .marker-note {
+      flex: 1;
+    }
+  `]
+})
+export class TimelineEditorPageComponent implements OnInit, OnDestroy {
+  private readonly route = inject(ActivatedRoute);
+  readonly facade = inject(VideoPlayerFacade);
+
+  readonly playerElementId = 'timeline-editor-player';
+  readonly vm = this.facade.vm;
+  readonly missingVideo = signal(false);
+  readonly selectedLoopId = signal<string | null>(null);
+  readonly editingLoopId = signal<string | null>(null);
+  readonly editingLoop = computed(() => this.vm().loops.find(loop => loop.id === this.editingLoopId()) ?? null);
+  readonly maxMarkerLabelLength = MAX_MARKER_LABEL_LENGTH;
+
+  private readonly destroy$ = new Subject<void>();
+  private playerInitialized = false;
+  private currentTimePolling: number | null = null;
+
+  constructor() {
+    // L'API YouTube ne notifie pas la progression, on relit la position pendant la lecture
+    effect(() => {
+      if (this.vm().isPlaying) {
+        this.startCurrentTimePolling();
+      } else {
+        this.stopCurrentTimePolling();
+      }
+    });
+  }
+
+  ngOnInit(): void {
+    this.route.queryParamMap
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(params => this.openVideo(params.get('v')));
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+    this.stopCurrentTimePolling();
+    this.facade.reset();
+  }
+
+  onLoopCreate(range: { startTime: number; endTime: number }): void {
+    this.facade.addLoop(`Boucle ${this.vm().loops.length + 1}`, range.startTime, range.endTime);
+  }
+
+  onMarkerCreate(time: number): void {
+    this.facade.addMarker(`Repère ${this.facade.markers().length + 1}`, time);
+  }
+
+  onMarkerLabelChange(marker: Marker, label: string): void {
+    if (label.trim() && label !== marker.label) {
+      this.facade.updateMarker(marker.id, { label });
+    }
+  }
+
+  onMarkerColorChange(marker: Marker, color: string): void {
+    if (color !== marker.color) {
+      this.facade.updateMarker(marker.id, { color });
+    }
+  }
+
+  // Une note vide retire la note du repère
+  onMarkerNoteChange(marker: Marker, note: string): void {
+    if (note.trim() !== (marker.note || '')) {
+      this.facade.updateMarker(marker.id, { note: note.trim() || null });
+    }
+  }
+
+  onLoopAction(action: LoopListAction): void {
+    const { type, loop } = action;
+    switch (type) {
+      case 'play':
+        // La boucle en cours de lecture se met en pause
+        if (this.facade.currentLoop()?.id === loop.id && this.facade.isLooping()) {
+          this.facade.pause();
+        } else {
+          this.facade.startLoop(loop.id);
+        }
+        break;
+      case 'edit':
+        this.selectedLoopId.set(loop.id);
+        this.editingLoopId.set(loop.id);
+        break;
+      case 'delete':
+        this.facade.removeLoop(loop.id);
+        break;
+      case 'duplicate':
+        this.facade.duplicateLoop(loop.id);
+        break;
+    }
+  }
+
+  // Le formulaire n'édite que les boucles de la session, il se referme une fois enregistré
+  onLoopFormSubmit(result: LoopFormResult): void {
+    if (result.type === 'update' && this.facade.editLoop(result.data as UpdateLoopRequest)) {
+      this.editingLoopId.set(null);
+    }
+  }
+
+  onLoopTimesChange(change: { id: string; startTime: number; endTime: number }): void {
+    this.facade.updateLoop(change.id, { startTime: change.startTime, endTime: change.endTime });
+  }
+
+  /**
+   * Charge la vidéo du lien (?v=), le player est créé au premier chargement puis réutilisé
+   */
+  private async openVideo(videoId: string | null): Promise<void> {
+    this.missingVideo.set(!videoId);
+    if (!videoId) return;
+
+    try {
+      if (this.playerInitialized) {
+        await this.facade.loadVideo(videoId);
+      } else {
+        this.playerInitialized = true;
+        await this.facade.initializePlayer(this.playerElementId, videoId);
+      }
+    } catch {
+      // L'erreur est déjà exposée par la facade
+      this.playerInitialized = false;
+    }
+  }
+
+  private startCurrentTimePolling(): void {
+    if (this.currentTimePolling) return;
+    this.currentTimePolling = window.setInterval(() => this.facade.refreshCurrentTime(), TIME_POLLING_INTERVAL);
+  }
+
+  private stopCurrentTimePolling(): void {
+    if (this.currentTimePolling) {
+      clearInterval(this.currentTimePolling);
+      this.currentTimePolling = null;
+    }
+  }
+}
@@ -133,6 +133,8 @@ export class VideoPlayerPageComponent implements OnInit {
     loops: [],
     currentLoop: null,
     isLooping: false,
+    loopRepetition: null,
+    speedRamp: null,
     
     // UI state
     urlInput: '',
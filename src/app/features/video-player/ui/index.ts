@@ -4,5 +4,5 @@ export * from './player-controls';
 export * from './speed-control';
 export * from './time-display';
 export * from './time-slider';
-// Temporarily disabled due to TypeScript errors
-// export * from './timeline';
\ No newline at end of file
+export * from './timeline';
+export * from './metronome-control';
@@ -0,0 +1 @@
+export { MetronomeControlComponent } from './metronome-control.component';
@@ -0,0 +1,65 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { CLICK_SYNTH } from '../../../../core/services/count-in.service';
+import { MetronomeService } from '../../../../core/services/metronome.service';
+import { MetronomeControlComponent } from './metronome-control.component';
+
+describe('MetronomeControlComponent', () => {
+  let component: MetronomeControlComponent;
+  let fixture: ComponentFixture<MetronomeControlComponent>;
+  let metronome: MetronomeService;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [MetronomeControlComponent],
+      providers: [
+        { provide: CLICK_SYNTH, useValue: { currentTime: () => 0, click: () => {}, silence: () => {} } }
+      ]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(MetronomeControlComponent);
+    component = fixture.componentInstance;
+    metronome = TestBed.inject(MetronomeService);
+    fixture.detectChanges();
+  });
+
+  afterEach(() => {
+    metronome.stop();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should show one beat per beat of the bar', () => {
+    component.setBeatsPerBar('6');
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelectorAll('.metronome-beat').length).toBe(6);
+    expect(fixture.nativeElement.querySelectorAll('.metronome-beat.accent').length).toBe(1);
+  });
+
+  it('should toggle the metronome', () => {
+    fixture.nativeElement.querySelector('.metronome-toggle').click();
+    expect(metronome.isEnabled()).toBe(true);
+
+    fixture.nativeElement.querySelector('.metronome-toggle').click();
+    expect(metronome.isEnabled()).toBe(false);
+  });
+
+  it('should put the first beat at the current time', () => {
+    component.currentTime = 12.5;
+    component.alignToCurrentTime();
+
+    expect(metronome.settings().offset).toBe(12.5);
+    expect(component.formatOffset(72.25)).toBe('1:12.25');
+  });
+
+  it('should ignore an empty tempo', () => {
+    component.setBpm('');
+    expect(metronome.settings().bpm).toBe(120);
+
+    component.setBpm('90');
+    expect(metronome.settings().bpm).toBe(90);
+  });
+});
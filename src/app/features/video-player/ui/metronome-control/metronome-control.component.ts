@@ -0,0 +1,64 @@
+import { Component, Input, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+  MetronomeService,
+  METRONOME_BEAT_UNITS,
+  METRONOME_BPM_RANGE,
+  METRONOME_MAX_BEATS_PER_BAR
+} from '../../../../core/services/metronome.service';
+
+@Component({
+  selector: 'app-metronome-control',
+  imports: [CommonModule],
+  templateUrl: './metronome-control.component.html',
+  styleUrl: './metronome-control.component.scss'
+})
+export class MetronomeControlComponent {
+  @Input() currentTime = 0; // media time used to align the first beat
+  @Input() disabled = false;
+
+  readonly metronome = inject(MetronomeService);
+
+  readonly bpmRange = METRONOME_BPM_RANGE;
+  readonly beatUnits = METRONOME_BEAT_UNITS;
+  readonly beatsPerBarOptions = Array.from({ length: METRONOME_MAX_BEATS_PER_BAR }, (_, index) => index + 1);
+
+  // One dot per beat of the bar, the current one highlighted
+  readonly beatDots = computed(() => {
+    const beat = this.metronome.beat();
+    return Array.from({ length: this.metronome.settings().beatsPerBar }, (_, index) => ({
+      accent: index === 0,
+      active: beat?.current === index + 1
+    }));
+  });
+
+  readonly heardTempo = computed(() => Math.round(this.metronome.tempo()));
+
+  setBpm(value: string): void {
+    const bpm = Number(value);
+    if (Number.isFinite(bpm) && bpm > 0) {
+      this.metronome.updateSettings({ bpm });
+    }
+  }
+
+  setBeatsPerBar(value: string): void {
+    this.metronome.updateSettings({ beatsPerBar: Number(value) });
+  }
+
+  setBeatUnit(value: string): void {
+    this.metronome.updateSettings({ beatUnit: Number(value) });
+  }
+
+  alignToCurrentTime(): void {
+    this.metronome.alignTo(this.currentTime);
+  }
+
+  /**
+   * Format the offset as M:SS.ss
+   */
+  formatOffset(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    const rest = (seconds % 60).toFixed(2).padStart(5, '0');
+    return `${minutes}:${rest}`;
+  }
+}
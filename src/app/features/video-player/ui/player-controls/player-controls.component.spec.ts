@@ -39,6 +39,8 @@ describe('PlayerControlsComponent', () => {
     loops: [],
     currentLoop: null,
     isLooping: false,
+    loopRepetition: null,
+    speedRamp: null,
     
     // UI state
     urlInput: '',
@@ -2,7 +2,7 @@ import { Component, Input, Output, EventEmitter, inject, OnInit, OnDestroy, effe
 import { CommonModule } from '@angular/common';
 import { ReactiveFormsModule, FormControl, Validators } from '@angular/forms';
 import { trigger, style, transition, animate } from '@angular/animations';
-import { YouTubeService } from '../../../../core/services/youtube.service';
+import { MediaPlayerService } from '../../../../core/services/media-player.service';
 import { ValidationService } from '../../../../core/services/validation.service';
 import { LoopSpeedManagerService } from '../../../../core/services/loop-speed-manager.service';
 import { Subject } from 'rxjs';
@@ -36,7 +36,7 @@ export class SpeedControlComponent implements OnInit, OnDestroy {
   @Output() decreaseSpeed = new EventEmitter<void>();
   @Output() loopSpeedChanged = new EventEmitter<{loopId: string, speed: number}>();
 
-  private readonly youTubeService = inject(YouTubeService);
+  private readonly mediaPlayer = inject(MediaPlayerService);
   readonly validationService = inject(ValidationService);
   private readonly loopSpeedManager = inject(LoopSpeedManagerService);
   private readonly destroy$ = new Subject<void>();
@@ -63,9 +63,9 @@ export class SpeedControlComponent implements OnInit, OnDestroy {
   readonly isTransitioning = signal(false);
   
   constructor() {
-    // Synchronize current rate with YouTube player state
+    // Synchronize current rate with the active player state (YouTube or local file)
     effect(() => {
-      const playerState = this.youTubeService.playerState();
+      const playerState = this.mediaPlayer.playerState();
       if (playerState.isReady && !this.validationService.areSpeedsEqual(playerState.playbackRate, this.currentRate)) {
         this.currentRate = playerState.playbackRate;
         this.manualSpeedControl.setValue(this.currentRate, { emitEvent: false });
@@ -82,7 +82,7 @@ export class SpeedControlComponent implements OnInit, OnDestroy {
           
           // Apply the speed if using direct integration
           if (this.useDirectIntegration) {
-            this.youTubeService.setPlaybackRate(loopSpeed);
+            this.mediaPlayer.setPlaybackRate(loopSpeed);
           } else {
             this.rateChange.emit(loopSpeed);
           }
@@ -117,7 +117,7 @@ export class SpeedControlComponent implements OnInit, OnDestroy {
           this.manualSpeedControl.setValue(result.speed, { emitEvent: false });
           
           if (this.useDirectIntegration) {
-            this.youTubeService.setPlaybackRate(result.speed);
+            this.mediaPlayer.setPlaybackRate(result.speed);
           } else {
             this.rateChange.emit(result.speed);
           }
@@ -129,7 +129,7 @@ export class SpeedControlComponent implements OnInit, OnDestroy {
         this.manualSpeedControl.setValue(globalSpeed, { emitEvent: false });
         
         if (this.useDirectIntegration) {
-          this.youTubeService.setPlaybackRate(globalSpeed);
+          this.mediaPlayer.setPlaybackRate(globalSpeed);
         } else {
           this.rateChange.emit(globalSpeed);
         }
@@ -164,7 +164,7 @@ export class SpeedControlComponent implements OnInit, OnDestroy {
       
       if (this.useDirectIntegration) {
         // Direct integration with YouTube API
-        this.youTubeService.setPlaybackRate(validatedSpeed);
+        this.mediaPlayer.setPlaybackRate(validatedSpeed);
         this.currentRate = validatedSpeed;
       } else {
         // Legacy mode: emit event for parent handling
@@ -206,7 +206,7 @@ export class SpeedControlComponent implements OnInit, OnDestroy {
           
           if (this.useDirectIntegration) {
             // Direct integration with YouTube API
-            this.youTubeService.setPlaybackRate(validatedSpeed);
+            this.mediaPlayer.setPlaybackRate(validatedSpeed);
             this.currentRate = validatedSpeed;
           } else {
             // Legacy mode: emit event for parent handling
@@ -250,7 +250,7 @@ export class SpeedControlComponent implements OnInit, OnDestroy {
         }
         
         if (this.useDirectIntegration) {
-          this.youTubeService.setPlaybackRate(nextSpeed);
+          this.mediaPlayer.setPlaybackRate(nextSpeed);
           this.currentRate = nextSpeed;
         } else {
           this.increaseSpeed.emit();
@@ -280,7 +280,7 @@ export class SpeedControlComponent implements OnInit, OnDestroy {
         }
         
         if (this.useDirectIntegration) {
-          this.youTubeService.setPlaybackRate(nextSpeed);
+          this.mediaPlayer.setPlaybackRate(nextSpeed);
           this.currentRate = nextSpeed;
         } else {
           this.decreaseSpeed.emit();
@@ -296,7 +296,7 @@ export class SpeedControlComponent implements OnInit, OnDestroy {
    * Get the current playback rate from YouTube player
    */
   get actualPlaybackRate(): number {
-    return this.youTubeService.getPlaybackRate();
+    return this.mediaPlayer.getPlaybackRate();
   }
 
   /**
@@ -370,7 +370,7 @@ export class SpeedControlComponent implements OnInit, OnDestroy {
       const globalSpeed = this.loopSpeedManager.globalSpeed();
       
       if (this.useDirectIntegration) {
-        this.youTubeService.setPlaybackRate(globalSpeed);
+        this.mediaPlayer.setPlaybackRate(globalSpeed);
       } else {
         this.rateChange.emit(globalSpeed);
       }
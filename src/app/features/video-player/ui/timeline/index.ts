@@ -1,4 +1,5 @@
 export { TimelineComponent } from './timeline.component';
 // Re-export Loop types from their proper locations
 export type { Loop } from '@core/services/loop.service';
-export type { LoopSegment, TimelineViewModel } from '../../../loop-manager/data-access/loop-manager.facade';
\ No newline at end of file
+export type { LoopSegment } from '@shared/interfaces/loop.types';
+export type { TimelineViewModel } from '../../../loop-manager/data-access/loop-manager.facade';
\ No newline at end of file
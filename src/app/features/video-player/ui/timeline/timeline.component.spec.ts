@@ -1,6 +1,8 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { SimpleChange } from '@angular/core';
 import { TimelineComponent } from './timeline.component';
-import { LoopSegment, LoopManagerFacade, TimelineViewModel } from '../../../loop-manager/data-access/loop-manager.facade';
+import { LoopManagerFacade, TimelineViewModel } from '../../../loop-manager/data-access/loop-manager.facade';
+import { LoopSegment } from '@shared/interfaces/loop.types';
 
 describe('TimelineComponent', () => {
   let component: TimelineComponent;
@@ -512,8 +514,8 @@ describe('TimelineComponent', () => {
 
     it('should render loop segments', () => {
       component.loops = [
-        { id: '1', startTime: 10, endTime: 30, name: 'Loop 1', playCount: 0, isActive: false },
-        { id: '2', startTime: 50, endTime: 80, name: 'Loop 2', playCount: 0, isActive: false }
+        { id: '1', startTime: 10, endTime: 30, name: 'Loop 1', playCount: 0, isActive: false, playbackSpeed: 1 },
+        { id: '2', startTime: 50, endTime: 80, name: 'Loop 2', playCount: 0, isActive: false, playbackSpeed: 1 }
       ];
       fixture.detectChanges();
 
@@ -781,9 +783,9 @@ describe('TimelineComponent', () => {
 
     beforeEach(() => {
       testLoops = [
-        { id: '1', startTime: 10, endTime: 30, name: 'Intro', playCount: 0, isActive: false },
-        { id: '2', startTime: 50, endTime: 80, name: 'Solo', playCount: 0, isActive: false },
-        { id: '3', startTime: 90, endTime: 120, name: 'Bridge', playCount: 0, isActive: false }
+        { id: '1', startTime: 10, endTime: 30, name: 'Intro', playCount: 0, isActive: false, playbackSpeed: 1 },
+        { id: '2', startTime: 50, endTime: 80, name: 'Solo', playCount: 0, isActive: false, playbackSpeed: 1 },
+        { id: '3', startTime: 90, endTime: 120, name: 'Bridge', playCount: 0, isActive: false, playbackSpeed: 1 }
       ];
       component.loops = testLoops;
       component.duration = 150;
@@ -791,7 +793,7 @@ describe('TimelineComponent', () => {
 
     describe('Loop Position Calculations', () => {
       it('should calculate correct loop position percentages', () => {
-        const loop = { id: '1', startTime: 30, endTime: 60, name: 'Test Loop', playCount: 0, isActive: false };
+        const loop = { id: '1', startTime: 30, endTime: 60, name: 'Test Loop', playCount: 0, isActive: false, playbackSpeed: 1 };
         component.duration = 120;
 
         const position = component.getLoopPosition(loop);
@@ -801,7 +803,7 @@ describe('TimelineComponent', () => {
       });
 
       it('should return zero position when duration is zero', () => {
-        const loop = { id: '1', startTime: 30, endTime: 60, name: 'Test Loop', playCount: 0, isActive: false };
+        const loop = { id: '1', startTime: 30, endTime: 60, name: 'Test Loop', playCount: 0, isActive: false, playbackSpeed: 1 };
         component.duration = 0;
 
         const position = component.getLoopPosition(loop);
@@ -811,7 +813,7 @@ describe('TimelineComponent', () => {
       });
 
       it('should constrain position within bounds', () => {
-        const loop = { id: '1', startTime: 0, endTime: 200, name: 'Test Loop', playCount: 0, isActive: false };
+        const loop = { id: '1', startTime: 0, endTime: 200, name: 'Test Loop', playCount: 0, isActive: false, playbackSpeed: 1 };
         component.duration = 100;
 
         const position = component.getLoopPosition(loop);
@@ -828,9 +830,9 @@ describe('TimelineComponent', () => {
 
       it('should calculate multiple loop positions efficiently', () => {
         const loops = [
-          { id: '1', startTime: 20, endTime: 60, name: 'Loop 1', playCount: 0, isActive: false },
-          { id: '2', startTime: 80, endTime: 120, name: 'Loop 2', playCount: 0, isActive: false },
-          { id: '3', startTime: 140, endTime: 180, name: 'Loop 3', playCount: 0, isActive: false }
+          { id: '1', startTime: 20, endTime: 60, name: 'Loop 1', playCount: 0, isActive: false, playbackSpeed: 1 },
+          { id: '2', startTime: 80, endTime: 120, name: 'Loop 2', playCount: 0, isActive: false, playbackSpeed: 1 },
+          { id: '3', startTime: 140, endTime: 180, name: 'Loop 3', playCount: 0, isActive: false, playbackSpeed: 1 }
         ];
 
         const results = component.getMultipleLoopPositions(loops);
@@ -850,8 +852,8 @@ describe('TimelineComponent', () => {
       it('should return zeros when duration is 0', () => {
         component.duration = 0;
         const loops = [
-          { id: '1', startTime: 20, endTime: 60, name: 'Loop 1', playCount: 0, isActive: false },
-          { id: '2', startTime: 80, endTime: 120, name: 'Loop 2', playCount: 0, isActive: false }
+          { id: '1', startTime: 20, endTime: 60, name: 'Loop 1', playCount: 0, isActive: false, playbackSpeed: 1 },
+          { id: '2', startTime: 80, endTime: 120, name: 'Loop 2', playCount: 0, isActive: false, playbackSpeed: 1 }
         ];
 
         const results = component.getMultipleLoopPositions(loops);
@@ -864,8 +866,8 @@ describe('TimelineComponent', () => {
 
       it('should constrain out-of-bounds loops', () => {
         const loops = [
-          { id: '1', startTime: -10, endTime: 50, name: 'Loop 1', playCount: 0, isActive: false },
-          { id: '2', startTime: 150, endTime: 250, name: 'Loop 2', playCount: 0, isActive: false }
+          { id: '1', startTime: -10, endTime: 50, name: 'Loop 1', playCount: 0, isActive: false, playbackSpeed: 1 },
+          { id: '2', startTime: 150, endTime: 250, name: 'Loop 2', playCount: 0, isActive: false, playbackSpeed: 1 }
         ];
 
         const results = component.getMultipleLoopPositions(loops);
@@ -886,7 +888,7 @@ describe('TimelineComponent', () => {
 
       it('should add selected class for selected loop', () => {
         const loop = testLoops[0];
-        component['_selectedLoopId'] = loop.id;
+        component['_selectedLoopId'].set(loop.id);
         
         const classes = component.getLoopClasses(loop);
         expect(classes).toBe('loop-segment selected');
@@ -903,7 +905,7 @@ describe('TimelineComponent', () => {
 
       it('should combine selected and dragging classes', () => {
         const loop = testLoops[0];
-        component['_selectedLoopId'] = loop.id;
+        component['_selectedLoopId'].set(loop.id);
         component['dragState'].isDragging = true;
         component['dragState'].loopId = loop.id;
         
@@ -933,12 +935,12 @@ describe('TimelineComponent', () => {
         expect(mockEvent.preventDefault).toHaveBeenCalled();
         expect(mockEvent.stopPropagation).toHaveBeenCalled();
         expect(component.loopSelect.emit).toHaveBeenCalledWith(loop.id);
-        expect(component['_selectedLoopId']).toBe(loop.id);
+        expect(component.selectedLoopId).toBe(loop.id);
       });
 
       it('should deselect loop when clicking selected loop', () => {
         const loop = testLoops[0];
-        component['_selectedLoopId'] = loop.id;
+        component['_selectedLoopId'].set(loop.id);
         const mockEvent = {
           preventDefault: jasmine.createSpy('preventDefault'),
           stopPropagation: jasmine.createSpy('stopPropagation')
@@ -947,7 +949,7 @@ describe('TimelineComponent', () => {
         component.onLoopClick(mockEvent, loop);
 
         expect(component.loopDeselect.emit).toHaveBeenCalled();
-        expect(component['_selectedLoopId']).toBeNull();
+        expect(component.selectedLoopId).toBeNull();
       });
 
       it('should not handle clicks when not ready', () => {
@@ -1388,7 +1390,7 @@ describe('TimelineComponent', () => {
   describe('Animations and Micro-interactions (Task 15.5)', () => {
     beforeEach(() => {
       component.loops = [
-        { id: '1', startTime: 10, endTime: 30, name: 'Test Loop', playCount: 0, isActive: false }
+        { id: '1', startTime: 10, endTime: 30, name: 'Test Loop', playCount: 0, isActive: false, playbackSpeed: 1 }
       ];
       component.duration = 100;
       component.isLoading = false;
@@ -1424,7 +1426,7 @@ describe('TimelineComponent', () => {
         const segment = compiled.querySelector('.loop-segment') as HTMLElement;
         
         // Select the loop
-        component['_selectedLoopId'] = '1';
+        component['_selectedLoopId'].set('1');
         fixture.detectChanges();
         
         expect(segment.getAttribute('aria-pressed')).toBe('true');
@@ -1456,9 +1458,9 @@ describe('TimelineComponent', () => {
 
       it('should have staggered animation delay for multiple loops', () => {
         component.loops = [
-          { id: '1', startTime: 10, endTime: 30, name: 'Loop 1', playCount: 0, isActive: false },
-          { id: '2', startTime: 40, endTime: 60, name: 'Loop 2', playCount: 0, isActive: false },
-          { id: '3', startTime: 70, endTime: 90, name: 'Loop 3', playCount: 0, isActive: false }
+          { id: '1', startTime: 10, endTime: 30, name: 'Loop 1', playCount: 0, isActive: false, playbackSpeed: 1 },
+          { id: '2', startTime: 40, endTime: 60, name: 'Loop 2', playCount: 0, isActive: false, playbackSpeed: 1 },
+          { id: '3', startTime: 70, endTime: 90, name: 'Loop 3', playCount: 0, isActive: false, playbackSpeed: 1 }
         ];
         fixture.detectChanges();
 
@@ -1547,14 +1549,14 @@ describe('TimelineComponent', () => {
       it('should expose selectedLoopId through getter', () => {
         expect(component.selectedLoopId).toBe(null);
         
-        component['_selectedLoopId'] = '1';
+        component['_selectedLoopId'].set('1');
         expect(component.selectedLoopId).toBe('1');
       });
 
       it('should update selectedLoopId in template when changed', () => {
         const compiled = fixture.nativeElement as HTMLElement;
         
-        component['_selectedLoopId'] = '1';
+        component['_selectedLoopId'].set('1');
         fixture.detectChanges();
         
         const segment = compiled.querySelector('.loop-segment') as HTMLElement;
@@ -1569,9 +1571,9 @@ describe('TimelineComponent', () => {
 
     beforeEach(() => {
       testLoops = [
-        { id: '1', startTime: 10, endTime: 30, name: 'Intro', playCount: 0, isActive: false },
-        { id: '2', startTime: 50, endTime: 80, name: 'Solo', playCount: 0, isActive: false },
-        { id: '3', startTime: 90, endTime: 120, name: 'Bridge', playCount: 0, isActive: false }
+        { id: '1', startTime: 10, endTime: 30, name: 'Intro', playCount: 0, isActive: false, playbackSpeed: 1 },
+        { id: '2', startTime: 50, endTime: 80, name: 'Solo', playCount: 0, isActive: false, playbackSpeed: 1 },
+        { id: '3', startTime: 90, endTime: 120, name: 'Bridge', playCount: 0, isActive: false, playbackSpeed: 1 }
       ];
       component.loops = testLoops;
       component.duration = 150;
@@ -1638,14 +1640,14 @@ describe('TimelineComponent', () => {
         component.onTrackClick(mockEvent);
 
         expect(component.loopSelect.emit).toHaveBeenCalledWith('1');
-        expect(component['_selectedLoopId']).toBe('1');
+        expect(component.selectedLoopId).toBe('1');
         expect(component.seekTo.emit).toHaveBeenCalledWith(20);
         expect(component.timelineClick.emit).toHaveBeenCalledWith(20);
       });
 
       it('should deselect current loop when clicking outside loops', () => {
         // First select a loop
-        component['_selectedLoopId'] = '1';
+        component['_selectedLoopId'].set('1');
         
         // Click outside loops (at 40 seconds)
         Object.defineProperty(mockEvent, 'clientX', { value: 40, writable: true });
@@ -1653,7 +1655,7 @@ describe('TimelineComponent', () => {
         component.onTrackClick(mockEvent);
 
         expect(component.loopDeselect.emit).toHaveBeenCalled();
-        expect(component['_selectedLoopId']).toBeNull();
+        expect(component.selectedLoopId).toBeNull();
         expect(component.seekTo.emit).toHaveBeenCalledWith(40);
       });
 
@@ -1743,7 +1745,7 @@ describe('TimelineComponent', () => {
       });
 
       it('should deselect when touching outside loops', () => {
-        component['_selectedLoopId'] = '1';
+        component['_selectedLoopId'].set('1');
         
         // Start touch
         const touchStartEvent = {
@@ -1764,7 +1766,7 @@ describe('TimelineComponent', () => {
         component.onTouchEnd(touchEndEvent);
 
         expect(component.loopDeselect.emit).toHaveBeenCalled();
-        expect(component['_selectedLoopId']).toBeNull();
+        expect(component.selectedLoopId).toBeNull();
       });
     });
 
@@ -1777,7 +1779,7 @@ describe('TimelineComponent', () => {
         it('should navigate to specific loop', () => {
           component.navigateToLoop('2');
 
-          expect(component['_selectedLoopId']).toBe('2');
+          expect(component.selectedLoopId).toBe('2');
           expect(component.loopSelect.emit).toHaveBeenCalledWith('2');
           expect(component.seekTo.emit).toHaveBeenCalledWith(50); // Start of loop 2
           expect(component.timelineClick.emit).toHaveBeenCalledWith(50);
@@ -1808,7 +1810,7 @@ describe('TimelineComponent', () => {
         });
 
         it('should navigate to next loop when one is selected', () => {
-          component['_selectedLoopId'] = '1';
+          component['_selectedLoopId'].set('1');
           
           component.navigateToNextLoop();
 
@@ -1817,7 +1819,7 @@ describe('TimelineComponent', () => {
         });
 
         it('should wrap to first loop when at last loop', () => {
-          component['_selectedLoopId'] = '3';
+          component['_selectedLoopId'].set('3');
           
           component.navigateToNextLoop();
 
@@ -1836,7 +1838,7 @@ describe('TimelineComponent', () => {
 
       describe('navigateToPrevLoop', () => {
         it('should navigate to previous loop when one is selected', () => {
-          component['_selectedLoopId'] = '2';
+          component['_selectedLoopId'].set('2');
           
           component.navigateToPrevLoop();
 
@@ -1845,7 +1847,7 @@ describe('TimelineComponent', () => {
         });
 
         it('should wrap to last loop when at first loop', () => {
-          component['_selectedLoopId'] = '1';
+          component['_selectedLoopId'].set('1');
           
           component.navigateToPrevLoop();
 
@@ -1918,7 +1920,7 @@ describe('TimelineComponent', () => {
         component.onLoopClick(mockEvent, loop);
 
         expect(component.loopSelect.emit).toHaveBeenCalledWith('1');
-        expect(component['_selectedLoopId']).toBe('1');
+        expect(component.selectedLoopId).toBe('1');
       });
 
       it('should maintain compatibility with drag operations', () => {
@@ -2017,8 +2019,8 @@ describe('TimelineComponent', () => {
       // Create mock facade with proper signals
       mockTimelineVm = {
         loops: [
-          { id: '1', startTime: 10, endTime: 30, name: 'Test Loop 1', playCount: 0, isActive: false },
-          { id: '2', startTime: 50, endTime: 80, name: 'Test Loop 2', playCount: 0, isActive: false }
+          { id: '1', startTime: 10, endTime: 30, name: 'Test Loop 1', playCount: 0, isActive: false, playbackSpeed: 1 },
+          { id: '2', startTime: 50, endTime: 80, name: 'Test Loop 2', playCount: 0, isActive: false, playbackSpeed: 1 }
         ],
         editingLoop: null,
         activeLoopId: '1',
@@ -2034,7 +2036,7 @@ describe('TimelineComponent', () => {
         'getLoopProgress'
       ], {
         timelineVm: jasmine.createSpy().and.returnValue(mockTimelineVm),
-        activeLoop: jasmine.createSpy().and.returnValue({ id: '1', startTime: 10, endTime: 30, name: 'Test Loop 1', playCount: 0, isActive: true }),
+        activeLoop: jasmine.createSpy().and.returnValue({ id: '1', startTime: 10, endTime: 30, name: 'Test Loop 1', playCount: 0, isActive: true, playbackSpeed: 1 }),
         isLooping: jasmine.createSpy().and.returnValue(true),
         error: jasmine.createSpy().and.returnValue(null)
       });
@@ -2075,7 +2077,7 @@ describe('TimelineComponent', () => {
 
       it('should use input loops when useFacade is false', () => {
         component.useFacade = false;
-        const inputLoops = [{ id: '3', startTime: 100, endTime: 120, name: 'Input Loop', playCount: 0, isActive: false }];
+        const inputLoops = [{ id: '3', startTime: 100, endTime: 120, name: 'Input Loop', playCount: 0, isActive: false, playbackSpeed: 1 }];
         component.loops = inputLoops;
         
         const loops = component.effectiveLoops;
@@ -2193,7 +2195,7 @@ describe('TimelineComponent', () => {
 
       it('should delete loop through facade on keyboard shortcut', () => {
         mockLoopManagerFacade.deleteLoop.and.returnValue({ success: true });
-        component['_selectedLoopId'] = '1';
+        component['_selectedLoopId'].set('1');
         
         const keyEvent = new KeyboardEvent('keydown', { key: 'Delete' });
         component.onKeyDown(keyEvent);
@@ -2204,7 +2206,7 @@ describe('TimelineComponent', () => {
       it('should handle facade deletion errors', () => {
         mockLoopManagerFacade.deleteLoop.and.returnValue({ success: false, error: 'Deletion failed' });
         spyOn(component.validationErrorChange, 'emit');
-        component['_selectedLoopId'] = '1';
+        component['_selectedLoopId'].set('1');
         
         const keyEvent = new KeyboardEvent('keydown', { key: 'Delete' });
         component.onKeyDown(keyEvent);
@@ -2253,7 +2255,7 @@ describe('TimelineComponent', () => {
 
       it('should apply correct loop classes with facade states', () => {
         const testLoop = mockTimelineVm.loops[0];
-        component['_selectedLoopId'] = '1';
+        component['_selectedLoopId'].set('1');
         (mockLoopManagerFacade.isLooping as jasmine.Spy).and.returnValue(true);
         
         const classes = component.getLoopClasses(testLoop);
@@ -2310,7 +2312,7 @@ describe('TimelineComponent', () => {
 
       it('should provide collision recommendations', () => {
         component.loops = [
-          { id: '1', startTime: 20, endTime: 40, name: 'Existing Loop', playCount: 0, isActive: false }
+          { id: '1', startTime: 20, endTime: 40, name: 'Existing Loop', playCount: 0, isActive: false, playbackSpeed: 1 }
         ];
         spyOn(component.validationErrorChange, 'emit');
         
@@ -2445,6 +2447,7 @@ describe('TimelineComponent', () => {
           startTime: 55,
           endTime: 65,
           name: 'Existing Loop',
+          playbackSpeed: 1,
           playCount: 0,
           isActive: false
         }];
@@ -2576,7 +2579,7 @@ describe('TimelineComponent', () => {
     describe('Collision Detection During Creation', () => {
       beforeEach(() => {
         component.loops = [
-          { id: '1', startTime: 30, endTime: 60, name: 'Existing Loop', playCount: 0, isActive: false }
+          { id: '1', startTime: 30, endTime: 60, name: 'Existing Loop', playCount: 0, isActive: false, playbackSpeed: 1 }
         ];
       });
       
@@ -2649,7 +2652,7 @@ describe('TimelineComponent', () => {
       
       it('should not create loop when collision detected', () => {
         component.loops = [
-          { id: '1', startTime: 20, endTime: 40, name: 'Existing', playCount: 0, isActive: false }
+          { id: '1', startTime: 20, endTime: 40, name: 'Existing', playCount: 0, isActive: false, playbackSpeed: 1 }
         ];
         
         component.onTrackMouseDown(mockEvent);
@@ -2739,7 +2742,7 @@ describe('TimelineComponent', () => {
       
       it('should show collision warning during creation collision', () => {
         component.loops = [
-          { id: '1', startTime: 25, endTime: 35, name: 'Collision', playCount: 0, isActive: false }
+          { id: '1', startTime: 25, endTime: 35, name: 'Collision', playCount: 0, isActive: false, playbackSpeed: 1 }
         ];
         
         component['_creationPreview'] = {
@@ -2796,7 +2799,7 @@ describe('TimelineComponent', () => {
           isVisible: true
         };
         component.loops = [
-          { id: '1', startTime: 25, endTime: 35, name: 'Collision', playCount: 0, isActive: false }
+          { id: '1', startTime: 25, endTime: 35, name: 'Collision', playCount: 0, isActive: false, playbackSpeed: 1 }
         ];
         fixture.detectChanges();
         
@@ -2880,4 +2883,249 @@ describe('TimelineComponent', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('Zoom and pan', () => {
+    beforeEach(() => {
+      component.duration = 2400; // 40-minute recording
+      component.currentTime = 0;
+    });
+
+    it('should map positions to the visible range when zoomed', () => {
+      component.setZoom(10, 600, 0);
+
+      expect(component.visibleDuration).toBe(240);
+      expect(component.viewStart).toBe(600);
+      expect(component.getPositionForTime(720)).toBe(50);
+      expect(component.getTimeAtPosition(50)).toBe(720);
+    });
+
+    it('should give short loops a usable width when zoomed', () => {
+      const loop = { id: '1', startTime: 1000, endTime: 1002, name: 'Lick', playbackSpeed: 1, playCount: 0, isActive: false };
+
+      expect(component.getLoopPosition(loop).width).toBeLessThan(0.1);
+
+      component.setZoom(component.maxZoomLevel, 1001);
+
+      expect(component.getLoopPosition(loop).width).toBeCloseTo(40, 1);
+    });
+
+    it('should keep the anchor time in place while zooming', () => {
+      const anchorPosition = component.getPositionForTime(1200);
+
+      component.zoomIn(1200);
+
+      expect(component.getPositionForTime(1200)).toBeCloseTo(anchorPosition, 2);
+      expect(component.zoomLevel).toBe(1.5);
+    });
+
+    it('should keep the viewport inside the video', () => {
+      component.setZoom(4, 2390);
+      component.panBy(1000);
+
+      expect(component.viewEnd).toBe(2400);
+
+      component.panBy(-5000);
+      expect(component.viewStart).toBe(0);
+    });
+
+    it('should not zoom beyond the minimum visible duration', () => {
+      component.setZoom(10000);
+
+      expect(component.visibleDuration).toBe(5);
+    });
+
+    it('should adapt time markers to the zoom level', () => {
+      const overviewMarkers = component.getTimeMarkers();
+      expect(overviewMarkers.length).toBeLessThanOrEqual(10);
+      expect(overviewMarkers[0]!.label).toBe('5:00');
+
+      component.setZoom(40, 60, 0);
+      const zoomedMarkers = component.getTimeMarkers();
+      expect(zoomedMarkers.map(marker => marker.label)).toEqual(['1:00', '1:10', '1:20', '1:30', '1:40', '1:50']);
+    });
+
+    it('should page the viewport to follow the playhead', () => {
+      component.setZoom(10, 0, 0);
+
+      component.currentTime = 300;
+      component.ngOnChanges({ currentTime: new SimpleChange(0, 300, false) });
+
+      expect(component.viewStart).toBeLessThanOrEqual(300);
+      expect(component.viewEnd).toBeGreaterThan(300);
+    });
+
+    it('should stop following the playhead after a manual pan', () => {
+      component.setZoom(10, 0, 0);
+      component.panBy(100);
+
+      component.currentTime = 1500;
+      component.ngOnChanges({ currentTime: new SimpleChange(0, 1500, false) });
+
+      expect(component.followPlayhead).toBe(false);
+      expect(component.viewStart).toBe(100);
+    });
+
+    it('should zoom with Ctrl+wheel around the cursor', () => {
+      const track = document.createElement('div');
+      spyOn(track, 'getBoundingClientRect').and.returnValue({ left: 0, width: 400 } as DOMRect);
+      const event = jasmine.createSpyObj('WheelEvent', ['preventDefault'], {
+        ctrlKey: true,
+        deltaY: -100,
+        clientX: 100,
+        currentTarget: track
+      });
+
+      component.onTrackWheel(event);
+
+      expect(event.preventDefault).toHaveBeenCalled();
+      expect(component.zoomLevel).toBe(1.5);
+      expect(component.getPositionForTime(600)).toBeCloseTo(25, 2);
+    });
+
+    it('should keep the viewport on the focused parent loop and let sub-loops overlap it', () => {
+      const verse = { id: 'verse', startTime: 600, endTime: 840, name: 'Couplet', playbackSpeed: 1, playCount: 0, isActive: false };
+      const riff = { ...verse, id: 'riff', startTime: 620, endTime: 640, name: 'Riff', parentLoopId: 'verse' };
+      component.useFacade = false;
+      component.loops = [verse, riff];
+      component.focusLoop = verse;
+      component.ngOnChanges({ focusLoop: new SimpleChange(null, verse, false) });
+
+      expect(component.viewStart).toBe(600);
+      expect(component.viewEnd).toBe(840);
+
+      component.zoomOut();
+      component.panBy(1000);
+      expect(component.viewEnd).toBe(840);
+
+      expect(component['checkLoopCollision']('riff', 700, 720)).toBe(false);
+      expect(component['checkLoopCollision']('', 650, 660)).toBe(false);
+      expect(component['checkLoopCollision']('', 630, 660)).toBe(true);
+      expect(component.getEnhancedLoopClasses(riff)).toContain('nested');
+      expect(component.getLoopNestingDepth(riff)).toBe(1);
+
+      spyOn(component.loopZoom, 'emit');
+      component.onLoopClick(new MouseEvent('click'), riff);
+      component.onKeyDown(new KeyboardEvent('keydown', { key: 'z' }));
+      expect(component.loopZoom.emit).toHaveBeenCalledWith('riff');
+    });
+
+    it('should show the visible window on the minimap', () => {
+      component.setZoom(4, 1200);
+
+      expect(component.shouldShowMinimap()).toBe(true);
+      expect(component.viewportWindow.width).toBe(25);
+      expect(component.getOverviewPosition(1200)).toBe(50);
+    });
+  });
+
+  describe('Beat grid', () => {
+    beforeEach(() => {
+      component.duration = 60;
+      component.beatGrid = { bpm: 120, beatsPerBar: 4, offset: 0.5 };
+    });
+
+    it('should snap loop edges to the nearest beat', () => {
+      component.beatGrid = { bpm: 100, beatsPerBar: 4, offset: 0.25 };
+
+      expect(component['applyMagneticGuides'](1.95)).toBe(2.05);
+
+      component.beatGrid = null;
+      expect(component['applyMagneticGuides'](1.95)).toBe(2);
+    });
+
+    it('should draw every beat with stronger downbeats, only downbeats when crowded', () => {
+      const lines = component.getBeatGridLines();
+
+      expect(lines.length).toBe(120);
+      expect(lines.slice(0, 5).map(line => line.isDownbeat)).toEqual([true, false, false, false, true]);
+      expect(component.shouldShowMagneticGuides).toBe(false);
+
+      component.duration = 180;
+      expect(component.getBeatGridLines().every(line => line.isDownbeat)).toBe(true);
+    });
+
+    it('should label time markers with bar numbers', () => {
+      component.barMarkers = true;
+
+      const markers = component.getTimeMarkers();
+
+      expect(markers.map(marker => marker.shortLabel)).toEqual(['1', '5', '9', '13', '17', '21', '25', '29']);
+      expect(markers[1]!.label).toBe('Mesure 5 (0:08)');
+    });
+
+    it('should show loop lengths in bars', () => {
+      expect(component.formatLoopLength({ startTime: 0.5, endTime: 6.5 })).toBe('3 mesures');
+      expect(component.formatLoopLength({ startTime: 0.5, endTime: 3.5 })).toBe('1 mesure 2 temps');
+
+      component.beatGrid = null;
+      expect(component.formatLoopLength({ startTime: 0.5, endTime: 6.5 })).toBe('0:06');
+    });
+  });
+
+  describe('Markers', () => {
+    const markers = [
+      { id: 'marker-verse', time: 30, label: 'Couplet', color: '#F59E0B' },
+      { id: 'marker-solo', time: 90, label: 'Solo', color: '#EF4444', note: 'Attaque au médiator' }
+    ];
+    const mouseEvent = (overrides: Partial<MouseEvent> = {}) => ({
+      preventDefault: jasmine.createSpy('preventDefault'),
+      stopPropagation: jasmine.createSpy('stopPropagation'),
+      clientX: 0,
+      shiftKey: false,
+      ...overrides
+    }) as unknown as MouseEvent;
+
+    beforeEach(() => {
+      component.duration = 120;
+      component.currentTime = 45;
+      component.markers = markers;
+      component.useFacade = false;
+    });
+
+    it('should drop a marker at the playhead and jump between markers from the keyboard', () => {
+      spyOn(component.markerCreate, 'emit');
+      spyOn(component.seekTo, 'emit');
+
+      component.onKeyDown(new KeyboardEvent('keydown', { key: 'm' }));
+      component.onKeyDown(new KeyboardEvent('keydown', { key: ']' }));
+      component.onKeyDown(new KeyboardEvent('keydown', { key: '[' }));
+
+      expect(component.markerCreate.emit).toHaveBeenCalledWith(45);
+      expect(component.seekTo.emit).toHaveBeenCalledWith(90);
+      expect(component.seekTo.emit).toHaveBeenCalledWith(30);
+    });
+
+    it('should drag a marker and snap it to the nearest beat', () => {
+      spyOn(component.markerMove, 'emit');
+      const track = { getBoundingClientRect: () => ({ left: 0, width: 1200 }) } as HTMLElement;
+      spyOn(document, 'querySelector').and.returnValue(track);
+      component.beatGrid = { bpm: 60, beatsPerBar: 4, offset: 0 };
+
+      component.onMarkerMouseDown(mouseEvent({ clientX: 300 }), markers[0]!);
+      component.onDocumentMouseMove(mouseEvent({ clientX: 352 }));
+      component.onDocumentMouseUp();
+
+      expect(component.markerMove.emit).toHaveBeenCalledWith({ id: 'marker-verse', time: 35 });
+    });
+
+    it('should create a loop between two markers selected with Shift+click', () => {
+      spyOn(component.loopCreate, 'emit');
+
+      component.onMarkerClick(mouseEvent(), markers[1]!);
+      component.onMarkerClick(mouseEvent({ shiftKey: true }), markers[0]!);
+
+      expect(component.selectedMarkers.map(marker => marker.id)).toEqual(['marker-verse', 'marker-solo']);
+      expect(component.canCreateLoopFromMarkers).toBe(true);
+
+      component.createLoopFromMarkers();
+
+      expect(component.loopCreate.emit).toHaveBeenCalledWith({ startTime: 30, endTime: 90 });
+      expect(component.selectedMarkers).toEqual([]);
+    });
+
+    it('should snap loop edges to markers before the guides', () => {
+      expect(component['applyMagneticGuides'](29.9)).toBe(30);
+      expect(component.getMarkerTitle(markers[1]!)).toBe('Solo (1:30) — Attaque au médiator');
+    });
+  });
+});
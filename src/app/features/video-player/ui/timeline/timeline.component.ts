@@ -1,6 +1,12 @@
-import { Component, Input, Output, EventEmitter, HostListener, inject, OnInit, OnDestroy, effect, ChangeDetectionStrategy, signal, computed } from '@angular/core';
+import { Component, Input, Output, EventEmitter, HostListener, inject, Injector, OnInit, OnChanges, OnDestroy, SimpleChanges, effect, ChangeDetectionStrategy, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { TimelineViewModel, LoopSegment, LoopManagerFacade } from '../../../loop-manager/data-access/loop-manager.facade';
+import { TimelineViewModel, LoopManagerFacade } from '../../../loop-manager/data-access/loop-manager.facade';
+import { LoopSegment } from '@shared/interfaces/loop.types';
+import { Marker } from '@shared/interfaces/marker.types';
+import { adjacentMarker } from '@core/models/marker.model';
+import { getLoopAncestors, getLoopDepth, getLoopDescendants } from '@core/models/loop-nesting.model';
+import { KeyboardShortcutsService } from '@shared/services';
+import { BeatGrid, beatDuration, beatTimesInRange, formatBars, nearestBeatTime } from '@core/utils/beat-grid.utils';
 import { Subject } from 'rxjs';
 
 @Component({
@@ -10,8 +16,10 @@ import { Subject } from 'rxjs';
   styleUrl: './timeline.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush
 })
-export class TimelineComponent implements OnInit, OnDestroy {
+export class TimelineComponent implements OnInit, OnChanges, OnDestroy {
   private readonly loopManagerFacade = inject(LoopManagerFacade);
+  private readonly keyboardShortcuts = inject(KeyboardShortcutsService);
+  private readonly injector = inject(Injector);
   private readonly destroy$ = new Subject<void>();
   // Input properties
   @Input() currentTime = 0;
@@ -23,6 +31,10 @@ export class TimelineComponent implements OnInit, OnDestroy {
   @Input() timelineVm?: TimelineViewModel; // Optional ViewModel input
   @Input() canCreateLoop = true; // Allow loop creation by default
   @Input() useFacade = true; // Enable automatic facade integration
+  @Input() beatGrid: BeatGrid | null = null; // Session tempo: draws the bar/beat grid and snaps loop edges to beats
+  @Input() barMarkers = false; // Label time markers with bar numbers when a beat grid is set
+  @Input() markers: Marker[] = []; // Named cue points drawn as pins, independent of loops
+  @Input() focusLoop: LoopSegment | null = null; // Zoomed parent loop: the viewport and navigation stay within its range
 
   // Output events for navigation
   @Output() seekTo = new EventEmitter<number>();
@@ -40,13 +52,32 @@ export class TimelineComponent implements OnInit, OnDestroy {
   @Output() loopCreate = new EventEmitter<{startTime: number, endTime: number}>();
   @Output() loopDelete = new EventEmitter<string>();
   @Output() loopUpdate = new EventEmitter<{id: string, name?: string, color?: string}>();
+  @Output() loopZoom = new EventEmitter<string>();
+  @Output() loopDuplicate = new EventEmitter<string>(); // Ctrl+C when the host owns the loops: the copy keeps the loop settings
+
+  // Undo history when the host owns the loops (useFacade = false): a drag gesture
+  // is bracketed by loopEditStart/loopEditEnd, Ctrl+Z / Ctrl+Shift+Z are forwarded
+  @Output() loopEditStart = new EventEmitter<{action: 'move' | 'resize', label: string}>();
+  @Output() loopEditEnd = new EventEmitter<void>();
+  @Output() undoRequest = new EventEmitter<void>();
+  @Output() redoRequest = new EventEmitter<void>();
+  
+  // Output events for markers
+  @Output() markerCreate = new EventEmitter<number>();
+  @Output() markerMove = new EventEmitter<{id: string, time: number}>();
+  @Output() markerDelete = new EventEmitter<string>();
   
   // Enhanced output events for facade integration
   @Output() validationErrorChange = new EventEmitter<string>();
   @Output() animationStateChange = new EventEmitter<{state: string, loopId?: string}>();
 
-  // Internal state for seeking animation
-  private isSeeking = false;
+  // Internal state for seeking animation, read by the template
+  isSeeking = false;
+  
+  // Marker selection (up to two, to create a loop between them) and drag state
+  private readonly _selectedMarkerIds = signal<string[]>([]);
+  private markerDrag: {markerId: string, startX: number, initialTime: number, moved: boolean} | null = null;
+  private suppressMarkerClick = false;
   
   // Enhanced touch interaction state for mobile gestures
   private touchStartTime: number | null = null;
@@ -107,18 +138,24 @@ export class TimelineComponent implements OnInit, OnDestroy {
   
   // Signal-based state management for OnPush optimization
   private readonly _selectedLoopId = signal<string | null>(null);
-  private readonly _currentTime = signal<number>(0);
-  private readonly _duration = signal<number>(0);
-  private readonly _isPlaying = signal<boolean>(false);
-  private readonly _loops = signal<LoopSegment[]>([]);
-  private readonly _dragState = signal({
-    isDragging: false,
-    dragType: null as 'move' | 'resize-left' | 'resize-right' | 'create' | null,
-    loopId: null as string | null,
-    startX: 0,
-    initialStartTime: 0,
-    initialEndTime: 0
-  });
+  
+  // Zoomable viewport: the track shows [viewStart, viewStart + duration / zoomLevel]
+  private readonly _zoomLevel = signal(1);
+  private readonly _viewStart = signal(0);
+  private readonly _followPlayhead = signal(true);
+  
+  // Pinch gesture state, the time under the fingers stays under the fingers
+  private pinchState: {
+    initialDistance: number;
+    initialZoom: number;
+    anchorTime: number;
+  } | null = null;
+  
+  private readonly MIN_VISIBLE_DURATION = 5; // seconds shown at maximum zoom
+  private readonly ZOOM_STEP = 1.5; // zoom factor per wheel notch or key press
+  private readonly FOLLOW_PLAYHEAD_LEAD = 0.1; // share of the viewport kept before the playhead when paging
+  private readonly MAX_TIME_MARKERS = 10;
+  private readonly TIME_MARKER_INTERVALS = [1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 900, 1800, 3600];
   
   // Visual creation preview state
   private _creationPreview: {
@@ -144,27 +181,6 @@ export class TimelineComponent implements OnInit, OnDestroy {
     return this._selectedLoopId();
   }
 
-  /**
-   * Computed signals for optimized calculations
-   */
-  private readonly currentTimePercentageSignal = computed(() => {
-    const duration = this._duration();
-    const currentTime = this._currentTime();
-    if (duration === 0) return 0;
-    return Math.min((currentTime / duration) * 100, 100);
-  });
-
-  private readonly effectiveLoopsSignal = computed(() => {
-    if (this.useFacade) {
-      return this.loopManagerFacade.timelineVm().loops;
-    }
-    return this.timelineVm?.loops || this._loops();
-  });
-
-  private readonly sortedLoopsSignal = computed(() => {
-    return [...this.effectiveLoopsSignal()].sort((a, b) => a.startTime - b.startTime);
-  });
-  
   /**
    * Get creation preview state for template binding
    */
@@ -186,10 +202,13 @@ export class TimelineComponent implements OnInit, OnDestroy {
   }
   
   /**
-   * Get effective loops from input, ViewModel, or Facade (optimized with signals)
+   * Get effective loops from input, ViewModel, or Facade
    */
   get effectiveLoops(): LoopSegment[] {
-    return this.effectiveLoopsSignal();
+    if (this.useFacade) {
+      return this.loopManagerFacade.timelineVm().loops;
+    }
+    return this.timelineVm?.loops || this.loops;
   }
 
   /**
@@ -203,7 +222,7 @@ export class TimelineComponent implements OnInit, OnDestroy {
       loops: this.loops,
       editingLoop: null,
       activeLoopId: null,
-      selectedLoopId: this._selectedLoopId,
+      selectedLoopId: this._selectedLoopId(),
       canCreateLoop: this.canCreateLoop
     };
   }
@@ -249,10 +268,10 @@ export class TimelineComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Calculate the current time position as percentage (optimized with computed signal)
+   * Calculate the current time position as percentage of the visible viewport
    */
   get currentTimePercentage(): number {
-    return this.currentTimePercentageSignal();
+    return this.getPositionForTime(this.currentTime);
   }
 
   /**
@@ -283,32 +302,58 @@ export class TimelineComponent implements OnInit, OnDestroy {
     return classes.join(' ');
   }
 
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['focusLoop'] || (changes['duration'] && this.focusLoop)) {
+      this.resetZoom();
+    } else if (changes['duration'] && this._zoomLevel() > this.maxZoomLevel) {
+      this.resetZoom();
+    }
+    if (changes['currentTime']) {
+      this.followCurrentTime();
+    }
+  }
+
   ngOnInit(): void {
     // Setup facade integration if enabled
     if (this.useFacade) {
       this.setupFacadeIntegration();
     }
-    
-    // Initialize signal-based state synchronization
-    this.initializeSignalSync();
+    this.registerHistoryShortcuts();
+  }
+
+  ngOnDestroy(): void {
+    this.unregisterHistoryShortcuts();
+    this.destroy$.next();
+    this.destroy$.complete();
   }
 
   /**
-   * Initialize signal synchronization with inputs for OnPush optimization
+   * Registers Ctrl+Z / Ctrl+Shift+Z to undo and redo loop edits
    */
-  private initializeSignalSync(): void {
-    // Sync input properties with signals for better change detection
-    effect(() => {
-      this._currentTime.set(this.currentTime);
-      this._duration.set(this.duration);
-      this._isPlaying.set(this.isPlaying);
-      this._loops.set(this.loops);
+  private registerHistoryShortcuts(): void {
+    this.keyboardShortcuts.registerShortcut({
+      key: 'z',
+      ctrlKey: true,
+      description: 'Annuler la dernière modification de boucle',
+      category: 'loop',
+      action: () => this.useFacade ? this.loopManagerFacade.undo() : this.undoRequest.emit(),
+      enabled: true
+    });
+
+    this.keyboardShortcuts.registerShortcut({
+      key: 'z',
+      ctrlKey: true,
+      shiftKey: true,
+      description: 'Rétablir la modification de boucle annulée',
+      category: 'loop',
+      action: () => this.useFacade ? this.loopManagerFacade.redo() : this.redoRequest.emit(),
+      enabled: true
     });
   }
 
-  ngOnDestroy(): void {
-    this.destroy$.next();
-    this.destroy$.complete();
+  private unregisterHistoryShortcuts(): void {
+    this.keyboardShortcuts.unregisterShortcut({ key: 'z', ctrlKey: true });
+    this.keyboardShortcuts.unregisterShortcut({ key: 'z', ctrlKey: true, shiftKey: true });
   }
 
   /**
@@ -321,7 +366,7 @@ export class TimelineComponent implements OnInit, OnDestroy {
       if (facadeSelectedId !== this._selectedLoopId()) {
         this._selectedLoopId.set(facadeSelectedId || null);
       }
-    });
+    }, { injector: this.injector });
 
     // Monitor facade errors for visual feedback
     effect(() => {
@@ -329,7 +374,7 @@ export class TimelineComponent implements OnInit, OnDestroy {
       if (error) {
         this.handleValidationError(error);
       }
-    });
+    }, { injector: this.injector });
   }
 
   /**
@@ -343,6 +388,61 @@ export class TimelineComponent implements OnInit, OnDestroy {
     console.warn('Timeline validation error:', error);
   }
 
+  /**
+   * Select a loop (or clear the selection) and notify the parent and the facade
+   */
+  private updateSelectedLoopBatch(loopId: string | null): void {
+    this._selectedLoopId.set(loopId);
+
+    if (loopId === null) {
+      this.loopDeselect.emit();
+      return;
+    }
+
+    if (this.useFacade) {
+      const result = this.loopManagerFacade.selectLoop(loopId);
+      if (!result.success && result.error) {
+        this.validationErrorChange.emit(result.error);
+      }
+    }
+    this.loopSelect.emit(loopId);
+  }
+
+  /**
+   * Create a loop through the facade, or ask the parent to create it
+   */
+  private createLoopAt(startTime: number, endTime: number): void {
+    if (this.useFacade) {
+      this.animationStateChange.emit({ state: 'creating' });
+      const result = this.loopManagerFacade.createLoop(startTime, endTime);
+      if (!result.success && result.error) {
+        this.validationErrorChange.emit(result.error);
+      }
+      return;
+    }
+
+    // Check for collisions before creating
+    if (!this.checkLoopCollision('', startTime, endTime)) {
+      this.loopCreate.emit({ startTime, endTime });
+    }
+  }
+
+  /**
+   * Delete a loop through the facade, or ask the parent to delete it
+   */
+  private deleteLoop(loopId: string): void {
+    if (this.useFacade) {
+      const result = this.loopManagerFacade.deleteLoop(loopId);
+      if (!result.success && result.error) {
+        this.validationErrorChange.emit(result.error);
+        return;
+      }
+    } else {
+      this.loopDelete.emit(loopId);
+    }
+    this.updateSelectedLoopBatch(null);
+  }
+
 
   /**
    * Start seeking state for visual feedback
@@ -361,37 +461,188 @@ export class TimelineComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Convert time to readable format with precision
+   * Convert a position percentage of the visible viewport to a video time
    */
   getTimeAtPosition(percentage: number): number {
-    return (percentage / 100) * this.duration;
+    return this.viewStart + (percentage / 100) * this.visibleDuration;
   }
 
   /**
-   * Get position percentage for a given time with enhanced precision and optimization
+   * Get position percentage in the visible viewport for a given time,
+   * times outside the viewport are pinned to its edges
    */
   getPositionForTime(time: number): number {
     // Handle edge cases
-    if (this.duration === 0 || time < 0) return 0;
-    if (time >= this.duration) return 100;
+    if (this.duration === 0) return 0;
     
-    // Optimized calculation with better precision
-    return Math.round(((time / this.duration) * 100) * 1000) / 1000;
+    const position = ((time - this.viewStart) / this.visibleDuration) * 100;
+    return Math.round(Math.max(0, Math.min(position, 100)) * 1000) / 1000;
   }
 
   /**
    * Get multiple position percentages for an array of times (batch optimization)
    */
   getPositionsForTimes(times: number[]): number[] {
-    if (this.duration === 0) return times.map(() => 0);
+    return times.map(time => this.getPositionForTime(time));
+  }
+
+  /**
+   * Position percentage of a time on the whole video, used by the minimap
+   */
+  getOverviewPosition(time: number): number {
+    if (this.duration === 0) return 0;
+    return Math.round(Math.max(0, Math.min((time / this.duration) * 100, 100)) * 1000) / 1000;
+  }
+
+  // === ZOOM AND PAN ===
+
+  get zoomLevel(): number {
+    return this._zoomLevel();
+  }
+
+  get isZoomed(): boolean {
+    return this._zoomLevel() > 1;
+  }
+
+  get maxZoomLevel(): number {
+    return Math.max(1, this.duration / this.MIN_VISIBLE_DURATION);
+  }
+
+  /**
+   * Zoom showing the whole focused loop, 1 (the whole video) without focus
+   */
+  get minZoomLevel(): number {
+    const focusDuration = this.focusLoop ? this.focusLoop.endTime - this.focusLoop.startTime : 0;
+    if (focusDuration <= 0 || this.duration === 0) return 1;
+    return Math.max(1, Math.min(this.duration / focusDuration, this.maxZoomLevel));
+  }
+
+  get followPlayhead(): boolean {
+    return this._followPlayhead();
+  }
+
+  /**
+   * Duration of the part of the video shown on the track
+   */
+  get visibleDuration(): number {
+    return this.duration / this._zoomLevel();
+  }
+
+  get viewStart(): number {
+    return this.clampViewStart(this._viewStart());
+  }
+
+  get viewEnd(): number {
+    return this.viewStart + this.visibleDuration;
+  }
+
+  /**
+   * Visible window drawn on the minimap, as percentages of the whole video
+   */
+  get viewportWindow(): {left: number, width: number} {
+    return {
+      left: this.getOverviewPosition(this.viewStart),
+      width: Math.round((100 / this._zoomLevel()) * 1000) / 1000
+    };
+  }
+
+  /**
+   * Set the zoom level, keeping anchorTime at the same place on the track.
+   * anchorFraction overrides that place, e.g. to follow the fingers of a pinch.
+   */
+  setZoom(level: number, anchorTime = this.getDefaultZoomAnchor(), anchorFraction?: number): void {
+    if (this.duration === 0) return;
     
-    // Optimized calculation with better precision for multiple times
-    const durationReciprocal = 100 / this.duration;
-    return times.map(time => {
-      if (time < 0) return 0;
-      if (time >= this.duration) return 100;
-      return Math.round((time * durationReciprocal) * 1000) / 1000;
-    });
+    const fraction = anchorFraction ?? (anchorTime - this.viewStart) / this.visibleDuration;
+    const zoom = Math.max(this.minZoomLevel, Math.min(level, this.maxZoomLevel));
+    
+    this._zoomLevel.set(zoom);
+    this._viewStart.set(this.clampViewStart(anchorTime - fraction * this.visibleDuration));
+  }
+
+  zoomIn(anchorTime?: number): void {
+    this.setZoom(this._zoomLevel() * this.ZOOM_STEP, anchorTime);
+  }
+
+  zoomOut(anchorTime?: number): void {
+    this.setZoom(this._zoomLevel() / this.ZOOM_STEP, anchorTime);
+  }
+
+  resetZoom(): void {
+    this._zoomLevel.set(this.minZoomLevel);
+    this._viewStart.set(this.clampViewStart(this.focusLoop?.startTime ?? 0));
+  }
+
+  /**
+   * Scroll the viewport, a manual pan stops following the playhead
+   */
+  panBy(seconds: number): void {
+    if (!this.isZoomed) return;
+    this._followPlayhead.set(false);
+    this._viewStart.set(this.clampViewStart(this.viewStart + seconds));
+  }
+
+  centerViewOn(time: number): void {
+    this._viewStart.set(this.clampViewStart(time - this.visibleDuration / 2));
+  }
+
+  toggleFollowPlayhead(): void {
+    this._followPlayhead.update(follow => !follow);
+    if (this._followPlayhead()) {
+      this.followCurrentTime();
+    }
+  }
+
+  /**
+   * Zoom with Ctrl+wheel (also sent by trackpad pinches), pan with horizontal or Shift+wheel
+   */
+  onTrackWheel(event: WheelEvent): void {
+    if (!this.isReady) return;
+    
+    const rect = (event.currentTarget as HTMLElement).getBoundingClientRect();
+    if (rect.width === 0) return;
+    
+    if (event.ctrlKey || event.metaKey) {
+      event.preventDefault();
+      const anchorTime = this.getTimeAtPosition(((event.clientX - rect.left) / rect.width) * 100);
+      if (event.deltaY < 0) {
+        this.zoomIn(anchorTime);
+      } else {
+        this.zoomOut(anchorTime);
+      }
+      return;
+    }
+    
+    const isHorizontal = Math.abs(event.deltaX) > Math.abs(event.deltaY);
+    if (this.isZoomed && (isHorizontal || event.shiftKey)) {
+      event.preventDefault();
+      const delta = isHorizontal ? event.deltaX : event.deltaY;
+      this.panBy((delta / rect.width) * this.visibleDuration);
+    }
+  }
+
+  /**
+   * Page the viewport so the playhead stays visible while playing
+   */
+  private followCurrentTime(): void {
+    if (!this._followPlayhead() || !this.isZoomed || this.dragState.isDragging || this.pinchState) return;
+    
+    if (this.currentTime < this.viewStart || this.currentTime > this.viewEnd) {
+      this._viewStart.set(this.clampViewStart(this.currentTime - this.visibleDuration * this.FOLLOW_PLAYHEAD_LEAD));
+    }
+  }
+
+  // Zoom keeps the playhead in place when it is visible, the viewport center otherwise
+  private getDefaultZoomAnchor(): number {
+    const isPlayheadVisible = this.currentTime >= this.viewStart && this.currentTime <= this.viewEnd;
+    return isPlayheadVisible ? this.currentTime : this.viewStart + this.visibleDuration / 2;
+  }
+
+  // The viewport stays within the focused loop, or the whole video without focus
+  private clampViewStart(start: number): number {
+    const rangeStart = this.focusLoop?.startTime ?? 0;
+    const rangeEnd = this.focusLoop?.endTime ?? this.duration;
+    return Math.max(rangeStart, Math.min(start, rangeEnd - this.visibleDuration, this.duration - this.visibleDuration));
   }
   
 
@@ -409,7 +660,7 @@ export class TimelineComponent implements OnInit, OnDestroy {
     const touchX = touch.clientX - rect.left;
     const touchY = touch.clientY - rect.top;
     const percentage = Math.min(Math.max(touchX / rect.width, 0), 1);
-    const touchTime = this.applyMagneticGuides(percentage * this.duration);
+    const touchTime = this.applyMagneticGuides(this.getTimeAtPosition(percentage * 100));
     
     // Initialize enhanced touch state
     this.touchStartTime = Date.now();
@@ -434,7 +685,7 @@ export class TimelineComponent implements OnInit, OnDestroy {
     const touchedLoop = this.getLoopAtTime(touchTime);
     if (touchedLoop && event.touches.length === 1) {
       // Check if touch is on a draggable area (loop segment)
-      this.initializeTouchDrag(touchedLoop, touchX, touchTime);
+      this.initializeTouchDrag();
       this.interactionState.focusedElement = event.target as HTMLElement;
     }
     
@@ -474,13 +725,13 @@ export class TimelineComponent implements OnInit, OnDestroy {
     // Handle different gesture types
     switch (this.touchState.gestureType) {
       case 'tap':
-        this.handleTouchTap(touchX, touchY);
+        this.handleTouchTap(touchX);
         break;
       case 'drag':
         this.handleTouchDragEnd();
         break;
       case 'swipe':
-        this.handleTouchSwipe(deltaX, touchX > this.touchState.startX);
+        this.handleTouchSwipe(touchX > this.touchState.startX);
         break;
       case 'pinch':
         this.handleMultiTouchEnd(event);
@@ -507,7 +758,7 @@ export class TimelineComponent implements OnInit, OnDestroy {
     const rect = track.getBoundingClientRect();
     const clickX = event.clientX - rect.left;
     const percentage = Math.min(Math.max(clickX / rect.width, 0), 1);
-    const targetTime = percentage * this.duration;
+    const targetTime = this.getTimeAtPosition(percentage * 100);
     
     // Check if click is within a loop segment
     const clickedLoop = this.getLoopAtTime(targetTime);
@@ -556,7 +807,7 @@ export class TimelineComponent implements OnInit, OnDestroy {
     const rect = track.getBoundingClientRect();
     const mouseX = event.clientX - rect.left;
     const percentage = Math.min(Math.max(mouseX / rect.width, 0), 1);
-    const targetTime = percentage * this.duration;
+    const targetTime = this.getTimeAtPosition(percentage * 100);
     
     // Check if mouse down is in empty space (not on existing loop)
     const clickedLoop = this.getLoopAtTime(targetTime);
@@ -583,17 +834,14 @@ export class TimelineComponent implements OnInit, OnDestroy {
     const rect = track.getBoundingClientRect();
     const clickX = event.clientX - rect.left;
     const percentage = Math.min(Math.max(clickX / rect.width, 0), 1);
-    const clickTime = percentage * this.duration;
+    const clickTime = this.getTimeAtPosition(percentage * 100);
     
     // Create a 5-second loop centered on the click position
     const loopDuration = 5; // 5 seconds
     const startTime = Math.max(0, clickTime - loopDuration / 2);
     const endTime = Math.min(this.duration, startTime + loopDuration);
     
-    // Check for collisions before creating
-    if (!this.checkLoopCollision('', startTime, endTime)) {
-      this.loopCreate.emit({ startTime, endTime });
-    }
+    this.createLoopAt(startTime, endTime);
   }
 
   /**
@@ -676,11 +924,33 @@ export class TimelineComponent implements OnInit, OnDestroy {
       case 'Backspace':
         if (selectedId) {
           event.preventDefault();
-          this.loopDelete.emit(selectedId);
-          this.updateSelectedLoopBatch(null);
+          this.deleteLoop(selectedId);
+        } else if (this._selectedMarkerIds().length > 0) {
+          event.preventDefault();
+          this._selectedMarkerIds().forEach(markerId => this.markerDelete.emit(markerId));
+          this._selectedMarkerIds.set([]);
         }
         break;
         
+      case 'm':
+      case 'M':
+        if (!event.ctrlKey && !event.metaKey && !event.altKey) {
+          // Drop a marker at the playhead
+          event.preventDefault();
+          this.markerCreate.emit(this.currentTime);
+        }
+        break;
+        
+      case '[':
+        event.preventDefault();
+        this.navigateToMarker('previous');
+        break;
+        
+      case ']':
+        event.preventDefault();
+        this.navigateToMarker('next');
+        break;
+        
       case 'l':
       case 'L':
         if ((event.ctrlKey || event.metaKey) && this.canCreateLoops) {
@@ -690,9 +960,7 @@ export class TimelineComponent implements OnInit, OnDestroy {
           const startTime = Math.max(0, this.currentTime - loopDuration / 2);
           const endTime = Math.min(this.duration, startTime + loopDuration);
           
-          if (!this.checkLoopCollision('', startTime, endTime)) {
-            this.loopCreate.emit({ startTime, endTime });
-          }
+          this.createLoopAt(startTime, endTime);
         }
         break;
         
@@ -701,41 +969,61 @@ export class TimelineComponent implements OnInit, OnDestroy {
         if ((event.ctrlKey || event.metaKey) && selectedId) {
           // Copy/duplicate selected loop
           event.preventDefault();
-          const selectedLoop = loops.find(l => l.id === selectedId);
-          if (selectedLoop) {
-            const duration = selectedLoop.endTime - selectedLoop.startTime;
-            const newStartTime = Math.min(this.duration - duration, selectedLoop.endTime + 1);
-            const newEndTime = newStartTime + duration;
-            
-            if (!this.checkLoopCollision('', newStartTime, newEndTime)) {
-              this.loopCreate.emit({ startTime: newStartTime, endTime: newEndTime });
-            }
+          if (this.useFacade) {
+            this.loopManagerFacade.duplicateLoop(selectedId);
+          } else {
+            this.loopDuplicate.emit(selectedId);
           }
         }
         break;
         
+      case 'z':
+      case 'Z':
+        if (selectedId && !event.ctrlKey && !event.metaKey && !event.altKey) {
+          // Zoom into the parent of the selected loop
+          event.preventDefault();
+          this.loopZoom.emit(selectedId);
+        }
+        break;
+        
       case 'Escape':
         // Deselect current loop and cancel any creation mode
         event.preventDefault();
         if (selectedId) {
           this.updateSelectedLoopBatch(null);
-          this.loopDeselect.emit();
         }
+        this._selectedMarkerIds.set([]);
         if (this.isCreatingLoop) {
           this.cancelVisualLoopCreation();
         }
         break;
         
+      case '+':
+      case '=':
+        event.preventDefault();
+        this.zoomIn();
+        break;
+        
+      case '-':
+        event.preventDefault();
+        this.zoomOut();
+        break;
+        
+      case '0':
+        event.preventDefault();
+        this.resetZoom();
+        break;
+        
       case 'Home':
-        // Go to beginning of timeline
+        // Go to beginning of timeline, or of the focused loop
         event.preventDefault();
-        this.seekTo.emit(0);
+        this.seekTo.emit(this.focusLoop?.startTime ?? 0);
         break;
         
       case 'End':
-        // Go to end of timeline
+        // Go to end of timeline, or of the focused loop
         event.preventDefault();
-        this.seekTo.emit(this.duration);
+        this.seekTo.emit(this.focusLoop?.endTime ?? this.duration);
         break;
     }
   }
@@ -746,19 +1034,26 @@ export class TimelineComponent implements OnInit, OnDestroy {
   getLoopPosition(loop: LoopSegment): {left: number, width: number} {
     if (this.duration === 0) return {left: 0, width: 0};
     
-    // Enhanced edge case handling
-    const startTime = Math.max(0, Math.min(loop.startTime, this.duration));
-    const endTime = Math.max(startTime, Math.min(loop.endTime, this.duration));
+    // Loops outside the viewport collapse on its edges
+    const left = this.getPositionForTime(loop.startTime);
+    const right = this.getPositionForTime(Math.max(loop.startTime, loop.endTime));
     
-    // Pre-calculate reciprocal for performance
-    const durationReciprocal = 100 / this.duration;
-    
-    const left = startTime * durationReciprocal;
-    const width = (endTime - startTime) * durationReciprocal;
+    return {
+      left,
+      width: Math.round((right - left) * 1000) / 1000
+    };
+  }
+
+  /**
+   * Get loop segment position on the whole video, used by the minimap
+   */
+  getOverviewLoopPosition(loop: LoopSegment): {left: number, width: number} {
+    const left = this.getOverviewPosition(loop.startTime);
+    const right = this.getOverviewPosition(Math.max(loop.startTime, loop.endTime));
     
     return {
-      left: Math.round(Math.max(0, Math.min(left, 100)) * 1000) / 1000,
-      width: Math.round(Math.max(0, Math.min(width, 100 - left)) * 1000) / 1000
+      left,
+      width: Math.round((right - left) * 1000) / 1000
     };
   }
 
@@ -766,26 +1061,7 @@ export class TimelineComponent implements OnInit, OnDestroy {
    * Get multiple loop positions simultaneously for performance optimization
    */
   getMultipleLoopPositions(loops: LoopSegment[]): Array<{id: string, left: number, width: number}> {
-    if (this.duration === 0) {
-      return loops.map(loop => ({id: loop.id, left: 0, width: 0}));
-    }
-
-    // Pre-calculate reciprocal once for all loops
-    const durationReciprocal = 100 / this.duration;
-    
-    return loops.map(loop => {
-      const startTime = Math.max(0, Math.min(loop.startTime, this.duration));
-      const endTime = Math.max(startTime, Math.min(loop.endTime, this.duration));
-      
-      const left = startTime * durationReciprocal;
-      const width = (endTime - startTime) * durationReciprocal;
-      
-      return {
-        id: loop.id,
-        left: Math.round(Math.max(0, Math.min(left, 100)) * 1000) / 1000,
-        width: Math.round(Math.max(0, Math.min(width, 100 - left)) * 1000) / 1000
-      };
-    });
+    return loops.map(loop => ({id: loop.id, ...this.getLoopPosition(loop)}));
   }
 
   /**
@@ -823,13 +1099,162 @@ export class TimelineComponent implements OnInit, OnDestroy {
       initialEndTime: loop.endTime
     };
     
+    // The whole gesture is one undo step
+    const action = dragType === 'move' ? 'move' : 'resize';
+    const label = `${dragType === 'move' ? 'Déplacer' : 'Redimensionner'} « ${loop.name} »`;
+    if (this.useFacade) {
+      this.loopManagerFacade.beginLoopEdit(action, label);
+    } else {
+      this.loopEditStart.emit({ action, label });
+    }
+    
     this.updateSelectedLoopBatch(loop.id);
   }
 
+  /**
+   * Markers inside the visible range, in time order
+   */
+  get visibleMarkers(): Marker[] {
+    return this.markers
+      .filter(marker => marker.time >= this.viewStart && marker.time <= this.viewEnd)
+      .sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Pin tooltip: label, time and note
+   */
+  getMarkerTitle(marker: Marker): string {
+    const title = `${marker.label} (${this.formatDuration(marker.time)})`;
+    return marker.note ? `${title} — ${marker.note}` : title;
+  }
+
+  isMarkerSelected(markerId: string): boolean {
+    return this._selectedMarkerIds().includes(markerId);
+  }
+
+  isMarkerDragging(markerId: string): boolean {
+    return this.markerDrag?.moved === true && this.markerDrag.markerId === markerId;
+  }
+
+  /**
+   * Selected markers, in time order
+   */
+  get selectedMarkers(): Marker[] {
+    const selectedIds = this._selectedMarkerIds();
+    return this.markers
+      .filter(marker => selectedIds.includes(marker.id))
+      .sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Two selected markers far enough apart bound a new loop
+   */
+  get canCreateLoopFromMarkers(): boolean {
+    const selected = this.selectedMarkers;
+    return this.canCreateLoops &&
+      selected.length === 2 &&
+      selected[1]!.time - selected[0]!.time >= this.PRECISION_DECIMALS &&
+      !this.checkLoopCollision('', selected[0]!.time, selected[1]!.time);
+  }
+
+  /**
+   * Handle marker pin mouse down: starts a drag, or a click if the mouse does not move
+   */
+  onMarkerMouseDown(event: MouseEvent, marker: Marker): void {
+    if (!this.isReady) return;
+    
+    event.preventDefault();
+    event.stopPropagation();
+    
+    this.markerDrag = {
+      markerId: marker.id,
+      startX: event.clientX,
+      initialTime: marker.time,
+      moved: false
+    };
+  }
+
+  /**
+   * Handle marker pin click: seeks to the marker, Shift+click selects a second one
+   */
+  onMarkerClick(event: MouseEvent, marker: Marker): void {
+    event.preventDefault();
+    event.stopPropagation();
+    
+    if (this.suppressMarkerClick) {
+      this.suppressMarkerClick = false;
+      return;
+    }
+    if (!this.isReady) return;
+    
+    this._selectedMarkerIds.update(selectedIds => event.shiftKey
+      ? [...selectedIds.filter(id => id !== marker.id), marker.id].slice(-2)
+      : [marker.id]);
+    this.seekTo.emit(marker.time);
+  }
+
+  /**
+   * Create a loop between the two selected markers
+   */
+  createLoopFromMarkers(): void {
+    if (!this.canCreateLoopFromMarkers) return;
+    
+    const [start, end] = this.selectedMarkers;
+    this.createLoopAt(start!.time, end!.time);
+    this._selectedMarkerIds.set([]);
+  }
+
+  /**
+   * Seek to the next or previous marker from the playhead
+   */
+  private navigateToMarker(direction: 'next' | 'previous'): void {
+    const marker = adjacentMarker(this.markers, this.currentTime, direction);
+    if (marker) {
+      this._selectedMarkerIds.set([marker.id]);
+      this.seekTo.emit(marker.time);
+    }
+  }
+
+  /**
+   * Follow the mouse with the dragged marker, snapped like loop edges
+   */
+  private moveDraggedMarker(clientX: number): void {
+    const drag = this.markerDrag!;
+    const deltaX = clientX - drag.startX;
+    if (!drag.moved && Math.abs(deltaX) < this.getMobileDragThreshold()) return;
+    drag.moved = true;
+    
+    const track = document.querySelector('.timeline-track') as HTMLElement;
+    if (!track) return;
+    
+    const rect = track.getBoundingClientRect();
+    const rawTime = drag.initialTime + (deltaX / rect.width) * this.visibleDuration;
+    const time = this.applyMagneticGuides(Math.max(0, Math.min(this.duration, rawTime)));
+    
+    if (this.markers.find(marker => marker.id === drag.markerId)?.time !== time) {
+      this.markerMove.emit({ id: drag.markerId, time });
+    }
+  }
+
+  /**
+   * Nearest marker within the snap distance, other than the one being dragged
+   */
+  private getNearestMarkerTime(time: number, threshold: number): number | null {
+    let nearest: number | null = null;
+    for (const marker of this.markers) {
+      if (marker.id === this.markerDrag?.markerId) continue;
+      const distance = Math.abs(marker.time - time);
+      if (distance <= threshold && (nearest === null || distance < Math.abs(nearest - time))) {
+        nearest = marker.time;
+      }
+    }
+    return nearest;
+  }
+
   /**
    * Handle loop segment selection
    */
-  onLoopClick(event: MouseEvent, loop: LoopSegment): void {
+  onLoopClick(event: Event, loop: LoopSegment): void {
     if (!this.isReady) return;
     
     event.preventDefault();
@@ -847,6 +1272,10 @@ export class TimelineComponent implements OnInit, OnDestroy {
    */
   @HostListener('document:mousemove', ['$event'])
   onDocumentMouseMove(event: MouseEvent): void {
+    if (this.markerDrag && this.isReady) {
+      this.moveDraggedMarker(event.clientX);
+      return;
+    }
     if (!this.dragState.isDragging || !this.isReady) return;
     
     if (this.dragState.dragType === 'create') {
@@ -859,7 +1288,7 @@ export class TimelineComponent implements OnInit, OnDestroy {
     if (!track) return;
     
     const rect = track.getBoundingClientRect();
-    const rawDeltaTime = (deltaX / rect.width) * this.duration;
+    const rawDeltaTime = (deltaX / rect.width) * this.visibleDuration;
     // Apply temporal precision to delta time
     const deltaTime = this.roundToPrecision(rawDeltaTime, this.PRECISION_DECIMALS);
     
@@ -918,6 +1347,7 @@ export class TimelineComponent implements OnInit, OnDestroy {
     
     // Emit appropriate event with precise time values
     const eventData = {id: this.dragState.loopId!, startTime: newStartTime, endTime: newEndTime};
+    this.applyLoopTimes(eventData);
     if (this.dragState.dragType === 'move') {
       this.loopMove.emit(eventData);
     } else {
@@ -925,14 +1355,31 @@ export class TimelineComponent implements OnInit, OnDestroy {
     }
   }
 
+  /**
+   * Apply new loop bounds to the facade, which records them in the undo history
+   */
+  private applyLoopTimes(change: {id: string, startTime: number, endTime: number}): void {
+    if (!this.useFacade) return;
+    this.loopManagerFacade.updateLoop(change.id, { startTime: change.startTime, endTime: change.endTime });
+  }
+
   /**
    * Global mouse up handler to end drag operations
    */
   @HostListener('document:mouseup', ['$event'])
   onDocumentMouseUp(): void {
+    if (this.markerDrag) {
+      // A drag ends with a click on the pin, which must not select it
+      this.suppressMarkerClick = this.markerDrag.moved;
+      this.markerDrag = null;
+    }
     if (this.dragState.isDragging) {
       if (this.dragState.dragType === 'create') {
         this.finishVisualLoopCreation();
+      } else if (this.useFacade) {
+        this.loopManagerFacade.endLoopEdit();
+      } else {
+        this.loopEditEnd.emit();
       }
       
       // Clear drag feedback and visual states
@@ -959,8 +1406,9 @@ export class TimelineComponent implements OnInit, OnDestroy {
     // Early return if no loops to check
     if (this.effectiveLoops.length === 0) return false;
     
-    // Use cached sorted loops for better performance
-    const loopsToCheck = this.sortedLoops.filter(loop => loop.id !== excludeLoopId);
+    // Use cached sorted loops for better performance, a loop may overlap its parents and sub-loops
+    const nestedIds = this.getNestedLoopIds(excludeLoopId);
+    const loopsToCheck = this.sortedLoops.filter(loop => loop.id !== excludeLoopId && !nestedIds.has(loop.id));
     
     // Optimized collision detection using sorted order
     for (const loop of loopsToCheck) {
@@ -976,6 +1424,30 @@ export class TimelineComponent implements OnInit, OnDestroy {
     return false; // No collision
   }
 
+  /**
+   * IDs of the loops a loop may overlap: its parents and sub-loops.
+   * A new loop (empty ID) becomes a sub-loop of the focused loop.
+   */
+  private getNestedLoopIds(loopId: string): Set<string> {
+    const loops = this.effectiveLoops;
+    const loop = loops.find(l => l.id === loopId);
+
+    if (loop) {
+      return new Set([...getLoopAncestors(loop, loops), ...getLoopDescendants(loop.id, loops)].map(l => l.id));
+    }
+    if (!loopId && this.focusLoop) {
+      return new Set([this.focusLoop, ...getLoopAncestors(this.focusLoop, loops)].map(l => l.id));
+    }
+    return new Set();
+  }
+
+  /**
+   * Nesting level of a loop, sub-loops are drawn inside their parent's band
+   */
+  getLoopNestingDepth(loop: LoopSegment): number {
+    return getLoopDepth(loop, this.effectiveLoops);
+  }
+
   /**
    * Get optimized collision information with better performance and UI feedback
    */
@@ -987,7 +1459,8 @@ export class TimelineComponent implements OnInit, OnDestroy {
     collisionSeverity: 'none' | 'minor' | 'major';
   } {
     // Use optimized collision detection with sorted loops
-    const loopsToCheck = this.sortedLoops.filter(loop => loop.id !== excludeLoopId);
+    const nestedIds = this.getNestedLoopIds(excludeLoopId);
+    const loopsToCheck = this.sortedLoops.filter(loop => loop.id !== excludeLoopId && !nestedIds.has(loop.id));
     const collidingLoops: LoopSegment[] = [];
     let totalOverlapDuration = 0;
 
@@ -1164,6 +1637,8 @@ export class TimelineComponent implements OnInit, OnDestroy {
   // Enhanced precision and caching system for timeline calculations
   private readonly PRECISION_DECIMALS = 0.1; // 0.1 second precision
   private readonly MAGNETIC_GUIDE_INTERVAL = 0.5; // Magnetic guides every 0.5 seconds
+  private readonly BEAT_PRECISION = 0.001; // Beats rarely fall on a tenth of a second
+  private readonly MAX_BEAT_GRID_LINES = 200; // Above this, only the downbeats are drawn
   private readonly POSITION_CACHE_SIZE = 1000;
   private readonly POSITION_CACHE_TTL = 5000; // 5 seconds cache TTL
   
@@ -1175,19 +1650,15 @@ export class TimelineComponent implements OnInit, OnDestroy {
     visualElement?: HTMLElement;
   } | null>(null);
   
-  // Optimized memoization cache for expensive calculations
-  private readonly _memoCache = new Map<string, {result: any, timestamp: number, inputs: string}>();
-  private readonly MEMO_CACHE_TTL = 3000; // 3 seconds for memoization
-  
   // Position calculation cache for performance optimization
   private _positionCache = new Map<string, {position: number, timestamp: number}>();
   private _timeCache = new Map<string, {time: number, timestamp: number}>();
   
   /**
-   * Get sorted loops (optimized with computed signal)
+   * Get loops sorted by start time
    */
   get sortedLoops(): LoopSegment[] {
-    return this.sortedLoopsSignal();
+    return [...this.effectiveLoops].sort((a, b) => a.startTime - b.startTime);
   }
   
   /**
@@ -1229,9 +1700,10 @@ export class TimelineComponent implements OnInit, OnDestroy {
     
     let targetLoop: LoopSegment | null = null;
     
-    if (this._selectedLoopId) {
+    const selectedId = this._selectedLoopId();
+    if (selectedId) {
       // Find next loop after current selection
-      const currentIndex = sortedLoops.findIndex(l => l.id === this._selectedLoopId);
+      const currentIndex = sortedLoops.findIndex(l => l.id === selectedId);
       if (currentIndex >= 0 && currentIndex < sortedLoops.length - 1) {
         targetLoop = sortedLoops[currentIndex + 1];
       } else {
@@ -1258,9 +1730,10 @@ export class TimelineComponent implements OnInit, OnDestroy {
     
     let targetLoop: LoopSegment | null = null;
     
-    if (this._selectedLoopId) {
+    const selectedId = this._selectedLoopId();
+    if (selectedId) {
       // Find previous loop before current selection
-      const currentIndex = sortedLoops.findIndex(l => l.id === this._selectedLoopId);
+      const currentIndex = sortedLoops.findIndex(l => l.id === selectedId);
       if (currentIndex > 0) {
         targetLoop = sortedLoops[currentIndex - 1];
       } else {
@@ -1430,7 +1903,7 @@ export class TimelineComponent implements OnInit, OnDestroy {
     const rect = track.getBoundingClientRect();
     const relativeCurrentX = currentX - rect.left;
     const relativeBounds = Math.min(Math.max(relativeCurrentX, 0), rect.width);
-    const currentTime = (relativeBounds / rect.width) * this.duration;
+    const currentTime = this.getTimeAtPosition((relativeBounds / rect.width) * 100);
     
     // Determine start and end times based on drag direction
     const startTime = Math.min(this.dragState.createStartTime, currentTime);
@@ -1481,13 +1954,10 @@ export class TimelineComponent implements OnInit, OnDestroy {
       // Validate bounds
       const validation = this.validateSegmentBounds(startTime, endTime);
       if (validation.isValid) {
-        this.loopCreate.emit({ startTime, endTime });
+        this.createLoopAt(startTime, endTime);
       } else if (validation.adjustedStartTime !== undefined && validation.adjustedEndTime !== undefined) {
         // Use adjusted bounds if available
-        this.loopCreate.emit({ 
-          startTime: validation.adjustedStartTime, 
-          endTime: validation.adjustedEndTime 
-        });
+        this.createLoopAt(validation.adjustedStartTime, validation.adjustedEndTime);
       }
     }
     
@@ -1519,10 +1989,16 @@ export class TimelineComponent implements OnInit, OnDestroy {
    * Get all magnetic guide times within the timeline duration
    */
   getMagneticGuideTimes(): number[] {
+    if (this.beatGrid) {
+      return beatTimesInRange(this.beatGrid, this.viewStart, Math.min(this.viewEnd, this.duration))
+        .map(beat => this.roundToPrecision(beat.time, this.BEAT_PRECISION));
+    }
+
     const guides: number[] = [];
-    const numGuides = Math.floor(this.duration / this.MAGNETIC_GUIDE_INTERVAL) + 1;
+    const firstGuide = Math.ceil(this.viewStart / this.MAGNETIC_GUIDE_INTERVAL);
+    const lastGuide = Math.floor(this.viewEnd / this.MAGNETIC_GUIDE_INTERVAL);
     
-    for (let i = 0; i < numGuides; i++) {
+    for (let i = firstGuide; i <= lastGuide; i++) {
       const guideTime = i * this.MAGNETIC_GUIDE_INTERVAL;
       if (guideTime <= this.duration) {
         guides.push(this.roundToPrecision(guideTime, this.PRECISION_DECIMALS));
@@ -1546,18 +2022,52 @@ export class TimelineComponent implements OnInit, OnDestroy {
    * Check if magnetic guides should be visible based on zoom/duration
    */
   get shouldShowMagneticGuides(): boolean {
-    // Show guides when duration is reasonable and not too crowded
-    return this.duration > 0 && this.duration <= 300; // 5 minutes max for visibility
+    // The beat grid replaces the guides when the session has a tempo
+    if (this.beatGrid) {
+      return false;
+    }
+    // Show guides when the visible range is reasonable and not too crowded
+    return this.duration > 0 && this.visibleDuration <= 300; // 5 minutes max for visibility
+  }
+
+  /**
+   * Get the bar and beat lines of the visible range, downbeats only when the beats would be too crowded
+   */
+  getBeatGridLines(): Array<{position: number, time: number, bar: number, isDownbeat: boolean}> {
+    if (!this.beatGrid || this.duration === 0) return [];
+
+    const beats = beatTimesInRange(this.beatGrid, this.viewStart, Math.min(this.viewEnd, this.duration));
+    const visibleBeats = beats.length > this.MAX_BEAT_GRID_LINES ? beats.filter(beat => beat.isDownbeat) : beats;
+    if (visibleBeats.length > this.MAX_BEAT_GRID_LINES) return [];
+
+    return visibleBeats.map(beat => {
+      const time = this.roundToPrecision(beat.time, this.BEAT_PRECISION);
+      return {
+        position: this.getPositionForTime(time),
+        time,
+        bar: beat.bar,
+        isDownbeat: beat.isDownbeat
+      };
+    });
+  }
+
+  /**
+   * Loop length in bars and beats when the session has a tempo, in MM:SS otherwise
+   */
+  formatLoopLength(loop: Pick<LoopSegment, 'startTime' | 'endTime'>): string {
+    const seconds = loop.endTime - loop.startTime;
+    return this.beatGrid ? formatBars(this.beatGrid, seconds) : this.formatDuration(seconds);
   }
 
   /**
    * Get currently active magnetic guide (nearest to drag position)
    */
   get activeMagneticGuide(): number | null {
-    if (!this._dragFeedback || !this._dragFeedback.isNearGuide) {
+    const feedback = this._dragFeedback();
+    if (!feedback || !feedback.isNearGuide) {
       return null;
     }
-    return this._dragFeedback.magneticGuideTime;
+    return feedback.magneticGuideTime;
   }
 
   /**
@@ -1572,30 +2082,10 @@ export class TimelineComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Initialize touch drag operation for loop segments
+   * Initialize touch drag operation for loop segments, the drag type is
+   * resolved from the touch position once the drag actually starts
    */
-  private initializeTouchDrag(loop: LoopSegment, touchX: number, touchTime: number): void {
-    // Check if touching near loop boundaries for resize operations
-    const loopPosition = this.getLoopPosition(loop);
-    const track = document.querySelector('.timeline-track') as HTMLElement;
-    if (!track) return;
-    
-    const rect = track.getBoundingClientRect();
-    const loopStartX = (loopPosition.left / 100) * rect.width;
-    const loopEndX = ((loopPosition.left + loopPosition.width) / 100) * rect.width;
-    
-    // Mobile-friendly resize zones (larger touch targets)
-    const resizeZoneWidth = Math.max(20, rect.width * 0.05); // 5% of track width, min 20px
-    
-    let dragType: 'move' | 'resize-left' | 'resize-right' = 'move';
-    
-    if (touchX <= loopStartX + resizeZoneWidth) {
-      dragType = 'resize-left';
-    } else if (touchX >= loopEndX - resizeZoneWidth) {
-      dragType = 'resize-right';
-    }
-    
-    // Pre-configure drag state for potential drag operation
+  private initializeTouchDrag(): void {
     this.touchState.gestureType = 'drag';
     this.touchState.isDragging = false; // Will be set to true if movement exceeds threshold
   }
@@ -1635,22 +2125,20 @@ export class TimelineComponent implements OnInit, OnDestroy {
   /**
    * Handle touch tap gesture
    */
-  private handleTouchTap(touchX: number, touchY: number): void {
+  private handleTouchTap(touchX: number): void {
     const percentage = Math.min(Math.max(touchX / document.querySelector('.timeline-track')!.getBoundingClientRect().width, 0), 1);
-    const targetTime = this.applyMagneticGuides(percentage * this.duration);
+    const targetTime = this.applyMagneticGuides(this.getTimeAtPosition(percentage * 100));
     
     // Check for loop segment at touch position
     const touchedLoop = this.getLoopAtTime(targetTime);
     
     if (touchedLoop) {
       // Select/deselect loop
-      if (this._selectedLoopId !== touchedLoop.id) {
-        this._selectedLoopId = touchedLoop.id;
-        this.loopSelect.emit(touchedLoop.id);
+      if (this._selectedLoopId() !== touchedLoop.id) {
+        this.updateSelectedLoopBatch(touchedLoop.id);
         this.triggerHapticFeedback('selection');
       } else {
-        this._selectedLoopId = null;
-        this.loopDeselect.emit();
+        this.updateSelectedLoopBatch(null);
       }
     } else {
       // Navigate to position
@@ -1658,9 +2146,8 @@ export class TimelineComponent implements OnInit, OnDestroy {
       this.timelineClick.emit(targetTime);
       
       // Deselect any selected loop
-      if (this._selectedLoopId !== null) {
-        this._selectedLoopId = null;
-        this.loopDeselect.emit();
+      if (this._selectedLoopId() !== null) {
+        this.updateSelectedLoopBatch(null);
       }
     }
   }
@@ -1679,7 +2166,7 @@ export class TimelineComponent implements OnInit, OnDestroy {
   /**
    * Handle touch swipe gesture for timeline navigation
    */
-  private handleTouchSwipe(deltaX: number, isRightSwipe: boolean): void {
+  private handleTouchSwipe(isRightSwipe: boolean): void {
     if (isRightSwipe) {
       // Swipe right - navigate to next loop
       this.navigateToNextLoop();
@@ -1700,7 +2187,7 @@ export class TimelineComponent implements OnInit, OnDestroy {
     
     const rect = track.getBoundingClientRect();
     const percentage = Math.min(Math.max(touchX / rect.width, 0), 1);
-    const targetTime = this.applyMagneticGuides(percentage * this.duration);
+    const targetTime = this.applyMagneticGuides(this.getTimeAtPosition(percentage * 100));
     
     this.seekTo.emit(targetTime);
     this.timelineClick.emit(targetTime);
@@ -1712,6 +2199,7 @@ export class TimelineComponent implements OnInit, OnDestroy {
   private cleanupTouchState(): void {
     this.touchStartTime = null;
     this.touchState.gestureType = null;
+    this.pinchState = null;
     this.touchState.isDragging = false;
     this.interactionState.isNavigating = false;
     this.interactionState.focusedElement = null;
@@ -1729,7 +2217,6 @@ export class TimelineComponent implements OnInit, OnDestroy {
     
     const touch = event.touches[0];
     const deltaX = Math.abs(touch.clientX - this.touchState.startX);
-    const deltaY = Math.abs(touch.clientY - this.touchState.startY);
     
     // Update current position
     this.touchState.currentX = touch.clientX;
@@ -1746,12 +2233,12 @@ export class TimelineComponent implements OnInit, OnDestroy {
         const rect = track.getBoundingClientRect();
         const touchX = touch.clientX - rect.left;
         const percentage = Math.min(Math.max(touchX / rect.width, 0), 1);
-        const touchTime = this.applyMagneticGuides(percentage * this.duration);
+        const touchTime = this.applyMagneticGuides(this.getTimeAtPosition(percentage * 100));
         const touchedLoop = this.getLoopAtTime(touchTime);
         
         if (touchedLoop) {
           // Initialize mouse-style drag for touch
-          this.startTouchLoopDrag(touch, touchedLoop, touchTime);
+          this.startTouchLoopDrag(touch, touchedLoop);
           this.triggerHapticFeedback('drag-start');
         }
       }
@@ -1778,7 +2265,7 @@ export class TimelineComponent implements OnInit, OnDestroy {
   /**
    * Start touch-based loop drag operation
    */
-  private startTouchLoopDrag(touch: Touch, loop: LoopSegment, touchTime: number): void {
+  private startTouchLoopDrag(touch: Touch, loop: LoopSegment): void {
     const track = document.querySelector('.timeline-track') as HTMLElement;
     if (!track) return;
     
@@ -1818,8 +2305,8 @@ export class TimelineComponent implements OnInit, OnDestroy {
   getCreationPreviewPosition(): {left: number, width: number} | null {
     if (!this._creationPreview || !this.duration) return null;
     
-    const left = (this._creationPreview.startTime / this.duration) * 100;
-    const width = ((this._creationPreview.endTime - this._creationPreview.startTime) / this.duration) * 100;
+    const left = this.getPositionForTime(this._creationPreview.startTime);
+    const width = this.getPositionForTime(this._creationPreview.endTime) - left;
     
     return {
       left: Math.max(0, Math.min(left, 100)),
@@ -1848,16 +2335,18 @@ export class TimelineComponent implements OnInit, OnDestroy {
 
   /**
    * Apply magnetic guide snapping to time values
-   * Snaps to nearest 0.5-second mark if within threshold
+   * Snaps to a nearby marker, else to nearest beat when a beat grid is set, to the nearest 0.5-second mark otherwise
    */
   private applyMagneticGuides(time: number, threshold: number = 0.15): number {
-    const guideFactor = 1 / this.MAGNETIC_GUIDE_INTERVAL;
-    const nearestGuide = Math.round(time * guideFactor) / guideFactor;
-    const distance = Math.abs(time - nearestGuide);
+    // Markers are explicit boundaries: they win over the guides
+    const markerTime = this.getNearestMarkerTime(time, this.getSnapThreshold(threshold));
+    if (markerTime !== null) {
+      return markerTime;
+    }
     
     // If within threshold distance of a magnetic guide, snap to it
-    if (distance <= threshold) {
-      return this.roundToPrecision(nearestGuide, this.PRECISION_DECIMALS);
+    if (this.isNearMagneticGuide(time, threshold)) {
+      return this.getNearestMagneticGuide(time);
     }
     
     // Otherwise, just apply precision rounding
@@ -1868,18 +2357,33 @@ export class TimelineComponent implements OnInit, OnDestroy {
    * Check if a time value is near a magnetic guide
    */
   private isNearMagneticGuide(time: number, threshold: number = 0.15): boolean {
-    const guideFactor = 1 / this.MAGNETIC_GUIDE_INTERVAL;
-    const nearestGuide = Math.round(time * guideFactor) / guideFactor;
-    return Math.abs(time - nearestGuide) <= threshold;
+    return Math.abs(time - this.getNearestGuideTime(time)) <= this.getSnapThreshold(threshold);
   }
 
   /**
    * Get the nearest magnetic guide time for a given time
    */
   private getNearestMagneticGuide(time: number): number {
+    const precision = this.beatGrid ? this.BEAT_PRECISION : this.PRECISION_DECIMALS;
+    return this.roundToPrecision(this.getNearestGuideTime(time), precision);
+  }
+
+  /**
+   * Nearest beat of the grid, or nearest 0.5-second mark without one
+   */
+  private getNearestGuideTime(time: number): number {
+    if (this.beatGrid) {
+      return nearestBeatTime(this.beatGrid, time);
+    }
     const guideFactor = 1 / this.MAGNETIC_GUIDE_INTERVAL;
-    const nearestGuide = Math.round(time * guideFactor) / guideFactor;
-    return this.roundToPrecision(nearestGuide, this.PRECISION_DECIMALS);
+    return Math.round(time * guideFactor) / guideFactor;
+  }
+
+  /**
+   * Beats pull loop edges from a quarter of a beat away, so edges land on the beat while dragging
+   */
+  private getSnapThreshold(threshold: number): number {
+    return this.beatGrid ? Math.max(threshold, beatDuration(this.beatGrid) / 4) : threshold;
   }
 
   /**
@@ -1890,11 +2394,11 @@ export class TimelineComponent implements OnInit, OnDestroy {
     const isNearGuide = this.isNearMagneticGuide(currentTime);
     const magneticGuideTime = isNearGuide ? this.getNearestMagneticGuide(currentTime) : null;
     
-    this._dragFeedback = {
+    this._dragFeedback.set({
       currentTime,
       magneticGuideTime,
       isNearGuide
-    };
+    });
     
     // Add CSS classes for visual feedback
     document.body.classList.toggle('dragging-near-guide', isNearGuide);
@@ -1905,7 +2409,7 @@ export class TimelineComponent implements OnInit, OnDestroy {
    * Clear drag feedback state
    */
   private clearDragFeedback(): void {
-    this._dragFeedback = null;
+    this._dragFeedback.set(null);
     document.body.classList.remove('dragging-near-guide', 'timeline-dragging', 'drag-collision');
   }
 
@@ -1925,7 +2429,7 @@ export class TimelineComponent implements OnInit, OnDestroy {
     isNearGuide: boolean;
     visualElement?: HTMLElement;
   } | null {
-    return this._dragFeedback;
+    return this._dragFeedback();
   }
 
   /**
@@ -1938,80 +2442,29 @@ export class TimelineComponent implements OnInit, OnDestroy {
   /**
    * TrackBy function for loop segments to optimize *ngFor performance
    */
-  trackLoopById(index: number, loop: LoopSegment): string {
+  trackLoopById(_index: number, loop: LoopSegment): string {
     return loop.id;
   }
 
   /**
    * TrackBy function for magnetic guides
    */
-  trackGuideByPosition(index: number, position: number): number {
+  trackGuideByPosition(_index: number, position: number): number {
     return position;
   }
 
   /**
-   * TrackBy function for time markers
+   * TrackBy function for beat grid lines
    */
-  trackMarkerByPosition(index: number, marker: {position: number, label: string, shortLabel: string}): number {
-    return marker.position;
+  trackBeatLineByTime(_index: number, line: {time: number}): number {
+    return line.time;
   }
 
   /**
-   * Generic memoization helper for expensive calculations
-   */
-  private memoize<T>(key: string, fn: () => T, dependencies: any[]): T {
-    const now = Date.now();
-    const depString = dependencies.join('|');
-    const cached = this._memoCache.get(key);
-    
-    // Check if cached result is valid and fresh
-    if (cached && 
-        cached.inputs === depString && 
-        (now - cached.timestamp) < this.MEMO_CACHE_TTL) {
-      return cached.result;
-    }
-    
-    // Calculate new result
-    const result = fn();
-    
-    // Cache management - clean up if cache is getting large
-    if (this._memoCache.size >= 500) {
-      this.cleanupMemoCache();
-    }
-    
-    // Store result
-    this._memoCache.set(key, {
-      result,
-      timestamp: now,
-      inputs: depString
-    });
-    
-    return result;
-  }
-
-  /**
-   * Clean up expired memoization cache entries
+   * TrackBy function for time markers
    */
-  private cleanupMemoCache(): void {
-    const now = Date.now();
-    const expiredKeys: string[] = [];
-    
-    for (const [key, value] of this._memoCache.entries()) {
-      if (now - value.timestamp > this.MEMO_CACHE_TTL) {
-        expiredKeys.push(key);
-      }
-    }
-    
-    expiredKeys.forEach(key => this._memoCache.delete(key));
-    
-    // If still too large, remove oldest entries
-    if (this._memoCache.size >= 500) {
-      const sortedEntries = Array.from(this._memoCache.entries())
-        .sort((a, b) => a[1].timestamp - b[1].timestamp);
-      
-      const toRemove = sortedEntries.slice(0, Math.floor(500 / 2));
-      toRemove.forEach(([key]) => this._memoCache.delete(key));
-    }
+  trackMarkerByPosition(_index: number, marker: {position: number, label: string, shortLabel: string}): number {
+    return marker.position;
   }
 
   /**
@@ -2035,7 +2488,7 @@ export class TimelineComponent implements OnInit, OnDestroy {
     return {
       hasCollision: true,
       severity: collisionInfo.collisionSeverity,
-      nearestSafePosition: collisionInfo.recommendedPosition
+      ...(collisionInfo.recommendedPosition && { nearestSafePosition: collisionInfo.recommendedPosition })
     };
   }
 
@@ -2048,12 +2501,18 @@ export class TimelineComponent implements OnInit, OnDestroy {
       const touch1 = event.touches[0];
       const touch2 = event.touches[1];
       
-      // Store initial pinch distance and center point
+      // Store initial pinch distance and the time under the center point
       const initialDistance = this.getTouchDistance(touch1, touch2);
       const centerX = (touch1.clientX + touch2.clientX) / 2;
+      const rect = this.getTrackRect();
+      if (!rect || initialDistance === 0) return;
       
       this.touchState.gestureType = 'pinch';
-      // Could store additional pinch state here for zoom implementation
+      this.pinchState = {
+        initialDistance,
+        initialZoom: this._zoomLevel(),
+        anchorTime: this.getTimeAtPosition(((centerX - rect.left) / rect.width) * 100)
+      };
     }
   }
 
@@ -2070,12 +2529,23 @@ export class TimelineComponent implements OnInit, OnDestroy {
       // Calculate current pinch distance and scale
       const currentDistance = this.getTouchDistance(touch1, touch2);
       const centerX = (touch1.clientX + touch2.clientX) / 2;
+      const rect = this.getTrackRect();
+      if (!rect || !this.pinchState) return;
       
-      // Zoom/pan could be implemented here
-      // For now, just prevent default scrolling behavior
+      // Spreading the fingers zooms in, moving them together pans
+      const scale = currentDistance / this.pinchState.initialDistance;
+      const centerFraction = Math.min(Math.max((centerX - rect.left) / rect.width, 0), 1);
+      this._followPlayhead.set(false);
+      this.setZoom(this.pinchState.initialZoom * scale, this.pinchState.anchorTime, centerFraction);
     }
   }
 
+  private getTrackRect(): DOMRect | null {
+    const track = document.querySelector('.timeline-track') as HTMLElement;
+    const rect = track?.getBoundingClientRect();
+    return rect && rect.width > 0 ? rect : null;
+  }
+
   /**
    * Calculate distance between two touch points
    */
@@ -2128,18 +2598,6 @@ export class TimelineComponent implements OnInit, OnDestroy {
     }
   }
 
-  /**
-   * Get mobile-adapted precision threshold for touch interactions
-   */
-  private getMobilePrecisionThreshold(): number {
-    // Larger precision threshold for mobile devices due to finger size
-    const isMobile = 'ontouchstart' in window || navigator.maxTouchPoints > 0;
-    if (isMobile) {
-      return 0.2; // 200ms precision for mobile
-    }
-    return this.PRECISION_DECIMALS; // Standard 100ms precision
-  }
-
   /**
    * Get mobile-adapted magnetic guide threshold
    */
@@ -2191,6 +2649,7 @@ export class TimelineComponent implements OnInit, OnDestroy {
     
     // Check for collisions
     if (!this.checkLoopCollision(selectedId, newStartTime, newEndTime)) {
+      this.applyLoopTimes({ id: selectedId, startTime: newStartTime, endTime: newEndTime });
       this.loopResize.emit({ id: selectedId, startTime: newStartTime, endTime: newEndTime });
     }
   }
@@ -2225,6 +2684,7 @@ export class TimelineComponent implements OnInit, OnDestroy {
     
     // Check for collisions
     if (!this.checkLoopCollision(selectedId, newStartTime, newEndTime)) {
+      this.applyLoopTimes({ id: selectedId, startTime: newStartTime, endTime: newEndTime });
       this.loopMove.emit({ id: selectedId, startTime: newStartTime, endTime: newEndTime });
     }
   }
@@ -2262,7 +2722,7 @@ export class TimelineComponent implements OnInit, OnDestroy {
    * Check if minimap should be displayed for long videos
    */
   shouldShowMinimap(): boolean {
-    return this.duration > 120 && this.effectiveLoops.length > 0; // 2+ minutes with loops
+    return this.isZoomed || (this.duration > 120 && this.effectiveLoops.length > 0); // zoomed, or 2+ minutes with loops
   }
 
   /**
@@ -2292,6 +2752,7 @@ export class TimelineComponent implements OnInit, OnDestroy {
     const percentage = Math.min(Math.max(clickX / rect.width, 0), 1);
     const targetTime = this.applyMagneticGuides(percentage * this.duration);
     
+    this.centerViewOn(targetTime);
     this.seekTo.emit(targetTime);
     this.timelineClick.emit(targetTime);
   }
@@ -2340,6 +2801,10 @@ export class TimelineComponent implements OnInit, OnDestroy {
       classes.push('has-collision-nearby');
     }
     
+    if (loop.parentLoopId) {
+      classes.push('nested');
+    }
+    
     // Touch optimization
     if (this.touchState.isDragging) {
       classes.push('touch-interaction');
@@ -2397,26 +2862,72 @@ export class TimelineComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Get time markers for long videos (every minute)
+   * Get time markers for the visible range, their interval adapts to the zoom level
    */
   getTimeMarkers(): Array<{position: number, label: string, shortLabel: string}> {
     const markers: Array<{position: number, label: string, shortLabel: string}> = [];
-    const intervalMinutes = Math.max(1, Math.floor(this.duration / 300)); // Dynamic interval
+    if (this.duration === 0) return markers;
     
-    for (let minutes = intervalMinutes; minutes * 60 < this.duration; minutes += intervalMinutes) {
-      const timeInSeconds = minutes * 60;
-      const position = (timeInSeconds / this.duration) * 100;
+    if (this.barMarkers && this.beatGrid) {
+      return this.getBarMarkers(this.beatGrid);
+    }
+    
+    const interval = this.getTimeMarkerInterval();
+    const firstMarker = Math.max(1, Math.ceil(this.viewStart / interval));
+    
+    for (let index = firstMarker; index * interval < Math.min(this.viewEnd, this.duration); index++) {
+      const timeInSeconds = index * interval;
       
       markers.push({
-        position,
+        position: this.getPositionForTime(timeInSeconds),
         label: this.formatDuration(timeInSeconds),
-        shortLabel: `${minutes}m`
+        shortLabel: interval % 60 === 0 ? `${timeInSeconds / 60}m` : this.formatDuration(timeInSeconds)
       });
     }
     
     return markers;
   }
 
+  /**
+   * Bar number markers, every 1, 2, 4, 8... bars to stay under MAX_TIME_MARKERS
+   */
+  private getBarMarkers(grid: BeatGrid): Array<{position: number, label: string, shortLabel: string}> {
+    const markers: Array<{position: number, label: string, shortLabel: string}> = [];
+    const barSeconds = beatDuration(grid) * Math.max(1, Math.floor(grid.beatsPerBar));
+    if (barSeconds <= 0) return markers;
+    
+    let barsPerMarker = 1;
+    while (barsPerMarker * barSeconds < this.visibleDuration / this.MAX_TIME_MARKERS) {
+      barsPerMarker *= 2;
+    }
+    
+    // Bar numbers start at 1 on the downbeat at the offset
+    const firstIndex = Math.max(0, Math.ceil((this.viewStart - grid.offset) / barSeconds / barsPerMarker));
+    const end = Math.min(this.viewEnd, this.duration);
+    
+    for (let index = firstIndex; grid.offset + index * barsPerMarker * barSeconds <= end; index++) {
+      const bar = index * barsPerMarker + 1;
+      const timeInSeconds = grid.offset + (bar - 1) * barSeconds;
+      
+      markers.push({
+        position: this.getPositionForTime(timeInSeconds),
+        label: `Mesure ${bar} (${this.formatDuration(timeInSeconds)})`,
+        shortLabel: `${bar}`
+      });
+    }
+    
+    return markers;
+  }
+
+  /**
+   * Smallest round interval keeping the visible markers under MAX_TIME_MARKERS
+   */
+  private getTimeMarkerInterval(): number {
+    const minInterval = this.visibleDuration / this.MAX_TIME_MARKERS;
+    const interval = this.TIME_MARKER_INTERVALS.find(candidate => candidate >= minInterval);
+    return interval ?? Math.ceil(minInterval / 3600) * 3600;
+  }
+
   /**
    * Get touch-optimized classes for timeline container
    */
@@ -2454,18 +2965,6 @@ export class TimelineComponent implements OnInit, OnDestroy {
     this._positionCache.set(key, { position, timestamp });
   }
 
-  /**
-   * Cache time calculation result with TTL management
-   */
-  private cacheTimeResult(key: string, time: number, timestamp: number): void {
-    // Clean old entries if cache is getting large
-    if (this._timeCache.size >= this.POSITION_CACHE_SIZE) {
-      this.cleanupTimeCache();
-    }
-    
-    this._timeCache.set(key, { time, timestamp });
-  }
-
   /**
    * Clean up expired cache entries for position calculations
    */
@@ -2491,31 +2990,6 @@ export class TimelineComponent implements OnInit, OnDestroy {
     }
   }
 
-  /**
-   * Clean up expired cache entries for time calculations
-   */
-  private cleanupTimeCache(): void {
-    const now = Date.now();
-    const expiredKeys: string[] = [];
-    
-    for (const [key, value] of this._timeCache.entries()) {
-      if (now - value.timestamp > this.POSITION_CACHE_TTL) {
-        expiredKeys.push(key);
-      }
-    }
-    
-    expiredKeys.forEach(key => this._timeCache.delete(key));
-    
-    // If still too large, remove oldest entries
-    if (this._timeCache.size >= this.POSITION_CACHE_SIZE) {
-      const sortedEntries = Array.from(this._timeCache.entries())
-        .sort((a, b) => a[1].timestamp - b[1].timestamp);
-      
-      const toRemove = sortedEntries.slice(0, Math.floor(this.POSITION_CACHE_SIZE / 2));
-      toRemove.forEach(([key]) => this._timeCache.delete(key));
-    }
-  }
-
   /**
    * Batch process multiple times with precision rounding
    * Enhanced version of getPositionsForTimes with precision support
@@ -2538,7 +3012,7 @@ export class TimelineComponent implements OnInit, OnDestroy {
     // Check cache first for all times
     times.forEach((time, index) => {
       const preciseTime = this.roundToPrecision(time, this.PRECISION_DECIMALS);
-      const cacheKey = `${preciseTime}_${this.duration}`;
+      const cacheKey = `${preciseTime}_${this.viewStart}_${this.visibleDuration}`;
       const cached = this._positionCache.get(cacheKey);
       
       if (cached && (now - cached.timestamp) < this.POSITION_CACHE_TTL) {
@@ -2551,22 +3025,22 @@ export class TimelineComponent implements OnInit, OnDestroy {
     
     // Calculate uncached positions in batch
     if (uncachedTimes.length > 0) {
-      const durationReciprocal = 100 / this.duration;
+      const durationReciprocal = 100 / this.visibleDuration;
       
       uncachedTimes.forEach(({ time, index }) => {
-        if (time < 0) {
+        if (time <= this.viewStart) {
           results[index] = 0;
-        } else if (time >= this.duration) {
+        } else if (time >= this.viewEnd) {
           results[index] = 100;
         } else {
-          const rawPosition = time * durationReciprocal;
+          const rawPosition = (time - this.viewStart) * durationReciprocal;
           const precisePosition = Math.round(rawPosition * 10000) / 10000; // 4 decimal precision
           const boundedPosition = Math.max(0, Math.min(precisePosition, 100));
           
           results[index] = boundedPosition;
           
           // Cache the result
-          const cacheKey = `${time}_${this.duration}`;
+          const cacheKey = `${time}_${this.viewStart}_${this.visibleDuration}`;
           this.cachePositionResult(cacheKey, boundedPosition, now);
         }
       });
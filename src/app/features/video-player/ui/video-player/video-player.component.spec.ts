@@ -1,6 +1,7 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
 import { ReactiveFormsModule } from '@angular/forms';
 import { signal, computed } from '@angular/core';
+import { ActivatedRoute, convertToParamMap } from '@angular/router';
 import { VideoPlayerComponent } from './video-player.component';
 import { VideoPlayerFacade } from '../../data-access/video-player.facade';
 import { PlayerControlsComponent } from '../player-controls';
@@ -10,6 +11,7 @@ describe('VideoPlayerComponent', () => {
   let component: VideoPlayerComponent;
   let fixture: ComponentFixture<VideoPlayerComponent>;
   let mockFacade: any; // Use any to avoid TypeScript strict checks
+  let mockRoute: any;
 
   beforeEach(async () => {
     const mockVideoPlayerState = {
@@ -34,6 +36,9 @@ describe('VideoPlayerComponent', () => {
       setUrlInput: jasmine.createSpy('setUrlInput'),
       loadVideo: jasmine.createSpy('loadVideo').and.returnValue(Promise.resolve()),
       initializePlayer: jasmine.createSpy('initializePlayer').and.returnValue(Promise.resolve()),
+      loadLocalFile: jasmine.createSpy('loadLocalFile').and.returnValue(Promise.resolve()),
+      applyDeepLink: jasmine.createSpy('applyDeepLink').and.returnValue(true),
+      buildShareLink: jasmine.createSpy('buildShareLink').and.returnValue(null),
       play: jasmine.createSpy('play'),
       pause: jasmine.createSpy('pause'),
       stop: jasmine.createSpy('stop'),
@@ -48,6 +53,10 @@ describe('VideoPlayerComponent', () => {
       // Mock computed signals as functions
       vm: computed(() => mockVideoPlayerState),
       isValidUrl: computed(() => false),
+      isLocalMedia: signal(false),
+      countInBeat: signal(null),
+      restCountdown: signal(null),
+      isDemoMode: false,
       
       // Mock signals needed by PlayerControlsComponent
       playerState: signal({
@@ -65,10 +74,15 @@ describe('VideoPlayerComponent', () => {
       hasError: signal(false)
     };
 
+    mockRoute = {
+      snapshot: { queryParamMap: convertToParamMap({}) }
+    };
+
     await TestBed.configureTestingModule({
       imports: [VideoPlayerComponent, ReactiveFormsModule, PlayerControlsComponent, SpeedControlComponent],
       providers: [
-        { provide: VideoPlayerFacade, useValue: mockFacade }
+        { provide: VideoPlayerFacade, useValue: mockFacade },
+        { provide: ActivatedRoute, useValue: mockRoute }
       ]
     }).compileComponents();
 
@@ -883,4 +897,75 @@ describe('VideoPlayerComponent', () => {
       );
     });
   });
-});
\ No newline at end of file
+
+  describe('Local Media Files', () => {
+    const file = new File(['audio'], 'take.mp3', { type: 'audio/mpeg' });
+
+    it('should open the picked file in a media element', async () => {
+      const input = fixture.nativeElement.querySelector('.local-file-zone input[type="file"]') as HTMLInputElement;
+      expect(input.accept).toBe('audio/*,video/*');
+
+      await component.openLocalFile(file);
+
+      expect(mockFacade.loadLocalFile).toHaveBeenCalledWith(file, jasmine.any(HTMLVideoElement));
+      expect(component.loading()).toBe(false);
+    });
+
+    it('should open a dropped file', () => {
+      const dataTransfer = new DataTransfer();
+      dataTransfer.items.add(file);
+
+      component.onFileDragOver(new DragEvent('dragover', { dataTransfer }));
+      expect(component.isDraggingFile()).toBe(true);
+
+      component.onFileDrop(new DragEvent('drop', { dataTransfer }));
+
+      expect(component.isDraggingFile()).toBe(false);
+      expect(mockFacade.loadLocalFile).toHaveBeenCalledWith(jasmine.any(File), jasmine.any(HTMLVideoElement));
+      expect(mockFacade.loadLocalFile.calls.mostRecent().args[0].name).toBe('take.mp3');
+    });
+  });
+
+  describe('Share Links', () => {
+    it('should restore the video, time, speed and loops of a shared link', async () => {
+      mockRoute.snapshot.queryParamMap = convertToParamMap({
+        v: 'dQw4w9WgXcQ',
+        t: '1m30s',
+        speed: '0.75',
+        loop: ['43-61:Refrain', '100-120']
+      });
+      mockFacade.isValidUrl = computed(() => true);
+
+      const sharedFixture = TestBed.createComponent(VideoPlayerComponent);
+      sharedFixture.detectChanges();
+      await sharedFixture.whenStable();
+
+      expect(mockFacade.loadVideo).toHaveBeenCalledWith('dQw4w9WgXcQ');
+      expect(mockFacade.applyDeepLink).toHaveBeenCalledWith({
+        videoId: 'dQw4w9WgXcQ',
+        startTime: 90,
+        playbackRate: 0.75,
+        loops: [
+          { name: 'Refrain', startTime: 43, endTime: 61 },
+          { name: '', startTime: 100, endTime: 120 }
+        ]
+      });
+    });
+
+    it('should not load anything without a shared video', () => {
+      expect(mockFacade.loadVideo).not.toHaveBeenCalled();
+      expect(mockFacade.applyDeepLink).not.toHaveBeenCalled();
+    });
+
+    it('should copy the share link to the clipboard', async () => {
+      const link = 'http://localhost/video-player?v=dQw4w9WgXcQ&t=90';
+      mockFacade.buildShareLink.and.returnValue(link);
+      spyOn(navigator.clipboard, 'writeText').and.returnValue(Promise.resolve());
+
+      await component.copyShareLink();
+
+      expect(navigator.clipboard.writeText).toHaveBeenCalledWith(link);
+      expect(component.shareLinkStatus()).toBe('copied');
+    });
+  });
+});
@@ -2,14 +2,17 @@ import { Component, inject, OnInit, OnDestroy, ViewChild, ElementRef, signal, ef
 import { CommonModule } from '@angular/common';
 import { ReactiveFormsModule, FormControl, Validators } from '@angular/forms';
 import { DomSanitizer, SafeResourceUrl } from '@angular/platform-browser';
+import { ActivatedRoute } from '@angular/router';
 import { VideoPlayerFacade } from '../../data-access/video-player.facade';
 import { PlayerControlsComponent } from '../player-controls';
 import { SpeedControlComponent } from '../speed-control';
+import { MetronomeControlComponent } from '../metronome-control';
 import { KeyboardShortcutsService } from '@shared/services';
+import { parseDeepLink } from '@core/utils/deep-link.utils';
 
 @Component({
   selector: 'app-video-player',
-  imports: [CommonModule, ReactiveFormsModule, PlayerControlsComponent, SpeedControlComponent],
+  imports: [CommonModule, ReactiveFormsModule, PlayerControlsComponent, SpeedControlComponent, MetronomeControlComponent],
   templateUrl: './video-player.component.html',
   styleUrls: ['./video-player.component.scss']
 })
@@ -17,15 +20,26 @@ export class VideoPlayerComponent implements OnInit, OnDestroy {
   readonly facade = inject(VideoPlayerFacade);
   private readonly sanitizer = inject(DomSanitizer);
   private readonly keyboardShortcuts = inject(KeyboardShortcutsService);
+  private readonly route = inject(ActivatedRoute);
   
   @ViewChild('youtubePlayer', { static: false }) 
   youtubePlayerRef?: ElementRef<HTMLIFrameElement>;
 
+  // Media element of local files, kept across renders and moved into the player when shown
+  private readonly localMediaElement = this.createLocalMediaElement();
+
+  @ViewChild('localMediaHost', { static: false })
+  set localMediaHost(host: ElementRef<HTMLElement> | undefined) {
+    host?.nativeElement.appendChild(this.localMediaElement);
+  }
+
   // Form control for URL input
   readonly urlControl = new FormControl('', [Validators.required]);
   
   // Loading state
   readonly loading = signal(false);
+  readonly isDraggingFile = signal(false);
+  readonly shareLinkStatus = signal<'idle' | 'copied' | 'failed'>('idle');
 
   // Overlay interaction states
   readonly isOverlayVisible = signal(false);
@@ -36,6 +50,7 @@ export class VideoPlayerComponent implements OnInit, OnDestroy {
   private playerInitialized = false;
   private overlayHideTimeout: number | null = null;
   private currentTimePolling: number | null = null;
+  private shareLinkStatusTimeout: number | null = null;
 
   constructor() {
     // Effect to start/stop currentTime polling based on playback state
@@ -63,6 +78,9 @@ export class VideoPlayerComponent implements OnInit, OnDestroy {
 
     // Register keyboard shortcuts for video player
     this.registerVideoPlayerShortcuts();
+
+    // Restore a shared link (?v=&t=&speed=&loop=)
+    this.restoreDeepLink();
   }
 
   ngOnDestroy() {
@@ -70,6 +88,9 @@ export class VideoPlayerComponent implements OnInit, OnDestroy {
     if (this.overlayHideTimeout) {
       clearTimeout(this.overlayHideTimeout);
     }
+    if (this.shareLinkStatusTimeout) {
+      clearTimeout(this.shareLinkStatusTimeout);
+    }
     this.stopCurrentTimePolling();
     this.removeIFrameEventListeners();
     this.unregisterVideoPlayerShortcuts();
@@ -85,7 +106,7 @@ export class VideoPlayerComponent implements OnInit, OnDestroy {
     try {
       const url = this.urlControl.value || '';
       
-      if (!this.playerInitialized && this.youtubePlayerRef) {
+      if (!this.playerInitialized && (this.youtubePlayerRef || this.facade.isDemoMode)) {
         // Initialize player with first video
         await this.facade.initializePlayer('youtube-player', url);
         this.playerInitialized = true;
@@ -103,6 +124,97 @@ export class VideoPlayerComponent implements OnInit, OnDestroy {
     }
   }
 
+  /**
+   * Loads the video of a shared link, then applies its time, speed and loops
+   */
+  private async restoreDeepLink(): Promise<void> {
+    const link = parseDeepLink(this.route.snapshot.queryParamMap);
+    if (!link) {
+      return;
+    }
+
+    this.urlControl.setValue(link.videoId);
+    await this.loadVideo();
+    this.facade.applyDeepLink(link);
+  }
+
+  /**
+   * Copies a link restoring the current video, time, speed and loops
+   */
+  async copyShareLink(): Promise<void> {
+    const link = this.facade.buildShareLink(`${window.location.origin}${window.location.pathname}`);
+    if (!link) {
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(link);
+      this.showShareLinkStatus('copied');
+    } catch (error) {
+      console.error('Erreur lors de la copie du lien:', error);
+      this.showShareLinkStatus('failed');
+    }
+  }
+
+  private showShareLinkStatus(status: 'copied' | 'failed'): void {
+    this.shareLinkStatus.set(status);
+    if (this.shareLinkStatusTimeout) {
+      clearTimeout(this.shareLinkStatusTimeout);
+    }
+    this.shareLinkStatusTimeout = window.setTimeout(() => this.shareLinkStatus.set('idle'), 2000);
+  }
+
+  /**
+   * Opens a local audio/video file in the HTML5 player
+   */
+  async openLocalFile(file: File): Promise<void> {
+    if (this.loading()) {
+      return;
+    }
+
+    this.loading.set(true);
+
+    try {
+      await this.facade.loadLocalFile(file, this.localMediaElement);
+    } finally {
+      this.loading.set(false);
+    }
+  }
+
+  onLocalFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    // Allow picking the same file again
+    input.value = '';
+
+    if (file) {
+      this.openLocalFile(file);
+    }
+  }
+
+  onFileDragOver(event: DragEvent): void {
+    event.preventDefault();
+    event.stopPropagation();
+    this.isDraggingFile.set(true);
+  }
+
+  onFileDragLeave(event: DragEvent): void {
+    event.preventDefault();
+    event.stopPropagation();
+    this.isDraggingFile.set(false);
+  }
+
+  onFileDrop(event: DragEvent): void {
+    event.preventDefault();
+    event.stopPropagation();
+    this.isDraggingFile.set(false);
+
+    const file = event.dataTransfer?.files[0];
+    if (file) {
+      this.openLocalFile(file);
+    }
+  }
+
   /**
    * Generates the YouTube embed URL with appropriate parameters for programmatic control
    */
@@ -191,6 +303,17 @@ export class VideoPlayerComponent implements OnInit, OnDestroy {
     this.facade.setPlaybackRate(rate); // Also call facade for state management
   }
 
+  /**
+   * Creates the <video> element used for local files, audio files play in it too
+   */
+  private createLocalMediaElement(): HTMLVideoElement {
+    const element = document.createElement('video');
+    element.className = 'local-media';
+    element.playsInline = true;
+    element.preload = 'metadata';
+    return element;
+  }
+
   /**
    * Detects if the current device supports touch interactions
    */
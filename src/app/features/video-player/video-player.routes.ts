@@ -9,11 +9,11 @@ export const VIDEO_PLAYER_ROUTES: Routes = [
     path: 'player',
     loadComponent: () => import('./ui/video-player/video-player.component').then(m => m.VideoPlayerComponent)
   },
-  // Temporarily disabled due to TypeScript errors
-  // {
-  //   path: 'timeline',
-  //   loadComponent: () => import('./ui/timeline/timeline.component').then(m => m.TimelineComponent)
-  // },
+  {
+    // Éditeur de boucles plein écran, la vidéo est passée en paramètre (?v=videoId)
+    path: 'timeline',
+    loadComponent: () => import('./pages/timeline-editor-page/timeline-editor-page.component').then(m => m.TimelineEditorPageComponent)
+  },
   {
     path: 'controls',
     loadComponent: () => import('./ui/player-controls/player-controls.component').then(m => m.PlayerControlsComponent)
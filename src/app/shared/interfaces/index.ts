@@ -1 +1,2 @@
-export * from './loop.types';
\ No newline at end of file
+export * from './loop.types';
+export * from './marker.types';
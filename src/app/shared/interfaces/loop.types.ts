@@ -1,4 +1,5 @@
-// Core loop segment interface for the application
+// Canonical loop segment model for the application.
+// Every persisted shape is upgraded to it by core/models/loop.migrations.ts.
 export interface LoopSegment {
   id: string;
   name: string;
@@ -6,6 +7,15 @@ export interface LoopSegment {
   endTime: number; // in seconds
   playbackSpeed: number; // between 0.25 and 2.0
   repeatCount?: number; // optional, defaults to infinite loop
+  completionAction?: LoopCompletionAction; // what happens after the last repetition, defaults to 'stop'
+  completionTargetId?: string; // loop to jump to with the 'jump' action
+  speedRamp?: SpeedRampConfig; // progressive speed trainer, replaces repeatCount while enabled
+  preRoll?: number; // seconds played before startTime on each repetition, not counted in the loop
+  countIn?: CountInConfig; // metronome clicks played while paused before each repetition
+  restGap?: RestGapConfig; // pause after each repetition, before the count-in
+  fadeInOut?: FadeInOutConfig; // volume ramps at the loop boundaries
+  parentLoopId?: string; // loop this sub-loop is drilled inside, it stays within the parent's range
+  review?: LoopReviewSchedule; // spaced-repetition schedule, set by the first self-rating
   color?: string; // optional, for visual distinction
   playCount: number; // tracks how many times played
   isActive: boolean; // whether this loop is currently active
@@ -13,6 +23,51 @@ export interface LoopSegment {
   updatedAt?: Date;
 }
 
+// Behaviour once a loop has played repeatCount times
+export type LoopCompletionAction = 'stop' | 'continue' | 'next' | 'jump';
+
+// Speed trainer: the rate goes from startSpeed to targetSpeed by increment,
+// each step once repetitionsPerStep clean repetitions have been played
+export interface SpeedRampConfig {
+  startSpeed: number;
+  targetSpeed: number;
+  increment: number; // 0 to follow the standard speed steps
+  repetitionsPerStep: number;
+}
+
+// Metronome count-in: beats clicked at bpm before the repetition starts
+export interface CountInConfig {
+  beats: number;
+  bpm: number;
+}
+
+// 'gap' rests for a fixed time, 'call-and-response' for the loop's own duration
+// so that the student can play it back
+export type RestGapMode = 'gap' | 'call-and-response';
+
+export interface RestGapConfig {
+  mode: RestGapMode;
+  seconds: number; // length of a 'gap' rest, unused in call-and-response
+}
+
+// Volume ramps, in seconds of media time: up from the restart point, down to the end
+export interface FadeInOutConfig {
+  fadeIn: number;
+  fadeOut: number;
+}
+
+// Self-rating given after practicing a loop, it sets the next review date
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
+
+// SM-2 review schedule: the interval grows by the ease factor after each successful review
+export interface LoopReviewSchedule {
+  ease: number; // ease factor, 2.5 for a new loop, never below 1.3
+  interval: number; // days between the last review and the next one
+  repetitions: number; // successful reviews in a row, reset by 'again'
+  dueDate: string; // day of the next review, YYYY-MM-DD in local time
+  lastReviewed: string; // day of the last rating, YYYY-MM-DD
+}
+
 // Status types for loop management
 export type LoopStatus = 'active' | 'inactive';
 
@@ -23,6 +78,14 @@ export interface CreateLoopRequest {
   endTime: number;
   playbackSpeed?: number;
   repeatCount?: number;
+  completionAction?: LoopCompletionAction;
+  completionTargetId?: string;
+  speedRamp?: SpeedRampConfig;
+  preRoll?: number;
+  countIn?: CountInConfig;
+  restGap?: RestGapConfig;
+  fadeInOut?: FadeInOutConfig;
+  parentLoopId?: string;
   color?: string;
 }
 
@@ -34,6 +97,14 @@ export interface UpdateLoopRequest {
   endTime?: number;
   playbackSpeed?: number;
   repeatCount?: number;
+  completionAction?: LoopCompletionAction;
+  completionTargetId?: string;
+  speedRamp?: SpeedRampConfig | null; // null disables the speed trainer
+  preRoll?: number;
+  countIn?: CountInConfig | null; // null disables the count-in
+  restGap?: RestGapConfig | null; // null disables the rest gap
+  fadeInOut?: FadeInOutConfig | null; // null disables the fades
+  parentLoopId?: string | null; // null makes it a top-level loop
   color?: string;
   isActive?: boolean;
 }
@@ -55,7 +126,9 @@ export enum LoopValidationError {
   INVALID_PLAYBACK_SPEED = 'INVALID_PLAYBACK_SPEED',
   NEGATIVE_TIME = 'NEGATIVE_TIME',
   ZERO_DURATION = 'ZERO_DURATION',
-  DUPLICATE_NAME = 'DUPLICATE_NAME'
+  DUPLICATE_NAME = 'DUPLICATE_NAME',
+  INVALID_PARENT_LOOP = 'INVALID_PARENT_LOOP',
+  OUTSIDE_PARENT_LOOP = 'OUTSIDE_PARENT_LOOP'
 }
 
 // Configuration for loop behavior
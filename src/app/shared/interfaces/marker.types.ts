@@ -0,0 +1,28 @@
+// Named cue point on the video timeline, stored with the session.
+// Markers are independent of loops: they only mark a time, e.g. "solo starts here".
+export interface Marker {
+  id: string;
+  time: number; // in seconds
+  label: string;
+  color: string;
+  note?: string; // optional free text shown in the pin tooltip
+}
+
+// Request object for creating new markers
+export interface CreateMarkerRequest {
+  time: number;
+  label: string;
+  color?: string;
+  note?: string;
+}
+
+// Request object for updating existing markers
+export interface UpdateMarkerRequest {
+  id: string;
+  time?: number;
+  label?: string;
+  color?: string;
+  note?: string | null; // null removes the note
+}
+
+export const DEFAULT_MARKER_COLOR = '#F59E0B';
@@ -1,9 +1,19 @@
-import { TestBed } from '@angular/core/testing';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
 import { PLATFORM_ID } from '@angular/core';
+import { By } from '@angular/platform-browser';
+import { ActivatedRoute, convertToParamMap, provideRouter } from '@angular/router';
+import { of } from 'rxjs';
+
+import { PLAYER_PORT_FACTORY } from '@core/services/player-port';
+import { FakePlayerFactory } from '@core/services/fake-player';
 
 import { YouTubeService } from '@core/services/youtube.service';
 import { LoopSpeedManagerService } from '@core/services/loop-speed-manager.service';
+import { LoopEngineListener, LoopPlaybackEngineService } from '@core/services/loop-playback-engine.service';
+import { LoopFadeService } from '@core/services/loop-fade.service';
 import { VideoPlayerFacade } from '@features/video-player/data-access/video-player.facade';
+import { TimelineEditorPageComponent } from '@features/video-player/pages/timeline-editor-page/timeline-editor-page.component';
+import { LoopFormComponent, LoopFormData } from '@features/loop-manager/ui/loop-form';
 
 describe('System Integration - Speed Control Validation', () => {
   let youTubeService: YouTubeService;
@@ -148,4 +158,246 @@ describe('System Integration - Speed Control Validation', () => {
     expect(speedManager.hasActiveLoop()).toBe(true);
     expect(speedManager.totalMappings()).toBe(1);
   });
-});
\ No newline at end of file
+});
+
+describe('System Integration - Fake Player', () => {
+  let factory: FakePlayerFactory;
+  let facade: VideoPlayerFacade;
+
+  beforeEach(() => {
+    localStorage.clear();
+    factory = new FakePlayerFactory();
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: PLATFORM_ID, useValue: 'browser' },
+        { provide: PLAYER_PORT_FACTORY, useValue: factory }
+      ]
+    });
+
+    facade = TestBed.inject(VideoPlayerFacade);
+  });
+
+  afterEach(() => {
+    facade.reset();
+    localStorage.clear();
+  });
+
+  it('should drive the video player facade with a manual clock', async () => {
+    await facade.initializePlayer('youtube-player', 'dQw4w9WgXcQ');
+    TestBed.flushEffects();
+
+    facade.play();
+    TestBed.flushEffects();
+    factory.advance(10);
+    facade.refreshCurrentTime();
+
+    expect(facade.isPlaying()).toBe(true);
+    expect(facade.currentTime()).toBe(10);
+
+    facade.setPlaybackRate(0.5);
+    factory.advance(4);
+    facade.refreshCurrentTime();
+
+    expect(facade.currentTime()).toBe(12);
+  });
+
+  it('should save the loops of the fake video in a session', async () => {
+    await facade.initializePlayer('youtube-player', 'dQw4w9WgXcQ');
+    await facade.loadVideo('oHg5SJYRHA0');
+    TestBed.flushEffects();
+
+    expect(facade.currentVideo()?.title).toBe('Exercice de démonstration');
+
+    expect(facade.addLoop('Refrain', 40, 60)).toBe(true);
+    expect(facade.saveCurrentSession()).toBe(true);
+  });
+});
+
+describe('System Integration - Loop Settings', () => {
+  let facade: VideoPlayerFacade;
+  let fixture: ComponentFixture<TimelineEditorPageComponent>;
+  let engine: LoopPlaybackEngineService;
+  let listener: LoopEngineListener;
+  let completeLoop: (loopId: string) => void;
+
+  // Opens the settings of a loop in the timeline editor and saves them
+  const submitLoopSettings = (loopId: string, values: Partial<LoopFormData>) => {
+    fixture.componentInstance.editingLoopId.set(loopId);
+    fixture.detectChanges();
+
+    const form = fixture.debugElement.query(By.directive(LoopFormComponent)).componentInstance as LoopFormComponent;
+    form.loopForm.patchValue(values);
+    form.onSubmit();
+    fixture.detectChanges();
+  };
+
+  beforeEach(async () => {
+    localStorage.clear();
+
+    TestBed.configureTestingModule({
+      imports: [TimelineEditorPageComponent],
+      providers: [
+        { provide: PLATFORM_ID, useValue: 'browser' },
+        { provide: PLAYER_PORT_FACTORY, useValue: new FakePlayerFactory() },
+        provideRouter([]),
+        { provide: ActivatedRoute, useValue: { queryParamMap: of(convertToParamMap({ v: 'dQw4w9WgXcQ' })) } }
+      ]
+    });
+
+    // The engine reports the end of the last pass of a loop to the player
+    engine = TestBed.inject(LoopPlaybackEngineService);
+    spyOn(engine, 'attach').and.callThrough();
+    facade = TestBed.inject(VideoPlayerFacade);
+    listener = (engine.attach as jasmine.Spy).calls.mostRecent().args[1] as LoopEngineListener;
+    completeLoop = loopId => listener.onLoopCompleted(facade.loops().find(loop => loop.id === loopId)!);
+
+    fixture = TestBed.createComponent(TimelineEditorPageComponent);
+    fixture.detectChanges();
+    await fixture.whenStable();
+    TestBed.flushEffects();
+
+    facade.addLoop('Couplet', 10, 20);
+    facade.addLoop('Refrain', 30, 40);
+    fixture.detectChanges();
+  });
+
+  afterEach(() => {
+    fixture.destroy();
+    localStorage.clear();
+  });
+
+  it('should play the next loop once a loop set to "next" in the editor ends', () => {
+    const [verse, chorus] = facade.loops();
+
+    submitLoopSettings(verse!.id, { completionAction: 'next' });
+    expect(facade.loops()[0]!.completionAction).toBe('next');
+
+    facade.startLoop(verse!.id);
+    completeLoop(verse!.id);
+
+    expect(facade.currentTime()).toBe(chorus!.startTime);
+  });
+
+  it('should speed up the loop played by the player with the ramp set in the editor', () => {
+    const verse = facade.loops()[0]!;
+
+    submitLoopSettings(verse.id, {
+      speedRampEnabled: true,
+      rampStartSpeed: 0.6,
+      rampTargetSpeed: 0.7,
+      rampIncrement: 0.05,
+      rampRepetitionsPerStep: 1
+    });
+    expect(facade.loops()[0]!.speedRamp).toEqual({ startSpeed: 0.6, targetSpeed: 0.7, increment: 0.05, repetitionsPerStep: 1 });
+
+    facade.startLoop(verse.id);
+    TestBed.flushEffects();
+    expect(facade.playbackRate()).toBe(0.6);
+
+    listener.onLoopRestarted!(facade.loops()[0]!, 2);
+    expect(facade.playbackRate()).toBe(0.65);
+
+    // New settings while the loop plays take effect from the speed already reached
+    submitLoopSettings(verse.id, { rampTargetSpeed: 0.8 });
+    TestBed.flushEffects();
+    expect(facade.speedRampState()?.config.targetSpeed).toBe(0.8);
+    expect(facade.playbackRate()).toBe(0.65);
+
+    submitLoopSettings(verse.id, { speedRampEnabled: false });
+    TestBed.flushEffects();
+    expect(facade.loops()[0]!.speedRamp).toBeUndefined();
+    expect(facade.speedRampState()).toBeNull();
+  });
+
+  it('should start the loop with the pre-roll and count-in set in the editor', () => {
+    const verse = facade.loops()[0]!;
+
+    submitLoopSettings(verse.id, { preRoll: 2, countInEnabled: true, countInBeats: 4, countInBpm: 120 });
+    expect(facade.loops()[0]!.preRoll).toBe(2);
+    expect(facade.loops()[0]!.countIn).toEqual({ beats: 4, bpm: 120 });
+
+    facade.startLoop(verse.id);
+    expect(facade.currentTime()).toBe(8);
+    expect(facade.countInBeat()).toEqual({ current: 1, total: 4 });
+    expect(facade.isPlaying()).toBeFalse();
+
+    submitLoopSettings(verse.id, { preRoll: 0, countInEnabled: false });
+    expect(facade.loops()[0]!.preRoll).toBe(0);
+    expect(facade.loops()[0]!.countIn).toBeUndefined();
+
+    facade.startLoop(verse.id);
+    expect(facade.currentTime()).toBe(verse.startTime);
+    expect(facade.countInBeat()).toBeNull();
+    expect(facade.isPlaying()).toBeTrue();
+  });
+
+  it('should rest between the passes of the loop with the gap set in the editor', () => {
+    const verse = facade.loops()[0]!;
+
+    submitLoopSettings(verse.id, { restGapMode: 'gap', restGapSeconds: 3 });
+    expect(facade.loops()[0]!.restGap).toEqual({ mode: 'gap', seconds: 3 });
+
+    facade.startLoop(verse.id);
+    listener.onLoopRestarted!(facade.loops()[0]!, 2);
+    expect(facade.restCountdown()).toEqual({ mode: 'gap', remaining: 3 });
+    expect(facade.isPlaying()).toBeFalse();
+
+    submitLoopSettings(verse.id, { restGapMode: '' });
+    expect(facade.loops()[0]!.restGap).toBeUndefined();
+
+    facade.startLoop(verse.id);
+    listener.onLoopRestarted!(facade.loops()[0]!, 2);
+    expect(facade.restCountdown()).toBeNull();
+    expect(facade.isPlaying()).toBeTrue();
+  });
+
+  it('should fade the loop played by the player with the fades set in the editor', () => {
+    const verse = facade.loops()[0]!;
+    const fade = TestBed.inject(LoopFadeService);
+    spyOn(fade, 'start');
+    spyOn(fade, 'stop');
+
+    submitLoopSettings(verse.id, { fadeEnabled: true, fadeIn: 1, fadeOut: 0.5 });
+    expect(facade.loops()[0]!.fadeInOut).toEqual({ fadeIn: 1, fadeOut: 0.5 });
+
+    facade.startLoop(verse.id);
+    TestBed.flushEffects();
+    expect(fade.start).toHaveBeenCalledWith(jasmine.objectContaining({ id: verse.id, fadeInOut: { fadeIn: 1, fadeOut: 0.5 } }));
+
+    // Removing the fades while the loop plays restores the volume
+    (fade.stop as jasmine.Spy).calls.reset();
+    submitLoopSettings(verse.id, { fadeEnabled: false });
+    TestBed.flushEffects();
+    expect(facade.loops()[0]!.fadeInOut).toBeUndefined();
+    expect(fade.stop).toHaveBeenCalled();
+  });
+
+  it('should alternate the loops of a shuffle practice started from the editor over several passes', () => {
+    const button = (selector: string) => fixture.nativeElement.querySelector(selector) as HTMLButtonElement;
+    const playedLoop = () => facade.loops().find(loop => loop.startTime === facade.currentTime())!;
+
+    button('.shuffle-toggle').click();
+    fixture.detectChanges();
+    TestBed.flushEffects();
+    expect(facade.isShuffling()).toBeTrue();
+
+    const played = [playedLoop().name];
+    for (let pass = 0; pass < 5; pass++) {
+      // The drawn loop plays once, then the next one is drawn
+      expect(engine.activeLoop()).toEqual(jasmine.objectContaining({ id: playedLoop().id, repeatCount: 1 }));
+      completeLoop(playedLoop().id);
+      TestBed.flushEffects();
+      played.push(playedLoop().name);
+    }
+
+    // With two loops and no immediate repeat, the practice alternates them
+    expect(played.every((name, i) => i === 0 || name !== played[i - 1])).toBeTrue();
+
+    button('.shuffle-toggle').click();
+    fixture.detectChanges();
+    expect(facade.isShuffling()).toBeFalse();
+    expect(fixture.nativeElement.querySelector('.shuffle-summary-total').textContent).toContain('6 boucles tirées');
+    expect(fixture.nativeElement.querySelectorAll('.shuffle-summary-list li').length).toBe(2);
+  });
+});